@@ -0,0 +1,745 @@
+import { act, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import App from './App';
+import { CRISIS_SCREEN_SCHEMA } from './utils/safety';
+import { encodeWav } from './utils/audioHelpers';
+import { loadActivityLog, loadLiveSessions, loadSessionRecording, loadVocabulary, openDatabase, saveVocabularyChanges } from './utils/storage';
+import { createFakeProvider } from './test/fakeProvider';
+import { FakeAudioContext } from './test/fakeAudioContext';
+import { createCard } from './test/fixtures';
+
+async function clearDatabase() {
+  const db = await openDatabase();
+  const names = Array.from(db.objectStoreNames);
+  const tx = db.transaction(names, 'readwrite');
+  names.forEach(name => tx.objectStore(name).clear());
+  await new Promise(resolve => { tx.oncomplete = resolve; });
+}
+
+async function renderApp(provider = createFakeProvider()) {
+  render(<App aiProvider={provider} />);
+  // Wait for the deck to load from IndexedDB.
+  await screen.findByText('Maimy');
+  return provider;
+}
+
+beforeEach(async () => {
+  await clearDatabase();
+});
+
+describe('text assistant', () => {
+  it('streams an answer into a new thread and reads it aloud', async () => {
+    const provider = await renderApp();
+    fireEvent.change(screen.getByPlaceholderText(/Ask about tribal history/), { target: { value: 'How do I say water?' } });
+    fireEvent.click(screen.getByTitle('Send'));
+
+    expect(await screen.findByText('Hello learner.')).toBeInTheDocument();
+    // The question opens the thread and names it.
+    expect(screen.getByRole('option', { name: 'How do I say water?' })).toBeInTheDocument();
+    const request = provider.streamText.mock.calls[0][0];
+    expect(request.contents).toEqual([{ role: 'user', parts: [{ text: 'How do I say water?' }] }]);
+    expect(request.systemInstruction).toContain('Guyanese tribal languages');
+    expect(request.useSearch).toBe(true);
+    await waitFor(() => expect(provider.synthesizeSpeech).toHaveBeenCalledWith('Hello learner.', expect.any(String)));
+  });
+
+  it('grounds answers in the knowledge base and lists cited entries', async () => {
+    const provider = createFakeProvider([{ text: 'Water is ho [kb:warrau.lex.ho].' }]);
+    await renderApp(provider);
+    fireEvent.change(screen.getByText('Target Language').nextElementSibling!, { target: { value: 'Warrau' } });
+    fireEvent.change(screen.getByPlaceholderText(/Ask about tribal history/), { target: { value: 'What is water?' } });
+    fireEvent.click(screen.getByTitle('Send'));
+
+    expect(await screen.findByText('Knowledge Base')).toBeInTheDocument();
+    expect(provider.streamText.mock.calls[0][0].systemInstruction).toContain('[kb:warrau.lex.ho]');
+    expect(screen.getByText('ho')).toBeInTheDocument();
+    await waitFor(() => expect(provider.synthesizeSpeech).toHaveBeenCalledWith('Water is ho.', expect.any(String)));
+  });
+
+  it('sends earlier turns as history on a follow-up', async () => {
+    const provider = await renderApp();
+    fireEvent.click(screen.getByText("How do I say 'Hello' and 'Thank you'?"));
+    await screen.findByText('Hello learner.');
+    await waitFor(() => expect(screen.getByPlaceholderText(/follow-up/)).toBeInTheDocument());
+
+    fireEvent.change(screen.getByPlaceholderText(/follow-up/), { target: { value: 'And goodbye?' } });
+    fireEvent.click(screen.getByTitle('Send'));
+
+    await waitFor(() => expect(provider.streamText).toHaveBeenCalledTimes(2));
+    expect(provider.streamText.mock.calls[1][0].contents.map((c: { role: string }) => c.role)).toEqual(['user', 'model', 'user']);
+  });
+
+  it('answers crisis messages with local helplines without calling the model', async () => {
+    const provider = await renderApp();
+    fireEvent.change(screen.getByPlaceholderText(/Ask about tribal history/), { target: { value: 'me gon drink de gramoxone tonight' } });
+    fireEvent.click(screen.getByTitle('Send'));
+
+    const panel = await screen.findByRole('alertdialog');
+    expect(screen.getByText(/call Inter-Agency Suicide Prevention Helpline on 223-0001/)).toBeInTheDocument();
+    expect(within(panel).getByText('223-0001')).toHaveAttribute('href', 'tel:2230001');
+    expect(provider.streamText).not.toHaveBeenCalled();
+    expect(provider.generateJson).not.toHaveBeenCalled();
+
+    fireEvent.change(within(panel).getByLabelText('Region'), { target: { value: 'BR' } });
+    expect(within(panel).getByText('188')).toBeInTheDocument();
+    fireEvent.click(within(panel).getByText('Back to the App'));
+    expect(screen.queryByRole('alertdialog')).not.toBeInTheDocument();
+  });
+
+  it('asks the model about a distress message the English rules cannot read', async () => {
+    const provider = createFakeProvider();
+    provider.generateJson.mockResolvedValue({ risk: 'high', reason: 'Talks of going away from everybody for good.' });
+    await renderApp(provider);
+    fireEvent.change(screen.getByPlaceholderText(/Ask about tribal history/), { target: { value: 'Ah feel like ah want go way from everybody fuh good' } });
+    fireEvent.click(screen.getByTitle('Send'));
+
+    expect(await screen.findByRole('alertdialog')).toBeInTheDocument();
+    expect(provider.generateJson.mock.calls[0][0].schema).toBe(CRISIS_SCREEN_SCHEMA);
+    expect(provider.streamText).not.toHaveBeenCalled();
+  });
+
+  it('asks the model about possible risk and answers when it finds none', async () => {
+    const provider = createFakeProvider();
+    provider.generateJson.mockResolvedValue({ risk: 'none', reason: 'A question about the word.' });
+    await renderApp(provider);
+    fireEvent.change(screen.getByPlaceholderText(/Ask about tribal history/), { target: { value: 'Why is the word for suicide avoided?' } });
+    fireEvent.click(screen.getByTitle('Send'));
+
+    await waitFor(() => expect(provider.streamText).toHaveBeenCalled());
+    expect(provider.generateJson.mock.calls[0][0].schema).toBe(CRISIS_SCREEN_SCHEMA);
+    expect(screen.queryByRole('alertdialog')).not.toBeInTheDocument();
+  });
+
+  it('shows provider errors', async () => {
+    const provider = createFakeProvider();
+    provider.streamText.mockImplementation(async function* () {
+      throw new Error('quota exceeded');
+    });
+    await renderApp(provider);
+    fireEvent.change(screen.getByPlaceholderText(/Ask about tribal history/), { target: { value: 'Hi' } });
+    fireEvent.click(screen.getByTitle('Send'));
+
+    expect(await screen.findByText('Error in text query: quota exceeded')).toBeInTheDocument();
+  });
+});
+
+describe('vocabulary', () => {
+  it('adds a card, fetches its transcription and saves it', async () => {
+    const provider = await renderApp();
+    fireEvent.click(screen.getByText('New Word'));
+    fireEvent.change(screen.getByPlaceholderText('e.g. Maimy'), { target: { value: 'Tuna' } });
+    fireEvent.change(screen.getByPlaceholderText('e.g. Water'), { target: { value: 'River' } });
+    fireEvent.click(screen.getByText('Save Card'));
+
+    expect(await screen.findByText('Tuna')).toBeInTheDocument();
+    expect(await screen.findByText('/fake/')).toBeInTheDocument();
+    expect(provider.generateJson.mock.calls[0][0].contents).toContain('"Tuna"');
+    await waitFor(async () => {
+      const saved = await loadVocabulary();
+      expect(saved?.find(i => i.word === 'Tuna')).toMatchObject({ translation: 'River', phoneticTranscription: '/fake/' });
+    });
+  });
+
+  it('fetches every pronunciation form and shows the ones the learner picks', async () => {
+    const provider = createFakeProvider();
+    provider.generateJson.mockResolvedValue({ transcription: 'ˈtu.na', orthography: 'tuna', respelling: 'TOO-nah', syllables: 'TU·na' });
+    await renderApp(provider);
+    fireEvent.click(screen.getByText('New Word'));
+    fireEvent.change(screen.getByPlaceholderText('e.g. Maimy'), { target: { value: 'Tuna' } });
+    fireEvent.change(screen.getByText('Dialect/Language').nextElementSibling!, { target: { value: 'Macushi' } });
+    fireEvent.change(screen.getByPlaceholderText('e.g. Water'), { target: { value: 'Water' } });
+    fireEvent.click(screen.getByText('Save Card'));
+
+    expect(await screen.findByText('TOO-nah')).toBeInTheDocument();
+    expect(screen.getByText('/ˈtu.na/')).toBeInTheDocument();
+    expect(screen.queryByText('TU·na')).not.toBeInTheDocument();
+    expect(provider.generateJson.mock.calls[0][0].contents).toContain('in Macushi practical spelling. Macushi is written in the Latin alphabet.');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Syllables' }));
+    fireEvent.click(screen.getByRole('button', { name: 'IPA' }));
+    expect(screen.getByText('TU·na')).toBeInTheDocument();
+    expect(screen.queryByText('/ˈtu.na/')).not.toBeInTheDocument();
+    expect(JSON.parse(localStorage.getItem('guyanese_pronunciation_forms_v1')!)).toEqual(['respelling', 'syllables']);
+    await waitFor(async () => {
+      const saved = await loadVocabulary();
+      expect(saved?.find(i => i.word === 'Tuna')?.pronunciation).toEqual({ orthography: 'tuna', respelling: 'TOO-nah', syllables: 'TU·na' });
+    });
+  });
+
+  it('fills in forms that cards saved earlier are missing, one card or the whole deck', async () => {
+    const provider = createFakeProvider();
+    provider.generateJson.mockImplementation(async ({ contents }) => ({
+      transcription: 'ignored',
+      respelling: String(contents).includes('"Maimy"') ? 'MY-mee' : 'KWAY-kway',
+    }));
+    await renderApp(provider);
+
+    const maimy = screen.getByText('Maimy').closest('.group') as HTMLElement;
+    fireEvent.click(within(maimy).getByText('+ Fill In'));
+    expect(await screen.findByText('MY-mee')).toBeInTheDocument();
+    // The IPA the card already had is kept.
+    expect(within(maimy).getByText('/ˈmaɪ.mi/')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Syllables' }));
+    fireEvent.click(screen.getByText('Fill In 2 Cards'));
+    expect(await screen.findByText('KWAY-kway')).toBeInTheDocument();
+    await waitFor(() => expect(provider.generateJson).toHaveBeenCalledTimes(3));
+  });
+
+  it('does not add a card without a translation', async () => {
+    await renderApp();
+    fireEvent.click(screen.getByText('New Word'));
+    fireEvent.change(screen.getByPlaceholderText('e.g. Maimy'), { target: { value: 'Tuna' } });
+    fireEvent.click(screen.getByText('Save Card'));
+
+    expect(screen.getByText('Add to Lexicon')).toBeInTheDocument();
+    expect(screen.queryByRole('heading', { name: 'Tuna' })).not.toBeInTheDocument();
+  });
+
+  it('deletes a card', async () => {
+    await renderApp();
+    const card = screen.getByRole('heading', { name: 'Maimy' }).closest('.group') as HTMLElement;
+    fireEvent.click(within(card).getByTitle('Delete card'));
+
+    await waitFor(() => expect(screen.queryByText('Maimy')).not.toBeInTheDocument());
+    await waitFor(async () => {
+      const saved = await loadVocabulary();
+      expect(saved?.some(i => i.word === 'Maimy')).toBe(false);
+    });
+  });
+
+  it('edits a transcription and undoes it from the card history', async () => {
+    await renderApp();
+    const card = () => screen.getByRole('heading', { name: 'Maimy' }).closest('.group') as HTMLElement;
+    fireEvent.click(within(card()).getByTitle('Edit card'));
+    const ipa = screen.getByLabelText('IPA Transcription') as HTMLInputElement;
+    fireEvent.change(ipa, { target: { value: '/ˈmaɪ.m/' } });
+    // A single vowel is typed from the symbol palette at the cursor.
+    ipa.setSelectionRange(7, 7);
+    fireEvent.click(screen.getByTitle('Insert ɨ'));
+    fireEvent.click(screen.getByText('Save Changes'));
+
+    expect(await within(card()).findByText('/ˈmaɪ.mɨ/')).toBeInTheDocument();
+    await waitFor(async () => {
+      const saved = await loadVocabulary();
+      expect(saved?.find(i => i.word === 'Maimy')?.phoneticTranscription).toBe('/ˈmaɪ.mɨ/');
+    });
+
+    fireEvent.click(within(card()).getByTitle('Edit card'));
+    // Wait for the history to load.
+    fireEvent.click(await screen.findByText('Undo Last Change'));
+    expect(await screen.findByText('Restored earlier version (IPA)')).toBeInTheDocument();
+    expect(screen.getByLabelText('IPA Transcription')).toHaveValue('/ˈmaɪ.mi/');
+    fireEvent.click(screen.getByText('Close'));
+
+    expect(within(card()).getByText('/ˈmaɪ.mi/')).toBeInTheDocument();
+    await waitFor(async () => {
+      const saved = await loadVocabulary();
+      expect(saved?.find(i => i.word === 'Maimy')?.phoneticTranscription).toBe('/ˈmaɪ.mi/');
+    });
+  });
+
+  it('imports a WAV file as the card audio', async () => {
+    await renderApp();
+    const card = screen.getByRole('heading', { name: 'Maimy' }).closest('.group') as HTMLElement;
+    fireEvent.click(within(card).getByTitle('Edit card'));
+    const samples = new Float32Array(9600);
+    samples.fill(0.1, 4000, 5600);
+    const file = new File([encodeWav(samples, 16000)], 'maimy.wav', { type: 'audio/wav' });
+    // jsdom's File has no arrayBuffer().
+    Object.defineProperty(file, 'arrayBuffer', { value: async () => encodeWav(samples, 16000).buffer });
+    fireEvent.change(screen.getByLabelText('Import audio'), { target: { files: [file] } });
+    expect(await screen.findByText('Your recording')).toBeInTheDocument();
+
+    const createObjectURL = vi.fn((_blob: Blob) => 'blob:card-audio');
+    Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() });
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    fireEvent.click(screen.getByText('Download'));
+    // Trimmed to the 0.1 s sound plus 0.1 s padding each side and converted to the 24 kHz card rate, as 16-bit WAV.
+    const wav = createObjectURL.mock.calls[0][0];
+    expect(wav.type).toBe('audio/wav');
+    expect((wav.size - 44) / 2).toBeCloseTo(7200, -1);
+  });
+
+  it('moves and tags cards in a new deck and filters by deck and search', async () => {
+    await renderApp();
+    fireEvent.click(screen.getByText('+ New Deck'));
+    fireEvent.change(screen.getByLabelText('Deck name'), { target: { value: 'Macushi Basics' } });
+    fireEvent.click(screen.getByText('Create'));
+    // The new deck is selected and still empty.
+    expect(await screen.findByText('Showing 0 of 2 cards')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('All Decks'));
+    fireEvent.click(screen.getByText('Select'));
+    fireEvent.click(screen.getByLabelText('Select Maimy'));
+    fireEvent.change(screen.getByLabelText('Tags to add'), { target: { value: 'nature' } });
+    fireEvent.click(screen.getByText('Add Tags'));
+    const moveSelect = screen.getByLabelText('Move selected to deck');
+    fireEvent.change(moveSelect, { target: { value: (within(moveSelect).getByRole('option', { name: 'Macushi Basics' }) as HTMLOptionElement).value } });
+    fireEvent.click(screen.getByText('Done'));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Macushi Basics' }));
+    expect(screen.getByText('Showing 1 of 2 cards')).toBeInTheDocument();
+    expect(screen.getByText('Maimy')).toBeInTheDocument();
+    expect(screen.queryByText('Kwe-Kwe')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('All Decks'));
+    fireEvent.change(screen.getByLabelText('Search vocabulary'), { target: { value: 'dance' } });
+    expect(screen.getByText('Kwe-Kwe')).toBeInTheDocument();
+    expect(screen.queryByText('Maimy')).not.toBeInTheDocument();
+
+    await waitFor(async () => {
+      const saved = await loadVocabulary();
+      expect(saved?.find(i => i.word === 'Maimy')).toMatchObject({ deckId: expect.any(String), tags: ['nature'] });
+    });
+  });
+});
+
+describe('progress', () => {
+  it('logs activity and shows it on the dashboard', async () => {
+    await renderApp();
+    fireEvent.click(screen.getByText('New Word'));
+    fireEvent.change(screen.getByPlaceholderText('e.g. Maimy'), { target: { value: 'Tuna' } });
+    fireEvent.change(screen.getByPlaceholderText('e.g. Water'), { target: { value: 'River' } });
+    fireEvent.click(screen.getByText('Save Card'));
+    await screen.findByText('Tuna');
+
+    fireEvent.click(screen.getByText('Progress'));
+    expect(screen.getByText('Active today')).toBeInTheDocument();
+    const wordCount = (language: string) => within(screen.getByRole('cell', { name: language }).closest('tr') as HTMLElement).getAllByRole('cell')[1];
+    expect(wordCount('English')).toHaveTextContent('1');
+    expect(wordCount('Macushi')).toHaveTextContent('1');
+    expect(wordCount('Warrau')).toHaveTextContent('0');
+    await waitFor(async () => {
+      const log = await loadActivityLog();
+      expect(log).toEqual([expect.objectContaining({ kind: 'word-added', language: 'English' })]);
+      expect((await loadVocabulary())?.some(i => i.word === 'Tuna')).toBe(true);
+    });
+  });
+});
+
+describe('review', () => {
+  it('previews intervals from the card as graded when it comes back after "Again"', async () => {
+    await saveVocabularyChanges([], [createCard('Maimy', 'Water', { review: { ease: 2.5, interval: 10, repetitions: 3, lapses: 0, dueDate: 0, history: [] } })]);
+    await renderApp();
+    fireEvent.click(screen.getByTitle('1 cards due today'));
+    fireEvent.click(screen.getByText('Show Answer'));
+    expect(screen.getByText('Good')).toHaveTextContent('25d');
+    fireEvent.click(screen.getByText('Again'));
+
+    // The lapse reset the card, so a good answer now starts it over at a day.
+    fireEvent.click(screen.getByText('Show Answer'));
+    expect(screen.getByText('Good')).toHaveTextContent('1d');
+    await waitFor(async () => expect((await loadVocabulary())?.[0].review).toMatchObject({ repetitions: 0, lapses: 1 }));
+  });
+});
+
+describe('quiz', () => {
+  it('runs a typed quiz, scores it and records results on each card', async () => {
+    await renderApp();
+    // The first weighted pick is the first card in the deck.
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    fireEvent.click(screen.getByText('Quiz'));
+    fireEvent.click(screen.getByText('5'));
+    ['Word → Meaning', 'Meaning → Word', 'Listening'].forEach(label => fireEvent.click(screen.getByLabelText(label)));
+    fireEvent.click(screen.getByText('Start Quiz'));
+    vi.restoreAllMocks();
+
+    // The card in the deck also reads "Water", so wait for the question itself.
+    fireEvent.change(await screen.findByLabelText('Your answer'), { target: { value: 'maimy' } });
+    expect(screen.getByRole('heading', { name: '"Water"' })).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Check'));
+    expect(screen.getByText('Correct!')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Next'));
+
+    fireEvent.change(screen.getByLabelText('Your answer'), { target: { value: 'masramani' } });
+    fireEvent.click(screen.getByText('Check'));
+    expect(screen.getByText('The answer is "Kwe-Kwe"')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('See Results'));
+
+    expect(screen.getByText('1/2')).toBeInTheDocument();
+    await waitFor(async () => {
+      const saved = await loadVocabulary();
+      expect(saved?.find(i => i.word === 'Maimy')?.quiz).toMatchObject({ attempts: 1, correct: 1 });
+      expect(saved?.find(i => i.word === 'Kwe-Kwe')?.quiz).toMatchObject({ attempts: 1, correct: 0, streak: 0 });
+    });
+  });
+});
+
+describe('lessons', () => {
+  it('follows a unit from the lesson path into the tutor and a live roleplay, and resumes it', async () => {
+    const provider = await renderApp();
+    fireEvent.click(screen.getByText('Lessons'));
+    expect(screen.getAllByText('Locked')).toHaveLength(4);
+    fireEvent.click(screen.getByText('Start: Greetings and Introductions'));
+
+    fireEvent.click(screen.getByRole('tab', { name: 'Vocabulary' }));
+    fireEvent.click(screen.getByText('Ask the Tutor'));
+    expect((screen.getByPlaceholderText(/Ask about tribal history/) as HTMLTextAreaElement).value).toContain('how do I say: hello; good morning');
+    expect(screen.getByText('Target Language').nextElementSibling).toHaveValue('Macushi');
+
+    fireEvent.click(screen.getByText('Lessons'));
+    fireEvent.click(screen.getByRole('tab', { name: 'Roleplay' }));
+    fireEvent.click(screen.getByText('Start Roleplay'));
+    expect(screen.getByText('Macushi • Beginner')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Begin Immersion'));
+    await waitFor(() => expect(provider.connectLive).toHaveBeenCalled());
+    expect(provider.connectLive.mock.calls[0][0].systemInstruction).toContain('You play the head of the household');
+
+    fireEvent.click(screen.getByText('Lessons'));
+    fireEvent.click(screen.getByText('← All Units'));
+    expect(screen.getByText('Resume: Greetings and Introductions')).toBeInTheDocument();
+    expect(screen.getByText('In progress')).toBeInTheDocument();
+  });
+});
+
+describe('save as cards', () => {
+  it('extracts terms from an answer and adds the checked ones, skipping cards already in the deck', async () => {
+    const provider = await renderApp();
+    fireEvent.change(screen.getByPlaceholderText(/Ask about tribal history/), { target: { value: 'Teach me river words' } });
+    fireEvent.click(screen.getByTitle('Send'));
+    await screen.findByText('Hello learner.');
+
+    provider.generateJson.mockResolvedValueOnce({
+      terms: [
+        { word: 'Maimy', language: 'Macushi', translation: 'water', pronunciation: '/maɪmi/' },
+        { word: 'tuna', language: 'Macushi', translation: 'river', pronunciation: '' },
+        { word: 'wei', language: 'Macushi', translation: 'sun', pronunciation: '/wei/' },
+      ],
+    });
+    fireEvent.click(screen.getByText('Save as Cards'));
+    expect(await screen.findByText('In Deck')).toBeInTheDocument();
+    expect(provider.generateJson.mock.calls[0][0].contents).toContain('Hello learner.');
+    expect(screen.getByLabelText('Maimy')).toBeDisabled();
+    fireEvent.click(screen.getByLabelText('wei'));
+    fireEvent.click(screen.getByText('Add 1 Card'));
+
+    expect(await screen.findByRole('heading', { name: 'tuna' })).toBeInTheDocument();
+    expect(screen.queryByRole('heading', { name: 'wei' })).not.toBeInTheDocument();
+    expect(screen.getAllByRole('heading', { name: 'Maimy' })).toHaveLength(1);
+    // tuna came without IPA, so a transcription is requested for it.
+    await waitFor(() => expect(provider.generateJson.mock.calls[1][0].contents).toContain('"tuna"'));
+    await waitFor(async () => {
+      const saved = await loadVocabulary();
+      expect(saved?.find(i => i.word === 'tuna')).toMatchObject({ phoneticTranscription: '/fake/' });
+    });
+  });
+});
+
+describe('translator', () => {
+  it('translates with an interlinear gloss and saves a word as a card', async () => {
+    const provider = await renderApp();
+    provider.generateJson.mockResolvedValueOnce({
+      targetText: 'Ho',
+      words: [{ word: 'Ho', gloss: 'water', translation: 'water', pronunciation: '/ho/' }],
+      confidence: 0.8,
+      notes: 'Common noun.',
+    });
+    fireEvent.change(screen.getByLabelText('Translate to'), { target: { value: 'Warrau' } });
+    fireEvent.change(screen.getByPlaceholderText(/text to translate/), { target: { value: 'water' } });
+    fireEvent.click(screen.getByText('Translate'));
+
+    expect(await screen.findByText('High confidence')).toBeInTheDocument();
+    expect(screen.getByText('Common noun.')).toBeInTheDocument();
+    expect(provider.generateJson.mock.calls[0][0].contents).toContain('[kb:warrau.lex.ho]');
+    fireEvent.click(screen.getByText('+ Card'));
+
+    expect(await screen.findByRole('heading', { name: 'Ho' })).toBeInTheDocument();
+    expect(screen.getByText('Saved')).toBeDisabled();
+    // The gloss already carries IPA, so no transcription request is made.
+    expect(provider.generateJson).toHaveBeenCalledTimes(1);
+    await waitFor(async () => {
+      const saved = await loadVocabulary();
+      expect(saved?.find(i => i.word === 'Ho')).toMatchObject({ wordLanguage: 'Warrau', translation: 'water', phoneticTranscription: '/ho/' });
+    });
+  });
+
+  it('shows translation errors in the panel', async () => {
+    const provider = await renderApp();
+    provider.generateJson.mockRejectedValueOnce(new Error('quota exceeded'));
+    fireEvent.change(screen.getByPlaceholderText(/text to translate/), { target: { value: 'water' } });
+    fireEvent.click(screen.getByText('Translate'));
+
+    expect(await screen.findByText('Translation failed: quota exceeded')).toBeInTheDocument();
+  });
+});
+
+describe('community review', () => {
+  it('applies an approved card correction to the deck', async () => {
+    await renderApp();
+    const card = screen.getByRole('heading', { name: 'Maimy' }).closest('.group') as HTMLElement;
+    fireEvent.click(within(card).getByText('Correct'));
+    fireEvent.change(screen.getByLabelText('Correct Version'), { target: { value: 'River' } });
+    fireEvent.change(screen.getByLabelText('Your Name'), { target: { value: 'Ana' } });
+    fireEvent.click(screen.getByText('Submit Correction'));
+
+    expect(within(card).getByText('In Review')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Reviewer Queue'));
+    fireEvent.change(screen.getByLabelText('Reviewer'), { target: { value: 'Elder Joseph' } });
+    fireEvent.click(screen.getByText('Approve'));
+    fireEvent.click(screen.getByText('Close'));
+
+    expect(await within(card).findByText('"River"')).toBeInTheDocument();
+    await waitFor(async () => {
+      const saved = await loadVocabulary();
+      expect(saved?.find(i => i.word === 'Maimy')?.translation).toBe('River');
+    });
+  });
+
+  it('shows approved answer corrections and sends them with later prompts', async () => {
+    const provider = await renderApp();
+    fireEvent.change(screen.getByPlaceholderText(/Ask about tribal history/), { target: { value: 'How do I say sun?' } });
+    fireEvent.click(screen.getByTitle('Send'));
+    await screen.findByText('Hello learner.');
+
+    fireEvent.click(screen.getByText('Flag'));
+    fireEvent.change(screen.getByLabelText('Your Name'), { target: { value: 'Ana' } });
+    fireEvent.click(screen.getByText('Flag as Wrong'));
+    expect(screen.getByText(/awaiting community review/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Reviewer Queue'));
+    fireEvent.change(screen.getByLabelText('Reviewer'), { target: { value: 'Elder Joseph' } });
+    fireEvent.change(screen.getByLabelText('Correct version'), { target: { value: 'Sun is wei.' } });
+    fireEvent.click(screen.getByText('Approve'));
+    fireEvent.click(screen.getByText('Close'));
+    expect(screen.getByText('Community Correction')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByPlaceholderText(/follow-up/), { target: { value: 'And moon?' } });
+    fireEvent.click(screen.getByTitle('Send'));
+    await waitFor(() => expect(provider.streamText).toHaveBeenCalledTimes(2));
+    expect(provider.streamText.mock.calls[1][0].systemInstruction).toContain('"Sun is wei.", not "Hello learner."');
+  });
+});
+
+describe('live immersion', () => {
+  it('streams microphone audio, shows the transcript and archives the session', async () => {
+    const provider = await renderApp();
+    fireEvent.click(screen.getByText('Begin Immersion'));
+    await waitFor(() => expect(provider.liveSessions).toHaveLength(1));
+    const session = provider.liveSessions[0];
+
+    act(() => session.callbacks.onopen());
+    expect(await screen.findByText('Close Conversation')).toBeInTheDocument();
+
+    // 6144 samples at 48 kHz resample to one 2048-sample chunk at 16 kHz.
+    const capture = FakeAudioContext.instances.find(c => c.processors.length > 0)!;
+    act(() => capture.processors[0].emit(new Float32Array(8192)));
+    await waitFor(() => expect(session.sendRealtimeInput).toHaveBeenCalled());
+    expect(session.sendRealtimeInput.mock.calls[0][0].media.mimeType).toBe('audio/pcm;rate=16000');
+
+    await act(async () => {
+      session.callbacks.onmessage({ serverContent: { inputTranscription: { text: 'Hello teacher' } } });
+      session.callbacks.onmessage({ serverContent: { outputTranscription: { text: 'Welcome!' } } });
+      session.callbacks.onmessage({ serverContent: { modelTurn: { parts: [{ inlineData: { data: 'AAAAAA==' } }] } } });
+      session.callbacks.onmessage({ serverContent: { turnComplete: true } });
+    });
+    expect(screen.getByText('Hello teacher')).toBeInTheDocument();
+    expect(screen.getByText('Welcome!')).toBeInTheDocument();
+    expect(FakeAudioContext.instances.some(c => c.sources.some(s => s.started))).toBe(true);
+
+    fireEvent.click(screen.getByText('Close Conversation'));
+    await waitFor(() => expect(session.close).toHaveBeenCalled());
+    expect(await screen.findByText('Session History (1)')).toBeInTheDocument();
+  });
+
+  it('pauses the session and shows helplines when the live transcript raises a crisis', async () => {
+    const provider = await renderApp();
+    fireEvent.click(screen.getByText('Begin Immersion'));
+    await waitFor(() => expect(provider.liveSessions).toHaveLength(1));
+    const session = provider.liveSessions[0];
+    act(() => session.callbacks.onopen());
+    const capture = FakeAudioContext.instances.find(c => c.processors.length > 0)!;
+
+    // Flagged from the open turn, before the learner has finished speaking.
+    await act(async () => {
+      session.callbacks.onmessage({ serverContent: { inputTranscription: { text: 'Honestly I just want to ' } } });
+      session.callbacks.onmessage({ serverContent: { inputTranscription: { text: 'kill myself' } } });
+    });
+    const panel = await screen.findByRole('alertdialog');
+    expect(within(panel).getByText(/live session is paused/)).toBeInTheDocument();
+
+    act(() => capture.processors[0].emit(new Float32Array(8192)));
+    await act(async () => {
+      session.callbacks.onmessage({ serverContent: { outputTranscription: { text: 'Let us practise' } } });
+    });
+    expect(session.sendRealtimeInput).not.toHaveBeenCalled();
+    expect(screen.queryByText('Let us practise')).not.toBeInTheDocument();
+
+    fireEvent.click(within(panel).getByText('Resume Session'));
+    act(() => capture.processors[0].emit(new Float32Array(8192)));
+    await waitFor(() => expect(session.sendRealtimeInput).toHaveBeenCalled());
+    expect(screen.queryByRole('alertdialog')).not.toBeInTheDocument();
+  });
+
+  it('asks the model about a finished turn that may signal risk', async () => {
+    const provider = createFakeProvider();
+    provider.generateJson.mockResolvedValue({ risk: 'possible', reason: 'Says they are tired of living.' });
+    await renderApp(provider);
+    fireEvent.click(screen.getByText('Begin Immersion'));
+    await waitFor(() => expect(provider.liveSessions).toHaveLength(1));
+    const session = provider.liveSessions[0];
+    act(() => session.callbacks.onopen());
+
+    await act(async () => {
+      session.callbacks.onmessage({ serverContent: { inputTranscription: { text: "I'm just so tired of living" } } });
+      session.callbacks.onmessage({ serverContent: { turnComplete: true } });
+    });
+    const panel = await screen.findByRole('alertdialog');
+    expect(provider.generateJson.mock.calls[0][0].contents).toContain("I'm just so tired of living");
+
+    fireEvent.click(within(panel).getByText('End Session'));
+    await waitFor(() => expect(session.close).toHaveBeenCalled());
+    expect(within(panel).getByText('Back to the App')).toBeInTheDocument();
+  });
+
+  it('meters the microphone and flags clipping while live', async () => {
+    const provider = await renderApp();
+    fireEvent.click(screen.getByText('Begin Immersion'));
+    await waitFor(() => expect(provider.liveSessions).toHaveLength(1));
+    act(() => provider.liveSessions[0].callbacks.onopen());
+
+    const meter = await screen.findByRole('img', { name: 'Microphone level' });
+    const mic = FakeAudioContext.instances.find(c => c.processors.length > 0)!.analysers[0];
+    mic.level = 0.1;
+    // -20 dBFS sits two thirds of the way up the -60 dB scale.
+    await waitFor(() => expect(parseFloat((meter.firstChild as HTMLElement).style.width)).toBeCloseTo(66.67, 1));
+    expect(screen.queryByText('Too Loud')).not.toBeInTheDocument();
+    mic.level = 1;
+    expect(await screen.findByText('Too Loud')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Close Conversation'));
+    await waitFor(() => expect(screen.queryByRole('img', { name: 'Microphone level' })).not.toBeInTheDocument());
+  });
+
+  it('records both sides of a session and replays it from a turn', async () => {
+    const provider = await renderApp();
+    fireEvent.click(screen.getByLabelText('Record Audio'));
+    fireEvent.click(screen.getByText('Begin Immersion'));
+    await waitFor(() => expect(provider.liveSessions).toHaveLength(1));
+    const session = provider.liveSessions[0];
+    act(() => session.callbacks.onopen());
+
+    const capture = FakeAudioContext.instances.find(c => c.processors.length > 0)!;
+    act(() => capture.processors[0].emit(new Float32Array(8192).fill(0.25)));
+    await act(async () => {
+      session.callbacks.onmessage({ serverContent: { inputTranscription: { text: 'Hello teacher' } } });
+      session.callbacks.onmessage({ serverContent: { outputTranscription: { text: 'Welcome!' } } });
+      session.callbacks.onmessage({ serverContent: { modelTurn: { parts: [{ inlineData: { data: 'AEAAQA==' } }] } } });
+      session.callbacks.onmessage({ serverContent: { turnComplete: true } });
+    });
+    fireEvent.click(await screen.findByText('Close Conversation'));
+
+    fireEvent.click(await screen.findByText('Session History (1)'));
+    await waitFor(() => expect(screen.getByText('Play Recording')).toBeEnabled());
+    const [saved] = await loadLiveSessions();
+    expect(saved.recording?.sampleRate).toBe(24000);
+    expect((await loadSessionRecording(saved.id))?.length).toBeGreaterThan(0);
+
+    fireEvent.click(screen.getAllByTitle('Play from here')[0]);
+    expect(screen.getByText('Stop')).toBeInTheDocument();
+    const replay = FakeAudioContext.instances.flatMap(c => c.sources).at(-1)!;
+    expect(replay.started).toBe(true);
+    expect(replay.buffer!.sampleRate).toBe(24000);
+
+    fireEvent.click(screen.getByText('Stop'));
+    expect(screen.getByText('Play Recording')).toBeInTheDocument();
+  });
+
+  it('plays a scenario preset and debriefs the learner when the session ends', async () => {
+    const provider = await renderApp();
+    provider.generateJson.mockResolvedValue({ summary: 'A warm greeting.', practised: ['Greeting an elder'], usedTargets: ['hello'], nextSteps: [] });
+    fireEvent.click(screen.getByText('Scenarios'));
+    fireEvent.click(screen.getByLabelText('Use Greeting Elders in a Macushi Village'));
+    expect(screen.getByText('Macushi • Beginner')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Begin Immersion'));
+    await waitFor(() => expect(provider.liveSessions).toHaveLength(1));
+    const session = provider.liveSessions[0];
+    expect(provider.connectLive.mock.calls[0][0].systemInstruction).toContain('You play a respected grandmother of the village');
+    act(() => session.callbacks.onopen());
+    await act(async () => {
+      session.callbacks.onmessage({ serverContent: { inputTranscription: { text: 'Hello grandmother' } } });
+      session.callbacks.onmessage({ serverContent: { turnComplete: true } });
+    });
+
+    fireEvent.click(await screen.findByText('Close Conversation'));
+    expect(await screen.findByText('A warm greeting.')).toBeInTheDocument();
+    expect(screen.getByText('Target Words • 1 of 6 used')).toBeInTheDocument();
+    expect(provider.generateJson.mock.lastCall![0].contents).toContain('Learner: Hello grandmother');
+  });
+
+  it('saves a custom scenario', async () => {
+    await renderApp();
+    fireEvent.click(screen.getByText('Scenarios'));
+    fireEvent.click(screen.getByText('+ New Scenario'));
+    fireEvent.click(screen.getByText('Save Scenario'));
+    expect(screen.getByText(/Give the scenario a title/)).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Title'), { target: { value: 'River Crossing' } });
+    fireEvent.change(screen.getByLabelText('Language'), { target: { value: 'Carib' } });
+    fireEvent.change(screen.getByLabelText('The Tutor Plays'), { target: { value: 'a boat captain' } });
+    fireEvent.change(screen.getByLabelText('Setting'), { target: { value: 'A ferry landing at dawn.' } });
+    fireEvent.change(screen.getByLabelText('Target Vocabulary (one per line)'), { target: { value: 'tuna = water' } });
+    fireEvent.click(screen.getByText('Save Scenario'));
+
+    expect(screen.getByText('Carib • Beginner • Yours')).toBeInTheDocument();
+    expect(screen.getByText('Target words: tuna')).toBeInTheDocument();
+    expect(JSON.parse(localStorage.getItem('guyanese_scenarios_v1')!)[0]).toMatchObject({ title: 'River Crossing', targets: [{ word: 'tuna', meaning: 'water' }] });
+  });
+
+  it('reconnects after a drop and resumes the session', async () => {
+    const provider = await renderApp();
+    fireEvent.click(screen.getByText('Begin Immersion'));
+    await waitFor(() => expect(provider.liveSessions).toHaveLength(1));
+    const first = provider.liveSessions[0];
+    await act(async () => {
+      first.callbacks.onopen();
+      first.callbacks.onmessage({ sessionResumptionUpdate: { newHandle: 'handle-1', resumable: true } });
+      first.callbacks.onmessage({ serverContent: { inputTranscription: { text: 'Hello teacher' } } });
+    });
+    expect(screen.getByRole('status')).toHaveTextContent('Live');
+
+    act(() => first.callbacks.onerror(new Error('socket reset')));
+    expect(screen.getByRole('status')).toHaveTextContent('Reconnecting');
+    expect(screen.getByText('Error in Live API: socket reset')).toBeInTheDocument();
+    // The error's close event belongs to the dropped connection and doesn't start another attempt.
+    act(() => first.callbacks.onclose());
+
+    await waitFor(() => expect(provider.liveSessions).toHaveLength(2), { timeout: 2000 });
+    expect(provider.connectLive.mock.calls[1][0].resumptionHandle).toBe('handle-1');
+    act(() => provider.liveSessions[1].callbacks.onopen());
+    expect(screen.getByRole('status')).toHaveTextContent('Live');
+    expect(screen.queryByText(/socket reset/)).not.toBeInTheDocument();
+    expect(screen.getByText('Hello teacher')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Close Conversation'));
+    expect(await screen.findByText('Session History (1)')).toBeInTheDocument();
+    expect(provider.liveSessions).toHaveLength(2);
+  });
+
+  it('gives the tutor the transcript when a dropped session has no resumption handle', async () => {
+    const provider = await renderApp();
+    fireEvent.click(screen.getByText('Begin Immersion'));
+    await waitFor(() => expect(provider.liveSessions).toHaveLength(1));
+    await act(async () => {
+      provider.liveSessions[0].callbacks.onopen();
+      provider.liveSessions[0].callbacks.onmessage({ serverContent: { inputTranscription: { text: 'Hello teacher' } } });
+    });
+    act(() => provider.liveSessions[0].callbacks.onclose());
+
+    await waitFor(() => expect(provider.liveSessions).toHaveLength(2), { timeout: 2000 });
+    const retry = provider.connectLive.mock.calls[1][0];
+    expect(retry.resumptionHandle).toBeUndefined();
+    expect(retry.systemInstruction).toContain('Learner: Hello teacher');
+  });
+
+  it('reports connection failures and resets the button', async () => {
+    const provider = createFakeProvider();
+    provider.connectLive.mockRejectedValue(new Error('network down'));
+    await renderApp(provider);
+    fireEvent.click(screen.getByText('Begin Immersion'));
+
+    expect(await screen.findByText(/network down/)).toBeInTheDocument();
+    expect(screen.getByText('Begin Immersion')).not.toBeDisabled();
+  });
+});
@@ -1,50 +1,60 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Type, GenerateContentResponse } from '@google/genai';
-import { decode, encode, decodeAudioData, createBlob } from './utils/audioHelpers';
-import { API_KEY_BILLING_URL } from './constants';
-
-// Define helper components outside the main App component to prevent re-rendering issues.
-interface TranscriptionProps {
-  label: string;
-  isSpeaking?: boolean;
-}
-
-const TranscriptionDisplay: React.FC<TranscriptionProps & { text: string }> = ({ label, text, isSpeaking }) => (
-  <div className="mb-2 flex items-center">
-    <p className="font-semibold text-gray-700 dark:text-gray-300 mr-2">{label}:</p>
-    {isSpeaking && (
-      <span className="relative flex h-3 w-3">
-        <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-blue-400 opacity-75"></span>
-        <span className="relative inline-flex rounded-full h-3 w-3 bg-blue-500"></span>
-      </span>
-    )}
-    <p className="text-gray-600 dark:text-gray-400 break-words ml-2">{text || '...'}</p>
-  </div>
-);
-
-interface UrlDisplayProps {
-  urls: { uri: string; title: string }[];
-}
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { decode, encode, decodeAudioData, createBlob, encodeWav } from './utils/audioHelpers';
+import { AudioCapture, CAPTURE_SAMPLE_RATE, startAudioCapture } from './utils/audioCapture';
+import { getDueItems, gradeVocabularyItem } from './utils/srs';
+import { AIProvider, OUTPUT_SAMPLE_RATE, getAIProvider } from './services';
+import { LiveMessage, LiveSession } from './services/aiProvider';
+import { API_KEY_BILLING_URL, AVAILABLE_VOICES, DEFAULT_CARD_VOICE, GUYANESE_LANGUAGES } from './constants';
+import { StorageUsage, deleteDeck, deleteLiveSession, getStorageUsage, loadActivityLog, loadCardRevisions, loadCorrections, loadDecks, loadLiveSessions, loadSessionRecording, loadVocabulary, requestPersistentStorage, saveActivityEvents, saveCardRevision, saveCorrection, saveDeck, saveLiveSession, saveSessionRecording, saveVocabularyChanges } from './utils/storage';
+import { SessionRecorder, loadRecordingEnabled, saveRecordingEnabled } from './utils/sessionRecording';
+import { LIVE_CONNECTION_LABELS, MAX_RECONNECT_ATTEMPTS, buildResumeContext, isLiveSessionActive, reconnectDelay } from './utils/liveConnection';
+import { appendTranscriptFragment, completeOpenTurns, transcriptToText } from './utils/transcripts';
+import { createId } from './utils/ids';
+import { getSystemInstruction } from './utils/prompts';
+import { applyCorrectionToVocabulary, getPromptCorrections, reviewCorrection } from './utils/corrections';
+import { extractCitations, getLanguageDigest, retrieveKnowledge, stripCitations } from './utils/knowledge';
+import { assessCrisisRisk, buildCrisisMessage, createLexiconClassifier, loadCrisisRegion, saveCrisisRegion, screenWithRules } from './utils/safety';
+import { TRANSLATION_SCHEMA, TranslationRequest, buildTranslationPrompt, glossWordToVocabularyItem, normalizeTranslationResult } from './utils/translation';
+import { vocabularyKey } from './utils/deckTransfer';
+import { createActivityEvent } from './utils/progress';
+import { cardFields, editCard, restoreCardRevision } from './utils/cardRevisions';
+import { ALL, DEFAULT_DECK, DEFAULT_VOCABULARY_FILTER, VocabularyFilter, collectTags, copyCardsToDeck, createDeck, filterVocabulary, moveCardsToDeck, parseTags, tagCards } from './utils/decks';
+import { DISTRACTOR_SCHEMA, buildDistractorPrompt, normalizeDistractors, recordQuizAnswer } from './utils/quiz';
+import { PRONUNCIATION_FEEDBACK_SCHEMA, buildPronunciationFeedbackPrompt } from './utils/pronunciationFeedback';
+import { EXTRACTION_SCHEMA, buildExtractionPrompt, extractedTermToVocabularyItem, normalizeExtractedTerms } from './utils/vocabularyExtraction';
+import { LessonProgress, addLessonWords, lessonDeck, lessonScenario, loadLessonProgress, recordLessonQuiz, saveLessonProgress, setLessonStep } from './utils/lessons';
+import { getLessonUnit } from './lessons';
+import { CRISIS_DIRECTORY, getCrisisRegion } from './crisis';
+import { TRANSCRIPTION_SCHEMA, applyTranscription, buildTranscriptionPrompt, getOrthographyProfile, loadPronunciationForms, missingPronunciationForms, normalizeTranscription, savePronunciationForms } from './utils/orthography';
+import { DEBRIEF_SCHEMA, SCENARIO_DIFFICULTY_LABELS, SCENARIO_PRESETS, buildDebriefPrompt, buildScenarioInstruction, loadCustomScenarios, normalizeDebrief, offlineDebrief, saveCustomScenarios } from './utils/scenarios';
+import { createChatMessage, createChatThread, deriveThreadTitle, loadChatThreads, saveChatThreads, toGeminiContents } from './utils/chatThreads';
+import { ActivityEvent, CardFields, CardRevision, ChatMessage, ChatThread, Correction, CorrectionStatus, CrisisRisk, Deck, ExtractedTerm, GroundingUrl, InterlinearWord, LessonStep, LessonUnit, LiveConnectionState, LiveSessionTranscript, PronunciationFeedback, PronunciationForm, QuizDistractors, ReviewGrade, RoleplayScenario, ScenarioDebrief, TranscriptTurn, TranslationResult, VocabularyItem } from './types';
+import ReviewSession from './components/ReviewSession';
+import ChatThreadView from './components/ChatThreadView';
+import DeckTransferModal from './components/DeckTransferModal';
+import StorageStatus from './components/StorageStatus';
+import VocabularyCard from './components/VocabularyCard';
+import PronunciationPractice from './components/PronunciationPractice';
+import TranscriptLog from './components/TranscriptLog';
+import SessionHistory from './components/SessionHistory';
+import CorrectionModal, { CorrectionSubject } from './components/CorrectionModal';
+import ReviewQueue from './components/ReviewQueue';
+import Translator from './components/Translator';
+import ExtractCardsModal from './components/ExtractCardsModal';
+import QuizSession from './components/QuizSession';
+import ProgressDashboard from './components/ProgressDashboard';
+import VocabularyToolbar from './components/VocabularyToolbar';
+import CardEditor from './components/CardEditor';
+import LessonPath from './components/LessonPath';
+import ScenarioPicker from './components/ScenarioPicker';
+import ScenarioDebriefModal from './components/ScenarioDebriefModal';
+import LiveAudioVisualizer from './components/LiveAudioVisualizer';
+import CrisisPanel from './components/CrisisPanel';
 
-const UrlDisplay: React.FC<UrlDisplayProps> = ({ urls }) => (
-  <div className="mt-4 p-4 bg-white/50 dark:bg-zinc-800/50 rounded-xl border border-emerald-100 dark:border-emerald-900/30">
-    <h3 className="font-bold text-sm mb-2 text-emerald-800 dark:text-emerald-400 uppercase tracking-wider">Web Sources</h3>
-    <ul className="space-y-1">
-      {urls.map((url, index) => (
-        <li key={index} className="text-xs text-emerald-600 hover:text-emerald-700 dark:text-emerald-400 dark:hover:text-emerald-300 transition-colors">
-          <a href={url.uri} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1">
-            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" /></svg>
-            {url.title || url.uri}
-          </a>
-        </li>
-      ))}
-    </ul>
-  </div>
-);
-
-const GUYANESE_LANGUAGES = ['English', 'Macushi', 'Patamona', 'Wapishana', 'Arekuna', 'Carib', 'Warrau', 'Wai-Wai', 'Akawaio'];
-const AVAILABLE_VOICES = ['Zephyr', 'Kore', 'Puck', 'Charon', 'Fenrir'];
+const LIVE_INPUT_CHUNK_SIZE = 2048; // 128 ms of 16 kHz audio per realtime message
+const VISUALIZER_FFT_SIZE = 1024;
+const CRISIS_CLASSIFIER = createLexiconClassifier();
 const SUGGESTIONS = [
   "How do I say 'Hello' and 'Thank you'?",
   "Tell me about the history of the Wai-Wai tribe.",
@@ -52,49 +62,6 @@ const SUGGESTIONS = [
   "What is the meaning of 'Maimy' in Macushi?",
 ];
 
-const getSystemInstruction = (inputLang: string, outputLang: string): string => {
-  let instruction = `You are a helpful, knowledgeable, and engaging teacher specializing in Guyanese tribal languages, culture, and history. Your primary goal is to educate English speakers about these fascinating topics. You have deep expertise in the nine indigenous tribes of Guyana: Wai-Wai, Macushi, Patamona, Lokono, Kalina, Wapishana, Arekuna, Akawaio, and Warrau.`;
-
-  if (inputLang !== outputLang) {
-    instruction += ` The user will communicate in ${inputLang}. You must translate or interpret their input and respond in ${outputLang}.`;
-    if (outputLang !== 'English') {
-      instruction += ` When responding in ${outputLang}, always provide an English translation for clarity.`;
-    }
-  } else {
-    instruction += ` You will converse with the user entirely in ${inputLang}.`;
-  }
-
-  instruction += `
-
-When providing information:
-*   Share cultural context: customs, traditional music, and storytelling.
-*   Give phonetic approximations for tribal words to help the learner pronounce them.
-*   Discuss the environment of the tribes, from the Amazonian interior to the Rupununi savannahs.
-*   Be respectful and fostering of curiosity.
-*   Keep formatting clean with bullet points where appropriate.`;
-
-return instruction;
-};
-
-const suicideKeywords = ['suicidal', 'kill myself', 'ending it', 'want to die', 'suicide'];
-
-const checkSuicidalIntent = (text: string): boolean => {
-  const lowerText = text.toLowerCase();
-  return suicideKeywords.some(keyword => lowerText.includes(keyword));
-};
-
-interface VocabularyItem {
-  id: string;
-  word: string;
-  wordLanguage: string;
-  translation: string;
-  translationLanguage: string;
-  phoneticTranscription: string | null;
-  audioBase64: string | null;
-  imageBase64?: string | null;
-  timestamp: number;
-}
-
 const INITIAL_VOCAB: VocabularyItem[] = [
   {
     id: 'starter-1',
@@ -118,10 +85,15 @@ const INITIAL_VOCAB: VocabularyItem[] = [
   }
 ];
 
-function App() {
+interface AppProps {
+  aiProvider?: AIProvider;
+}
+
+function App({ aiProvider = getAIProvider() }: AppProps) {
   const [textPrompt, setTextPrompt] = useState<string>('');
-  const [textResponse, setTextResponse] = useState<string>('');
-  const [groundingUrls, setGroundingUrls] = useState<{ uri: string; title: string }[]>([]);
+  const [chatThreads, setChatThreads] = useState<ChatThread[]>(() => loadChatThreads());
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [isRenamingThread, setIsRenamingThread] = useState<boolean>(false);
   const [isLoadingText, setIsLoadingText] = useState<boolean>(false);
   const [textError, setTextError] = useState<string | null>(null);
 
@@ -130,14 +102,23 @@ function App() {
   const [selectedTextVoice, setSelectedTextVoice] = useState<string>(AVAILABLE_VOICES[0]);
 
   const [isLiveApiSupported, setIsLiveApiSupported] = useState<boolean>(false);
-  const [isLiveApiConnected, setIsLiveApiConnected] = useState<boolean>(false);
-  const [liveApiConnecting, setLiveApiConnecting] = useState<boolean>(false);
-  const [liveInputTranscription, setLiveInputTranscription] = useState<string>('');
-  const [liveOutputTranscription, setLiveOutputTranscription] = useState<string>('');
+  const [liveConnectionState, setLiveConnectionState] = useState<LiveConnectionState>('idle');
+  const isLiveApiConnected = isLiveSessionActive(liveConnectionState);
+  const liveApiConnecting = liveConnectionState === 'connecting';
+  const [liveTurns, setLiveTurns] = useState<TranscriptTurn[]>([]);
+  const [liveSessionStartedAt, setLiveSessionStartedAt] = useState<number>(0);
+  const [liveSessions, setLiveSessions] = useState<LiveSessionTranscript[]>([]);
+  const [showSessionHistory, setShowSessionHistory] = useState<boolean>(false);
+  const [corrections, setCorrections] = useState<Correction[]>([]);
+  const [correctionSubject, setCorrectionSubject] = useState<CorrectionSubject | null>(null);
+  const [showReviewQueue, setShowReviewQueue] = useState<boolean>(false);
+  const [extractionSource, setExtractionSource] = useState<{ label: string; text: string; language: string } | null>(null);
   const [liveError, setLiveError] = useState<string | null>(null);
   const [selectedLiveVoice, setSelectedLiveVoice] = useState<string>(AVAILABLE_VOICES[0]);
   const [playingPreviewVoice, setPlayingPreviewVoice] = useState<string | null>(null);
   const [isAssistantSpeaking, setIsAssistantSpeaking] = useState<boolean>(false);
+  const [isLiveRecordingEnabled, setIsLiveRecordingEnabled] = useState<boolean>(() => loadRecordingEnabled());
+  const [isPlayingSessionRecording, setIsPlayingSessionRecording] = useState<boolean>(false);
   const [isPreviewingVoice, setIsPreviewingVoice] = useState<boolean>(false);
   const [volume, setVolume] = useState<number>(1);
   const [isMuted, setIsMuted] = useState<boolean>(false);
@@ -151,25 +132,69 @@ function App() {
   const [currentVocabularyTranslation, setCurrentVocabularyTranslation] = useState<string>('');
   const [currentVocabularyWordLanguage, setCurrentVocabularyWordLanguage] = useState<string>('English');
   const [currentVocabularyTranslationLanguage, setCurrentVocabularyTranslationLanguage] = useState<string>('English');
-  const [generatingVocabAudio, setGeneratingVocabAudio] = useState<boolean>(false);
+  const [currentVocabularyDeckId, setCurrentVocabularyDeckId] = useState<string>(DEFAULT_DECK.id);
+  const [currentVocabularyTags, setCurrentVocabularyTags] = useState<string>('');
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [vocabularyFilter, setVocabularyFilter] = useState<VocabularyFilter>(DEFAULT_VOCABULARY_FILTER);
+  const [selectedCardIds, setSelectedCardIds] = useState<Set<string> | null>(null); // null outside selection mode
+  const [generatingVocabAudioId, setGeneratingVocabAudioId] = useState<string | null>(null);
+  const [deckAudioProgress, setDeckAudioProgress] = useState<{ done: number; total: number } | null>(null);
+  const [formsFillProgress, setFormsFillProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
   const [playingVocabAudioId, setPlayingVocabAudioId] = useState<string | null>(null);
   const [generatingTranscriptionId, setGeneratingTranscriptionId] = useState<string | null>(null);
   const [generatingImageId, setGeneratingImageId] = useState<string | null>(null);
+  const [showReviewSession, setShowReviewSession] = useState<boolean>(false);
+  const [showQuiz, setShowQuiz] = useState<boolean>(false);
+  const [showProgress, setShowProgress] = useState<boolean>(false);
+  const [activityLog, setActivityLog] = useState<ActivityEvent[]>([]);
+  const [showDeckTransferModal, setShowDeckTransferModal] = useState<boolean>(false);
+  const [practiceItemId, setPracticeItemId] = useState<string | null>(null);
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const [cardRevisions, setCardRevisions] = useState<CardRevision[] | null>(null);
+  const [showLessons, setShowLessons] = useState<boolean>(false);
+  const [lessonLanguage, setLessonLanguage] = useState<string>('Macushi');
+  const [lessonProgress, setLessonProgress] = useState<LessonProgress>(() => loadLessonProgress());
+  const [openLessonUnitId, setOpenLessonUnitId] = useState<string | null>(null);
+  const [lessonQuizUnitId, setLessonQuizUnitId] = useState<string | null>(null);
+  const [liveScenario, setLiveScenario] = useState<RoleplayScenario | null>(null); // Roleplay the next live session stays in
+  const [customScenarios, setCustomScenarios] = useState<RoleplayScenario[]>(() => loadCustomScenarios());
+  const [showScenarioPicker, setShowScenarioPicker] = useState<boolean>(false);
+  const [scenarioDebrief, setScenarioDebrief] = useState<{ sessionId: string; title: string; debrief: ScenarioDebrief | null } | null>(null);
+  const [pronunciationForms, setPronunciationForms] = useState<PronunciationForm[]>(() => loadPronunciationForms());
+  const [isVocabularyLoaded, setIsVocabularyLoaded] = useState<boolean>(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [crisisRisk, setCrisisRisk] = useState<Exclude<CrisisRisk, 'none'> | null>(null); // Set while the crisis panel is open
+  const [crisisRegion, setCrisisRegion] = useState<string>(() => loadCrisisRegion());
+  const [isLivePaused, setIsLivePaused] = useState<boolean>(false);
 
-  const audioContextRef = useRef<AudioContext | null>(null);
+  const audioCaptureRef = useRef<AudioCapture | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
   const gainNodeRef = useRef<GainNode | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   const mediaStreamRef = useRef<MediaStream | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
+  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
+  const liveSessionMetaRef = useRef<Omit<LiveSessionTranscript, 'turns' | 'endedAt'> | null>(null);
+  const liveTurnsRef = useRef<TranscriptTurn[]>([]);
+  const liveSessionScenarioRef = useRef<RoleplayScenario | null>(null);
+  const liveRecorderRef = useRef<SessionRecorder | null>(null); // Set while a recorded session runs
+  const liveConnectionIdRef = useRef<number>(0); // Bumped whenever a connection is dropped or closed, so its late callbacks are ignored
+  const liveReconnectAttemptRef = useRef<number>(0);
+  const liveReconnectTimerRef = useRef<number | null>(null);
+  const liveResumptionHandleRef = useRef<string | null>(null);
+  const livePausedRef = useRef<boolean>(false); // Read by the capture and message callbacks, which outlive renders
+  const screenedLiveTurnsRef = useRef<Set<string>>(new Set()); // User turns already given their final crisis check
+  const sessionPlaybackRef = useRef<AudioBufferSourceNode | null>(null); // A past session's recording being replayed
   const textAbortControllerRef = useRef<AbortController | null>(null);
+  const persistedVocabularyRef = useRef<VocabularyItem[]>([]);
+  const cancelDeckAudioRef = useRef<boolean>(false);
+  const cancelFormsFillRef = useRef<boolean>(false);
+  const vocabularySaveChainRef = useRef<Promise<void>>(Promise.resolve());
 
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const animationFrameIdRef = useRef<number | null>(null);
-  const volumeMeterRef = useRef<HTMLDivElement>(null);
+  const inputAnalyserRef = useRef<AnalyserNode | null>(null); // Taps the microphone while live
+  const outputAnalyserRef = useRef<AnalyserNode | null>(null); // Taps everything played, after the volume control
 
   const getOutputAudioContext = useCallback(() => {
     if (!outputAudioContextRef.current) {
@@ -177,7 +202,11 @@ function App() {
       const gainNode = context.createGain();
       gainNode.gain.setValueAtTime(isMuted ? 0 : volume, context.currentTime);
       gainNode.connect(context.destination);
+      const analyser = context.createAnalyser();
+      analyser.fftSize = VISUALIZER_FFT_SIZE;
+      gainNode.connect(analyser);
       gainNodeRef.current = gainNode;
+      outputAnalyserRef.current = analyser;
       outputAudioContextRef.current = context;
       context.resume();
     }
@@ -202,64 +231,80 @@ function App() {
     nextStartTimeRef.current = 0;
     setIsAssistantSpeaking(false);
     setPlayingVocabAudioId(null);
+    setIsPlayingSessionRecording(false);
   }, []);
 
+  const playAudioBuffer = useCallback((audioBuffer: AudioBuffer, itemId: string | null = null): AudioBufferSourceNode => {
+    const outputAudioContext = getOutputAudioContext();
+    const source = outputAudioContext.createBufferSource();
+    source.buffer = audioBuffer;
+    if (gainNodeRef.current) source.connect(gainNodeRef.current);
+    else source.connect(outputAudioContext.destination);
+
+    source.addEventListener('ended', () => {
+      sourcesRef.current.delete(source);
+      if (sourcesRef.current.size === 0) {
+        setIsAssistantSpeaking(false);
+        setPlayingVocabAudioId(null);
+        setIsPlayingSessionRecording(false);
+      }
+    });
+    source.start(outputAudioContext.currentTime);
+    sourcesRef.current.add(source);
+    setIsAssistantSpeaking(true);
+    if (itemId) setPlayingVocabAudioId(itemId);
+    return source;
+  }, [getOutputAudioContext]);
+
   const playGeneratedAudio = useCallback(async (base64Audio: string, itemId: string | null = null) => {
     stopAllAudioPlayback();
     const outputAudioContext = getOutputAudioContext();
     try {
       const decodedBytes = decode(base64Audio);
-      const audioBuffer = await decodeAudioData(decodedBytes, outputAudioContext, 24000, 1);
-      const source = outputAudioContext.createBufferSource();
-      source.buffer = audioBuffer;
-      if (gainNodeRef.current) source.connect(gainNodeRef.current);
-      else source.connect(outputAudioContext.destination);
-
-      source.addEventListener('ended', () => {
-        sourcesRef.current.delete(source);
-        if (sourcesRef.current.size === 0) {
-          setIsAssistantSpeaking(false);
-          setPlayingVocabAudioId(null);
-        }
-      });
-      source.start(outputAudioContext.currentTime);
-      sourcesRef.current.add(source);
-      setIsAssistantSpeaking(true);
-      if (itemId) setPlayingVocabAudioId(itemId);
+      const audioBuffer = await decodeAudioData(decodedBytes, outputAudioContext, OUTPUT_SAMPLE_RATE, 1);
+      playAudioBuffer(audioBuffer, itemId);
       return true;
     } catch (error) {
       console.error("Audio playback error:", error);
       return false;
     }
-  }, [getOutputAudioContext, stopAllAudioPlayback]);
+  }, [getOutputAudioContext, stopAllAudioPlayback, playAudioBuffer]);
+
+  const playRecordedSamples = useCallback((samples: Float32Array, sampleRate: number) => {
+    stopAllAudioPlayback();
+    const outputAudioContext = getOutputAudioContext();
+    const audioBuffer = outputAudioContext.createBuffer(1, samples.length, sampleRate);
+    audioBuffer.copyToChannel(samples, 0);
+    return playAudioBuffer(audioBuffer);
+  }, [getOutputAudioContext, stopAllAudioPlayback, playAudioBuffer]);
+
+  const playSessionRecording = useCallback((samples: Float32Array, sampleRate: number) => {
+    sessionPlaybackRef.current = playRecordedSamples(samples, sampleRate);
+    setIsPlayingSessionRecording(true);
+  }, [playRecordedSamples]);
 
-  const handleApiError = useCallback((error: any, context: string) => {
+  // Stops only a replayed recording, so opening the history doesn't cut off a live session.
+  const stopSessionRecording = useCallback(() => {
+    const source = sessionPlaybackRef.current;
+    sessionPlaybackRef.current = null;
+    try { source?.stop(); } catch (e) {}
+    setIsPlayingSessionRecording(false);
+  }, []);
+
+  const handleApiError = useCallback((error: any, context: string, setError: (message: string) => void = setTextError) => {
     console.error(`Error in ${context}:`, error);
     let msg = error.message || String(error);
     if (msg.includes("Requested entity was not found.")) {
-      window.aistudio.openSelectKey();
+      window.aistudio?.openSelectKey();
     }
-    setTextError(`Error in ${context}: ${msg}`);
+    setError(`Error in ${context}: ${msg}`);
   }, []);
 
   const handlePreviewVoice = useCallback(async () => {
     if (isPreviewingVoice || isLiveApiConnected || liveApiConnecting) return;
     setIsPreviewingVoice(true);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: "Hello! I am ready to help you learn Guyanese tribal languages." }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: {
-              prebuiltVoiceConfig: { voiceName: selectedLiveVoice },
-            },
-          },
-        },
-      });
-      const audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      const audio = await aiProvider.synthesizeSpeech("Hello! I am ready to help you learn Guyanese tribal languages.", selectedLiveVoice);
       if (audio) {
         await playGeneratedAudio(audio);
       }
@@ -268,21 +313,17 @@ function App() {
     } finally {
       setIsPreviewingVoice(false);
     }
-  }, [selectedLiveVoice, isPreviewingVoice, isLiveApiConnected, liveApiConnecting, playGeneratedAudio, handleApiError]);
+  }, [aiProvider, selectedLiveVoice, isPreviewingVoice, isLiveApiConnected, liveApiConnecting, playGeneratedAudio, handleApiError]);
 
-  const handleTextToSpeech = useCallback(async (text: string, voiceName: string = 'Kore') => {
+  // Returns base64 24 kHz PCM for `text`, or null if the model returned no audio.
+  const synthesizeSpeech = useCallback((text: string, voiceName: string): Promise<string | null> => {
+    return aiProvider.synthesizeSpeech(text, voiceName);
+  }, [aiProvider]);
+
+  const handleTextToSpeech = useCallback(async (text: string, voiceName: string = DEFAULT_CARD_VOICE) => {
     if (!text) return false;
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
-        },
-      });
-      const audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      const audio = await synthesizeSpeech(text, voiceName);
       if (audio) {
         await playGeneratedAudio(audio);
         return true;
@@ -291,19 +332,89 @@ function App() {
       handleApiError(e, 'TTS');
     }
     return false;
-  }, [handleApiError, playGeneratedAudio]);
+  }, [handleApiError, playGeneratedAudio, synthesizeSpeech]);
 
-  const handleTextQuery = useCallback(async (modelName: string, useSearch: boolean = false, customPrompt?: string) => {
-    const prompt = customPrompt || textPrompt;
-    if (!prompt) return;
+  // Plays a card's saved audio, synthesizing and saving it on first use so later plays work offline.
+  const handlePlayVocabAudio = useCallback(async (item: VocabularyItem) => {
+    if (item.audioBase64) {
+      await playGeneratedAudio(item.audioBase64, item.id);
+      return;
+    }
+    if (!navigator.onLine) return;
+    setGeneratingVocabAudioId(item.id);
+    try {
+      const audio = await synthesizeSpeech(item.word, item.voice ?? DEFAULT_CARD_VOICE);
+      if (audio) {
+        setVocabularyList(prev => prev.map(i => i.id === item.id ? { ...i, audioBase64: audio } : i));
+        await playGeneratedAudio(audio, item.id);
+      }
+    } catch (e) {
+      handleApiError(e, 'TTS');
+    } finally {
+      setGeneratingVocabAudioId(null);
+    }
+  }, [playGeneratedAudio, synthesizeSpeech, handleApiError]);
+
+  // Changing the voice discards the saved audio so the next play uses the new voice.
+  const handleVocabVoiceChange = useCallback((item: VocabularyItem, voice: string) => {
+    setVocabularyList(prev => prev.map(i => i.id === item.id ? { ...i, voice, audioBase64: null } : i));
+  }, []);
+
+  const handleDownloadDeckAudio = useCallback(async () => {
+    const pending = vocabularyList.filter(item => !item.audioBase64);
+    if (pending.length === 0) return;
+    cancelDeckAudioRef.current = false;
+    setDeckAudioProgress({ done: 0, total: pending.length });
+    try {
+      // Sequential on purpose: rural connections handle one request at a time better than a burst.
+      for (let i = 0; i < pending.length; i++) {
+        if (cancelDeckAudioRef.current) break;
+        const item = pending[i];
+        setGeneratingVocabAudioId(item.id);
+        const audio = await synthesizeSpeech(item.word, item.voice ?? DEFAULT_CARD_VOICE);
+        if (audio) setVocabularyList(prev => prev.map(v => v.id === item.id ? { ...v, audioBase64: audio } : v));
+        setDeckAudioProgress({ done: i + 1, total: pending.length });
+      }
+    } catch (e) {
+      handleApiError(e, 'deck audio download');
+    } finally {
+      setGeneratingVocabAudioId(null);
+      setDeckAudioProgress(null);
+    }
+  }, [vocabularyList, synthesizeSpeech, handleApiError]);
+
+  const recordActivity = useCallback((events: ActivityEvent[]) => {
+    if (events.length === 0) return;
+    setActivityLog(prev => [...prev, ...events]);
+    saveActivityEvents(events).catch(e => console.error('Failed to save activity:', e));
+  }, []);
+
+  const updateThread = useCallback((threadId: string, updater: (thread: ChatThread) => ChatThread) => {
+    setChatThreads(prev => prev.map(t => t.id === threadId ? { ...updater(t), updatedAt: Date.now() } : t));
+  }, []);
+
+  const updateChatMessage = useCallback((threadId: string, messageId: string, patch: Partial<ChatMessage>) => {
+    updateThread(threadId, t => ({ ...t, messages: t.messages.map(m => m.id === messageId ? { ...m, ...patch } : m) }));
+  }, [updateThread]);
+
+  // Sends `prompt` after `history` in the given thread and streams the answer into a new model turn.
+  const runChatTurn = useCallback(async (threadId: string, history: ChatMessage[], prompt: string, useSearch: boolean) => {
+    const userMessage = createChatMessage('user', prompt);
+    const modelMessage = createChatMessage('model', '');
+    const conversation = [...history, userMessage];
+    updateThread(threadId, t => ({
+      ...t,
+      title: t.title || deriveThreadTitle(prompt),
+      messages: [...conversation, modelMessage],
+    }));
 
     setIsLoadingText(true);
     setTextError(null);
-    setTextResponse(''); // Clear for streaming
-    setGroundingUrls([]);
 
-    if (checkSuicidalIntent(prompt)) {
-      setTextResponse("If you are in crisis, please call 988 in the US or your local Guyanese health authorities at +592 226 1328.");
+    const { risk } = await assessCrisisRisk(prompt, { language: selectedTextInputLanguage, classifier: CRISIS_CLASSIFIER, provider: aiProvider });
+    if (risk !== 'none') {
+      updateChatMessage(threadId, modelMessage.id, { text: buildCrisisMessage(getCrisisRegion(crisisRegion)) });
+      setCrisisRisk(risk);
       setIsLoadingText(false);
       return;
     }
@@ -311,161 +422,395 @@ function App() {
     const controller = new AbortController();
     textAbortControllerRef.current = controller;
 
+    recordActivity([createActivityEvent('question', selectedTextOutputLanguage)]);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const stream = await ai.models.generateContentStream({
-        model: modelName,
-        contents: prompt,
-        config: {
-          systemInstruction: getSystemInstruction(selectedTextInputLanguage, selectedTextOutputLanguage),
-          tools: useSearch ? [{ googleSearch: {} }] : undefined,
-          signal: controller.signal,
-        },
+      // Retrieve with the previous question too, so short follow-ups keep their topic.
+      const previousQuestion = [...history].reverse().find(m => m.role === 'user')?.text ?? '';
+      const knowledge = retrieveKnowledge(`${previousQuestion} ${prompt}`, [selectedTextInputLanguage, selectedTextOutputLanguage]);
+      const stream = aiProvider.streamText({
+        contents: toGeminiContents(conversation),
+        systemInstruction: getSystemInstruction(selectedTextInputLanguage, selectedTextOutputLanguage, {
+          knowledge,
+          corrections: getPromptCorrections(corrections, [selectedTextInputLanguage, selectedTextOutputLanguage]),
+        }),
+        useSearch,
+        signal: controller.signal,
       });
 
       let fullText = '';
+      let groundingUrls: GroundingUrl[] = [];
       for await (const chunk of stream) {
-        const chunkText = chunk.text;
-        fullText += chunkText;
-        setTextResponse(fullText);
+        fullText += chunk.text;
 
         // Check for grounding metadata once the stream is deep enough or finished
-        const chunks = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks;
-        if (chunks && groundingUrls.length === 0) {
-          setGroundingUrls(chunks.map((c: any) => ({ uri: c.web?.uri, title: c.web?.title })).filter((u: any) => u.uri));
+        if (chunk.groundingUrls?.length && groundingUrls.length === 0) {
+          groundingUrls = chunk.groundingUrls;
         }
+        updateChatMessage(threadId, modelMessage.id, { text: fullText, groundingUrls, citations: extractCitations(fullText) });
       }
 
       // Automatically play TTS of the response
-      await handleTextToSpeech(fullText, selectedTextVoice);
+      await handleTextToSpeech(stripCitations(fullText), selectedTextVoice);
     } catch (e) {
       if (e instanceof Error && e.name === 'AbortError') return;
       handleApiError(e, 'text query');
     } finally {
       setIsLoadingText(false);
     }
-  }, [textPrompt, selectedTextInputLanguage, selectedTextOutputLanguage, selectedTextVoice, handleTextToSpeech, handleApiError, groundingUrls]);
+  }, [aiProvider, corrections, crisisRegion, selectedTextInputLanguage, selectedTextOutputLanguage, selectedTextVoice, handleTextToSpeech, handleApiError, updateThread, updateChatMessage, recordActivity]);
+
+  const activeThread = useMemo(() => chatThreads.find(t => t.id === activeThreadId) ?? null, [chatThreads, activeThreadId]);
+
+  const handleTextQuery = useCallback(async (useSearch: boolean = false, customPrompt?: string) => {
+    const prompt = customPrompt || textPrompt;
+    if (!prompt.trim() || isLoadingText) return;
+
+    let thread = activeThread;
+    if (!thread) {
+      thread = createChatThread();
+      const newThread = thread;
+      setChatThreads(prev => [newThread, ...prev]);
+      setActiveThreadId(newThread.id);
+    }
+    setTextPrompt('');
+    await runChatTurn(thread.id, thread.messages, prompt, useSearch);
+  }, [textPrompt, isLoadingText, activeThread, runChatTurn]);
+
+  const handleEditAndResend = useCallback((messageId: string, text: string) => {
+    if (!activeThread || isLoadingText) return;
+    const index = activeThread.messages.findIndex(m => m.id === messageId);
+    if (index === -1) return;
+    runChatTurn(activeThread.id, activeThread.messages.slice(0, index), text, true);
+  }, [activeThread, isLoadingText, runChatTurn]);
+
+  const handleRegenerate = useCallback(() => {
+    if (!activeThread || isLoadingText) return;
+    const index = activeThread.messages.map(m => m.role).lastIndexOf('user');
+    if (index === -1) return;
+    runChatTurn(activeThread.id, activeThread.messages.slice(0, index), activeThread.messages[index].text, true);
+  }, [activeThread, isLoadingText, runChatTurn]);
+
+  const handleDeleteThread = useCallback((threadId: string) => {
+    setChatThreads(prev => prev.filter(t => t.id !== threadId));
+    if (activeThreadId === threadId) setActiveThreadId(null);
+  }, [activeThreadId]);
+
+  // Falls back to a debrief built on the device if the model can't be reached.
+  const debriefLiveSession = useCallback(async (session: LiveSessionTranscript, scenario: RoleplayScenario) => {
+    setScenarioDebrief({ sessionId: session.id, title: scenario.title, debrief: null });
+    let debrief: ScenarioDebrief;
+    try {
+      const raw = await aiProvider.generateJson<unknown>({ contents: buildDebriefPrompt(scenario, session.turns), schema: DEBRIEF_SCHEMA });
+      debrief = normalizeDebrief(raw, scenario, session.turns);
+    } catch (e) {
+      console.error('Debrief failed:', e);
+      debrief = offlineDebrief(scenario, session.turns);
+    }
+    const debriefed = { ...session, debrief };
+    setScenarioDebrief(prev => prev?.sessionId === session.id ? { ...prev, debrief } : prev);
+    setLiveSessions(prev => prev.map(s => s.id === session.id ? debriefed : s));
+    saveLiveSession(debriefed).catch(e => console.error('Failed to save live session:', e));
+  }, [aiProvider]);
 
+  // Saves the current session's transcript to history, if anything was said, and debriefs a roleplay.
+  const archiveLiveSession = useCallback(() => {
+    const meta = liveSessionMetaRef.current;
+    const scenario = liveSessionScenarioRef.current;
+    const recorder = liveRecorderRef.current;
+    liveSessionMetaRef.current = null;
+    liveSessionScenarioRef.current = null;
+    liveRecorderRef.current = null;
+    const turns = completeOpenTurns(liveTurnsRef.current);
+    setLiveTurns(turns);
+    if (!meta || turns.length === 0) return;
+    const endedAt = Date.now();
+    recorder?.cutOutput(endedAt);
+    const audio = recorder?.hasAudio ? recorder.mix() : null;
+    const session: LiveSessionTranscript = {
+      ...meta,
+      endedAt,
+      turns,
+      ...(recorder && audio ? { recording: { sampleRate: recorder.sampleRate, durationMs: Math.round((audio.length / recorder.sampleRate) * 1000) } } : {}),
+    };
+    setLiveSessions(prev => [session, ...prev]);
+    saveLiveSession(session).catch(e => console.error('Failed to save live session:', e));
+    if (recorder && audio) saveSessionRecording(session.id, audio).catch(e => console.error('Failed to save session recording:', e));
+    recordActivity([createActivityEvent('live', session.outputLanguage, { durationMs: session.endedAt - session.startedAt }, session.endedAt)]);
+    if (scenario && turns.some(t => t.speaker === 'user' && t.text.trim())) debriefLiveSession(session, scenario);
+  }, [recordActivity, debriefLiveSession]);
+
+  const handleSubmitCorrection = useCallback((correction: Correction) => {
+    setCorrections(prev => [correction, ...prev]);
+    setCorrectionSubject(null);
+    saveCorrection(correction).catch(e => console.error('Failed to save correction:', e));
+  }, []);
+
+  // Approved card corrections are written straight into the deck; all approved corrections reach future prompts.
+  const handleReviewCorrection = useCallback((correction: Correction, decision: Exclude<CorrectionStatus, 'pending'>, reviewer: string, options: { finalText?: string; reviewNote?: string }) => {
+    const reviewed = reviewCorrection(correction, decision, reviewer, options);
+    setCorrections(prev => prev.map(c => c.id === reviewed.id ? reviewed : c));
+    setVocabularyList(prev => applyCorrectionToVocabulary(prev, reviewed));
+    saveCorrection(reviewed).catch(e => console.error('Failed to save correction:', e));
+  }, []);
+
+  const handleDeleteLiveSession = useCallback((session: LiveSessionTranscript) => {
+    setLiveSessions(prev => prev.filter(s => s.id !== session.id));
+    deleteLiveSession(session.id).catch(e => console.error('Failed to delete live session:', e));
+  }, []);
+
+  // Ends the session on purpose and releases the microphone; nothing from its connection is handled after this.
   const stopLiveConversation = useCallback(() => {
-    sessionPromiseRef.current?.then(s => s.close());
+    liveConnectionIdRef.current++;
+    if (liveReconnectTimerRef.current !== null) window.clearTimeout(liveReconnectTimerRef.current);
+    liveReconnectTimerRef.current = null;
+    liveResumptionHandleRef.current = null;
+    archiveLiveSession();
+    sessionPromiseRef.current?.then(s => s.close(), () => {});
     sessionPromiseRef.current = null;
-    if (mediaStreamRef.current) mediaStreamRef.current.getTracks().forEach(t => t.stop());
-    if (scriptProcessorRef.current) scriptProcessorRef.current.disconnect();
-    if (audioContextRef.current) audioContextRef.current.close();
+    mediaStreamRef.current?.getTracks().forEach(t => t.stop());
+    mediaStreamRef.current = null;
+    inputAnalyserRef.current?.disconnect();
+    inputAnalyserRef.current = null;
+    audioCaptureRef.current?.stop();
+    audioCaptureRef.current = null;
+    stopAllAudioPlayback();
+    livePausedRef.current = false;
+    setIsLivePaused(false);
+    setLiveConnectionState('idle');
+  }, [stopAllAudioPlayback, archiveLiveSession]);
+
+  // Holds a live session behind the crisis panel. The microphone stays open, but nothing is sent or
+  // recorded and the tutor is silenced until the learner resumes.
+  const pauseLiveSession = useCallback(() => {
+    livePausedRef.current = true;
+    setIsLivePaused(true);
+    liveRecorderRef.current?.cutOutput();
     stopAllAudioPlayback();
-    setIsLiveApiConnected(false);
-    setLiveApiConnecting(false);
   }, [stopAllAudioPlayback]);
 
+  const resumeFromCrisis = useCallback(() => {
+    livePausedRef.current = false;
+    setIsLivePaused(false);
+    setCrisisRisk(null);
+  }, []);
+
+  const handleCrisisRegionChange = useCallback((id: string) => {
+    setCrisisRegion(id);
+    saveCrisisRegion(id);
+  }, []);
+
   const startLiveConversation = useCallback(async () => {
-    setLiveApiConnecting(true);
+    setLiveConnectionState('connecting');
+    setLiveError(null);
+    const startedAt = Date.now();
+    liveSessionMetaRef.current = {
+      id: createId(),
+      startedAt,
+      inputLanguage: selectedLiveInputLanguage,
+      outputLanguage: selectedLiveOutputLanguage,
+      voice: selectedLiveVoice,
+      ...(liveScenario ? { scenario: { id: liveScenario.id, title: liveScenario.title } } : {}),
+    };
+    liveSessionScenarioRef.current = liveScenario;
+    liveRecorderRef.current = isLiveRecordingEnabled ? new SessionRecorder(startedAt, CAPTURE_SAMPLE_RATE, OUTPUT_SAMPLE_RATE) : null;
+    liveReconnectAttemptRef.current = 0;
+    liveResumptionHandleRef.current = null;
+    screenedLiveTurnsRef.current = new Set();
+    setLiveTurns([]);
+    setLiveSessionStartedAt(startedAt);
+    const systemInstruction = getSystemInstruction(selectedLiveInputLanguage, selectedLiveOutputLanguage, {
+      knowledge: getLanguageDigest([selectedLiveInputLanguage, selectedLiveOutputLanguage]),
+      corrections: getPromptCorrections(corrections, [selectedLiveInputLanguage, selectedLiveOutputLanguage]),
+      mode: 'spoken',
+      scenario: liveScenario ? buildScenarioInstruction(liveScenario) : undefined,
+    });
     try {
-      if (!await window.aistudio.hasSelectedApiKey()) await window.aistudio.openSelectKey();
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      if (aiProvider.requiresApiKey && window.aistudio && !await window.aistudio.hasSelectedApiKey()) await window.aistudio.openSelectKey();
       mediaStreamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const inputCtx = new AudioContext({ sampleRate: 16000 });
-      audioContextRef.current = inputCtx;
+      // Chunks captured while the session is still connecting are sent once it resolves.
+      audioCaptureRef.current = await startAudioCapture(mediaStreamRef.current, {
+        chunkSize: LIVE_INPUT_CHUNK_SIZE,
+        onChunk: (samples) => {
+          if (livePausedRef.current) return;
+          liveRecorderRef.current?.addInput(samples);
+          const blob = createBlob(samples, CAPTURE_SAMPLE_RATE);
+          // A failed connection is reported once, by the setup error handler below.
+          sessionPromiseRef.current?.then(s => s.sendRealtimeInput({ media: blob }), () => {});
+        },
+      });
+      const inputAnalyser = audioCaptureRef.current.context.createAnalyser();
+      inputAnalyser.fftSize = VISUALIZER_FFT_SIZE;
+      audioCaptureRef.current.source.connect(inputAnalyser);
+      inputAnalyserRef.current = inputAnalyser;
       const outputCtx = getOutputAudioContext();
 
-      sessionPromiseRef.current = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        callbacks: {
-          onopen: () => {
-            setIsLiveApiConnected(true);
-            setLiveApiConnecting(false);
-            const source = inputCtx.createMediaStreamSource(mediaStreamRef.current!);
-            const script = inputCtx.createScriptProcessor(4096, 1, 1);
-            script.onaudioprocess = (e) => {
-              const blob = createBlob(e.inputBuffer.getChannelData(0));
-              sessionPromiseRef.current?.then(s => s.sendRealtimeInput({ media: blob }));
-            };
-            source.connect(script);
-            script.connect(inputCtx.destination);
-            scriptProcessorRef.current = script;
-          },
-          onmessage: async (m: LiveServerMessage) => {
-            if (m.serverContent?.outputTranscription) setLiveOutputTranscription(p => p + m.serverContent!.outputTranscription!.text);
-            if (m.serverContent?.inputTranscription) setLiveInputTranscription(p => p + m.serverContent!.inputTranscription!.text);
-            const audio = m.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (audio) {
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
-              const buffer = await decodeAudioData(decode(audio), outputCtx, 24000, 1);
-              const src = outputCtx.createBufferSource();
-              src.buffer = buffer;
-              src.connect(gainNodeRef.current || outputCtx.destination);
-              src.addEventListener('ended', () => {
-                sourcesRef.current.delete(src);
-                if (sourcesRef.current.size === 0) setIsAssistantSpeaking(false);
-              });
-              src.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buffer.duration;
-              sourcesRef.current.add(src);
-              setIsAssistantSpeaking(true);
-            }
-            if (m.serverContent?.interrupted) {
-              sourcesRef.current.forEach(s => s.stop());
-              sourcesRef.current.clear();
-              setIsAssistantSpeaking(false);
-            }
+      const handleMessage = async (m: LiveMessage) => {
+        const update = m.sessionResumptionUpdate;
+        if (update?.resumable && update.newHandle) liveResumptionHandleRef.current = update.newHandle;
+        const inputText = m.serverContent?.inputTranscription?.text;
+        const outputText = m.serverContent?.outputTranscription?.text;
+        if (inputText) setLiveTurns(prev => appendTranscriptFragment(prev, 'user', inputText));
+        // While paused, whatever the tutor was still saying is dropped unheard.
+        if (outputText && !livePausedRef.current) setLiveTurns(prev => appendTranscriptFragment(prev, 'assistant', outputText));
+        const audio = m.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+        if (audio && !livePausedRef.current) {
+          nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
+          const buffer = await decodeAudioData(decode(audio), outputCtx, OUTPUT_SAMPLE_RATE, 1);
+          if (livePausedRef.current) return;
+          const src = outputCtx.createBufferSource();
+          src.buffer = buffer;
+          src.connect(gainNodeRef.current || outputCtx.destination);
+          src.addEventListener('ended', () => {
+            sourcesRef.current.delete(src);
+            if (sourcesRef.current.size === 0) setIsAssistantSpeaking(false);
+          });
+          src.start(nextStartTimeRef.current);
+          liveRecorderRef.current?.addOutput(buffer.getChannelData(0), Date.now() + (nextStartTimeRef.current - outputCtx.currentTime) * 1000);
+          nextStartTimeRef.current += buffer.duration;
+          sourcesRef.current.add(src);
+          setIsAssistantSpeaking(true);
+        }
+        if (m.serverContent?.interrupted) {
+          liveRecorderRef.current?.cutOutput();
+          sourcesRef.current.forEach(s => s.stop());
+          sourcesRef.current.clear();
+          setIsAssistantSpeaking(false);
+          setLiveTurns(prev => completeOpenTurns(prev, true));
+        } else if (m.serverContent?.turnComplete) {
+          setLiveTurns(prev => completeOpenTurns(prev));
+        }
+        // The server is about to drop the connection; move to a new one while the handle is fresh.
+        if (m.goAway) reconnect();
+      };
+
+      // Opens a connection for this session. After a drop the server resumes the old session from its
+      // handle; without one, the tutor is given the transcript so far instead.
+      const connect = (connectionId: number, isReconnect: boolean): Promise<LiveSession> => {
+        const isCurrent = () => liveConnectionIdRef.current === connectionId;
+        const handle = liveResumptionHandleRef.current;
+        const resumeContext = isReconnect && !handle ? buildResumeContext(liveTurnsRef.current) : undefined;
+        const sessionPromise = aiProvider.connectLive({
+          voiceName: selectedLiveVoice,
+          systemInstruction: resumeContext ? `${systemInstruction}\n\n${resumeContext}` : systemInstruction,
+          resumptionHandle: handle ?? undefined,
+          callbacks: {
+            onopen: () => {
+              if (!isCurrent()) return;
+              liveReconnectAttemptRef.current = 0;
+              setLiveConnectionState('open');
+              setLiveError(null);
+            },
+            onmessage: (m) => {
+              if (isCurrent()) handleMessage(m);
+            },
+            onclose: () => {
+              if (isCurrent()) reconnect();
+            },
+            onerror: (e) => {
+              if (!isCurrent()) return;
+              handleApiError(e, 'Live API', setLiveError);
+              reconnect();
+            },
           },
-          onclose: () => setIsLiveApiConnected(false),
-          onerror: (e) => handleApiError(e, 'Live API'),
-        },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: selectedLiveVoice } } },
-          systemInstruction: getSystemInstruction(selectedLiveInputLanguage, selectedLiveOutputLanguage),
-        },
-      });
+        });
+        sessionPromiseRef.current = sessionPromise;
+        return sessionPromise;
+      };
+
+      // Replaces a dropped connection after a backoff delay, or ends the session once attempts run out.
+      // The microphone keeps running meanwhile; its audio is recorded but not sent.
+      const reconnect = () => {
+        const connectionId = ++liveConnectionIdRef.current;
+        sessionPromiseRef.current?.then(s => s.close(), () => {});
+        sessionPromiseRef.current = null;
+        liveRecorderRef.current?.cutOutput();
+        stopAllAudioPlayback();
+        setLiveTurns(prev => completeOpenTurns(prev, true));
+        const attempt = liveReconnectAttemptRef.current++;
+        if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+          stopLiveConversation();
+          setLiveConnectionState('failed');
+          setLiveError('The connection dropped and could not be restored. Check your signal and start a new session.');
+          return;
+        }
+        setLiveConnectionState('reconnecting');
+        liveReconnectTimerRef.current = window.setTimeout(() => {
+          liveReconnectTimerRef.current = null;
+          if (liveConnectionIdRef.current !== connectionId) return;
+          connect(connectionId, true).catch(e => {
+            if (liveConnectionIdRef.current !== connectionId) return;
+            handleApiError(e, 'Live reconnect', setLiveError);
+            reconnect();
+          });
+        }, reconnectDelay(attempt));
+      };
+
+      await connect(++liveConnectionIdRef.current, false);
     } catch (e) {
-      handleApiError(e, 'Live setup');
+      sessionPromiseRef.current = null;
+      handleApiError(e, 'Live setup', setLiveError);
       stopLiveConversation();
+      setLiveConnectionState('failed');
     }
-  }, [getOutputAudioContext, selectedLiveVoice, selectedLiveInputLanguage, selectedLiveOutputLanguage, handleApiError, stopLiveConversation]);
+  }, [aiProvider, corrections, getOutputAudioContext, selectedLiveVoice, selectedLiveInputLanguage, selectedLiveOutputLanguage, liveScenario, isLiveRecordingEnabled, handleApiError, stopAllAudioPlayback, stopLiveConversation]);
+
+  // Asks for every pronunciation form and fills in the ones the card is missing.
+  const fetchTranscription = useCallback(async (item: VocabularyItem) => {
+    const raw = await aiProvider.generateJson<unknown>({
+      contents: buildTranscriptionPrompt(item, getOrthographyProfile(item.wordLanguage)),
+      schema: TRANSCRIPTION_SCHEMA,
+    });
+    const result = normalizeTranscription(raw);
+    if (result.phoneticTranscription || Object.keys(result.pronunciation).length > 0) {
+      setVocabularyList(prev => prev.map(i => i.id === item.id ? applyTranscription(i, result) : i));
+    }
+  }, [aiProvider]);
 
   const handleGenerateTranscription = useCallback(async (item: VocabularyItem) => {
     setGeneratingTranscriptionId(item.id);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: `Provide the IPA (International Phonetic Alphabet) phonetic transcription for the word "${item.word}" in the ${item.wordLanguage} language. Return ONLY the transcription inside slashes, e.g., /waɪ/.`,
-        config: {
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              transcription: { type: Type.STRING, description: 'The IPA phonetic transcription.' }
-            },
-            required: ['transcription']
-          }
-        }
-      });
-      const result = JSON.parse(response.text);
-      if (result.transcription) {
-        setVocabularyList(prev => prev.map(i => i.id === item.id ? { ...i, phoneticTranscription: result.transcription } : i));
-      }
+      await fetchTranscription(item);
     } catch (e) {
       handleApiError(e, 'phonetic transcription generation');
     } finally {
       setGeneratingTranscriptionId(null);
     }
-  }, [handleApiError]);
+  }, [fetchTranscription, handleApiError]);
+
+  const cardsMissingForms = useMemo(
+    () => vocabularyList.filter(item => missingPronunciationForms(item, pronunciationForms).length > 0),
+    [vocabularyList, pronunciationForms],
+  );
+
+  // Fills in the shown forms across the deck, e.g. after the learner turns a new one on.
+  const handleFillMissingForms = useCallback(async () => {
+    const pending = cardsMissingForms;
+    if (pending.length === 0) return;
+    cancelFormsFillRef.current = false;
+    setFormsFillProgress({ done: 0, total: pending.length });
+    try {
+      // One card at a time, like the deck audio download.
+      for (let i = 0; i < pending.length; i++) {
+        if (cancelFormsFillRef.current) break;
+        setGeneratingTranscriptionId(pending[i].id);
+        await fetchTranscription(pending[i]);
+        setFormsFillProgress({ done: i + 1, total: pending.length });
+      }
+    } catch (e) {
+      handleApiError(e, 'pronunciation forms');
+    } finally {
+      setGeneratingTranscriptionId(null);
+      setFormsFillProgress(null);
+    }
+  }, [cardsMissingForms, fetchTranscription, handleApiError]);
 
   const handleGenerateImageForItem = useCallback(async (item: VocabularyItem) => {
     setGeneratingImageId(item.id);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       // Culturally focused prompt for Guyanese Tribal context
       const prompt = `A clear, vibrant educational illustration of '${item.translation}' in a Guyanese indigenous context. The setting should be the ${item.wordLanguage === 'Macushi' ? 'Rupununi savannah' : 'Amazonian rainforest'} of Guyana. Style: Realistic digital art, high contrast, clean background, culturally respectful representation of tribal life or nature.`;
       
-      const response = await ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
-        prompt: prompt,
-        config: { numberOfImages: 1, outputMimeType: 'image/jpeg', aspectRatio: '1:1' },
-      });
-
-      const base64 = response.generatedImages?.[0]?.image?.imageBytes;
+      const base64 = await aiProvider.generateImage({ prompt, aspectRatio: '1:1' });
       if (base64) {
         setVocabularyList(prev => prev.map(i => i.id === item.id ? { ...i, imageBase64: base64 } : i));
       }
@@ -474,7 +819,17 @@ function App() {
     } finally {
       setGeneratingImageId(null);
     }
-  }, [handleApiError]);
+  }, [aiProvider, handleApiError]);
+
+  const handlePronunciationFeedback = useCallback((item: VocabularyItem, samples: Float32Array, sampleRate: number): Promise<PronunciationFeedback> => {
+    return aiProvider.generateJson<PronunciationFeedback>({
+      contents: [
+        { inlineData: { mimeType: 'audio/wav', data: encode(encodeWav(samples, sampleRate)) } },
+        { text: buildPronunciationFeedbackPrompt(item) },
+      ],
+      schema: PRONUNCIATION_FEEDBACK_SCHEMA,
+    });
+  }, [aiProvider]);
 
   const handleAddVocabularyItem = useCallback(() => {
     if (!currentVocabularyWord || !currentVocabularyTranslation) return;
@@ -488,26 +843,331 @@ function App() {
       audioBase64: null,
       timestamp: Date.now(),
     };
+    const tags = parseTags(currentVocabularyTags);
+    if (currentVocabularyDeckId !== DEFAULT_DECK.id) newItem.deckId = currentVocabularyDeckId;
+    if (tags.length) newItem.tags = tags;
     setVocabularyList(p => [newItem, ...p]);
+    recordActivity([createActivityEvent('word-added', newItem.wordLanguage, { itemId: newItem.id })]);
     setShowAddVocabularyModal(false);
     setCurrentVocabularyWord('');
     setCurrentVocabularyTranslation('');
+    setCurrentVocabularyTags('');
     
     // Automatically trigger transcription generation for the new item
     handleGenerateTranscription(newItem);
-  }, [currentVocabularyWord, currentVocabularyTranslation, currentVocabularyWordLanguage, currentVocabularyTranslationLanguage, handleGenerateTranscription]);
+  }, [currentVocabularyWord, currentVocabularyTranslation, currentVocabularyWordLanguage, currentVocabularyTranslationLanguage, currentVocabularyDeckId, currentVocabularyTags, handleGenerateTranscription, recordActivity]);
+
+  const handleOpenAddVocabulary = useCallback(() => {
+    // New words go into the deck being browsed.
+    setCurrentVocabularyDeckId(vocabularyFilter.deckId === ALL ? DEFAULT_DECK.id : vocabularyFilter.deckId);
+    setShowAddVocabularyModal(true);
+  }, [vocabularyFilter.deckId]);
+
+  const handleCreateDeck = useCallback((name: string) => {
+    const deck = createDeck(name);
+    setDecks(prev => [...prev, deck]);
+    setVocabularyFilter(prev => ({ ...prev, deckId: deck.id }));
+    saveDeck(deck).catch(e => console.error('Failed to save deck:', e));
+  }, []);
+
+  const handleDeleteDeck = useCallback((deck: Deck) => {
+    // Nothing is lost: the deck's cards move back to the default deck.
+    setVocabularyList(prev => moveCardsToDeck(prev, new Set(prev.filter(i => i.deckId === deck.id).map(i => i.id)), DEFAULT_DECK.id));
+    setDecks(prev => prev.filter(d => d.id !== deck.id));
+    setVocabularyFilter(prev => ({ ...prev, deckId: ALL }));
+    deleteDeck(deck.id).catch(e => console.error('Failed to delete deck:', e));
+  }, []);
+
+  const handleToggleCardSelection = useCallback((item: VocabularyItem) => {
+    setSelectedCardIds(prev => {
+      const next = new Set(prev);
+      if (next.has(item.id)) next.delete(item.id);
+      else next.add(item.id);
+      return next;
+    });
+  }, []);
+
+  const handleMoveSelected = useCallback((deckId: string) => {
+    if (!selectedCardIds) return;
+    setVocabularyList(prev => moveCardsToDeck(prev, selectedCardIds, deckId));
+    setSelectedCardIds(new Set());
+  }, [selectedCardIds]);
+
+  const handleCopySelected = useCallback((deckId: string) => {
+    if (!selectedCardIds) return;
+    const now = Date.now();
+    const copies = copyCardsToDeck(vocabularyList, selectedCardIds, deckId, now);
+    setVocabularyList(prev => [...copies, ...prev]);
+    recordActivity(copies.map(i => createActivityEvent('word-added', i.wordLanguage, { itemId: i.id }, now)));
+    setSelectedCardIds(new Set());
+  }, [selectedCardIds, vocabularyList, recordActivity]);
+
+  const handleTagSelected = useCallback((tags: string[]) => {
+    if (!selectedCardIds) return;
+    setVocabularyList(prev => tagCards(prev, selectedCardIds, tags));
+  }, [selectedCardIds]);
+
+  const vocabularyKeys = useMemo(() => new Set(vocabularyList.map(vocabularyKey)), [vocabularyList]);
+
+  const handleTranslate = useCallback(async (request: TranslationRequest): Promise<TranslationResult> => {
+    const languages = [request.sourceLanguage, request.targetLanguage];
+    const raw = await aiProvider.generateJson<unknown>({
+      contents: buildTranslationPrompt(request, retrieveKnowledge(request.text, languages), getPromptCorrections(corrections, languages)),
+      schema: TRANSLATION_SCHEMA,
+    });
+    return normalizeTranslationResult(raw, request);
+  }, [aiProvider, corrections]);
+
+  const handleSaveGlossWord = useCallback((word: InterlinearWord, language: string) => {
+    const newItem = glossWordToVocabularyItem(word, language);
+    if (!newItem.word || vocabularyKeys.has(vocabularyKey(newItem))) return;
+    setVocabularyList(p => [newItem, ...p]);
+    recordActivity([createActivityEvent('word-added', newItem.wordLanguage, { itemId: newItem.id })]);
+    if (!newItem.phoneticTranscription) handleGenerateTranscription(newItem);
+  }, [vocabularyKeys, handleGenerateTranscription, recordActivity]);
+
+  const handleExtractTerms = useCallback(async (text: string, language: string): Promise<ExtractedTerm[]> => {
+    const raw = await aiProvider.generateJson<unknown>({ contents: buildExtractionPrompt(text, language), schema: EXTRACTION_SCHEMA });
+    return normalizeExtractedTerms(raw, vocabularyKeys);
+  }, [aiProvider, vocabularyKeys]);
+
+  const handleSaveExtractedTerms = useCallback((terms: ExtractedTerm[]) => {
+    const now = Date.now();
+    const newItems = terms
+      .filter(t => !vocabularyKeys.has(vocabularyKey({ word: t.word, wordLanguage: t.language })))
+      .map(t => extractedTermToVocabularyItem(t, now));
+    setVocabularyList(p => [...newItems, ...p]);
+    recordActivity(newItems.map(i => createActivityEvent('word-added', i.wordLanguage, { itemId: i.id }, now)));
+    setExtractionSource(null);
+    newItems.filter(i => !i.phoneticTranscription).forEach(handleGenerateTranscription);
+  }, [vocabularyKeys, handleGenerateTranscription, recordActivity]);
+
+  const handleGradeReview = useCallback((item: VocabularyItem, grade: ReviewGrade) => {
+    setVocabularyList(prev => prev.map(i => i.id === item.id ? gradeVocabularyItem(i, grade) : i));
+    recordActivity([createActivityEvent('review', item.wordLanguage, { itemId: item.id, grade })]);
+  }, [recordActivity]);
+
+  const handleImportDeck = useCallback((items: VocabularyItem[]) => {
+    const existingIds = new Set(vocabularyList.map(i => i.id));
+    const now = Date.now();
+    setVocabularyList(items);
+    recordActivity(items.filter(i => !existingIds.has(i.id)).map(i => createActivityEvent('word-added', i.wordLanguage, { itemId: i.id }, now)));
+  }, [vocabularyList, recordActivity]);
+
+  const handleGenerateDistractors = useCallback(async (items: VocabularyItem[]): Promise<Record<string, QuizDistractors>> => {
+    if (!navigator.onLine) return {};
+    const raw = await aiProvider.generateJson<unknown>({ contents: buildDistractorPrompt(items), schema: DISTRACTOR_SCHEMA });
+    return normalizeDistractors(raw, items);
+  }, [aiProvider]);
+
+  const handleQuizAnswer = useCallback((item: VocabularyItem, correct: boolean) => {
+    setVocabularyList(prev => prev.map(i => i.id === item.id ? recordQuizAnswer(i, correct) : i));
+    recordActivity([createActivityEvent('quiz', item.wordLanguage, { itemId: item.id, correct })]);
+  }, [recordActivity]);
+
+  const dueItems = useMemo(() => getDueItems(vocabularyList), [vocabularyList]);
+  const allDecks = useMemo(() => [DEFAULT_DECK, ...decks], [decks]);
+  const shownVocabulary = useMemo(() => filterVocabulary(vocabularyList, vocabularyFilter), [vocabularyList, vocabularyFilter]);
+  const vocabularyLanguages = useMemo(() => [...new Set([...GUYANESE_LANGUAGES, ...vocabularyList.map(i => i.wordLanguage)])], [vocabularyList]);
+  const vocabularyTags = useMemo(() => collectTags(vocabularyList), [vocabularyList]);
+  const pendingCorrectionCount = useMemo(() => corrections.filter(c => c.status === 'pending').length, [corrections]);
+  const practiceItem = useMemo(() => vocabularyList.find(i => i.id === practiceItemId) ?? null, [vocabularyList, practiceItemId]);
+  const editingItem = useMemo(() => vocabularyList.find(i => i.id === editingItemId) ?? null, [vocabularyList, editingItemId]);
+
+  useEffect(() => {
+    setCardRevisions(null);
+    if (!editingItemId) return;
+    let cancelled = false;
+    loadCardRevisions(editingItemId)
+      .then(revisions => { if (!cancelled) setCardRevisions(revisions); })
+      .catch(e => {
+        console.error('Failed to load card history:', e);
+        if (!cancelled) setCardRevisions([]);
+      });
+    return () => { cancelled = true; };
+  }, [editingItemId]);
+
+  // Only the edited fields are written back, so a transcription or image that arrives meanwhile is kept.
+  const commitCardRevision = useCallback((result: { item: VocabularyItem; revision: CardRevision } | null) => {
+    if (!result) return;
+    const fields = cardFields(result.item);
+    setVocabularyList(prev => prev.map(i => i.id === result.item.id ? { ...i, ...fields } : i));
+    setCardRevisions(prev => [result.revision, ...(prev ?? [])]);
+    saveCardRevision(result.revision).catch(e => console.error('Failed to save card history:', e));
+  }, []);
+
+  const handleSaveCardEdit = useCallback((item: VocabularyItem, fields: CardFields) => {
+    commitCardRevision(editCard(item, fields));
+    setEditingItemId(null);
+  }, [commitCardRevision]);
+
+  const handleRestoreCardRevision = useCallback((item: VocabularyItem, revision: CardRevision) => {
+    commitCardRevision(restoreCardRevision(item, revision));
+  }, [commitCardRevision]);
+
+  const lessonQuizUnit = useMemo(() => (lessonQuizUnitId && getLessonUnit(lessonQuizUnitId)) || null, [lessonQuizUnitId]);
+
+  // Opening a unit counts as using it, so Resume comes back to it.
+  const handleOpenLessonUnit = useCallback((unit: LessonUnit | null) => {
+    setOpenLessonUnitId(unit?.id ?? null);
+    if (unit) setLessonProgress(prev => setLessonStep(prev, unit.id, prev[unit.id]?.step ?? 'objectives'));
+  }, []);
+
+  const handleLessonStepChange = useCallback((unit: LessonUnit, step: LessonStep) => {
+    setLessonProgress(prev => setLessonStep(prev, unit.id, step));
+  }, []);
+
+  const handleAddLessonWords = useCallback((unit: LessonUnit) => {
+    const { items, added } = addLessonWords(vocabularyList, unit);
+    const now = Date.now();
+    setVocabularyList(items);
+    recordActivity(added.map(i => createActivityEvent('word-added', i.wordLanguage, { itemId: i.id }, now)));
+    added.filter(i => !i.phoneticTranscription).forEach(handleGenerateTranscription);
+  }, [vocabularyList, recordActivity, handleGenerateTranscription]);
+
+  // The question is left in the text box so the learner (or teacher) can adjust it before sending.
+  const handleAskLessonTutor = useCallback((unit: LessonUnit, prompt: string) => {
+    setSelectedTextOutputLanguage(unit.language);
+    setActiveThreadId(null);
+    setTextPrompt(prompt);
+    setShowLessons(false);
+  }, []);
+
+  const handleStartLessonRoleplay = useCallback((unit: LessonUnit) => {
+    setLiveScenario(lessonScenario(unit));
+    setSelectedLiveOutputLanguage(unit.language);
+    setShowLessons(false);
+  }, []);
+
+  const handleSelectScenario = useCallback((scenario: RoleplayScenario) => {
+    setLiveScenario(scenario);
+    setSelectedLiveOutputLanguage(scenario.language);
+    setShowScenarioPicker(false);
+  }, []);
+
+  const handleDeleteScenario = useCallback((scenario: RoleplayScenario) => {
+    setCustomScenarios(prev => prev.filter(s => s.id !== scenario.id));
+    if (liveScenario?.id === scenario.id) {
+      setLiveScenario(null);
+      setSelectedLiveOutputLanguage('English');
+    }
+  }, [liveScenario]);
+
+  const handleClearLiveScenario = useCallback(() => {
+    setLiveScenario(null);
+    setSelectedLiveOutputLanguage('English');
+  }, []);
+
+  const refreshStorageUsage = useCallback(() => {
+    getStorageUsage().then(setStorageUsage).catch(e => console.error('Storage estimate failed:', e));
+  }, []);
+
+  useEffect(() => {
+    loadVocabulary()
+      .then(items => {
+        persistedVocabularyRef.current = items ?? [];
+        setVocabularyList(items ?? INITIAL_VOCAB);
+      })
+      .catch(e => {
+        console.error('Failed to load vocabulary:', e);
+        setStorageError(`Your saved deck could not be opened (${e?.message || e}). Changes made now may not be saved.`);
+        setVocabularyList(INITIAL_VOCAB);
+      })
+      .finally(() => setIsVocabularyLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    liveTurnsRef.current = liveTurns;
+  }, [liveTurns]);
+
+  // Screens what the learner says live: the phrase rules on every fragment, so an explicit statement
+  // pauses the session straight away, and the full check once each turn is complete.
+  useEffect(() => {
+    if (!isLiveApiConnected || isLivePaused) return;
+    const meta = liveSessionMetaRef.current;
+    const flag = (risk: Exclude<CrisisRisk, 'none'>) => {
+      pauseLiveSession();
+      setCrisisRisk(prev => prev === 'high' ? prev : risk);
+    };
+    for (const turn of liveTurns) {
+      if (turn.speaker !== 'user' || !turn.text.trim() || screenedLiveTurnsRef.current.has(turn.id)) continue;
+      if (!turn.isFinal) {
+        if (screenWithRules(turn.text).risk !== 'high') continue;
+        screenedLiveTurnsRef.current.add(turn.id);
+        flag('high');
+        return;
+      }
+      screenedLiveTurnsRef.current.add(turn.id);
+      assessCrisisRisk(turn.text, { language: meta?.inputLanguage, classifier: CRISIS_CLASSIFIER, provider: aiProvider }).then(({ risk }) => {
+        if (risk !== 'none' && liveSessionMetaRef.current === meta) flag(risk);
+      });
+    }
+  }, [aiProvider, liveTurns, isLiveApiConnected, isLivePaused, pauseLiveSession]);
+
+  useEffect(() => {
+    loadLiveSessions().then(setLiveSessions).catch(e => console.error('Failed to load live sessions:', e));
+    loadCorrections().then(setCorrections).catch(e => console.error('Failed to load corrections:', e));
+    loadDecks().then(saved => setDecks(prev => [...saved, ...prev])).catch(e => console.error('Failed to load decks:', e));
+    // Events recorded before the log finishes loading are kept.
+    loadActivityLog().then(saved => setActivityLog(prev => [...saved, ...prev])).catch(e => console.error('Failed to load activity:', e));
+  }, []);
+
+  useEffect(() => {
+    const updateOnlineStatus = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnlineStatus);
+    window.addEventListener('offline', updateOnlineStatus);
+    return () => {
+      window.removeEventListener('online', updateOnlineStatus);
+      window.removeEventListener('offline', updateOnlineStatus);
+    };
+  }, []);
 
   useEffect(() => {
-    const stored = localStorage.getItem('guyanese_vocab_v2');
-    if (stored) setVocabularyList(JSON.parse(stored));
-    else setVocabularyList(INITIAL_VOCAB);
     setIsLiveApiSupported(!!(navigator.mediaDevices && window.AudioContext));
     return () => stopLiveConversation();
   }, [stopLiveConversation]);
 
+  // Saves are chained so each one diffs against what actually reached the database.
+  useEffect(() => {
+    if (!isVocabularyLoaded) return;
+    const next = vocabularyList;
+    vocabularySaveChainRef.current = vocabularySaveChainRef.current.then(async () => {
+      try {
+        await saveVocabularyChanges(persistedVocabularyRef.current, next);
+        persistedVocabularyRef.current = next;
+        setStorageError(null);
+      } catch (e: any) {
+        console.error('Failed to save vocabulary:', e);
+        const reason = e?.name === 'QuotaExceededError'
+          ? 'your device is out of storage space. Remove some images or cards and try again'
+          : e?.message || String(e);
+        setStorageError(`Your latest changes could not be saved: ${reason}.`);
+      } finally {
+        refreshStorageUsage();
+      }
+    });
+  }, [vocabularyList, isVocabularyLoaded, refreshStorageUsage]);
+
   useEffect(() => {
-    localStorage.setItem('guyanese_vocab_v2', JSON.stringify(vocabularyList));
-  }, [vocabularyList]);
+    saveLessonProgress(lessonProgress);
+  }, [lessonProgress]);
+
+  useEffect(() => {
+    saveCustomScenarios(customScenarios);
+  }, [customScenarios]);
+
+  useEffect(() => {
+    savePronunciationForms(pronunciationForms);
+  }, [pronunciationForms]);
+
+  useEffect(() => {
+    saveRecordingEnabled(isLiveRecordingEnabled);
+  }, [isLiveRecordingEnabled]);
+
+  // Threads are saved once a streamed answer settles rather than on every chunk.
+  useEffect(() => {
+    if (!isLoadingText) saveChatThreads(chatThreads);
+  }, [chatThreads, isLoadingText]);
 
   return (
     <div className="min-h-screen bg-stone-50 dark:bg-zinc-950 text-zinc-900 dark:text-zinc-100 font-sans">
@@ -517,8 +1177,33 @@ function App() {
           <h1 className="text-3xl font-black tracking-tight flex items-center gap-3">
             <span className="text-4xl">🇬🇾</span> Guyanese Tribal Lingua
           </h1>
-          <div className="hidden md:block text-emerald-200 text-sm italic font-medium">
-            Preserving Akawaio, Macushi, Wai-Wai, and more.
+          <div className="flex items-center gap-6">
+            <div className="hidden md:block text-emerald-200 text-sm italic font-medium">
+              Preserving Akawaio, Macushi, Wai-Wai, and more.
+            </div>
+            <button
+              onClick={() => setShowLessons(true)}
+              className="bg-emerald-900/60 hover:bg-emerald-900 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all"
+            >
+              Lessons
+            </button>
+            <button
+              onClick={() => setShowProgress(true)}
+              className="bg-emerald-900/60 hover:bg-emerald-900 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all"
+            >
+              Progress
+            </button>
+            <button
+              onClick={() => setShowReviewQueue(true)}
+              className="relative bg-emerald-900/60 hover:bg-emerald-900 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all"
+            >
+              Reviewer Queue
+              {pendingCorrectionCount > 0 && (
+                <span className="absolute -top-2 -right-2 bg-yellow-500 text-zinc-900 text-[10px] font-black min-w-[1.5rem] h-6 px-1.5 rounded-full flex items-center justify-center shadow-lg">
+                  {pendingCorrectionCount}
+                </span>
+              )}
+            </button>
           </div>
         </div>
       </header>
@@ -544,17 +1229,101 @@ function App() {
               </div>
             </div>
             
+            {/* Thread Bar */}
+            <div className="flex items-center gap-2 mb-4">
+              {isRenamingThread && activeThread ? (
+                <input
+                  autoFocus
+                  value={activeThread.title}
+                  onChange={e => updateThread(activeThread.id, t => ({ ...t, title: e.target.value }))}
+                  onBlur={() => setIsRenamingThread(false)}
+                  onKeyDown={e => { if (e.key === 'Enter') setIsRenamingThread(false); }}
+                  className="flex-grow min-w-0 bg-zinc-100 dark:bg-zinc-800 p-1.5 px-3 rounded-full text-xs font-bold border-none focus:ring-2 focus:ring-emerald-500"
+                />
+              ) : (
+                <select
+                  value={activeThreadId ?? ''}
+                  onChange={e => setActiveThreadId(e.target.value || null)}
+                  disabled={isLoadingText}
+                  className="flex-grow min-w-0 bg-zinc-100 dark:bg-zinc-800 p-1.5 px-3 rounded-full text-xs font-bold border-none focus:ring-2 focus:ring-emerald-500 cursor-pointer disabled:opacity-50"
+                >
+                  <option value="">New conversation</option>
+                  {chatThreads.filter(t => t.messages.length > 0).map(t => <option key={t.id} value={t.id}>{t.title || 'Untitled thread'}</option>)}
+                </select>
+              )}
+              {activeThread && (
+                <>
+                  <button
+                    onClick={() => setIsRenamingThread(true)}
+                    disabled={isLoadingText}
+                    className="text-[10px] font-bold text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200 disabled:opacity-30 uppercase tracking-widest"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    onClick={() => setActiveThreadId(null)}
+                    disabled={isLoadingText}
+                    className="text-[10px] font-bold text-emerald-600 hover:text-emerald-700 dark:text-emerald-400 disabled:opacity-30 uppercase tracking-widest whitespace-nowrap"
+                  >
+                    New Thread
+                  </button>
+                  <button
+                    onClick={() => handleDeleteThread(activeThread.id)}
+                    disabled={isLoadingText}
+                    className="text-[10px] font-bold text-zinc-400 hover:text-red-500 disabled:opacity-30 uppercase tracking-widest"
+                  >
+                    Delete
+                  </button>
+                </>
+              )}
+            </div>
+
             <div className="space-y-4 flex-grow flex flex-col">
+              {/* Suggestions Chips */}
+              {!activeThread?.messages.length && !isLoadingText && (
+                <div className="flex flex-wrap gap-2">
+                  {SUGGESTIONS.map((s, idx) => (
+                    <button
+                      key={idx}
+                      onClick={() => handleTextQuery(true, s)}
+                      className="text-[11px] font-medium bg-emerald-50 hover:bg-emerald-100 dark:bg-emerald-900/20 dark:hover:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300 px-3 py-1.5 rounded-full transition-all border border-emerald-100 dark:border-emerald-800"
+                    >
+                      {s}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* Conversation */}
+              {activeThread && activeThread.messages.length > 0 && (
+                <ChatThreadView
+                  messages={activeThread.messages}
+                  isLoading={isLoadingText}
+                  onEditAndResend={handleEditAndResend}
+                  onRegenerate={handleRegenerate}
+                  onSaveAsCards={message => setExtractionSource({ label: 'Assistant answer', text: stripCitations(message.text), language: selectedTextOutputLanguage })}
+                  corrections={corrections.filter(c => c.threadId === activeThread.id)}
+                  onFlag={(message, prompt) => setCorrectionSubject({
+                    language: selectedTextOutputLanguage,
+                    context: prompt,
+                    fields: [{ target: 'response', original: message.text }],
+                    threadId: activeThread.id,
+                    messageId: message.id,
+                  })}
+                />
+              )}
+              {textError && <p className="text-xs text-red-500 font-medium">{textError}</p>}
+
               <div className="relative">
                 <textarea
                   value={textPrompt}
                   onChange={e => setTextPrompt(e.target.value)}
-                  placeholder="Ask about tribal history, grammar, or vocabulary..."
+                  placeholder={activeThread?.messages.length ? "Ask a follow-up question..." : "Ask about tribal history, grammar, or vocabulary..."}
                   className="w-full h-32 bg-zinc-50 dark:bg-zinc-800 p-4 pb-12 rounded-2xl border border-zinc-100 dark:border-zinc-700 focus:ring-2 focus:ring-emerald-500 transition-all resize-none text-sm placeholder:text-zinc-400"
                   onKeyDown={(e) => {
                     if (e.key === 'Enter' && !e.shiftKey) {
                       e.preventDefault();
-                      handleTextQuery('gemini-3-flash-preview', true);
+                      handleTextQuery(true);
                     }
                   }}
                 />
@@ -569,8 +1338,9 @@ function App() {
                     </button>
                   ) : (
                     <button
-                      onClick={() => handleTextQuery('gemini-3-flash-preview', true)}
+                      onClick={() => handleTextQuery(true)}
                       disabled={!textPrompt.trim()}
+                      title="Send"
                       className="bg-emerald-600 hover:bg-emerald-700 disabled:opacity-30 text-white p-2 rounded-lg transition-all shadow-lg shadow-emerald-600/20 active:scale-95"
                     >
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 5l7 7-7 7M5 5l7 7-7 7" /></svg>
@@ -578,67 +1348,6 @@ function App() {
                   )}
                 </div>
               </div>
-
-              {/* Suggestions Chips */}
-              {!textResponse && !isLoadingText && (
-                <div className="flex flex-wrap gap-2">
-                  {SUGGESTIONS.map((s, idx) => (
-                    <button
-                      key={idx}
-                      onClick={() => {
-                        setTextPrompt(s);
-                        handleTextQuery('gemini-3-flash-preview', true, s);
-                      }}
-                      className="text-[11px] font-medium bg-emerald-50 hover:bg-emerald-100 dark:bg-emerald-900/20 dark:hover:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300 px-3 py-1.5 rounded-full transition-all border border-emerald-100 dark:border-emerald-800"
-                    >
-                      {s}
-                    </button>
-                  ))}
-                </div>
-              )}
-
-              {/* Response Display */}
-              {(textResponse || isLoadingText) && (
-                <div className="flex-grow space-y-4">
-                  <div className="p-5 bg-zinc-50 dark:bg-zinc-800/50 rounded-2xl border border-zinc-100 dark:border-zinc-800 relative group animate-in fade-in slide-in-from-bottom-2 duration-300">
-                    {isLoadingText && !textResponse && (
-                      <div className="flex flex-col gap-2 py-2">
-                        <div className="h-4 bg-emerald-100 dark:bg-emerald-900/30 rounded animate-pulse w-3/4"></div>
-                        <div className="h-4 bg-emerald-100 dark:bg-emerald-900/30 rounded animate-pulse w-1/2"></div>
-                      </div>
-                    )}
-                    <div className="text-sm prose dark:prose-invert max-w-none prose-p:leading-relaxed prose-li:my-1 whitespace-pre-wrap">
-                      {textResponse}
-                      {isLoadingText && <span className="inline-block w-1.5 h-4 bg-emerald-500 ml-1 animate-pulse" />}
-                    </div>
-                    
-                    {textResponse && !isLoadingText && (
-                      <div className="mt-4 flex items-center justify-between border-t border-zinc-200 dark:border-zinc-700 pt-4 opacity-0 group-hover:opacity-100 transition-opacity">
-                        <button 
-                          onClick={() => {
-                            const firstLine = textResponse.split('\n')[0].substring(0, 30);
-                            setCurrentVocabularyWord(firstLine);
-                            setCurrentVocabularyTranslation(textPrompt.substring(0, 30));
-                            setCurrentVocabularyWordLanguage(selectedTextOutputLanguage);
-                            setShowAddVocabularyModal(true);
-                          }}
-                          className="flex items-center gap-1 text-[10px] font-bold text-emerald-600 hover:text-emerald-700 dark:text-emerald-400 uppercase tracking-widest"
-                        >
-                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4" /></svg>
-                          Save as Card
-                        </button>
-                        <button 
-                          onClick={() => navigator.clipboard.writeText(textResponse)}
-                          className="text-[10px] font-bold text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200 uppercase tracking-widest"
-                        >
-                          Copy Response
-                        </button>
-                      </div>
-                    )}
-                  </div>
-                  {groundingUrls.length > 0 && <UrlDisplay urls={groundingUrls} />}
-                </div>
-              )}
             </div>
           </div>
 
@@ -705,16 +1414,46 @@ function App() {
             </div>
             <div className="space-y-6 flex flex-col flex-grow">
               <div className="flex-grow space-y-4">
-                <div className="flex justify-center py-4">
-                  <div className={`w-20 h-20 rounded-full flex items-center justify-center transition-all ${isLiveApiConnected ? 'bg-red-500 animate-pulse scale-110 shadow-xl shadow-red-500/30' : 'bg-zinc-100 dark:bg-zinc-800 border-4 border-zinc-50 dark:border-zinc-700'}`}>
-                    <svg className={`w-10 h-10 ${isLiveApiConnected ? 'text-white' : 'text-zinc-300'}`} fill="currentColor" viewBox="0 0 20 20"><path d="M7 4a3 3 0 016 0v4a3 3 0 11-6 0V4zm4 10.93A7.001 7.001 0 0017 8a1 1 0 10-2 0 5 5 0 01-10 0 1 1 0 10-2 0 7.001 7.001 0 005.93 6.93V17H6a1 1 0 100 2h8a1 1 0 100-2h-3v-2.07z" /></svg>
+                {liveConnectionState !== 'idle' && (
+                  <div className="flex justify-center" role="status">
+                    <span className={`flex items-center gap-2 px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${
+                      liveConnectionState === 'open' ? 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400'
+                        : liveConnectionState === 'failed' ? 'bg-red-50 text-red-600 dark:bg-red-950/40 dark:text-red-400'
+                          : 'bg-yellow-50 text-yellow-700 dark:bg-yellow-900/20 dark:text-yellow-400'
+                    }`}>
+                      <span className={`w-1.5 h-1.5 rounded-full bg-current ${liveConnectionState === 'open' || liveConnectionState === 'failed' ? '' : 'animate-pulse'}`} />
+                      {LIVE_CONNECTION_LABELS[liveConnectionState]}
+                    </span>
                   </div>
-                </div>
+                )}
+                {liveError && <p className="text-xs text-red-500 font-medium text-center">{liveError}</p>}
+                {liveScenario && (
+                  <div className="flex items-center justify-between gap-3 p-3 px-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-2xl border border-yellow-200 dark:border-yellow-800">
+                    <div className="min-w-0">
+                      <p className="text-[10px] font-black uppercase tracking-widest text-yellow-700 dark:text-yellow-400">{liveScenario.language} • {SCENARIO_DIFFICULTY_LABELS[liveScenario.difficulty]}</p>
+                      <p className="text-sm font-bold truncate">{liveScenario.title}</p>
+                      <p className="text-[11px] text-zinc-500 truncate">The tutor plays {liveScenario.persona}</p>
+                    </div>
+                    <button
+                      onClick={handleClearLiveScenario}
+                      disabled={isLiveApiConnected || liveApiConnecting}
+                      className="text-[10px] font-bold text-zinc-400 hover:text-zinc-600 disabled:opacity-30 uppercase tracking-widest"
+                    >
+                      Clear
+                    </button>
+                  </div>
+                )}
                 {isLiveApiConnected ? (
-                  <div className="space-y-3 px-2 overflow-y-auto max-h-[300px]">
-                    <TranscriptionDisplay label="You" text={liveInputTranscription} />
-                    <TranscriptionDisplay label="Assistant" text={liveOutputTranscription} isSpeaking={isAssistantSpeaking} />
+                  <LiveAudioVisualizer inputAnalyserRef={inputAnalyserRef} outputAnalyserRef={outputAnalyserRef} isAssistantSpeaking={isAssistantSpeaking} />
+                ) : (
+                  <div className="flex justify-center py-4">
+                    <div className="w-20 h-20 rounded-full flex items-center justify-center transition-all bg-zinc-100 dark:bg-zinc-800 border-4 border-zinc-50 dark:border-zinc-700">
+                      <svg className="w-10 h-10 text-zinc-300" fill="currentColor" viewBox="0 0 20 20"><path d="M7 4a3 3 0 016 0v4a3 3 0 11-6 0V4zm4 10.93A7.001 7.001 0 0017 8a1 1 0 10-2 0 5 5 0 01-10 0 1 1 0 10-2 0 7.001 7.001 0 005.93 6.93V17H6a1 1 0 100 2h8a1 1 0 100-2h-3v-2.07z" /></svg>
+                    </div>
                   </div>
+                )}
+                {isLiveApiConnected || liveTurns.length > 0 ? (
+                  <TranscriptLog turns={liveTurns} sessionStartedAt={liveSessionStartedAt} isAssistantSpeaking={isAssistantSpeaking} />
                 ) : (
                   <p className="text-center text-zinc-500 text-sm px-8 leading-relaxed">Connect to have a real-time conversation about Guyanese culture. The AI can translate your voice into tribal languages instantly.</p>
                 )}
@@ -726,90 +1465,177 @@ function App() {
               >
                 {liveApiConnecting ? 'Opening Bridge...' : isLiveApiConnected ? 'Close Conversation' : 'Begin Immersion'}
               </button>
+              <div className="flex items-center justify-center gap-6">
+                <button
+                  onClick={() => setShowScenarioPicker(true)}
+                  disabled={isLiveApiConnected || liveApiConnecting}
+                  className="text-[10px] font-bold text-zinc-400 hover:text-yellow-600 disabled:opacity-30 uppercase tracking-widest transition-colors"
+                >
+                  Scenarios
+                </button>
+                <button
+                  onClick={() => setShowSessionHistory(true)}
+                  className="text-[10px] font-bold text-zinc-400 hover:text-yellow-600 uppercase tracking-widest transition-colors"
+                >
+                  Session History{liveSessions.length > 0 && ` (${liveSessions.length})`}
+                </button>
+                <label className={`flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest transition-colors cursor-pointer ${isLiveRecordingEnabled ? 'text-red-500' : 'text-zinc-400 hover:text-yellow-600'}`}>
+                  <input
+                    type="checkbox"
+                    checked={isLiveRecordingEnabled}
+                    onChange={e => setIsLiveRecordingEnabled(e.target.checked)}
+                    disabled={isLiveApiConnected || liveApiConnecting}
+                    className="w-3 h-3 accent-red-500"
+                  />
+                  Record Audio
+                </label>
+                {liveTurns.some(t => t.text.trim()) && (
+                  <button
+                    onClick={() => setExtractionSource({ label: 'Live conversation', text: liveTurns.map(t => t.text).join('\n'), language: selectedLiveOutputLanguage })}
+                    className="text-[10px] font-bold text-zinc-400 hover:text-emerald-600 uppercase tracking-widest transition-colors"
+                  >
+                    Save as Cards
+                  </button>
+                )}
+              </div>
             </div>
           </div>
         </section>
 
+        {/* Structured Translator */}
+        <section>
+          <Translator savedKeys={vocabularyKeys} onTranslate={handleTranslate} onSaveWord={handleSaveGlossWord} />
+        </section>
+
         {/* Vocabulary Builder */}
         <section>
           <div className="flex items-center justify-between mb-8">
             <h2 className="text-3xl font-black text-emerald-800 dark:text-emerald-400">My Vocabulary</h2>
-            <button 
-              onClick={() => setShowAddVocabularyModal(true)}
-              className="bg-emerald-100 hover:bg-emerald-200 dark:bg-emerald-900 dark:hover:bg-emerald-800 text-emerald-800 dark:text-emerald-200 px-5 py-2.5 rounded-xl font-bold flex items-center gap-2 transition-all shadow-md active:scale-95"
-            >
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4" /></svg>
-              New Word
-            </button>
+            <div className="flex items-center gap-3">
+              {!isOnline && (
+                <span className="text-[10px] font-black uppercase tracking-widest text-yellow-700 bg-yellow-100 dark:bg-yellow-900/40 dark:text-yellow-400 px-3 py-1.5 rounded-full">
+                  Offline • saved audio only
+                </span>
+              )}
+              <button
+                onClick={() => {
+                  if (deckAudioProgress) cancelDeckAudioRef.current = true;
+                  else handleDownloadDeckAudio();
+                }}
+                disabled={!deckAudioProgress && (!isOnline || vocabularyList.every(item => item.audioBase64))}
+                className="bg-zinc-100 hover:bg-zinc-200 dark:bg-zinc-800 dark:hover:bg-zinc-700 disabled:opacity-40 text-zinc-700 dark:text-zinc-200 px-5 py-2.5 rounded-xl font-bold flex items-center gap-2 transition-all shadow-md active:scale-95"
+                title={deckAudioProgress ? 'Stop downloading' : 'Save pronunciation audio for every card so you can practice offline'}
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+                {deckAudioProgress ? `Stop (${deckAudioProgress.done}/${deckAudioProgress.total})` : 'Audio'}
+              </button>
+              <button
+                onClick={() => setShowDeckTransferModal(true)}
+                className="bg-zinc-100 hover:bg-zinc-200 dark:bg-zinc-800 dark:hover:bg-zinc-700 text-zinc-700 dark:text-zinc-200 px-5 py-2.5 rounded-xl font-bold flex items-center gap-2 transition-all shadow-md active:scale-95"
+                title="Import or export your deck"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" /></svg>
+                Share
+              </button>
+              <button
+                onClick={() => setShowReviewSession(true)}
+                disabled={dueItems.length === 0}
+                className="relative bg-yellow-500 hover:bg-yellow-600 disabled:opacity-40 text-zinc-900 px-5 py-2.5 rounded-xl font-bold flex items-center gap-2 transition-all shadow-md active:scale-95"
+                title={dueItems.length ? `${dueItems.length} cards due today` : 'No cards due today'}
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+                Review
+                {dueItems.length > 0 && (
+                  <span className="absolute -top-2 -right-2 bg-red-500 text-white text-[10px] font-black min-w-[1.5rem] h-6 px-1.5 rounded-full flex items-center justify-center shadow-lg">
+                    {dueItems.length}
+                  </span>
+                )}
+              </button>
+              <button
+                onClick={() => setShowQuiz(true)}
+                disabled={vocabularyList.length === 0}
+                className="bg-zinc-100 hover:bg-zinc-200 dark:bg-zinc-800 dark:hover:bg-zinc-700 disabled:opacity-40 text-zinc-700 dark:text-zinc-200 px-5 py-2.5 rounded-xl font-bold flex items-center gap-2 transition-all shadow-md active:scale-95"
+                title="Test yourself on your deck"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                Quiz
+              </button>
+              <button 
+                onClick={handleOpenAddVocabulary}
+                className="bg-emerald-100 hover:bg-emerald-200 dark:bg-emerald-900 dark:hover:bg-emerald-800 text-emerald-800 dark:text-emerald-200 px-5 py-2.5 rounded-xl font-bold flex items-center gap-2 transition-all shadow-md active:scale-95"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4" /></svg>
+                New Word
+              </button>
+            </div>
           </div>
 
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8">
-            {vocabularyList.map((item) => (
-              <div key={item.id} className="group bg-white dark:bg-zinc-900 rounded-[2.5rem] overflow-hidden shadow-md hover:shadow-2xl transition-all border border-zinc-200 dark:border-zinc-800 flex flex-col animate-in zoom-in-95 duration-300">
-                <div className="aspect-square relative bg-zinc-100 dark:bg-zinc-800 overflow-hidden">
-                  {item.imageBase64 ? (
-                    <img src={`data:image/jpeg;base64,${item.imageBase64}`} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-700" alt={item.word} />
-                  ) : (
-                    <div className="w-full h-full flex flex-col items-center justify-center p-6 text-center">
-                      <div className="text-emerald-500/20 mb-2">
-                        <svg className="w-20 h-20" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
-                      </div>
-                      <button 
-                        onClick={() => handleGenerateImageForItem(item)}
-                        disabled={generatingImageId === item.id}
-                        className="text-[10px] font-black uppercase tracking-widest text-emerald-600 bg-emerald-50 dark:bg-emerald-950 px-6 py-2.5 rounded-full border border-emerald-200 dark:border-emerald-800 hover:bg-emerald-100 transition-all shadow-sm"
-                      >
-                        {generatingImageId === item.id ? 'Thinking...' : 'Visualize'}
-                      </button>
-                    </div>
-                  )}
-                  <div className="absolute top-4 right-4 flex gap-2">
-                    <button 
-                      onClick={() => setVocabularyList(prev => prev.filter(i => i.id !== item.id))}
-                      className="p-2 bg-white/90 dark:bg-black/90 rounded-full text-red-500 opacity-0 group-hover:opacity-100 transition-all shadow-lg hover:scale-110"
-                    >
-                      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
-                    </button>
-                  </div>
-                  <div className="absolute bottom-4 left-4">
-                    <span className="bg-emerald-600/90 text-white text-[9px] font-black uppercase tracking-tighter px-3 py-1 rounded-full shadow-lg backdrop-blur-sm">
-                      {item.wordLanguage}
-                    </span>
-                  </div>
-                </div>
-                <div className="p-8 relative">
-                  <div className="flex justify-between items-start mb-2">
-                    <h3 className="text-3xl font-black text-emerald-800 dark:text-emerald-300 leading-none tracking-tight">{item.word}</h3>
-                    <button 
-                      onClick={() => handleTextToSpeech(item.word, 'Kore')}
-                      className="text-emerald-500 hover:text-emerald-400 bg-emerald-50 dark:bg-emerald-900/40 p-2 rounded-full transition-all active:scale-90 shadow-sm"
-                    >
-                      <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM14.657 2.929a1 1 0 011.414 0A9 9 0 0119 10a9 9 0 01-2.929 7.071 1 1 0 01-1.414-1.414A7 7 0 0017 10a7 7 0 00-2.343-5.657 1 1 0 010-1.414zm-2.829 2.828a1 1 0 011.415 0A5 5 0 0115 10a5 5 0 01-1.757 3.536 1 1 0 01-1.415-1.415A3 3 0 0013 10a3 3 0 00-1.172-2.475 1 1 0 010-1.414z" clipRule="evenodd" /></svg>
-                    </button>
-                  </div>
-                  
-                  <div className="flex items-center gap-2 mb-6 h-6">
-                    {generatingTranscriptionId === item.id ? (
-                      <div className="flex gap-1">
-                        {[1, 2, 3].map(i => <div key={i} className="w-1 h-1 bg-emerald-400 rounded-full animate-bounce" style={{ animationDelay: `${i * 100}ms` }} />)}
-                      </div>
-                    ) : item.phoneticTranscription ? (
-                      <p className="text-zinc-400 font-mono text-xs">{item.phoneticTranscription}</p>
-                    ) : (
-                      <button 
-                        onClick={() => handleGenerateTranscription(item)}
-                        className="text-[10px] font-bold text-emerald-600 bg-emerald-50 dark:bg-emerald-950 px-3 py-1 rounded-lg hover:bg-emerald-100 transition-all uppercase tracking-widest"
-                      >
-                        Add Pronunciation
-                      </button>
-                    )}
-                  </div>
+          <StorageStatus
+            usage={storageUsage}
+            error={storageError}
+            onRequestPersistence={() => requestPersistentStorage().then(refreshStorageUsage)}
+          />
 
-                  <div className="pt-6 border-t border-zinc-100 dark:border-zinc-800">
-                    <p className="text-zinc-600 dark:text-zinc-400 font-semibold text-lg italic leading-tight">"{item.translation}"</p>
-                  </div>
-                </div>
-              </div>
+          <VocabularyToolbar
+            decks={allDecks}
+            languages={vocabularyLanguages}
+            tags={vocabularyTags}
+            filter={vocabularyFilter}
+            shownCount={shownVocabulary.length}
+            totalCount={vocabularyList.length}
+            selectedCount={selectedCardIds?.size ?? 0}
+            isSelecting={selectedCardIds !== null}
+            onFilterChange={setVocabularyFilter}
+            onCreateDeck={handleCreateDeck}
+            onDeleteDeck={handleDeleteDeck}
+            onToggleSelecting={() => setSelectedCardIds(prev => prev ? null : new Set())}
+            onSelectAllShown={() => setSelectedCardIds(new Set(shownVocabulary.map(i => i.id)))}
+            onMoveSelected={handleMoveSelected}
+            onCopySelected={handleCopySelected}
+            onTagSelected={handleTagSelected}
+            pronunciationForms={pronunciationForms}
+            onPronunciationFormsChange={setPronunciationForms}
+            missingFormsCount={cardsMissingForms.length}
+            formsFillProgress={formsFillProgress}
+            isOffline={!isOnline}
+            onFillMissingForms={() => {
+              if (formsFillProgress) cancelFormsFillRef.current = true;
+              else handleFillMissingForms();
+            }}
+          />
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8">
+            {shownVocabulary.map((item) => (
+              <VocabularyCard
+                key={item.id}
+                item={item}
+                pronunciationForms={pronunciationForms}
+                isGeneratingImage={generatingImageId === item.id}
+                isGeneratingTranscription={generatingTranscriptionId === item.id}
+                isGeneratingAudio={generatingVocabAudioId === item.id}
+                isPlayingAudio={playingVocabAudioId === item.id}
+                isOffline={!isOnline}
+                pendingCorrections={corrections.filter(c => c.vocabularyItemId === item.id && c.status === 'pending').length}
+                onGenerateImage={handleGenerateImageForItem}
+                onGenerateTranscription={handleGenerateTranscription}
+                onPlayAudio={handlePlayVocabAudio}
+                onVoiceChange={handleVocabVoiceChange}
+                onPractice={i => setPracticeItemId(i.id)}
+                onSuggestCorrection={i => setCorrectionSubject({
+                  language: i.wordLanguage,
+                  context: i.word,
+                  fields: [
+                    { target: 'translation', original: i.translation },
+                    { target: 'transcription', original: i.phoneticTranscription ?? '' },
+                  ],
+                  vocabularyItemId: i.id,
+                })}
+                onEdit={i => setEditingItemId(i.id)}
+                onDelete={i => setVocabularyList(prev => prev.filter(v => v.id !== i.id))}
+                isSelected={selectedCardIds ? selectedCardIds.has(item.id) : undefined}
+                onToggleSelect={handleToggleCardSelection}
+                onTagClick={tag => setVocabularyFilter(prev => ({ ...prev, tag }))}
+              />
             ))}
           </div>
         </section>
@@ -821,6 +1647,172 @@ function App() {
         <p>© 2024 Powered by Google Gemini & Imagen • Preserving Indigenous Culture</p>
       </footer>
 
+      {showReviewSession && (
+        <ReviewSession
+          items={dueItems}
+          vocabulary={vocabularyList}
+          onGrade={handleGradeReview}
+          onPlayAudio={handlePlayVocabAudio}
+          onClose={() => setShowReviewSession(false)}
+        />
+      )}
+
+      {showProgress && (
+        <ProgressDashboard
+          events={activityLog}
+          vocabulary={vocabularyList}
+          onClose={() => setShowProgress(false)}
+        />
+      )}
+
+      {showQuiz && (
+        <QuizSession
+          deck={vocabularyList}
+          onGenerateDistractors={handleGenerateDistractors}
+          onAnswer={handleQuizAnswer}
+          onPlayAudio={handlePlayVocabAudio}
+          onClose={() => setShowQuiz(false)}
+        />
+      )}
+
+      {showScenarioPicker && (
+        <ScenarioPicker
+          scenarios={[...SCENARIO_PRESETS, ...customScenarios]}
+          selectedId={liveScenario?.id ?? null}
+          onSelect={handleSelectScenario}
+          onSave={scenario => setCustomScenarios(prev => [...prev, scenario])}
+          onDelete={handleDeleteScenario}
+          onClose={() => setShowScenarioPicker(false)}
+        />
+      )}
+
+      {scenarioDebrief && (
+        <ScenarioDebriefModal
+          title={scenarioDebrief.title}
+          debrief={scenarioDebrief.debrief}
+          onClose={() => setScenarioDebrief(null)}
+        />
+      )}
+
+      {crisisRisk && (
+        <CrisisPanel
+          risk={crisisRisk}
+          directory={CRISIS_DIRECTORY}
+          regionId={crisisRegion}
+          onRegionChange={handleCrisisRegionChange}
+          isLivePaused={isLivePaused}
+          onResume={resumeFromCrisis}
+          onEndSession={stopLiveConversation}
+        />
+      )}
+
+      {showLessons && (
+        <LessonPath
+          language={lessonLanguage}
+          progress={lessonProgress}
+          vocabulary={vocabularyList}
+          openUnitId={openLessonUnitId}
+          onLanguageChange={setLessonLanguage}
+          onOpenUnit={handleOpenLessonUnit}
+          onStepChange={handleLessonStepChange}
+          onAddWords={handleAddLessonWords}
+          onAskTutor={handleAskLessonTutor}
+          onStartRoleplay={handleStartLessonRoleplay}
+          onStartQuiz={unit => {
+            setLessonQuizUnitId(unit.id);
+            setShowLessons(false);
+          }}
+          onClose={() => setShowLessons(false)}
+        />
+      )}
+
+      {lessonQuizUnit && (
+        <QuizSession
+          title={`${lessonQuizUnit.title} Quiz`}
+          deck={lessonDeck(lessonQuizUnit, vocabularyList)}
+          onGenerateDistractors={handleGenerateDistractors}
+          onAnswer={handleQuizAnswer}
+          onPlayAudio={handlePlayVocabAudio}
+          onFinish={(correct, total) => setLessonProgress(prev => recordLessonQuiz(prev, lessonQuizUnit, correct, total))}
+          onClose={() => {
+            setLessonQuizUnitId(null);
+            setShowLessons(true);
+          }}
+        />
+      )}
+
+      {practiceItem && (
+        <PronunciationPractice
+          item={practiceItem}
+          isReferenceLoading={generatingVocabAudioId === practiceItem.id}
+          onPlayReference={handlePlayVocabAudio}
+          onPlayAttempt={playRecordedSamples}
+          onRequestFeedback={handlePronunciationFeedback}
+          onClose={() => setPracticeItemId(null)}
+        />
+      )}
+
+      {editingItem && (
+        <CardEditor
+          item={editingItem}
+          revisions={cardRevisions}
+          audioSampleRate={OUTPUT_SAMPLE_RATE}
+          onPlayAudio={playRecordedSamples}
+          onSave={handleSaveCardEdit}
+          onRestore={handleRestoreCardRevision}
+          onClose={() => setEditingItemId(null)}
+        />
+      )}
+
+      {correctionSubject && (
+        <CorrectionModal
+          subject={correctionSubject}
+          onSubmit={handleSubmitCorrection}
+          onClose={() => setCorrectionSubject(null)}
+        />
+      )}
+
+      {showReviewQueue && (
+        <ReviewQueue
+          corrections={corrections}
+          onReview={handleReviewCorrection}
+          onClose={() => setShowReviewQueue(false)}
+        />
+      )}
+
+      {extractionSource && (
+        <ExtractCardsModal
+          sourceLabel={extractionSource.label}
+          onExtract={() => handleExtractTerms(extractionSource.text, extractionSource.language)}
+          onSave={handleSaveExtractedTerms}
+          onClose={() => setExtractionSource(null)}
+        />
+      )}
+
+      {showSessionHistory && (
+        <SessionHistory
+          sessions={liveSessions}
+          isPlayingRecording={isPlayingSessionRecording}
+          onLoadRecording={session => loadSessionRecording(session.id)}
+          onPlayRecording={playSessionRecording}
+          onStopRecording={stopSessionRecording}
+          onDelete={handleDeleteLiveSession}
+          onSaveAsCards={session => {
+            setShowSessionHistory(false);
+            setExtractionSource({ label: 'Live session', text: transcriptToText(session), language: session.outputLanguage });
+          }}
+          onClose={() => setShowSessionHistory(false)}
+        />
+      )}
+
+      {showDeckTransferModal && (
+        <DeckTransferModal
+          vocabularyList={vocabularyList}
+          onImport={handleImportDeck}
+          onClose={() => setShowDeckTransferModal(false)}
+        />
+      )}
+
       {/* Modal */}
       {showAddVocabularyModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-300">
@@ -860,6 +1852,26 @@ function App() {
                     className="w-full bg-zinc-50 dark:bg-zinc-800 p-4 rounded-2xl border-none focus:ring-2 focus:ring-emerald-500 font-bold"
                   />
                 </div>
+                <div>
+                  <label className="block text-[10px] font-black uppercase tracking-widest text-zinc-400 mb-2 ml-1">Deck</label>
+                  <select
+                    value={currentVocabularyDeckId}
+                    onChange={e => setCurrentVocabularyDeckId(e.target.value)}
+                    aria-label="Deck"
+                    className="w-full bg-zinc-50 dark:bg-zinc-800 p-4 rounded-2xl border-none font-bold"
+                  >
+                    {allDecks.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-[10px] font-black uppercase tracking-widest text-zinc-400 mb-2 ml-1">Tags</label>
+                  <input
+                    value={currentVocabularyTags}
+                    onChange={e => setCurrentVocabularyTags(e.target.value)}
+                    placeholder="e.g. food, nature"
+                    className="w-full bg-zinc-50 dark:bg-zinc-800 p-4 rounded-2xl border-none focus:ring-2 focus:ring-emerald-500 font-bold"
+                  />
+                </div>
               </div>
             </div>
             <div className="flex gap-4 pt-4">
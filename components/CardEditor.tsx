@@ -0,0 +1,316 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CardFields, CardRevision, VocabularyItem } from '../types';
+import { GUYANESE_LANGUAGES } from '../constants';
+import { IPA_SYMBOLS, cardFields, changedCardFields, describeRevision, normalizeCardFields } from '../utils/cardRevisions';
+import { parseTags } from '../utils/decks';
+import { cleanUpRecording, decode, decodeAudioFile, encode, encodeWav, float32ToInt16, pcm16ToFloat32 } from '../utils/audioHelpers';
+import { downloadFile } from '../utils/fileDownload';
+import { imageFileToJpegBase64 } from '../utils/imageFiles';
+import { MicRecording, RECORDING_SAMPLE_RATE, encodeRecordingAsPcm, startMicRecording } from '../utils/micRecorder';
+
+interface CardEditorProps {
+  item: VocabularyItem;
+  revisions: CardRevision[] | null; // null while loading
+  audioSampleRate: number; // Rate card audio is stored and played at
+  onPlayAudio: (samples: Float32Array, sampleRate: number) => void;
+  onSave: (item: VocabularyItem, fields: CardFields) => void;
+  onRestore: (item: VocabularyItem, revision: CardRevision) => void;
+  onClose: () => void;
+}
+
+const MAX_RECORDING_MS = 10000;
+
+const inputClass = 'w-full bg-zinc-50 dark:bg-zinc-800 p-3 px-4 rounded-2xl border-none focus:ring-2 focus:ring-emerald-500 font-bold';
+const labelClass = 'block text-[10px] font-black uppercase tracking-widest text-zinc-400 mb-2 ml-1';
+
+// Shows combining marks on a dotted circle so the button isn't blank.
+const symbolLabel = (symbol: string) => (/^\p{M}$/u.test(symbol) ? `◌${symbol}` : symbol);
+
+const CardEditor: React.FC<CardEditorProps> = ({ item, revisions, audioSampleRate, onPlayAudio, onSave, onRestore, onClose }) => {
+  const [fields, setFields] = useState<CardFields>(() => cardFields(item));
+  const [tagsText, setTagsText] = useState<string>((item.tags ?? []).join(', '));
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const ipaInputRef = useRef<HTMLInputElement>(null);
+  const recordingRef = useRef<MicRecording | null>(null);
+  const autoStopRef = useRef<number | null>(null);
+  const isRestoringRef = useRef<boolean>(false);
+
+  // Restoring a revision replaces the card while the editor stays open. Other updates to the card
+  // (e.g. a transcription arriving) leave the form alone so unsaved edits aren't lost.
+  useEffect(() => {
+    if (!isRestoringRef.current) return;
+    isRestoringRef.current = false;
+    setFields(cardFields(item));
+    setTagsText((item.tags ?? []).join(', '));
+  }, [item]);
+
+  const restore = (revision: CardRevision) => {
+    isRestoringRef.current = true;
+    onRestore(item, revision);
+  };
+
+  useEffect(() => () => {
+    recordingRef.current?.cancel();
+    if (autoStopRef.current) window.clearTimeout(autoStopRef.current);
+  }, []);
+
+  const update = (patch: Partial<CardFields>) => setFields(prev => ({ ...prev, ...patch }));
+  const edited = normalizeCardFields({ ...fields, tags: parseTags(tagsText) });
+  const hasChanges = changedCardFields(cardFields(item), edited).length > 0;
+  const canSave = hasChanges && !!edited.word && !!edited.translation && !isRecording;
+  const languages = GUYANESE_LANGUAGES.includes(fields.wordLanguage) ? GUYANESE_LANGUAGES : [fields.wordLanguage, ...GUYANESE_LANGUAGES];
+  const translationLanguages = GUYANESE_LANGUAGES.includes(fields.translationLanguage) ? GUYANESE_LANGUAGES : [fields.translationLanguage, ...GUYANESE_LANGUAGES];
+
+  const insertIpaSymbol = (symbol: string) => {
+    const input = ipaInputRef.current;
+    const value = fields.phoneticTranscription ?? '';
+    const start = input?.selectionStart ?? value.length;
+    const end = input?.selectionEnd ?? value.length;
+    update({ phoneticTranscription: value.slice(0, start) + symbol + value.slice(end) });
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(start + symbol.length, start + symbol.length);
+    });
+  };
+
+  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      update({ imageBase64: await imageFileToJpegBase64(file) });
+    } catch (e) {
+      setError(`Image upload failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const handleAudioImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const samples = cleanUpRecording(await decodeAudioFile(await file.arrayBuffer(), audioSampleRate), audioSampleRate);
+      if (!samples.length) throw new Error('The file is silent.');
+      update({ audioBase64: encode(new Uint8Array(float32ToInt16(samples).buffer)), audioRecorded: true });
+    } catch (e) {
+      setError(`Audio import failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const stopRecording = async () => {
+    if (autoStopRef.current) window.clearTimeout(autoStopRef.current);
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    setIsRecording(false);
+    if (!recording) return;
+    const samples = cleanUpRecording(await recording.stop(), RECORDING_SAMPLE_RATE);
+    if (samples.length) update({ audioBase64: encodeRecordingAsPcm(samples, audioSampleRate), audioRecorded: true });
+  };
+
+  const startRecording = async () => {
+    setError(null);
+    try {
+      recordingRef.current = await startMicRecording();
+      setIsRecording(true);
+      autoStopRef.current = window.setTimeout(stopRecording, MAX_RECORDING_MS);
+    } catch (e) {
+      setError(`Microphone unavailable: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-zinc-900 rounded-[3rem] p-10 w-full max-w-2xl shadow-2xl space-y-8 animate-in zoom-in-95 duration-300 border border-zinc-100 dark:border-zinc-800 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-3xl font-black tracking-tight text-emerald-800 dark:text-emerald-400">Edit Card</h2>
+            <p className="text-sm text-zinc-500 mt-1 italic">Every saved change is kept below and can be undone.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-zinc-600 transition-all"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="card-word" className={labelClass}>Word</label>
+            <input id="card-word" value={fields.word} onChange={e => update({ word: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="card-language" className={labelClass}>Language</label>
+            <select id="card-language" value={fields.wordLanguage} onChange={e => update({ wordLanguage: e.target.value })} className={inputClass}>
+              {languages.map(l => <option key={l} value={l}>{l}</option>)}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="card-translation" className={labelClass}>Translation</label>
+            <input id="card-translation" value={fields.translation} onChange={e => update({ translation: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="card-translation-language" className={labelClass}>Translation Language</label>
+            <select id="card-translation-language" value={fields.translationLanguage} onChange={e => update({ translationLanguage: e.target.value })} className={inputClass}>
+              {translationLanguages.map(l => <option key={l} value={l}>{l}</option>)}
+            </select>
+          </div>
+          <div className="col-span-2">
+            <label htmlFor="card-ipa" className={labelClass}>IPA Transcription</label>
+            <input
+              id="card-ipa"
+              ref={ipaInputRef}
+              value={fields.phoneticTranscription ?? ''}
+              onChange={e => update({ phoneticTranscription: e.target.value })}
+              placeholder="/ˈmaɪ.mi/"
+              className={`${inputClass} font-mono`}
+            />
+            <div className="flex flex-wrap gap-1 mt-2">
+              {IPA_SYMBOLS.map(symbol => (
+                <button
+                  key={symbol}
+                  type="button"
+                  onClick={() => insertIpaSymbol(symbol)}
+                  title={`Insert ${symbol}`}
+                  className="min-w-[2rem] px-2 py-1 rounded-lg bg-zinc-100 dark:bg-zinc-800 font-mono text-sm hover:bg-emerald-100 dark:hover:bg-emerald-900 transition-all"
+                >
+                  {symbolLabel(symbol)}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="col-span-2">
+            <label htmlFor="card-tags" className={labelClass}>Tags</label>
+            <input id="card-tags" value={tagsText} onChange={e => setTagsText(e.target.value)} placeholder="e.g. food, nature" className={inputClass} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <span className={labelClass}>Image</span>
+            <div className="aspect-video bg-zinc-100 dark:bg-zinc-800 rounded-2xl overflow-hidden flex items-center justify-center">
+              {fields.imageBase64
+                ? <img src={`data:image/jpeg;base64,${fields.imageBase64}`} alt="Card image" className="w-full h-full object-cover" />
+                : <span className="text-xs text-zinc-400 italic">No image</span>}
+            </div>
+            <div className="flex gap-3 text-[10px] font-bold uppercase tracking-widest">
+              <label className="text-emerald-600 hover:text-emerald-700 cursor-pointer">
+                Upload Image
+                <input type="file" accept="image/*" onChange={handleImageUpload} className="hidden" aria-label="Upload image" />
+              </label>
+              {fields.imageBase64 && (
+                <button type="button" onClick={() => update({ imageBase64: null })} className="text-zinc-400 hover:text-red-500">Remove</button>
+              )}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <span className={labelClass}>Pronunciation Audio</span>
+            <div className={`aspect-video rounded-2xl flex flex-col items-center justify-center gap-1 text-xs ${isRecording ? 'bg-red-50 dark:bg-red-950/40 animate-pulse text-red-600' : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500'}`}>
+              {isRecording
+                ? 'Recording…'
+                : fields.audioBase64
+                  ? (fields.audioRecorded ? 'Your recording' : 'Generated voice')
+                  : <span className="italic text-zinc-400 text-center px-4">No audio. A voice is generated the next time you play the card.</span>}
+            </div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] font-bold uppercase tracking-widest">
+              <button
+                type="button"
+                onClick={isRecording ? stopRecording : startRecording}
+                className={isRecording ? 'text-red-600' : 'text-emerald-600 hover:text-emerald-700'}
+              >
+                {isRecording ? 'Stop' : 'Record Audio'}
+              </button>
+              {!isRecording && (
+                <label className="text-emerald-600 hover:text-emerald-700 cursor-pointer">
+                  Import
+                  <input type="file" accept="audio/*,.wav" onChange={handleAudioImport} className="hidden" aria-label="Import audio" />
+                </label>
+              )}
+              {fields.audioBase64 && !isRecording && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => fields.audioBase64 && onPlayAudio(pcm16ToFloat32(decode(fields.audioBase64)), audioSampleRate)}
+                    className="text-emerald-600 hover:text-emerald-700"
+                  >
+                    Play
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => fields.audioBase64 && downloadFile(`${fields.word || 'card'}.wav`, encodeWav(pcm16ToFloat32(decode(fields.audioBase64)), audioSampleRate), 'audio/wav')}
+                    className="text-emerald-600 hover:text-emerald-700"
+                  >
+                    Download
+                  </button>
+                  <button type="button" onClick={() => update({ audioBase64: null, audioRecorded: undefined })} className="text-zinc-400 hover:text-red-500">Remove</button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {error && <p className="text-xs text-red-500 font-medium">{error}</p>}
+
+        <div className="flex gap-4">
+          <button
+            onClick={onClose}
+            className="flex-1 py-4 font-black text-xs uppercase tracking-widest text-zinc-400 hover:text-zinc-600 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(item, edited)}
+            disabled={!canSave}
+            className="flex-1 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-30 text-white py-4 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl shadow-emerald-600/20 transition-all active:scale-95"
+          >
+            Save Changes
+          </button>
+        </div>
+
+        <div className="space-y-3 pt-6 border-t border-zinc-100 dark:border-zinc-800">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-black uppercase tracking-widest text-zinc-400">History</span>
+            {revisions && revisions.length > 0 && (
+              <button
+                onClick={() => restore(revisions[0])}
+                className="text-[10px] font-bold text-emerald-600 hover:text-emerald-700 uppercase tracking-widest"
+              >
+                Undo Last Change
+              </button>
+            )}
+          </div>
+          {revisions === null ? (
+            <p className="text-xs text-zinc-400 italic">Loading history…</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-xs text-zinc-400 italic">No earlier versions yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {revisions.map(revision => (
+                <li key={revision.id} className="flex items-center justify-between gap-3 p-3 bg-zinc-50 dark:bg-zinc-800/50 rounded-2xl text-xs">
+                  <div className="min-w-0">
+                    <p className="font-bold text-zinc-600 dark:text-zinc-300">{describeRevision(revision)}</p>
+                    <p className="text-zinc-400 truncate">
+                      {new Date(revision.timestamp).toLocaleString()} · before: {revision.previous.word}
+                      {revision.previous.phoneticTranscription && <span className="font-mono ml-1">{revision.previous.phoneticTranscription}</span>}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => restore(revision)}
+                    className="shrink-0 text-[10px] font-bold text-zinc-500 hover:text-emerald-600 uppercase tracking-widest"
+                  >
+                    Restore
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CardEditor;
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { ChatMessage, Correction } from '../types';
+import UrlDisplay from './UrlDisplay';
+import KnowledgeCitations from './KnowledgeCitations';
+
+interface ChatThreadViewProps {
+  messages: ChatMessage[];
+  isLoading: boolean;
+  onEditAndResend: (messageId: string, text: string) => void;
+  onRegenerate: () => void;
+  onSaveAsCards: (message: ChatMessage) => void;
+  corrections: Correction[]; // Corrections submitted for answers in this thread
+  onFlag: (message: ChatMessage, prompt: string) => void;
+}
+
+const ChatThreadView: React.FC<ChatThreadViewProps> = ({ messages, isLoading, onEditAndResend, onRegenerate, onSaveAsCards, corrections, onFlag }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState<string>('');
+
+  const lastModelIndex = messages.map(m => m.role).lastIndexOf('model');
+
+  return (
+    <div className="flex-grow space-y-4 overflow-y-auto max-h-[520px] pr-1">
+      {messages.map((message, index) => {
+        if (message.role === 'user') {
+          const isEditing = editingId === message.id;
+          return (
+            <div key={message.id} className="flex justify-end group">
+              <div className="max-w-[85%] space-y-1">
+                {isEditing ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={editText}
+                      onChange={e => setEditText(e.target.value)}
+                      className="w-full h-24 bg-zinc-50 dark:bg-zinc-800 p-3 rounded-2xl border border-emerald-200 dark:border-emerald-800 focus:ring-2 focus:ring-emerald-500 resize-none text-sm"
+                    />
+                    <div className="flex justify-end gap-3">
+                      <button
+                        onClick={() => setEditingId(null)}
+                        className="text-[10px] font-bold text-zinc-400 hover:text-zinc-600 uppercase tracking-widest"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => {
+                          setEditingId(null);
+                          onEditAndResend(message.id, editText);
+                        }}
+                        disabled={!editText.trim()}
+                        className="text-[10px] font-bold text-emerald-600 hover:text-emerald-700 disabled:opacity-30 uppercase tracking-widest"
+                      >
+                        Resend
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="bg-emerald-600 text-white px-4 py-3 rounded-2xl rounded-br-md text-sm whitespace-pre-wrap shadow-md">
+                      {message.text}
+                    </div>
+                    {!isLoading && (
+                      <div className="flex justify-end opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button
+                          onClick={() => {
+                            setEditingId(message.id);
+                            setEditText(message.text);
+                          }}
+                          className="text-[10px] font-bold text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200 uppercase tracking-widest"
+                        >
+                          Edit
+                        </button>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        }
+
+        const isStreaming = isLoading && index === messages.length - 1;
+        const prompt = messages[index - 1]?.role === 'user' ? messages[index - 1].text : '';
+        const messageCorrections = corrections.filter(c => c.messageId === message.id);
+        const approved = messageCorrections.find(c => c.status === 'approved');
+        const isFlagged = messageCorrections.some(c => c.status === 'pending');
+        return (
+          <div key={message.id} className="space-y-4">
+            <div className="p-5 bg-zinc-50 dark:bg-zinc-800/50 rounded-2xl border border-zinc-100 dark:border-zinc-800 relative group animate-in fade-in slide-in-from-bottom-2 duration-300">
+              {isStreaming && !message.text && (
+                <div className="flex flex-col gap-2 py-2">
+                  <div className="h-4 bg-emerald-100 dark:bg-emerald-900/30 rounded animate-pulse w-3/4"></div>
+                  <div className="h-4 bg-emerald-100 dark:bg-emerald-900/30 rounded animate-pulse w-1/2"></div>
+                </div>
+              )}
+              <div className="text-sm prose dark:prose-invert max-w-none prose-p:leading-relaxed prose-li:my-1 whitespace-pre-wrap">
+                {message.text}
+                {isStreaming && <span className="inline-block w-1.5 h-4 bg-emerald-500 ml-1 animate-pulse" />}
+              </div>
+
+              {message.text && !isLoading && (
+                <div className="mt-4 flex items-center justify-between border-t border-zinc-200 dark:border-zinc-700 pt-4 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => onSaveAsCards(message)}
+                    className="flex items-center gap-1 text-[10px] font-bold text-emerald-600 hover:text-emerald-700 dark:text-emerald-400 uppercase tracking-widest"
+                  >
+                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4" /></svg>
+                    Save as Cards
+                  </button>
+                  <div className="flex items-center gap-4">
+                    <button
+                      onClick={() => onFlag(message, prompt)}
+                      className="text-[10px] font-bold text-zinc-400 hover:text-red-500 uppercase tracking-widest"
+                    >
+                      Flag
+                    </button>
+                    {index === lastModelIndex && (
+                      <button
+                        onClick={onRegenerate}
+                        className="text-[10px] font-bold text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200 uppercase tracking-widest"
+                      >
+                        Regenerate
+                      </button>
+                    )}
+                    <button
+                      onClick={() => navigator.clipboard.writeText(message.text)}
+                      className="text-[10px] font-bold text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200 uppercase tracking-widest"
+                    >
+                      Copy Response
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+            {approved && (
+              <div className="p-4 bg-emerald-50 dark:bg-emerald-900/20 rounded-xl border border-emerald-200 dark:border-emerald-800">
+                <h3 className="font-bold text-sm mb-1 text-emerald-800 dark:text-emerald-400 uppercase tracking-wider">Community Correction</h3>
+                <p className="text-sm whitespace-pre-wrap">{approved.proposed ?? 'A reviewer confirmed this answer contains mistakes.'}</p>
+                <p className="text-[10px] text-zinc-400 mt-1">Reviewed by {approved.reviewedBy}{approved.reviewNote && ` — ${approved.reviewNote}`}</p>
+              </div>
+            )}
+            {isFlagged && !approved && (
+              <p className="text-[10px] font-black uppercase tracking-widest text-yellow-600">Flagged • awaiting community review</p>
+            )}
+            {message.citations && message.citations.length > 0 && <KnowledgeCitations entryIds={message.citations} />}
+            {message.groundingUrls && message.groundingUrls.length > 0 && <UrlDisplay urls={message.groundingUrls} />}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ChatThreadView;
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Correction, CorrectionTarget } from '../types';
+import { CORRECTION_TARGET_LABELS, createCorrection, loadReviewerName, saveReviewerName } from '../utils/corrections';
+
+// Content a learner can flag or correct, with each correctable field's current value.
+export interface CorrectionSubject {
+  language: string;
+  context: string;
+  fields: { target: CorrectionTarget; original: string }[];
+  vocabularyItemId?: string;
+  threadId?: string;
+  messageId?: string;
+}
+
+interface CorrectionModalProps {
+  subject: CorrectionSubject;
+  onSubmit: (correction: Correction) => void;
+  onClose: () => void;
+}
+
+const CorrectionModal: React.FC<CorrectionModalProps> = ({ subject, onSubmit, onClose }) => {
+  const [target, setTarget] = useState<CorrectionTarget>(subject.fields[0].target);
+  const [proposed, setProposed] = useState<string>('');
+  const [note, setNote] = useState<string>('');
+  const [name, setName] = useState<string>(() => loadReviewerName());
+
+  const original = subject.fields.find(f => f.target === target)?.original ?? '';
+
+  const handleSubmit = () => {
+    saveReviewerName(name);
+    onSubmit(createCorrection({
+      target,
+      language: subject.language,
+      context: subject.context,
+      original,
+      proposed,
+      note,
+      submittedBy: name,
+      vocabularyItemId: subject.vocabularyItemId,
+      threadId: subject.threadId,
+      messageId: subject.messageId,
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-zinc-900 rounded-[3rem] p-10 w-full max-w-lg shadow-2xl space-y-6 animate-in zoom-in-95 duration-300 border border-zinc-100 dark:border-zinc-800 max-h-[90vh] overflow-y-auto">
+        <div>
+          <h2 className="text-3xl font-black tracking-tight text-emerald-800 dark:text-emerald-400">Suggest a Correction</h2>
+          <p className="text-sm text-zinc-500 mt-1 italic">A community reviewer will check it before it changes anything.</p>
+        </div>
+
+        {subject.fields.length > 1 && (
+          <div className="flex gap-2">
+            {subject.fields.map(f => (
+              <button
+                key={f.target}
+                onClick={() => setTarget(f.target)}
+                className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${target === f.target ? 'bg-emerald-600 text-white' : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500'}`}
+              >
+                {CORRECTION_TARGET_LABELS[f.target]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <label className="block text-[10px] font-black uppercase tracking-widest text-zinc-400 mb-2 ml-1">
+            {CORRECTION_TARGET_LABELS[target]} ({subject.language})
+          </label>
+          <div className="bg-zinc-50 dark:bg-zinc-800 p-4 rounded-2xl text-sm whitespace-pre-wrap max-h-40 overflow-y-auto">
+            {original || <span className="italic text-zinc-400">Empty</span>}
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="correction-proposed" className="block text-[10px] font-black uppercase tracking-widest text-zinc-400 mb-2 ml-1">Correct Version</label>
+          <textarea
+            id="correction-proposed"
+            value={proposed}
+            onChange={e => setProposed(e.target.value)}
+            placeholder="Leave empty to only flag this as wrong"
+            className="w-full h-24 bg-zinc-50 dark:bg-zinc-800 p-4 rounded-2xl border-none focus:ring-2 focus:ring-emerald-500 text-sm resize-none"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="correction-note" className="block text-[10px] font-black uppercase tracking-widest text-zinc-400 mb-2 ml-1">Why (optional)</label>
+          <input
+            id="correction-note"
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            placeholder="e.g. This is the Wapishana word, not Macushi"
+            className="w-full bg-zinc-50 dark:bg-zinc-800 p-4 rounded-2xl border-none focus:ring-2 focus:ring-emerald-500 text-sm"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="correction-name" className="block text-[10px] font-black uppercase tracking-widest text-zinc-400 mb-2 ml-1">Your Name</label>
+          <input
+            id="correction-name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            className="w-full bg-zinc-50 dark:bg-zinc-800 p-4 rounded-2xl border-none focus:ring-2 focus:ring-emerald-500 font-bold"
+          />
+        </div>
+
+        <div className="flex gap-4 pt-2">
+          <button
+            onClick={onClose}
+            className="flex-1 py-4 font-black text-xs uppercase tracking-widest text-zinc-400 hover:text-zinc-600 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!name.trim()}
+            className="flex-1 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 text-white py-4 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl shadow-emerald-600/20 transition-all active:scale-95"
+          >
+            {proposed.trim() ? 'Submit Correction' : 'Flag as Wrong'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CorrectionModal;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { CrisisDirectory, CrisisRisk } from '../types';
+import { getCrisisRegion } from '../crisis';
+
+interface CrisisPanelProps {
+  risk: Exclude<CrisisRisk, 'none'>;
+  directory: CrisisDirectory;
+  regionId: string;
+  onRegionChange: (id: string) => void;
+  isLivePaused: boolean; // A live session is on hold behind the panel
+  onResume: () => void; // Closes the panel, resuming a paused session
+  onEndSession: () => void;
+}
+
+// Digits and a leading + only, for tel: and sms: links.
+const dialable = (number: string) => number.replace(/[^\d+]/g, '');
+
+const CrisisPanel: React.FC<CrisisPanelProps> = ({ risk, directory, regionId, onRegionChange, isLivePaused, onResume, onEndSession }) => {
+  const region = getCrisisRegion(regionId, directory);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="crisis-panel-title"
+        className="bg-white dark:bg-zinc-900 rounded-[3rem] p-10 w-full max-w-lg shadow-2xl space-y-8 animate-in zoom-in-95 duration-300 border border-zinc-100 dark:border-zinc-800 max-h-[90vh] overflow-y-auto"
+      >
+        <div className="space-y-3">
+          <h2 id="crisis-panel-title" className="text-3xl font-black tracking-tight text-rose-600 dark:text-rose-400">You're Not Alone</h2>
+          <p className="text-sm text-zinc-700 dark:text-zinc-300 leading-relaxed">
+            {risk === 'high'
+              ? "It sounds like you might be thinking about ending your life or hurting yourself. Please reach out to someone right now — you deserve support."
+              : "It sounds like things are really hard right now. Talking to someone can help, and these people are ready to listen."}
+          </p>
+          {isLivePaused && <p className="text-[11px] text-zinc-500">Your live session is paused. Nothing is being sent while this is open.</p>}
+        </div>
+
+        <div className="p-5 rounded-2xl bg-rose-50 dark:bg-rose-900/30 space-y-1">
+          <p className="text-[10px] font-black uppercase tracking-widest text-rose-500">In Danger Right Now</p>
+          <a href={`tel:${dialable(region.emergency)}`} className="text-2xl font-black text-rose-700 dark:text-rose-300">Call {region.emergency}</a>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-[10px] font-black uppercase tracking-widest text-zinc-400">Helplines</p>
+            <select
+              aria-label="Region"
+              value={region.id}
+              onChange={e => onRegionChange(e.target.value)}
+              className="p-2 rounded-xl bg-zinc-50 dark:bg-zinc-800 text-xs font-bold"
+            >
+              {directory.regions.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+            </select>
+          </div>
+          <ul className="space-y-3">
+            {region.resources.map(resource => (
+              <li key={resource.name} className="p-4 rounded-2xl bg-zinc-50 dark:bg-zinc-800 space-y-1 text-sm">
+                <p className="font-bold">{resource.name}{resource.hours && <span className="font-normal text-zinc-500"> • {resource.hours}</span>}</p>
+                <p className="flex flex-wrap gap-x-3">
+                  {resource.phones.map(phone => <a key={phone} href={`tel:${dialable(phone)}`} className="font-bold text-rose-600 dark:text-rose-400">{phone}</a>)}
+                  {resource.sms && <a href={`sms:${dialable(resource.sms)}`} className="text-rose-600 dark:text-rose-400">Text {resource.sms}</a>}
+                  {resource.url && <a href={resource.url} target="_blank" rel="noopener noreferrer" className="underline">Website</a>}
+                </p>
+                {resource.note && <p className="text-xs text-zinc-500">{resource.note}</p>}
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-zinc-500">{directory.fallback}</p>
+          <p className="text-xs text-zinc-500">You can also talk to someone you trust: a family member, teacher, community health worker or your village's toshao.</p>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={onResume}
+            className="flex-1 p-4 rounded-2xl bg-zinc-100 dark:bg-zinc-800 text-xs font-black uppercase tracking-widest hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-all"
+          >
+            {isLivePaused ? 'Resume Session' : 'Back to the App'}
+          </button>
+          {isLivePaused && (
+            <button
+              onClick={onEndSession}
+              className="flex-1 p-4 rounded-2xl bg-rose-600 text-white text-xs font-black uppercase tracking-widest hover:bg-rose-700 transition-all"
+            >
+              End Session
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CrisisPanel;
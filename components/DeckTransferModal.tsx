@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { VocabularyItem } from '../types';
+import {
+  DeckImportPlan,
+  DuplicateStrategy,
+  applyDeckImport,
+  exportDeckAnkiTsv,
+  exportDeckCsv,
+  exportDeckJson,
+  parseDeckFile,
+  planDeckImport,
+} from '../utils/deckTransfer';
+import { downloadFile, fileTimestamp } from '../utils/fileDownload';
+
+interface DeckTransferModalProps {
+  vocabularyList: VocabularyItem[];
+  onImport: (items: VocabularyItem[]) => void;
+  onClose: () => void;
+}
+
+const STRATEGIES: { value: DuplicateStrategy; label: string; description: string }[] = [
+  { value: 'skip', label: 'Keep mine', description: 'Ignore imported duplicates.' },
+  { value: 'merge', label: 'Merge', description: 'Fill in missing pronunciation, audio and images.' },
+  { value: 'replace', label: 'Replace', description: 'Overwrite with the imported card (review progress is kept).' },
+];
+
+const DeckTransferModal: React.FC<DeckTransferModalProps> = ({ vocabularyList, onImport, onClose }) => {
+  const [plan, setPlan] = useState<DeckImportPlan | null>(null);
+  const [fileName, setFileName] = useState<string>('');
+  const [strategy, setStrategy] = useState<DuplicateStrategy>('merge');
+  const [keepProgress, setKeepProgress] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = (format: 'json' | 'csv' | 'anki') => {
+    const base = `guyanese-vocabulary-${fileTimestamp()}`;
+    if (format === 'json') downloadFile(`${base}.json`, exportDeckJson(vocabularyList), 'application/json');
+    else if (format === 'csv') downloadFile(`${base}.csv`, exportDeckCsv(vocabularyList), 'text/csv');
+    else downloadFile(`${base}-anki.txt`, exportDeckAnkiTsv(vocabularyList), 'text/tab-separated-values');
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setPlan(null);
+    setFileName(file.name);
+    try {
+      const text = await file.text();
+      setPlan(planDeckImport(vocabularyList, parseDeckFile(file.name, text)));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleConfirmImport = () => {
+    if (!plan) return;
+    onImport(applyDeckImport(vocabularyList, plan, strategy, { keepProgress }));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-zinc-900 rounded-[3rem] p-10 w-full max-w-lg shadow-2xl space-y-8 animate-in zoom-in-95 duration-300 border border-zinc-100 dark:border-zinc-800 max-h-[90vh] overflow-y-auto">
+        <div>
+          <h2 className="text-3xl font-black tracking-tight text-emerald-800 dark:text-emerald-400">Share Deck</h2>
+          <p className="text-sm text-zinc-500 mt-1 italic">Export your cards for students, or import a deck from your teacher.</p>
+        </div>
+
+        <div className="space-y-3">
+          <label className="block text-[10px] font-black uppercase tracking-widest text-zinc-400 ml-1">Export {vocabularyList.length} cards</label>
+          <div className="grid grid-cols-3 gap-2">
+            {([['json', 'JSON Bundle'], ['csv', 'CSV'], ['anki', 'Anki (TSV)']] as const).map(([format, label]) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={vocabularyList.length === 0}
+                className="bg-emerald-50 hover:bg-emerald-100 dark:bg-emerald-950 dark:hover:bg-emerald-900 disabled:opacity-30 text-emerald-700 dark:text-emerald-300 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest border border-emerald-100 dark:border-emerald-800 transition-all active:scale-95"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[11px] text-zinc-400 ml-1">The JSON bundle keeps everything, including audio and review progress. Anki's text import cannot carry audio.</p>
+        </div>
+
+        <div className="space-y-3 pt-6 border-t border-zinc-100 dark:border-zinc-800">
+          <label className="block text-[10px] font-black uppercase tracking-widest text-zinc-400 ml-1">Import</label>
+          <input
+            type="file"
+            accept=".json,.csv,.tsv,.txt"
+            onChange={e => { const file = e.target.files?.[0]; if (file) handleFile(file); }}
+            className="w-full text-xs text-zinc-500 file:mr-3 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-[10px] file:font-black file:uppercase file:tracking-widest file:bg-emerald-600 file:text-white hover:file:bg-emerald-700 file:cursor-pointer"
+          />
+          {error && <p className="text-xs text-red-500 font-medium">{error}</p>}
+
+          {plan && (
+            <div className="space-y-4 p-4 bg-zinc-50 dark:bg-zinc-800/50 rounded-2xl animate-in fade-in duration-300">
+              <p className="text-sm text-zinc-600 dark:text-zinc-300">
+                <span className="font-bold">{fileName}</span>: {plan.newItems.length} new card{plan.newItems.length === 1 ? '' : 's'}, {plan.duplicates.length} already in your deck.
+              </p>
+              {plan.newItems.some(item => item.review || item.quiz) && (
+                <label className="flex items-start gap-2 text-xs cursor-pointer">
+                  <input type="checkbox" checked={keepProgress} onChange={e => setKeepProgress(e.target.checked)} className="mt-0.5 accent-emerald-600" />
+                  <span><span className="font-bold">Keep review progress from the file</span> <span className="text-zinc-400">For restoring your own backup. Leave it off for a shared deck, so you start the cards fresh.</span></span>
+                </label>
+              )}
+              {plan.duplicates.length > 0 && (
+                <>
+                  <ul className="text-xs text-zinc-500 max-h-24 overflow-y-auto space-y-1">
+                    {plan.duplicates.map(({ existing, incoming }) => (
+                      <li key={existing.id}>
+                        <span className="font-bold text-zinc-700 dark:text-zinc-300">{existing.word}</span> ({existing.wordLanguage}): "{existing.translation}"
+                        {incoming.translation !== existing.translation && <> → "{incoming.translation}"</>}
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="space-y-2">
+                    {STRATEGIES.map(s => (
+                      <label key={s.value} className="flex items-start gap-2 text-xs cursor-pointer">
+                        <input type="radio" name="duplicate-strategy" checked={strategy === s.value} onChange={() => setStrategy(s.value)} className="mt-0.5 accent-emerald-600" />
+                        <span><span className="font-bold">{s.label}</span> <span className="text-zinc-400">{s.description}</span></span>
+                      </label>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-4 pt-4">
+          <button
+            onClick={onClose}
+            className="flex-1 py-4 font-black text-xs uppercase tracking-widest text-zinc-400 hover:text-zinc-600 transition-all"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleConfirmImport}
+            disabled={!plan || (plan.newItems.length === 0 && (strategy === 'skip' || plan.duplicates.length === 0))}
+            className="flex-1 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-30 text-white py-4 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl shadow-emerald-600/20 transition-all active:scale-95"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeckTransferModal;
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { ExtractedTerm } from '../types';
+
+interface ExtractCardsModalProps {
+  sourceLabel: string; // What the terms are extracted from, e.g. "Assistant answer"
+  onExtract: () => Promise<ExtractedTerm[]>;
+  onSave: (terms: ExtractedTerm[]) => void;
+  onClose: () => void;
+}
+
+const ExtractCardsModal: React.FC<ExtractCardsModalProps> = ({ sourceLabel, onExtract, onSave, onClose }) => {
+  const [terms, setTerms] = useState<ExtractedTerm[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  // Extract once per opening.
+  useEffect(() => {
+    let cancelled = false;
+    onExtract()
+      .then(found => {
+        if (cancelled) return;
+        setTerms(found);
+        setSelected(new Set(found.flatMap((t, i) => t.isDuplicate ? [] : [i])));
+      })
+      .catch(e => {
+        if (!cancelled) setError(`Extraction failed: ${e instanceof Error ? e.message : String(e)}`);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const newTermIndexes = terms?.flatMap((t, i) => t.isDuplicate ? [] : [i]) ?? [];
+  const allSelected = newTermIndexes.length > 0 && newTermIndexes.every(i => selected.has(i));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-zinc-900 rounded-[3rem] p-10 w-full max-w-lg shadow-2xl space-y-6 animate-in zoom-in-95 duration-300 border border-zinc-100 dark:border-zinc-800 max-h-[90vh] flex flex-col">
+        <div>
+          <h2 className="text-3xl font-black tracking-tight text-emerald-800 dark:text-emerald-400">Save as Cards</h2>
+          <p className="text-sm text-zinc-500 mt-1 italic">Vocabulary found in this {sourceLabel.toLowerCase()}.</p>
+        </div>
+
+        {error && <p className="text-xs text-red-500 font-medium">{error}</p>}
+        {!terms && !error && (
+          <div className="flex flex-col gap-2 py-2">
+            <div className="h-10 bg-emerald-100 dark:bg-emerald-900/30 rounded-2xl animate-pulse"></div>
+            <div className="h-10 bg-emerald-100 dark:bg-emerald-900/30 rounded-2xl animate-pulse"></div>
+            <div className="h-10 bg-emerald-100 dark:bg-emerald-900/30 rounded-2xl animate-pulse w-2/3"></div>
+          </div>
+        )}
+        {terms && terms.length === 0 && (
+          <p className="text-center text-zinc-500 text-sm py-8">No tribal-language words were found here.</p>
+        )}
+        {terms && terms.length > 0 && (
+          <div className="space-y-3 min-h-0 flex flex-col">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-black uppercase tracking-widest text-zinc-400">{terms.length} found</span>
+              {newTermIndexes.length > 0 && (
+                <button
+                  onClick={() => setSelected(allSelected ? new Set() : new Set(newTermIndexes))}
+                  className="text-[10px] font-bold text-emerald-600 hover:text-emerald-700 uppercase tracking-widest"
+                >
+                  {allSelected ? 'Select None' : 'Select All'}
+                </button>
+              )}
+            </div>
+            <ul className="space-y-2 overflow-y-auto pr-1">
+              {terms.map((term, index) => (
+                <li key={`${term.language}:${term.word}`}>
+                  <label className={`flex items-center gap-3 p-3 rounded-2xl border transition-all ${term.isDuplicate ? 'opacity-50 border-transparent bg-zinc-50 dark:bg-zinc-800/50' : selected.has(index) ? 'border-emerald-300 dark:border-emerald-800 bg-emerald-50/50 dark:bg-emerald-900/10 cursor-pointer' : 'border-zinc-100 dark:border-zinc-800 cursor-pointer'}`}>
+                    <input
+                      type="checkbox"
+                      checked={!term.isDuplicate && selected.has(index)}
+                      disabled={term.isDuplicate}
+                      onChange={() => toggle(index)}
+                      aria-label={term.word}
+                      className="accent-emerald-600"
+                    />
+                    <div className="flex-grow min-w-0">
+                      <p className="font-bold text-sm truncate">
+                        {term.word}
+                        {term.pronunciation && <span className="ml-2 text-[11px] font-mono font-normal text-zinc-400">{term.pronunciation}</span>}
+                      </p>
+                      <p className="text-xs text-zinc-500 truncate">{term.translation}</p>
+                    </div>
+                    <span className="text-[9px] font-black uppercase tracking-widest text-zinc-400 shrink-0">
+                      {term.isDuplicate ? 'In Deck' : term.language}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex gap-4 pt-2">
+          <button
+            onClick={onClose}
+            className="flex-1 py-4 font-black text-xs uppercase tracking-widest text-zinc-400 hover:text-zinc-600 transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(terms?.filter((_, i) => selected.has(i)) ?? [])}
+            disabled={selected.size === 0}
+            className="flex-1 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 text-white py-4 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl shadow-emerald-600/20 transition-all active:scale-95"
+          >
+            Add {selected.size} {selected.size === 1 ? 'Card' : 'Cards'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExtractCardsModal;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { getEntrySources, getKnowledgeEntry } from '../knowledge';
+import { KnowledgeEntry } from '../types';
+
+interface KnowledgeCitationsProps {
+  entryIds: string[];
+}
+
+const KnowledgeCitations: React.FC<KnowledgeCitationsProps> = ({ entryIds }) => {
+  const entries = entryIds.map(getKnowledgeEntry).filter((e): e is KnowledgeEntry => !!e);
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="p-4 bg-yellow-50/60 dark:bg-yellow-900/10 rounded-xl border border-yellow-100 dark:border-yellow-900/30">
+      <h3 className="font-bold text-sm mb-2 text-yellow-800 dark:text-yellow-400 uppercase tracking-wider">Knowledge Base</h3>
+      <ul className="space-y-2">
+        {entries.map(entry => (
+          <li key={entry.id} className="text-xs text-zinc-600 dark:text-zinc-300">
+            <div className="flex items-center gap-2">
+              <span className="font-mono text-[10px] text-zinc-400">[kb:{entry.id}]</span>
+              <span className="font-bold">{entry.title}</span>
+              <span className="text-[9px] font-black uppercase tracking-widest text-emerald-600 dark:text-emerald-400">{entry.language}</span>
+              {entry.status === 'unreviewed' && (
+                <span className="text-[9px] font-black uppercase tracking-widest text-yellow-700 bg-yellow-100 dark:bg-yellow-900/40 dark:text-yellow-400 px-2 py-0.5 rounded-full">
+                  Unreviewed
+                </span>
+              )}
+            </div>
+            {getEntrySources(entry).map(source => (
+              <p key={source.id} className="text-[11px] text-zinc-400 italic mt-0.5">
+                {source.url ? <a href={source.url} target="_blank" rel="noopener noreferrer" className="hover:text-emerald-600">{source.citation}</a> : source.citation}
+              </p>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default KnowledgeCitations;
@@ -0,0 +1,116 @@
+import React, { useMemo } from 'react';
+import { LessonStep, LessonUnit, VocabularyItem } from '../types';
+import { CURRICULA, getCurriculum } from '../lessons';
+import { LessonProgress, isUnitComplete, isUnitUnlocked, lessonDeck, resumeUnit } from '../utils/lessons';
+import { vocabularyKey } from '../utils/deckTransfer';
+import LessonUnitView from './LessonUnitView';
+
+interface LessonPathProps {
+  language: string;
+  progress: LessonProgress;
+  vocabulary: VocabularyItem[];
+  openUnitId: string | null;
+  onLanguageChange: (language: string) => void;
+  onOpenUnit: (unit: LessonUnit | null) => void;
+  onStepChange: (unit: LessonUnit, step: LessonStep) => void;
+  onAddWords: (unit: LessonUnit) => void;
+  onAskTutor: (unit: LessonUnit, prompt: string) => void;
+  onStartRoleplay: (unit: LessonUnit) => void;
+  onStartQuiz: (unit: LessonUnit) => void;
+  onClose: () => void;
+}
+
+const LessonPath: React.FC<LessonPathProps> = ({ language, progress, vocabulary, openUnitId, onLanguageChange, onOpenUnit, onStepChange, onAddWords, onAskTutor, onStartRoleplay, onStartQuiz, onClose }) => {
+  const curriculum = getCurriculum(language) ?? CURRICULA[0];
+  const openUnit = curriculum.units.find(u => u.id === openUnitId) ?? null;
+  const nextUnit = resumeUnit(curriculum, progress);
+  const completedCount = curriculum.units.filter(u => isUnitComplete(progress, u.id)).length;
+  const savedKeys = useMemo(() => new Set(vocabulary.map(vocabularyKey)), [vocabulary]);
+
+  const unitStatus = (unit: LessonUnit) => {
+    const unitProgress = progress[unit.id];
+    if (unitProgress?.completedAt) return `Completed • best ${Math.round((unitProgress.bestScore ?? 0) * 100)}%`;
+    if (!isUnitUnlocked(curriculum, unit.id, progress)) return 'Locked';
+    return unitProgress ? 'In progress' : 'Not started';
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-zinc-900 rounded-[3rem] p-10 w-full max-w-lg shadow-2xl space-y-8 animate-in zoom-in-95 duration-300 border border-zinc-100 dark:border-zinc-800 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-3xl font-black tracking-tight text-emerald-800 dark:text-emerald-400">Lessons</h2>
+            <p className="text-sm text-zinc-500 mt-1 italic">{completedCount} of {curriculum.units.length} units complete.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-zinc-600 transition-all"
+          >
+            Close
+          </button>
+        </div>
+
+        {openUnit ? (
+          <LessonUnitView
+            unit={openUnit}
+            progress={progress[openUnit.id]}
+            unitCardCount={lessonDeck(openUnit, vocabulary).length}
+            savedWordCount={openUnit.vocabulary.filter(v => savedKeys.has(vocabularyKey({ word: v.word, wordLanguage: openUnit.language }))).length}
+            onStepChange={step => onStepChange(openUnit, step)}
+            onAddWords={() => onAddWords(openUnit)}
+            onAskTutor={prompt => onAskTutor(openUnit, prompt)}
+            onStartRoleplay={() => onStartRoleplay(openUnit)}
+            onStartQuiz={() => onStartQuiz(openUnit)}
+            onBack={() => onOpenUnit(null)}
+          />
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <label className="block text-[10px] font-black uppercase tracking-widest text-zinc-400 mb-2 ml-1">Language</label>
+              <select
+                value={curriculum.language}
+                onChange={e => onLanguageChange(e.target.value)}
+                aria-label="Lesson language"
+                className="w-full bg-zinc-50 dark:bg-zinc-800 p-4 rounded-2xl border-none focus:ring-2 focus:ring-emerald-500 font-bold"
+              >
+                {CURRICULA.map(c => <option key={c.language} value={c.language}>{c.language}</option>)}
+              </select>
+            </div>
+
+            {nextUnit && (
+              <button
+                onClick={() => onOpenUnit(nextUnit)}
+                className="w-full bg-emerald-600 hover:bg-emerald-700 text-white py-4 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl shadow-emerald-600/20 transition-all active:scale-95"
+              >
+                {progress[nextUnit.id] ? 'Resume' : 'Start'}: {nextUnit.title}
+              </button>
+            )}
+
+            <ol className="space-y-3">
+              {curriculum.units.map((unit, i) => {
+                const isLocked = !isUnitUnlocked(curriculum, unit.id, progress);
+                return (
+                  <li key={unit.id}>
+                    <button
+                      onClick={() => onOpenUnit(unit)}
+                      disabled={isLocked}
+                      className="w-full text-left p-5 bg-zinc-50 dark:bg-zinc-800/50 rounded-2xl border border-zinc-100 dark:border-zinc-800 hover:border-emerald-300 disabled:opacity-50 disabled:hover:border-zinc-100 transition-all"
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-black">{i + 1}. {unit.title}</span>
+                        <span className={`text-[10px] font-black uppercase tracking-widest ${isUnitComplete(progress, unit.id) ? 'text-emerald-600' : 'text-zinc-400'}`}>{unitStatus(unit)}</span>
+                      </div>
+                      <p className="text-xs text-zinc-500 mt-1">{unit.summary}</p>
+                    </button>
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LessonPath;
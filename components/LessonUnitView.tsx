@@ -0,0 +1,165 @@
+import React from 'react';
+import { LessonStep, LessonUnit, LessonUnitProgress } from '../types';
+import { LESSON_STEPS, LESSON_STEP_LABELS, buildDialoguePrompt, buildMeaningsPrompt } from '../utils/lessons';
+
+interface LessonUnitViewProps {
+  unit: LessonUnit;
+  progress: LessonUnitProgress | undefined;
+  unitCardCount: number; // Learner's cards the closing quiz draws from
+  savedWordCount: number; // Unit vocabulary already in the deck
+  onStepChange: (step: LessonStep) => void;
+  onAddWords: () => void;
+  onAskTutor: (prompt: string) => void;
+  onStartRoleplay: () => void;
+  onStartQuiz: () => void;
+  onBack: () => void;
+}
+
+const LessonUnitView: React.FC<LessonUnitViewProps> = ({ unit, progress, unitCardCount, savedWordCount, onStepChange, onAddWords, onAskTutor, onStartRoleplay, onStartQuiz, onBack }) => {
+  const step = progress?.step ?? 'objectives';
+  const nextStep = LESSON_STEPS[LESSON_STEPS.indexOf(step) + 1];
+
+  const renderStep = () => {
+    switch (step) {
+      case 'objectives':
+        return (
+          <div className="space-y-4">
+            <p className="text-sm text-zinc-600 dark:text-zinc-400">{unit.summary}</p>
+            <p className="text-[10px] font-black uppercase tracking-widest text-zinc-400">By the end of this unit you can</p>
+            <ul className="space-y-2 text-sm">
+              {unit.objectives.map(objective => (
+                <li key={objective} className="flex gap-2"><span className="text-emerald-500">✓</span>{objective}</li>
+              ))}
+            </ul>
+          </div>
+        );
+      case 'vocabulary':
+        return (
+          <div className="space-y-4">
+            {unit.vocabulary.length > 0 && (
+              <>
+                <ul className="space-y-2">
+                  {unit.vocabulary.map(v => (
+                    <li key={v.word} className="flex items-baseline justify-between p-3 bg-zinc-50 dark:bg-zinc-800/50 rounded-2xl">
+                      <span className="font-black text-emerald-800 dark:text-emerald-300">{v.word}{v.pronunciation && <span className="ml-2 font-mono text-xs text-zinc-400">{v.pronunciation}</span>}</span>
+                      <span className="text-sm text-zinc-500">{v.translation}</span>
+                    </li>
+                  ))}
+                </ul>
+                <button
+                  onClick={onAddWords}
+                  disabled={savedWordCount === unit.vocabulary.length}
+                  className="w-full bg-emerald-100 hover:bg-emerald-200 dark:bg-emerald-900 dark:hover:bg-emerald-800 disabled:opacity-40 text-emerald-800 dark:text-emerald-200 py-3 rounded-2xl font-black text-xs uppercase tracking-widest transition-all active:scale-95"
+                >
+                  {savedWordCount === unit.vocabulary.length ? 'All Words in My Cards' : 'Add to My Cards'}
+                </button>
+              </>
+            )}
+            <div className="space-y-2">
+              <p className="text-[10px] font-black uppercase tracking-widest text-zinc-400">Ask the tutor how to say</p>
+              <div className="flex flex-wrap gap-2">
+                {unit.meanings.map(meaning => (
+                  <span key={meaning} className="text-[11px] font-medium bg-zinc-100 dark:bg-zinc-800 px-3 py-1.5 rounded-full">{meaning}</span>
+                ))}
+              </div>
+              <button
+                onClick={() => onAskTutor(buildMeaningsPrompt(unit))}
+                className="text-[10px] font-bold text-emerald-600 hover:text-emerald-700 uppercase tracking-widest"
+              >
+                Ask the Tutor
+              </button>
+              <p className="text-[11px] text-zinc-400">Save the answer as cards to study them here.</p>
+            </div>
+          </div>
+        );
+      case 'dialogue':
+        return (
+          <div className="space-y-4">
+            <ol className="space-y-2">
+              {unit.dialogue.map((line, i) => (
+                <li key={i} className={`p-3 rounded-2xl text-sm ${line.speaker === 'tutor' ? 'bg-zinc-50 dark:bg-zinc-800/50 mr-8' : 'bg-emerald-50 dark:bg-emerald-900/20 ml-8'}`}>
+                  <p className="text-[10px] font-black uppercase tracking-widest text-zinc-400">{line.speaker === 'tutor' ? 'Tutor' : 'You'}</p>
+                  {line.text ? <p className="font-bold">{line.text}</p> : <p className="italic text-zinc-500">{line.cue}</p>}
+                </li>
+              ))}
+            </ol>
+            <button
+              onClick={() => onAskTutor(buildDialoguePrompt(unit))}
+              className="text-[10px] font-bold text-emerald-600 hover:text-emerald-700 uppercase tracking-widest"
+            >
+              Ask the Tutor to Write It
+            </button>
+          </div>
+        );
+      case 'roleplay':
+        return (
+          <div className="space-y-4 text-sm">
+            <p>{unit.roleplay.setting}</p>
+            <p className="text-zinc-500">The tutor plays <span className="font-bold">{unit.roleplay.tutorRole}</span>; you are <span className="font-bold">{unit.roleplay.learnerRole}</span>.</p>
+            <ul className="space-y-2">
+              {unit.roleplay.goals.map(goal => (
+                <li key={goal} className="flex gap-2"><span className="text-yellow-500">★</span>{goal}</li>
+              ))}
+            </ul>
+            <button
+              onClick={onStartRoleplay}
+              className="w-full bg-yellow-500 hover:bg-yellow-600 text-zinc-900 py-3 rounded-2xl font-black text-xs uppercase tracking-widest shadow-lg shadow-yellow-500/20 transition-all active:scale-95"
+            >
+              Start Roleplay
+            </button>
+          </div>
+        );
+      case 'quiz':
+        return (
+          <div className="space-y-4 text-sm">
+            <p>Score {Math.round(unit.quiz.passingScore * 100)}% or more on the closing quiz to complete the unit{progress?.bestScore !== undefined && ` (your best: ${Math.round(progress.bestScore * 100)}%)`}.</p>
+            <p className="text-zinc-500">{unitCardCount === 0 ? 'None of your cards cover this unit yet. Save the tutor\'s answers as cards first.' : `${unitCardCount} of your cards cover this unit.`}</p>
+            <button
+              onClick={onStartQuiz}
+              disabled={unitCardCount === 0}
+              className="w-full bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 text-white py-4 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl shadow-emerald-600/20 transition-all active:scale-95"
+            >
+              Start Quiz
+            </button>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <button onClick={onBack} className="text-[10px] font-bold text-zinc-400 hover:text-zinc-600 uppercase tracking-widest">← All Units</button>
+        <h3 className="text-2xl font-black tracking-tight text-emerald-800 dark:text-emerald-400 mt-2">{unit.title}</h3>
+        {progress?.completedAt && <p className="text-[10px] font-black uppercase tracking-widest text-emerald-600">Completed</p>}
+      </div>
+
+      <div className="flex flex-wrap gap-1" role="tablist">
+        {LESSON_STEPS.map(s => (
+          <button
+            key={s}
+            role="tab"
+            aria-selected={s === step}
+            onClick={() => onStepChange(s)}
+            className={`px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${s === step ? 'bg-emerald-600 text-white' : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500'}`}
+          >
+            {LESSON_STEP_LABELS[s]}
+          </button>
+        ))}
+      </div>
+
+      {renderStep()}
+
+      {nextStep && (
+        <button
+          onClick={() => onStepChange(nextStep)}
+          className="w-full py-3 font-black text-xs uppercase tracking-widest text-zinc-400 hover:text-zinc-600 transition-all"
+        >
+          Next: {LESSON_STEP_LABELS[nextStep]}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default LessonUnitView;
@@ -0,0 +1,99 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { InputLevelMonitor, computeSpectrumBars, levelToMeterFraction } from '../utils/audioLevels';
+
+interface LiveAudioVisualizerProps {
+  inputAnalyserRef: React.RefObject<AnalyserNode | null>; // Learner's microphone
+  outputAnalyserRef: React.RefObject<AnalyserNode | null>; // Assistant's voice after the volume control
+  isAssistantSpeaking: boolean;
+  height?: number;
+}
+
+const BAR_COUNT = 32;
+const INPUT_COLOR = '#eab308';
+const OUTPUT_COLOR = '#10b981';
+
+const LiveAudioVisualizer: React.FC<LiveAudioVisualizerProps> = ({ inputAnalyserRef, outputAnalyserRef, isAssistantSpeaking, height = 80 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const volumeMeterRef = useRef<HTMLDivElement>(null);
+  const animationFrameIdRef = useRef<number | null>(null);
+  const isAssistantSpeakingRef = useRef<boolean>(isAssistantSpeaking);
+  const [warnings, setWarnings] = useState<{ isClipping: boolean; isTooQuiet: boolean }>({ isClipping: false, isTooQuiet: false });
+
+  isAssistantSpeakingRef.current = isAssistantSpeaking;
+
+  // Drawn outside React on every animation frame; only the warnings go through state, and only when they change.
+  useEffect(() => {
+    const monitor = new InputLevelMonitor();
+    let timeDomain = new Float32Array(0);
+    let frequencies = new Uint8Array(0);
+
+    const spectrum = (analyser: AnalyserNode | null) => {
+      if (!analyser) return new Float32Array(BAR_COUNT);
+      if (frequencies.length !== analyser.frequencyBinCount) frequencies = new Uint8Array(analyser.frequencyBinCount);
+      analyser.getByteFrequencyData(frequencies);
+      return computeSpectrumBars(frequencies, analyser.context.sampleRate, BAR_COUNT);
+    };
+
+    const draw = () => {
+      const input = inputAnalyserRef.current;
+      if (input) {
+        if (timeDomain.length !== input.fftSize) timeDomain = new Float32Array(input.fftSize);
+        input.getFloatTimeDomainData(timeDomain);
+        const level = monitor.update(timeDomain, Date.now(), !isAssistantSpeakingRef.current);
+        if (volumeMeterRef.current) volumeMeterRef.current.style.width = `${levelToMeterFraction(level.db) * 100}%`;
+        setWarnings(prev => prev.isClipping === level.isClipping && prev.isTooQuiet === level.isTooQuiet
+          ? prev
+          : { isClipping: level.isClipping, isTooQuiet: level.isTooQuiet });
+      }
+
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (canvas && ctx) {
+        const width = canvas.clientWidth * window.devicePixelRatio;
+        const pixelHeight = height * window.devicePixelRatio;
+        if (canvas.width !== width) canvas.width = width;
+        if (canvas.height !== pixelHeight) canvas.height = pixelHeight;
+        ctx.clearRect(0, 0, width, pixelHeight);
+        const middle = pixelHeight / 2;
+        const barWidth = width / BAR_COUNT;
+        const floor = window.devicePixelRatio;
+        // The learner's voice rises from the centre line and the assistant's hangs below it.
+        ctx.fillStyle = INPUT_COLOR;
+        spectrum(input).forEach((bar, i) => {
+          const barHeight = Math.max(floor, bar * middle);
+          ctx.fillRect(i * barWidth + barWidth * 0.15, middle - barHeight, barWidth * 0.7, barHeight);
+        });
+        ctx.fillStyle = OUTPUT_COLOR;
+        spectrum(outputAnalyserRef.current).forEach((bar, i) => {
+          ctx.fillRect(i * barWidth + barWidth * 0.15, middle, barWidth * 0.7, Math.max(floor, bar * middle));
+        });
+      }
+      animationFrameIdRef.current = requestAnimationFrame(draw);
+    };
+
+    animationFrameIdRef.current = requestAnimationFrame(draw);
+    return () => {
+      if (animationFrameIdRef.current !== null) cancelAnimationFrame(animationFrameIdRef.current);
+    };
+  }, [inputAnalyserRef, outputAnalyserRef, height]);
+
+  return (
+    <div className="space-y-3">
+      <canvas ref={canvasRef} className="w-full" style={{ height }} aria-hidden="true" />
+      <div className="flex items-center gap-3">
+        <span className="text-[10px] font-black uppercase tracking-widest text-zinc-400 shrink-0">Mic</span>
+        <div className="flex-grow h-2 bg-zinc-100 dark:bg-zinc-800 rounded-full overflow-hidden" role="img" aria-label="Microphone level">
+          <div ref={volumeMeterRef} className={`h-full rounded-full transition-[width] duration-75 ${warnings.isClipping ? 'bg-red-500' : 'bg-yellow-500'}`} style={{ width: 0 }} />
+        </div>
+        {warnings.isClipping && <span className="text-[10px] font-black uppercase tracking-widest text-red-500 shrink-0">Too Loud</span>}
+      </div>
+      {warnings.isTooQuiet && (
+        <p className="text-xs text-yellow-700 dark:text-yellow-400 bg-yellow-50 dark:bg-yellow-900/20 rounded-xl px-3 py-2 text-center">
+          You're too quiet. Move closer to the microphone or turn up its input level.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default LiveAudioVisualizer;
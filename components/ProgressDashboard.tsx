@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import { ActivityEvent, VocabularyItem } from '../types';
+import { DailyActivity, MASTERY_LEVELS, MasteryLevel, computeStreak, dailyActivity, exportActivityJson, summarizeProgress } from '../utils/progress';
+import { downloadFile, fileTimestamp } from '../utils/fileDownload';
+
+interface ProgressDashboardProps {
+  events: ActivityEvent[];
+  vocabulary: VocabularyItem[];
+  onClose: () => void;
+}
+
+type ChartMetric = Exclude<keyof DailyActivity, 'date'>;
+
+const CHART_METRICS: { value: ChartMetric; label: string }[] = [
+  { value: 'reviews', label: 'Reviews' },
+  { value: 'quizAnswers', label: 'Quiz' },
+  { value: 'wordsAdded', label: 'New Words' },
+  { value: 'liveMinutes', label: 'Live Min' },
+  { value: 'questions', label: 'Questions' },
+];
+
+const CHART_RANGES = [14, 30, 90];
+
+const MASTERY_COLORS: Record<MasteryLevel, string> = {
+  new: 'bg-zinc-300 dark:bg-zinc-600',
+  learning: 'bg-yellow-400',
+  familiar: 'bg-emerald-400',
+  mastered: 'bg-emerald-700',
+};
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ events, vocabulary, onClose }) => {
+  const [metric, setMetric] = useState<ChartMetric>('reviews');
+  const [range, setRange] = useState<number>(14);
+
+  const streak = useMemo(() => computeStreak(events), [events]);
+  const languages = useMemo(() => summarizeProgress(events, vocabulary), [events, vocabulary]);
+  const series = useMemo(() => dailyActivity(events, range), [events, range]);
+  const chartMax = Math.max(1, ...series.map(d => d[metric]));
+  const totalLiveMinutes = languages.reduce((sum, l) => sum + l.liveMinutes, 0);
+
+  const handleExport = () => {
+    downloadFile(`learning-activity-${fileTimestamp()}.json`, exportActivityJson(events, vocabulary), 'application/json');
+  };
+
+  const tiles = [
+    { label: 'Day Streak', value: streak.current, hint: streak.activeToday ? 'Active today' : streak.current ? 'Study today to keep it' : 'Start one today' },
+    { label: 'Longest Streak', value: streak.longest, hint: 'days' },
+    { label: 'Words', value: vocabulary.length, hint: `${languages.reduce((sum, l) => sum + l.mastery.mastered, 0)} mastered` },
+    { label: 'Live Minutes', value: Math.round(totalLiveMinutes), hint: 'Live Immersion' },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-zinc-900 rounded-[3rem] p-10 w-full max-w-4xl shadow-2xl space-y-8 animate-in zoom-in-95 duration-300 border border-zinc-100 dark:border-zinc-800 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-3xl font-black tracking-tight text-emerald-800 dark:text-emerald-400">Progress</h2>
+            <p className="text-sm text-zinc-500 mt-1 italic">{events.length} activities logged on this device.</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={handleExport}
+              className="text-[10px] font-bold text-emerald-600 hover:text-emerald-700 uppercase tracking-widest"
+            >
+              Export JSON
+            </button>
+            <button
+              onClick={onClose}
+              className="text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-zinc-600 transition-all"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {tiles.map(tile => (
+            <div key={tile.label} className="p-5 bg-zinc-50 dark:bg-zinc-800/50 rounded-2xl border border-zinc-100 dark:border-zinc-800">
+              <p className="text-[10px] font-black uppercase tracking-widest text-zinc-400">{tile.label}</p>
+              <p className="text-4xl font-black text-emerald-700 dark:text-emerald-400">{tile.value}</p>
+              <p className="text-[11px] text-zinc-400">{tile.hint}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex flex-wrap gap-1">
+              {CHART_METRICS.map(m => (
+                <button
+                  key={m.value}
+                  onClick={() => setMetric(m.value)}
+                  className={`px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${metric === m.value ? 'bg-emerald-600 text-white' : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500'}`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-1">
+              {CHART_RANGES.map(days => (
+                <button
+                  key={days}
+                  onClick={() => setRange(days)}
+                  className={`px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${range === days ? 'bg-zinc-700 text-white' : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500'}`}
+                >
+                  {days}d
+                </button>
+              ))}
+            </div>
+          </div>
+          <svg viewBox={`0 0 ${series.length * 10} 100`} preserveAspectRatio="none" className="w-full h-32 bg-zinc-50 dark:bg-zinc-800/50 rounded-2xl" role="img" aria-label={`${CHART_METRICS.find(m => m.value === metric)?.label} per day`}>
+            {series.map((day, i) => {
+              const height = (day[metric] / chartMax) * 90;
+              return (
+                <rect key={day.date} x={i * 10 + 1.5} y={100 - height} width={7} height={height} rx={1.5} className="fill-emerald-500">
+                  <title>{`${day.date}: ${Math.round(day[metric] * 10) / 10}`}</title>
+                </rect>
+              );
+            })}
+          </svg>
+          <div className="flex justify-between text-[10px] font-mono text-zinc-400">
+            <span>{series[0]?.date}</span>
+            <span>{series[series.length - 1]?.date}</span>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[10px] font-black uppercase tracking-widest text-zinc-400 text-left">
+                <th className="py-2 pr-4">Language</th>
+                <th className="py-2 pr-4">Words</th>
+                <th className="py-2 pr-4 w-1/4">Mastery</th>
+                <th className="py-2 pr-4">Reviews</th>
+                <th className="py-2 pr-4">Quiz</th>
+                <th className="py-2 pr-4">Live Min</th>
+                <th className="py-2">Questions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {languages.map(l => (
+                <tr key={l.language} className="border-t border-zinc-100 dark:border-zinc-800">
+                  <td className="py-2 pr-4 font-bold">{l.language}</td>
+                  <td className="py-2 pr-4">{l.words}</td>
+                  <td className="py-2 pr-4">
+                    {l.words > 0 ? (
+                      <div className="flex h-2 rounded-full overflow-hidden" title={MASTERY_LEVELS.map(level => `${l.mastery[level]} ${level}`).join(', ')}>
+                        {MASTERY_LEVELS.map(level => l.mastery[level] > 0 && (
+                          <div key={level} className={MASTERY_COLORS[level]} style={{ width: `${(l.mastery[level] / l.words) * 100}%` }} />
+                        ))}
+                      </div>
+                    ) : <span className="text-zinc-300">—</span>}
+                  </td>
+                  <td className="py-2 pr-4">{l.reviews}</td>
+                  <td className="py-2 pr-4">{l.quizAnswers ? `${Math.round((l.quizCorrect / l.quizAnswers) * 100)}% of ${l.quizAnswers}` : 0}</td>
+                  <td className="py-2 pr-4">{Math.round(l.liveMinutes)}</td>
+                  <td className="py-2">{l.questions}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex gap-4 mt-3 text-[10px] font-bold uppercase tracking-widest text-zinc-400">
+            {MASTERY_LEVELS.map(level => (
+              <span key={level} className="flex items-center gap-1.5">
+                <span className={`w-2 h-2 rounded-full ${MASTERY_COLORS[level]}`} />
+                {level}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
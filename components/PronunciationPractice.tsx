@@ -0,0 +1,187 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { PronunciationFeedback, VocabularyItem } from '../types';
+import { decode, encodeWav, pcm16ToFloat32, trimSilence } from '../utils/audioHelpers';
+import { downloadFile } from '../utils/fileDownload';
+import { MicRecording, RECORDING_SAMPLE_RATE, startMicRecording } from '../utils/micRecorder';
+import Waveform from './Waveform';
+
+interface PronunciationPracticeProps {
+  item: VocabularyItem;
+  isReferenceLoading: boolean;
+  onPlayReference: (item: VocabularyItem) => void;
+  onPlayAttempt: (samples: Float32Array, sampleRate: number) => void;
+  onRequestFeedback: (item: VocabularyItem, samples: Float32Array, sampleRate: number) => Promise<PronunciationFeedback>;
+  onClose: () => void;
+}
+
+const MAX_RECORDING_MS = 10000;
+
+const PronunciationPractice: React.FC<PronunciationPracticeProps> = ({
+  item,
+  isReferenceLoading,
+  onPlayReference,
+  onPlayAttempt,
+  onRequestFeedback,
+  onClose,
+}) => {
+  const [attempt, setAttempt] = useState<Float32Array | null>(null);
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
+  const [feedback, setFeedback] = useState<PronunciationFeedback | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const recordingRef = useRef<MicRecording | null>(null);
+  const autoStopRef = useRef<number | null>(null);
+
+  const reference = useMemo(
+    () => (item.audioBase64 ? pcm16ToFloat32(decode(item.audioBase64)) : null),
+    [item.audioBase64],
+  );
+
+  // Release the microphone if the dialog closes mid-recording.
+  useEffect(() => () => {
+    recordingRef.current?.cancel();
+    if (autoStopRef.current) window.clearTimeout(autoStopRef.current);
+  }, []);
+
+  const stopRecording = async () => {
+    if (autoStopRef.current) window.clearTimeout(autoStopRef.current);
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    setIsRecording(false);
+    if (!recording) return;
+    const samples = await recording.stop();
+    // Trimmed so the waveforms line up with the reference; a silent take is kept whole.
+    const trimmed = trimSilence(samples, RECORDING_SAMPLE_RATE);
+    setAttempt(trimmed.length ? trimmed : samples);
+  };
+
+  const startRecording = async () => {
+    setError(null);
+    setFeedback(null);
+    try {
+      recordingRef.current = await startMicRecording();
+      setIsRecording(true);
+      autoStopRef.current = window.setTimeout(stopRecording, MAX_RECORDING_MS);
+    } catch (e) {
+      setError(`Microphone unavailable: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const requestFeedback = async () => {
+    if (!attempt) return;
+    setIsAnalyzing(true);
+    setError(null);
+    try {
+      setFeedback(await onRequestFeedback(item, attempt, RECORDING_SAMPLE_RATE));
+    } catch (e) {
+      setError(`Feedback failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-zinc-900 rounded-[3rem] p-10 w-full max-w-lg shadow-2xl space-y-6 animate-in zoom-in-95 duration-300 border border-zinc-100 dark:border-zinc-800 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-3xl font-black tracking-tight text-emerald-800 dark:text-emerald-400">{item.word}</h2>
+            <p className="text-sm text-zinc-500 mt-1 italic">
+              {item.wordLanguage}{item.phoneticTranscription && <span className="font-mono not-italic ml-2">{item.phoneticTranscription}</span>}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-zinc-600 transition-all"
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-black uppercase tracking-widest text-zinc-400">A • Reference</span>
+            <button
+              onClick={() => onPlayReference(item)}
+              disabled={isReferenceLoading}
+              className="text-[10px] font-bold text-emerald-600 hover:text-emerald-700 disabled:opacity-30 uppercase tracking-widest"
+            >
+              {isReferenceLoading ? 'Loading...' : reference ? 'Play A' : 'Generate & Play'}
+            </button>
+          </div>
+          <div className="bg-emerald-50 dark:bg-emerald-950/40 rounded-2xl p-3">
+            <Waveform samples={reference} color="#10b981" />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-black uppercase tracking-widest text-zinc-400">B • Your attempt</span>
+            <div className="flex gap-3">
+              <button
+                onClick={() => attempt && downloadFile(`${item.word}-attempt.wav`, encodeWav(attempt, RECORDING_SAMPLE_RATE), 'audio/wav')}
+                disabled={!attempt || isRecording}
+                className="text-[10px] font-bold text-zinc-400 hover:text-zinc-600 disabled:opacity-30 uppercase tracking-widest"
+              >
+                Download
+              </button>
+              <button
+                onClick={() => attempt && onPlayAttempt(attempt, RECORDING_SAMPLE_RATE)}
+                disabled={!attempt || isRecording}
+                className="text-[10px] font-bold text-yellow-600 hover:text-yellow-700 disabled:opacity-30 uppercase tracking-widest"
+              >
+                Play B
+              </button>
+            </div>
+          </div>
+          <div className={`rounded-2xl p-3 ${isRecording ? 'bg-red-50 dark:bg-red-950/40 animate-pulse' : 'bg-yellow-50 dark:bg-yellow-950/30'}`}>
+            <Waveform samples={attempt} color="#eab308" />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            onClick={isRecording ? stopRecording : startRecording}
+            className={`py-4 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl transition-all active:scale-95 ${isRecording ? 'bg-red-600 hover:bg-red-700 text-white shadow-red-600/20' : 'bg-yellow-500 hover:bg-yellow-600 text-zinc-900 shadow-yellow-500/20'}`}
+          >
+            {isRecording ? 'Stop' : attempt ? 'Record Again' : 'Record'}
+          </button>
+          <button
+            onClick={requestFeedback}
+            disabled={!attempt || isRecording || isAnalyzing}
+            className="bg-emerald-600 hover:bg-emerald-700 disabled:opacity-30 text-white py-4 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl shadow-emerald-600/20 transition-all active:scale-95"
+          >
+            {isAnalyzing ? 'Listening...' : 'Get Feedback'}
+          </button>
+        </div>
+
+        {error && <p className="text-xs text-red-500 font-medium">{error}</p>}
+
+        {feedback && (
+          <div className="space-y-4 p-5 bg-zinc-50 dark:bg-zinc-800/50 rounded-2xl animate-in fade-in slide-in-from-bottom-2 duration-300">
+            <div className="flex items-center gap-4">
+              <div className={`text-3xl font-black ${feedback.score >= 80 ? 'text-emerald-600' : feedback.score >= 50 ? 'text-yellow-600' : 'text-red-500'}`}>
+                {Math.round(feedback.score)}
+              </div>
+              <p className="text-sm text-zinc-600 dark:text-zinc-300">{feedback.summary}</p>
+            </div>
+            {feedback.phonemes.length > 0 && (
+              <ul className="space-y-2">
+                {feedback.phonemes.map((p, index) => (
+                  <li key={index} className="flex items-start gap-3 text-xs">
+                    <span className={`font-mono font-bold px-2 py-0.5 rounded-lg ${p.isCorrect ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300' : 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300'}`}>
+                      {p.expected}{!p.isCorrect && p.heard && <> → {p.heard}</>}
+                    </span>
+                    <span className="text-zinc-500 dark:text-zinc-400">{p.tip}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PronunciationPractice;
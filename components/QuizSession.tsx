@@ -0,0 +1,297 @@
+import React, { useState } from 'react';
+import { QuizDistractors, QuizQuestion, QuizQuestionType, VocabularyItem } from '../types';
+import { QUIZ_QUESTION_TYPES, QUIZ_TYPE_LABELS, buildQuizQuestions, isAnswerCorrect, pickQuizItems } from '../utils/quiz';
+
+interface QuizSessionProps {
+  deck: VocabularyItem[];
+  onGenerateDistractors: (items: VocabularyItem[]) => Promise<Record<string, QuizDistractors>>;
+  onAnswer: (item: VocabularyItem, correct: boolean) => void;
+  onPlayAudio: (item: VocabularyItem) => void;
+  onClose: () => void;
+  title?: string;
+  onFinish?: (correct: number, total: number) => void; // Called when the results are shown
+}
+
+const QUESTION_COUNTS = [5, 10, 20];
+
+interface QuizAnswer {
+  question: QuizQuestion;
+  given: string;
+  correct: boolean;
+}
+
+const QuizSession: React.FC<QuizSessionProps> = ({ deck, onGenerateDistractors, onAnswer, onPlayAudio, onClose, title = 'Quiz', onFinish }) => {
+  const [questionCount, setQuestionCount] = useState<number>(10);
+  const [types, setTypes] = useState<QuizQuestionType[]>(['word-to-translation', 'translation-to-word', 'listening', 'typed']);
+  const [questions, setQuestions] = useState<QuizQuestion[] | null>(null);
+  const [isPreparing, setIsPreparing] = useState<boolean>(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [answers, setAnswers] = useState<QuizAnswer[]>([]);
+  const [typed, setTyped] = useState<string>('');
+
+  // After answering, the question stays up with feedback until the learner moves on.
+  const [isShowingFeedback, setIsShowingFeedback] = useState<boolean>(false);
+
+  const current = questions?.[answers.length] ?? null;
+  const lastAnswer = answers[answers.length - 1];
+  const shown = isShowingFeedback ? lastAnswer.question : current;
+  const hasPictures = deck.some(i => i.imageBase64);
+
+  const toggleType = (type: QuizQuestionType) => {
+    setTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+  };
+
+  const handleStart = async () => {
+    const items = pickQuizItems(deck, questionCount);
+    setIsPreparing(true);
+    setNotice(null);
+    let distractors: Record<string, QuizDistractors> = {};
+    try {
+      distractors = await onGenerateDistractors(items);
+    } catch (e) {
+      // The quiz still works with the rest of the deck as wrong answers.
+      setNotice(`Using your own cards as answer choices (${e instanceof Error ? e.message : String(e)}).`);
+    }
+    const built = buildQuizQuestions(items, deck, types, distractors);
+    setQuestions(built);
+    setAnswers([]);
+    setIsPreparing(false);
+    if (built[0]?.type === 'listening') onPlayAudio(built[0].item);
+  };
+
+  const handleAnswer = (given: string) => {
+    if (!current || isShowingFeedback) return;
+    const correct = current.type === 'typed' ? isAnswerCorrect(given, current.answer) : given === current.answer;
+    onAnswer(current.item, correct);
+    setAnswers(prev => [...prev, { question: current, given, correct }]);
+    setIsShowingFeedback(true);
+  };
+
+  const handleNext = () => {
+    setIsShowingFeedback(false);
+    setTyped('');
+    if (current?.type === 'listening') onPlayAudio(current.item);
+    if (!current && questions) onFinish?.(answers.filter(a => a.correct).length, questions.length);
+  };
+
+  const score = answers.filter(a => a.correct).length;
+  const missed = answers.filter(a => !a.correct);
+
+  const renderPrompt = (question: QuizQuestion) => {
+    const { item } = question;
+    switch (question.type) {
+      case 'word-to-translation':
+        return (
+          <>
+            <p className="text-[10px] font-black uppercase tracking-widest text-zinc-400">What does this {item.wordLanguage} word mean?</p>
+            <h3 className="text-5xl font-black text-emerald-800 dark:text-emerald-300 tracking-tight">{item.word}</h3>
+          </>
+        );
+      case 'listening':
+        return (
+          <>
+            <p className="text-[10px] font-black uppercase tracking-widest text-zinc-400">Which {item.wordLanguage} word do you hear?</p>
+            <button
+              onClick={() => onPlayAudio(item)}
+              className="text-emerald-500 hover:text-emerald-400 bg-emerald-50 dark:bg-emerald-900/40 p-5 rounded-full transition-all active:scale-90 shadow-sm"
+              title="Play again"
+            >
+              <svg className="w-10 h-10" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM14.657 2.929a1 1 0 011.414 0A9 9 0 0119 10a9 9 0 01-2.929 7.071 1 1 0 01-1.414-1.414A7 7 0 0017 10a7 7 0 00-2.343-5.657 1 1 0 010-1.414zm-2.829 2.828a1 1 0 011.415 0A5 5 0 0115 10a5 5 0 01-1.757 3.536 1 1 0 01-1.415-1.415A3 3 0 0013 10a3 3 0 00-1.172-2.475 1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+            </button>
+          </>
+        );
+      case 'picture':
+        return (
+          <>
+            <p className="text-[10px] font-black uppercase tracking-widest text-zinc-400">Which {item.wordLanguage} word is this?</p>
+            <img src={`data:image/jpeg;base64,${item.imageBase64}`} className="w-40 h-40 mx-auto rounded-2xl object-cover shadow-md" alt="Quiz picture" />
+          </>
+        );
+      default:
+        return (
+          <>
+            <p className="text-[10px] font-black uppercase tracking-widest text-zinc-400">How do you say this in {item.wordLanguage}?</p>
+            <h3 className="text-4xl font-black text-emerald-800 dark:text-emerald-300 tracking-tight italic">"{item.translation}"</h3>
+          </>
+        );
+    }
+  };
+
+  const optionClass = (question: QuizQuestion, option: string) => {
+    if (!isShowingFeedback) return 'bg-zinc-50 dark:bg-zinc-800 hover:bg-emerald-50 dark:hover:bg-emerald-900/30 border-zinc-100 dark:border-zinc-700';
+    if (option === question.answer) return 'bg-emerald-100 dark:bg-emerald-900/40 border-emerald-400 text-emerald-800 dark:text-emerald-200';
+    if (option === lastAnswer.given) return 'bg-red-50 dark:bg-red-900/30 border-red-400 text-red-700 dark:text-red-300';
+    return 'bg-zinc-50 dark:bg-zinc-800 border-zinc-100 dark:border-zinc-700 opacity-50';
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-zinc-900 rounded-[3rem] p-10 w-full max-w-lg shadow-2xl space-y-8 animate-in zoom-in-95 duration-300 border border-zinc-100 dark:border-zinc-800 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-3xl font-black tracking-tight text-emerald-800 dark:text-emerald-400">{title}</h2>
+            <p className="text-sm text-zinc-500 mt-1 italic">
+              {questions ? `Question ${Math.min(answers.length + (isShowingFeedback ? 0 : 1), questions.length)} of ${questions.length} • ${score} correct` : 'Test yourself on your deck.'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-zinc-600 transition-all"
+          >
+            Close
+          </button>
+        </div>
+
+        {!questions && (
+          <div className="space-y-6">
+            <div>
+              <label className="block text-[10px] font-black uppercase tracking-widest text-zinc-400 mb-2 ml-1">Questions</label>
+              <div className="flex gap-2">
+                {QUESTION_COUNTS.map(count => (
+                  <button
+                    key={count}
+                    onClick={() => setQuestionCount(count)}
+                    className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${questionCount === count ? 'bg-emerald-600 text-white' : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500'}`}
+                  >
+                    {count}
+                  </button>
+                ))}
+              </div>
+              {deck.length < questionCount && (
+                <p className="text-[11px] text-zinc-400 mt-2 ml-1">Your deck has {deck.length} cards, so the quiz will be shorter.</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-[10px] font-black uppercase tracking-widest text-zinc-400 mb-2 ml-1">Question Types</label>
+              <div className="grid grid-cols-2 gap-2">
+                {QUIZ_QUESTION_TYPES.map(type => (
+                  <label key={type} className={`flex items-center gap-2 p-3 rounded-2xl border text-xs font-bold ${type === 'picture' && !hasPictures ? 'opacity-40' : 'cursor-pointer'} ${types.includes(type) ? 'border-emerald-300 dark:border-emerald-800 bg-emerald-50/50 dark:bg-emerald-900/10' : 'border-zinc-100 dark:border-zinc-800'}`}>
+                    <input
+                      type="checkbox"
+                      checked={types.includes(type)}
+                      disabled={type === 'picture' && !hasPictures}
+                      onChange={() => toggleType(type)}
+                      className="accent-emerald-600"
+                    />
+                    {QUIZ_TYPE_LABELS[type]}
+                  </label>
+                ))}
+              </div>
+              {!hasPictures && <p className="text-[11px] text-zinc-400 mt-2 ml-1">Generate card images to unlock picture questions.</p>}
+            </div>
+            <button
+              onClick={handleStart}
+              disabled={isPreparing || types.length === 0 || deck.length === 0}
+              className="w-full bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 text-white py-4 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl shadow-emerald-600/20 transition-all active:scale-95"
+            >
+              {isPreparing ? 'Preparing...' : 'Start Quiz'}
+            </button>
+          </div>
+        )}
+
+        {notice && questions && <p className="text-[11px] text-yellow-700 dark:text-yellow-400">{notice}</p>}
+
+        {shown && (
+          <div className="space-y-6">
+            <div className="text-center space-y-4 flex flex-col items-center">
+              {renderPrompt(shown)}
+            </div>
+
+            {shown.type === 'typed' ? (
+              <form
+                onSubmit={e => {
+                  e.preventDefault();
+                  handleAnswer(typed);
+                }}
+                className="space-y-3"
+              >
+                <input
+                  value={typed}
+                  onChange={e => setTyped(e.target.value)}
+                  readOnly={isShowingFeedback}
+                  placeholder="Type your answer"
+                  aria-label="Your answer"
+                  className={`w-full bg-zinc-50 dark:bg-zinc-800 p-4 rounded-2xl border-2 focus:ring-2 focus:ring-emerald-500 font-bold text-center ${isShowingFeedback ? (lastAnswer.correct ? 'border-emerald-400' : 'border-red-400') : 'border-transparent'}`}
+                />
+                {!isShowingFeedback && (
+                  <button
+                    type="submit"
+                    disabled={!typed.trim()}
+                    className="w-full bg-emerald-600 hover:bg-emerald-700 disabled:opacity-40 text-white py-4 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl shadow-emerald-600/20 transition-all active:scale-95"
+                  >
+                    Check
+                  </button>
+                )}
+              </form>
+            ) : (
+              <div className="grid grid-cols-1 gap-2">
+                {shown.options.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => handleAnswer(option)}
+                    disabled={isShowingFeedback}
+                    className={`w-full p-4 rounded-2xl border-2 font-bold text-sm transition-all ${optionClass(shown, option)}`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {isShowingFeedback && (
+              <div className="space-y-4 animate-in fade-in slide-in-from-bottom-2 duration-300">
+                <p className={`text-center font-bold ${lastAnswer.correct ? 'text-emerald-600' : 'text-red-500'}`}>
+                  {lastAnswer.correct ? 'Correct!' : `The answer is "${shown.answer}"`}
+                </p>
+                <p className="text-center text-xs text-zinc-500">
+                  {shown.item.word}{shown.item.phoneticTranscription && ` ${shown.item.phoneticTranscription}`} — {shown.item.translation}
+                </p>
+                <button
+                  onClick={handleNext}
+                  className="w-full bg-emerald-600 hover:bg-emerald-700 text-white py-4 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl shadow-emerald-600/20 transition-all active:scale-95"
+                >
+                  {current ? 'Next' : 'See Results'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {questions && !shown && (
+          <div className="text-center space-y-4 py-2">
+            <p className="text-6xl font-black text-emerald-700 dark:text-emerald-400">{score}/{questions.length}</p>
+            <p className="text-zinc-600 dark:text-zinc-400 font-semibold">
+              {missed.length === 0 ? 'Perfect score!' : 'These words will come up more often in your next quiz:'}
+            </p>
+            {missed.length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {missed.map(a => (
+                  <li key={a.question.id}>
+                    <span className="font-bold">{a.question.item.word}</span>
+                    <span className="text-zinc-400"> — {a.question.item.translation}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex gap-4 pt-2">
+              <button
+                onClick={() => setQuestions(null)}
+                className="flex-1 py-4 font-black text-xs uppercase tracking-widest text-zinc-400 hover:text-zinc-600 transition-all"
+              >
+                New Quiz
+              </button>
+              <button
+                onClick={onClose}
+                className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white py-4 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl shadow-emerald-600/20 transition-all active:scale-95"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizSession;
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Correction, CorrectionStatus } from '../types';
+import { CORRECTION_TARGET_LABELS, loadReviewerName, saveReviewerName } from '../utils/corrections';
+
+interface ReviewQueueProps {
+  corrections: Correction[];
+  onReview: (correction: Correction, decision: Exclude<CorrectionStatus, 'pending'>, reviewer: string, options: { finalText?: string; reviewNote?: string }) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<CorrectionStatus, string> = {
+  pending: 'text-yellow-700 bg-yellow-100 dark:bg-yellow-900/40 dark:text-yellow-400',
+  approved: 'text-emerald-700 bg-emerald-100 dark:bg-emerald-900/40 dark:text-emerald-400',
+  rejected: 'text-red-700 bg-red-100 dark:bg-red-900/40 dark:text-red-400',
+};
+
+const CorrectionHeader: React.FC<{ correction: Correction }> = ({ correction }) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full ${STATUS_STYLES[correction.status]}`}>{correction.status}</span>
+    <span className="text-[10px] font-black uppercase tracking-widest text-emerald-600 dark:text-emerald-400">{correction.language}</span>
+    <span className="text-xs font-bold">{CORRECTION_TARGET_LABELS[correction.target]}</span>
+    <span className="text-xs text-zinc-400">for “{correction.context.length > 60 ? `${correction.context.slice(0, 60)}…` : correction.context}”</span>
+    <span className="ml-auto text-[10px] text-zinc-400">
+      {correction.submittedBy} · {new Date(correction.submittedAt).toLocaleDateString()}
+    </span>
+  </div>
+);
+
+const PendingCorrection: React.FC<{
+  correction: Correction;
+  reviewer: string;
+  onReview: ReviewQueueProps['onReview'];
+}> = ({ correction, reviewer, onReview }) => {
+  const [finalText, setFinalText] = useState<string>(correction.proposed ?? '');
+  const [reviewNote, setReviewNote] = useState<string>('');
+
+  return (
+    <li className="p-5 bg-zinc-50 dark:bg-zinc-800/50 rounded-2xl border border-zinc-100 dark:border-zinc-800 space-y-3">
+      <CorrectionHeader correction={correction} />
+      <p className="text-sm text-zinc-500 line-through whitespace-pre-wrap max-h-32 overflow-y-auto">{correction.original}</p>
+      {correction.note && <p className="text-xs italic text-zinc-500">“{correction.note}”</p>}
+      <textarea
+        value={finalText}
+        onChange={e => setFinalText(e.target.value)}
+        placeholder="Correct version (leave empty to confirm it is wrong)"
+        aria-label="Correct version"
+        className="w-full h-20 bg-white dark:bg-zinc-900 p-3 rounded-xl border border-emerald-100 dark:border-emerald-900 focus:ring-2 focus:ring-emerald-500 text-sm resize-none"
+      />
+      <input
+        value={reviewNote}
+        onChange={e => setReviewNote(e.target.value)}
+        placeholder="Review note (optional)"
+        aria-label="Review note"
+        className="w-full bg-white dark:bg-zinc-900 p-3 rounded-xl border border-zinc-100 dark:border-zinc-800 text-sm"
+      />
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={() => onReview(correction, 'rejected', reviewer, { reviewNote })}
+          disabled={!reviewer.trim()}
+          className="px-5 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-30 transition-all"
+        >
+          Reject
+        </button>
+        <button
+          onClick={() => onReview(correction, 'approved', reviewer, { finalText, reviewNote })}
+          disabled={!reviewer.trim()}
+          className="px-5 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-emerald-600 hover:bg-emerald-700 text-white disabled:opacity-30 transition-all"
+        >
+          Approve
+        </button>
+      </div>
+    </li>
+  );
+};
+
+const ReviewQueue: React.FC<ReviewQueueProps> = ({ corrections, onReview, onClose }) => {
+  const [tab, setTab] = useState<'pending' | 'reviewed'>('pending');
+  const [reviewer, setReviewer] = useState<string>(() => loadReviewerName());
+
+  const pending = corrections.filter(c => c.status === 'pending');
+  const reviewed = corrections.filter(c => c.status !== 'pending');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-zinc-900 rounded-[3rem] p-10 w-full max-w-3xl shadow-2xl space-y-6 animate-in zoom-in-95 duration-300 border border-zinc-100 dark:border-zinc-800 max-h-[90vh] flex flex-col">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-black tracking-tight text-emerald-800 dark:text-emerald-400">Reviewer Queue</h2>
+            <p className="text-sm text-zinc-500 mt-1 italic">Approved corrections update cards and guide future answers.</p>
+          </div>
+          <button onClick={onClose} className="text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-zinc-600">Close</button>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <label htmlFor="reviewer-name" className="text-[10px] font-black uppercase tracking-widest text-zinc-400">Reviewer</label>
+          <input
+            id="reviewer-name"
+            value={reviewer}
+            onChange={e => setReviewer(e.target.value)}
+            onBlur={() => saveReviewerName(reviewer)}
+            placeholder="Your name"
+            className="flex-grow bg-zinc-50 dark:bg-zinc-800 p-2 px-4 rounded-full border-none focus:ring-2 focus:ring-emerald-500 text-sm font-bold"
+          />
+          <div className="flex gap-1">
+            {(['pending', 'reviewed'] as const).map(t => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${tab === t ? 'bg-emerald-600 text-white' : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500'}`}
+              >
+                {t === 'pending' ? `Pending (${pending.length})` : `Reviewed (${reviewed.length})`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <ul className="space-y-4 overflow-y-auto pr-1">
+          {tab === 'pending' && pending.map(c => (
+            <PendingCorrection key={c.id} correction={c} reviewer={reviewer} onReview={onReview} />
+          ))}
+          {tab === 'reviewed' && reviewed.map(c => (
+            <li key={c.id} className="p-5 bg-zinc-50 dark:bg-zinc-800/50 rounded-2xl border border-zinc-100 dark:border-zinc-800 space-y-2">
+              <CorrectionHeader correction={c} />
+              <p className="text-sm text-zinc-500 line-through whitespace-pre-wrap max-h-24 overflow-y-auto">{c.original}</p>
+              {c.status === 'approved' && c.proposed && <p className="text-sm font-semibold text-emerald-700 dark:text-emerald-400 whitespace-pre-wrap">{c.proposed}</p>}
+              <p className="text-[10px] text-zinc-400">
+                {c.status === 'approved' ? 'Approved' : 'Rejected'} by {c.reviewedBy}{c.reviewedAt ? ` on ${new Date(c.reviewedAt).toLocaleDateString()}` : ''}
+                {c.reviewNote && ` — ${c.reviewNote}`}
+              </p>
+            </li>
+          ))}
+          {(tab === 'pending' ? pending : reviewed).length === 0 && (
+            <li className="text-center text-sm text-zinc-400 italic py-10">
+              {tab === 'pending' ? 'Nothing waiting for review.' : 'No corrections have been reviewed yet.'}
+            </li>
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewQueue;
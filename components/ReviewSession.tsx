@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { ReviewGrade, VocabularyItem } from '../types';
+import { REVIEW_GRADES, formatNextInterval } from '../utils/srs';
+
+interface ReviewSessionProps {
+  items: VocabularyItem[]; // The cards due when the session opens
+  vocabulary: VocabularyItem[]; // The live deck, with each card's latest schedule
+  onGrade: (item: VocabularyItem, grade: ReviewGrade) => void;
+  onPlayAudio: (item: VocabularyItem) => void;
+  onClose: () => void;
+}
+
+const GRADE_STYLES: Record<ReviewGrade, { label: string; className: string }> = {
+  again: { label: 'Again', className: 'bg-red-500 hover:bg-red-600 shadow-red-500/20' },
+  hard: { label: 'Hard', className: 'bg-yellow-500 hover:bg-yellow-600 shadow-yellow-500/20' },
+  good: { label: 'Good', className: 'bg-emerald-600 hover:bg-emerald-700 shadow-emerald-600/20' },
+  easy: { label: 'Easy', className: 'bg-sky-500 hover:bg-sky-600 shadow-sky-500/20' },
+};
+
+const ReviewSession: React.FC<ReviewSessionProps> = ({ items, vocabulary, onGrade, onPlayAudio, onClose }) => {
+  // The queue is captured once so grading (which updates the deck) doesn't reshuffle the session.
+  const [queue, setQueue] = useState<VocabularyItem[]>(() => items);
+  const [isRevealed, setIsRevealed] = useState<boolean>(false);
+  const [reviewedCount, setReviewedCount] = useState<number>(0);
+
+  // Show the card as it is now: one graded "Again" comes back with its updated schedule.
+  const current = queue[0] && (vocabulary.find(item => item.id === queue[0].id) ?? queue[0]);
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!current) return;
+    onGrade(current, grade);
+    setReviewedCount(c => c + 1);
+    setIsRevealed(false);
+    // Cards graded "Again" come back at the end of this session.
+    setQueue(q => (grade === 'again' ? [...q.slice(1), q[0]] : q.slice(1)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-zinc-900 rounded-[3rem] p-10 w-full max-w-lg shadow-2xl space-y-8 animate-in zoom-in-95 duration-300 border border-zinc-100 dark:border-zinc-800">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-3xl font-black tracking-tight text-emerald-800 dark:text-emerald-400">Daily Review</h2>
+            <p className="text-sm text-zinc-500 mt-1 italic">
+              {current ? `${queue.length} card${queue.length === 1 ? '' : 's'} left • ${reviewedCount} reviewed` : `${reviewedCount} reviewed`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-zinc-600 transition-all"
+          >
+            Close
+          </button>
+        </div>
+
+        {current ? (
+          <>
+            <div className="text-center space-y-4">
+              <span className="bg-emerald-600/90 text-white text-[9px] font-black uppercase tracking-tighter px-3 py-1 rounded-full shadow-lg">
+                {current.wordLanguage}
+              </span>
+              <div className="flex items-center justify-center gap-3">
+                <h3 className="text-5xl font-black text-emerald-800 dark:text-emerald-300 tracking-tight">{current.word}</h3>
+                <button
+                  onClick={() => onPlayAudio(current)}
+                  className="text-emerald-500 hover:text-emerald-400 bg-emerald-50 dark:bg-emerald-900/40 p-2 rounded-full transition-all active:scale-90 shadow-sm"
+                  title="Play pronunciation"
+                >
+                  <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM14.657 2.929a1 1 0 011.414 0A9 9 0 0119 10a9 9 0 01-2.929 7.071 1 1 0 01-1.414-1.414A7 7 0 0017 10a7 7 0 00-2.343-5.657 1 1 0 010-1.414zm-2.829 2.828a1 1 0 011.415 0A5 5 0 0115 10a5 5 0 01-1.757 3.536 1 1 0 01-1.415-1.415A3 3 0 0013 10a3 3 0 00-1.172-2.475 1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+                </button>
+              </div>
+
+              {isRevealed && (
+                <div className="pt-6 border-t border-zinc-100 dark:border-zinc-800 space-y-3 animate-in fade-in slide-in-from-bottom-2 duration-300">
+                  {current.imageBase64 && (
+                    <img src={`data:image/jpeg;base64,${current.imageBase64}`} className="w-32 h-32 mx-auto rounded-2xl object-cover shadow-md" alt={current.word} />
+                  )}
+                  {current.phoneticTranscription && (
+                    <p className="text-zinc-400 font-mono text-sm">{current.phoneticTranscription}</p>
+                  )}
+                  <p className="text-zinc-600 dark:text-zinc-400 font-semibold text-2xl italic leading-tight">"{current.translation}"</p>
+                </div>
+              )}
+            </div>
+
+            {isRevealed ? (
+              <div className="grid grid-cols-4 gap-2">
+                {REVIEW_GRADES.map(grade => (
+                  <button
+                    key={grade}
+                    onClick={() => handleGrade(grade)}
+                    className={`${GRADE_STYLES[grade].className} text-white py-3 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl transition-all active:scale-95 flex flex-col items-center`}
+                  >
+                    {GRADE_STYLES[grade].label}
+                    <span className="text-[9px] font-medium opacity-80 normal-case tracking-normal">{formatNextInterval(current.review, grade)}</span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <button
+                onClick={() => setIsRevealed(true)}
+                className="w-full bg-emerald-600 hover:bg-emerald-700 text-white py-4 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl shadow-emerald-600/20 transition-all active:scale-95"
+              >
+                Show Answer
+              </button>
+            )}
+          </>
+        ) : (
+          <div className="text-center space-y-4 py-6">
+            <p className="text-5xl">🎉</p>
+            <p className="text-zinc-600 dark:text-zinc-400 font-semibold">All caught up! Come back tomorrow for your next review.</p>
+            <button
+              onClick={onClose}
+              className="bg-emerald-600 hover:bg-emerald-700 text-white px-8 py-3 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl shadow-emerald-600/20 transition-all active:scale-95"
+            >
+              Done
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewSession;
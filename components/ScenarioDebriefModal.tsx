@@ -0,0 +1,88 @@
+import React from 'react';
+import { ScenarioDebrief } from '../types';
+
+interface ScenarioDebriefModalProps {
+  title: string;
+  debrief: ScenarioDebrief | null; // null while it is being prepared
+  onClose: () => void;
+}
+
+const ScenarioDebriefModal: React.FC<ScenarioDebriefModalProps> = ({ title, debrief, onClose }) => {
+  const usedCount = debrief?.targets.filter(t => t.used).length ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-zinc-900 rounded-[3rem] p-10 w-full max-w-lg shadow-2xl space-y-8 animate-in zoom-in-95 duration-300 border border-zinc-100 dark:border-zinc-800 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-3xl font-black tracking-tight text-yellow-600 dark:text-yellow-400">Debrief</h2>
+            <p className="text-sm text-zinc-500 mt-1 italic">{title}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-zinc-600 transition-all"
+          >
+            Close
+          </button>
+        </div>
+
+        {!debrief ? (
+          <div className="flex items-center justify-center gap-3 py-8 text-sm text-zinc-500">
+            <div className="w-5 h-5 border-2 border-yellow-500 border-t-transparent rounded-full animate-spin" />
+            Preparing your debrief...
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {debrief.summary && <p className="text-sm text-zinc-700 dark:text-zinc-300 leading-relaxed">{debrief.summary}</p>}
+            {debrief.isOffline && (
+              <p className="text-[11px] text-yellow-700 dark:text-yellow-400">The tutor could not be reached, so only words the app recognises are counted.</p>
+            )}
+
+            {debrief.practised.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-[10px] font-black uppercase tracking-widest text-zinc-400">You Practised</p>
+                <ul className="space-y-1 text-sm">
+                  {debrief.practised.map(item => <li key={item}>• {item}</li>)}
+                </ul>
+              </div>
+            )}
+
+            {debrief.targets.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-[10px] font-black uppercase tracking-widest text-zinc-400">Target Words • {usedCount} of {debrief.targets.length} used</p>
+                <ul className="grid grid-cols-2 gap-2">
+                  {debrief.targets.map(target => (
+                    <li
+                      key={target.meaning}
+                      className={`p-3 rounded-2xl text-xs font-bold ${target.used ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300' : 'bg-zinc-50 dark:bg-zinc-800 text-zinc-400'}`}
+                    >
+                      {target.used ? '✓' : '○'} {target.word ? `${target.word} (${target.meaning})` : target.meaning}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {debrief.nextSteps.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-[10px] font-black uppercase tracking-widest text-zinc-400">Next Time</p>
+                <ul className="space-y-1 text-sm">
+                  {debrief.nextSteps.map(step => <li key={step}>• {step}</li>)}
+                </ul>
+              </div>
+            )}
+
+            <button
+              onClick={onClose}
+              className="w-full bg-yellow-500 hover:bg-yellow-600 text-zinc-900 py-4 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl shadow-yellow-500/20 transition-all active:scale-95"
+            >
+              Done
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioDebriefModal;
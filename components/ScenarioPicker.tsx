@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { RoleplayScenario, ScenarioDifficulty } from '../types';
+import { GUYANESE_LANGUAGES } from '../constants';
+import { SCENARIO_DIFFICULTIES, SCENARIO_DIFFICULTY_LABELS, createScenario, parseScenarioTargets } from '../utils/scenarios';
+
+interface ScenarioPickerProps {
+  scenarios: RoleplayScenario[];
+  selectedId: string | null;
+  onSelect: (scenario: RoleplayScenario) => void;
+  onSave: (scenario: RoleplayScenario) => void;
+  onDelete: (scenario: RoleplayScenario) => void;
+  onClose: () => void;
+}
+
+const TRIBAL_LANGUAGES = GUYANESE_LANGUAGES.filter(l => l !== 'English');
+
+const EMPTY_FORM = { title: '', language: TRIBAL_LANGUAGES[0], persona: '', learnerRole: '', setting: '', goals: '', targets: '', difficulty: 'beginner' as ScenarioDifficulty };
+
+const ScenarioPicker: React.FC<ScenarioPickerProps> = ({ scenarios, selectedId, onSelect, onSave, onDelete, onClose }) => {
+  const [form, setForm] = useState<typeof EMPTY_FORM | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (field: keyof typeof EMPTY_FORM) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    setForm(prev => prev && { ...prev, [field]: e.target.value });
+  };
+
+  const handleSave = () => {
+    if (!form) return;
+    try {
+      onSave(createScenario({
+        title: form.title,
+        language: form.language,
+        persona: form.persona,
+        learnerRole: form.learnerRole,
+        setting: form.setting,
+        goals: form.goals.split('\n'),
+        targets: parseScenarioTargets(form.targets),
+        difficulty: form.difficulty,
+      }));
+      setForm(null);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const inputClass = 'w-full bg-zinc-50 dark:bg-zinc-800 p-4 rounded-2xl border-none focus:ring-2 focus:ring-yellow-500 font-bold';
+  const labelClass = 'block text-[10px] font-black uppercase tracking-widest text-zinc-400 mb-2 ml-1';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-zinc-900 rounded-[3rem] p-10 w-full max-w-lg shadow-2xl space-y-8 animate-in zoom-in-95 duration-300 border border-zinc-100 dark:border-zinc-800 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-3xl font-black tracking-tight text-yellow-600 dark:text-yellow-400">Scenarios</h2>
+            <p className="text-sm text-zinc-500 mt-1 italic">Pick a roleplay for your next Live Immersion session.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-zinc-600 transition-all"
+          >
+            Close
+          </button>
+        </div>
+
+        {form ? (
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="scenario-title" className={labelClass}>Title</label>
+              <input id="scenario-title" value={form.title} onChange={update('title')} className={inputClass} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="scenario-language" className={labelClass}>Language</label>
+                <select id="scenario-language" value={form.language} onChange={update('language')} className={inputClass}>
+                  {TRIBAL_LANGUAGES.map(l => <option key={l} value={l}>{l}</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="scenario-difficulty" className={labelClass}>Difficulty</label>
+                <select id="scenario-difficulty" value={form.difficulty} onChange={update('difficulty')} className={inputClass}>
+                  {SCENARIO_DIFFICULTIES.map(d => <option key={d} value={d}>{SCENARIO_DIFFICULTY_LABELS[d]}</option>)}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="scenario-persona" className={labelClass}>The Tutor Plays</label>
+              <input id="scenario-persona" value={form.persona} onChange={update('persona')} placeholder="e.g. a boat captain on the Essequibo" className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="scenario-learner" className={labelClass}>You Play</label>
+              <input id="scenario-learner" value={form.learnerRole} onChange={update('learnerRole')} placeholder="e.g. a passenger" className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="scenario-setting" className={labelClass}>Setting</label>
+              <textarea id="scenario-setting" value={form.setting} onChange={update('setting')} rows={2} className={`${inputClass} resize-none`} />
+            </div>
+            <div>
+              <label htmlFor="scenario-goals" className={labelClass}>Goals (one per line)</label>
+              <textarea id="scenario-goals" value={form.goals} onChange={update('goals')} rows={3} className={`${inputClass} resize-none`} />
+            </div>
+            <div>
+              <label htmlFor="scenario-targets" className={labelClass}>Target Vocabulary (one per line)</label>
+              <textarea id="scenario-targets" value={form.targets} onChange={update('targets')} rows={3} placeholder={'tuna = water\nthank you'} className={`${inputClass} resize-none`} />
+              <p className="text-[11px] text-zinc-400 mt-2 ml-1">Write "word = meaning" when you know the word, or just the meaning.</p>
+            </div>
+            {error && <p className="text-xs text-red-500 font-medium">{error}</p>}
+            <div className="flex gap-4">
+              <button
+                onClick={() => { setForm(null); setError(null); }}
+                className="flex-1 py-4 font-black text-xs uppercase tracking-widest text-zinc-400 hover:text-zinc-600 transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                className="flex-1 bg-yellow-500 hover:bg-yellow-600 text-zinc-900 py-4 rounded-2xl font-black text-xs uppercase tracking-widest shadow-xl shadow-yellow-500/20 transition-all active:scale-95"
+              >
+                Save Scenario
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <ul className="space-y-3">
+              {scenarios.map(scenario => (
+                <li key={scenario.id} className={`p-5 rounded-2xl border ${scenario.id === selectedId ? 'bg-yellow-50 dark:bg-yellow-950/30 border-yellow-300 dark:border-yellow-800' : 'bg-zinc-50 dark:bg-zinc-800/50 border-zinc-100 dark:border-zinc-800'}`}>
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-black">{scenario.title}</p>
+                      <p className="text-[10px] font-black uppercase tracking-widest text-zinc-400">
+                        {scenario.language} • {SCENARIO_DIFFICULTY_LABELS[scenario.difficulty]}{scenario.isCustom && ' • Yours'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      {scenario.isCustom && (
+                        <button
+                          onClick={() => onDelete(scenario)}
+                          className="text-[10px] font-bold text-zinc-400 hover:text-red-500 uppercase tracking-widest"
+                        >
+                          Delete
+                        </button>
+                      )}
+                      <button
+                        onClick={() => onSelect(scenario)}
+                        aria-label={`Use ${scenario.title}`}
+                        className="text-[10px] font-bold text-yellow-600 hover:text-yellow-700 uppercase tracking-widest"
+                      >
+                        {scenario.id === selectedId ? 'Selected' : 'Use'}
+                      </button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-zinc-500 mt-2">The tutor plays {scenario.persona}. {scenario.setting}</p>
+                  {scenario.targets.length > 0 && (
+                    <p className="text-[11px] text-zinc-400 mt-1">Target words: {scenario.targets.map(t => t.word ?? t.meaning).join(', ')}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={() => setForm(EMPTY_FORM)}
+              className="w-full py-3 rounded-2xl border-2 border-dashed border-zinc-200 dark:border-zinc-700 font-black text-xs uppercase tracking-widest text-zinc-400 hover:text-yellow-600 hover:border-yellow-300 transition-all"
+            >
+              + New Scenario
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioPicker;
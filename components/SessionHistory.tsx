@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import { LiveSessionTranscript, TranscriptTurn } from '../types';
+import { formatOffset, transcriptToSrt, transcriptToText } from '../utils/transcripts';
+import { downloadFile, fileTimestamp } from '../utils/fileDownload';
+import { encodeOpus, encodeWav, getOpusMimeType } from '../utils/audioHelpers';
+import TranscriptLog from './TranscriptLog';
+
+interface SessionHistoryProps {
+  sessions: LiveSessionTranscript[];
+  isPlayingRecording: boolean;
+  onLoadRecording: (session: LiveSessionTranscript) => Promise<Float32Array | null>;
+  onPlayRecording: (samples: Float32Array, sampleRate: number) => void;
+  onStopRecording: () => void;
+  onDelete: (session: LiveSessionTranscript) => void;
+  onSaveAsCards: (session: LiveSessionTranscript) => void;
+  onClose: () => void;
+}
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({ sessions, isPlayingRecording, onLoadRecording, onPlayRecording, onStopRecording, onDelete, onSaveAsCards, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(sessions[0]?.id ?? null);
+  const [recording, setRecording] = useState<{ sessionId: string; samples: Float32Array | null } | null>(null);
+  const [isEncoding, setIsEncoding] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const selected = sessions.find(s => s.id === selectedId) ?? null;
+  const samples = recording?.sessionId === selected?.id ? recording?.samples ?? null : null;
+
+  // Load the selected session's recording, and stop playing the previous one.
+  useEffect(() => {
+    onStopRecording();
+    setError(null);
+    if (!selected?.recording) return;
+    let cancelled = false;
+    onLoadRecording(selected)
+      .then(loaded => { if (!cancelled) setRecording({ sessionId: selected.id, samples: loaded }); })
+      .catch(e => console.error('Failed to load session recording:', e));
+    return () => { cancelled = true; };
+  }, [selected?.id]);
+
+  // Don't keep playing once the history is closed.
+  useEffect(() => () => onStopRecording(), []);
+
+  const fileBase = (session: LiveSessionTranscript) => `live-session-${fileTimestamp(new Date(session.startedAt))}`;
+
+  const handleExport = (session: LiveSessionTranscript, format: 'txt' | 'srt') => {
+    if (format === 'txt') downloadFile(`${fileBase(session)}.txt`, transcriptToText(session), 'text/plain');
+    else downloadFile(`${fileBase(session)}.srt`, transcriptToSrt(session), 'application/x-subrip');
+  };
+
+  // Opus is encoded in real time, so this takes as long as the recording.
+  const handleExportOpus = async (session: LiveSessionTranscript, audio: Float32Array, sampleRate: number) => {
+    setIsEncoding(true);
+    setError(null);
+    try {
+      const blob = await encodeOpus(audio, sampleRate);
+      downloadFile(`${fileBase(session)}.${blob.type === 'audio/ogg' ? 'ogg' : 'webm'}`, blob, blob.type);
+    } catch (e) {
+      console.error('Failed to export session recording:', e);
+      setError(`Opus export failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setIsEncoding(false);
+    }
+  };
+
+  const playFrom = (session: LiveSessionTranscript, offsetMs: number) => {
+    if (!samples || !session.recording) return;
+    const start = Math.min(samples.length - 1, Math.max(0, Math.round((offsetMs / 1000) * session.recording.sampleRate)));
+    onPlayRecording(samples.subarray(start), session.recording.sampleRate);
+  };
+
+  const handleSeek = (turn: TranscriptTurn) => {
+    if (selected) playFrom(selected, turn.startedAt - selected.startedAt);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-zinc-900 rounded-[3rem] p-10 w-full max-w-4xl shadow-2xl space-y-6 animate-in zoom-in-95 duration-300 border border-zinc-100 dark:border-zinc-800 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-3xl font-black tracking-tight text-yellow-600 dark:text-yellow-400">Session History</h2>
+            <p className="text-sm text-zinc-500 mt-1 italic">Review past Live Immersion conversations.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-zinc-600 transition-all"
+          >
+            Close
+          </button>
+        </div>
+
+        {sessions.length === 0 ? (
+          <p className="text-center text-zinc-500 text-sm py-12">No saved sessions yet. Finish a Live Immersion conversation to see it here.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 min-h-0 flex-grow">
+            <ul className="space-y-2 overflow-y-auto md:max-h-[60vh] pr-1">
+              {sessions.map(session => (
+                <li key={session.id}>
+                  <button
+                    onClick={() => setSelectedId(session.id)}
+                    className={`w-full text-left p-3 rounded-2xl transition-all border ${session.id === selectedId ? 'bg-yellow-50 dark:bg-yellow-950/30 border-yellow-300 dark:border-yellow-800' : 'bg-zinc-50 dark:bg-zinc-800/50 border-transparent hover:border-zinc-200 dark:hover:border-zinc-700'}`}
+                  >
+                    <p className="text-xs font-bold text-zinc-700 dark:text-zinc-200">{new Date(session.startedAt).toLocaleString()}</p>
+                    {session.scenario && <p className="text-[11px] font-bold text-yellow-700 dark:text-yellow-400 truncate">{session.scenario.title}</p>}
+                    <p className="text-[11px] text-zinc-400">
+                      {session.inputLanguage} → {session.outputLanguage} • {formatOffset(session.endedAt - session.startedAt)} • {session.turns.length} turns
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {selected && (
+              <div className="md:col-span-2 flex flex-col min-h-0 space-y-4">
+                <div className="flex items-center justify-end gap-4">
+                  <button
+                    onClick={() => onSaveAsCards(selected)}
+                    className="text-[10px] font-bold text-emerald-600 hover:text-emerald-700 uppercase tracking-widest"
+                  >
+                    Save as Cards
+                  </button>
+                  <button
+                    onClick={() => handleExport(selected, 'txt')}
+                    className="text-[10px] font-bold text-emerald-600 hover:text-emerald-700 uppercase tracking-widest"
+                  >
+                    Export Text
+                  </button>
+                  <button
+                    onClick={() => handleExport(selected, 'srt')}
+                    className="text-[10px] font-bold text-emerald-600 hover:text-emerald-700 uppercase tracking-widest"
+                  >
+                    Export SRT
+                  </button>
+                  <button
+                    onClick={() => {
+                      onDelete(selected);
+                      setSelectedId(sessions.find(s => s.id !== selected.id)?.id ?? null);
+                    }}
+                    className="text-[10px] font-bold text-zinc-400 hover:text-red-500 uppercase tracking-widest"
+                  >
+                    Delete
+                  </button>
+                </div>
+                {selected.recording && (
+                  <div className="flex items-center gap-4 p-4 bg-zinc-50 dark:bg-zinc-800/50 rounded-2xl">
+                    <button
+                      onClick={() => isPlayingRecording ? onStopRecording() : playFrom(selected, 0)}
+                      disabled={!samples}
+                      className="bg-yellow-500 hover:bg-yellow-600 disabled:opacity-40 text-zinc-900 px-4 py-2 rounded-xl font-black text-[10px] uppercase tracking-widest transition-all active:scale-95"
+                    >
+                      {isPlayingRecording ? 'Stop' : 'Play Recording'}
+                    </button>
+                    <p className="text-[11px] text-zinc-400 flex-grow">{formatOffset(selected.recording.durationMs)} • tap a turn's time to play from there</p>
+                    <button
+                      onClick={() => samples && downloadFile(`${fileBase(selected)}.wav`, encodeWav(samples, selected.recording!.sampleRate), 'audio/wav')}
+                      disabled={!samples}
+                      className="text-[10px] font-bold text-emerald-600 hover:text-emerald-700 disabled:opacity-40 uppercase tracking-widest"
+                    >
+                      Export WAV
+                    </button>
+                    {getOpusMimeType() && (
+                      <button
+                        onClick={() => samples && handleExportOpus(selected, samples, selected.recording!.sampleRate)}
+                        disabled={!samples || isEncoding}
+                        className="text-[10px] font-bold text-emerald-600 hover:text-emerald-700 disabled:opacity-40 uppercase tracking-widest"
+                      >
+                        {isEncoding ? 'Encoding...' : 'Export Opus'}
+                      </button>
+                    )}
+                  </div>
+                )}
+                {error && <p className="text-xs text-red-500 font-medium">{error}</p>}
+                {selected.debrief && (
+                  <div className="p-4 bg-yellow-50 dark:bg-yellow-950/30 rounded-2xl text-xs space-y-1">
+                    <p className="text-[10px] font-black uppercase tracking-widest text-yellow-700 dark:text-yellow-400">
+                      Debrief • {selected.debrief.targets.filter(t => t.used).length} of {selected.debrief.targets.length} target words used
+                    </p>
+                    {selected.debrief.summary && <p className="text-zinc-600 dark:text-zinc-300">{selected.debrief.summary}</p>}
+                  </div>
+                )}
+                <TranscriptLog turns={selected.turns} sessionStartedAt={selected.startedAt} className="md:max-h-[55vh]" onSeek={samples ? handleSeek : undefined} />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionHistory;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { StorageUsage, formatBytes } from '../utils/storage';
+
+interface StorageStatusProps {
+  usage: StorageUsage | null;
+  error: string | null;
+  onRequestPersistence: () => void;
+}
+
+const StorageStatus: React.FC<StorageStatusProps> = ({ usage, error, onRequestPersistence }) => {
+  const percent = usage && usage.quota ? Math.min(100, (usage.usage / usage.quota) * 100) : 0;
+
+  return (
+    <div className="mb-6 space-y-2">
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-950/40 border border-red-200 dark:border-red-900 rounded-2xl text-xs text-red-600 dark:text-red-400 font-medium">
+          {error}
+        </div>
+      )}
+      {usage && (
+        <div className="flex items-center gap-3 text-[10px] font-bold uppercase tracking-widest text-zinc-400">
+          <span>Storage</span>
+          <div className="w-32 h-1.5 bg-zinc-200 dark:bg-zinc-800 rounded-full overflow-hidden">
+            <div className={`h-full ${percent > 80 ? 'bg-red-500' : 'bg-emerald-500'}`} style={{ width: `${percent}%` }} />
+          </div>
+          <span className="normal-case tracking-normal font-medium">
+            {formatBytes(usage.usage)} of {formatBytes(usage.quota)}
+          </span>
+          {!usage.persisted && (
+            <button
+              onClick={onRequestPersistence}
+              className="text-emerald-600 hover:text-emerald-700 dark:text-emerald-400"
+              title="Ask the browser not to clear your deck when space runs low"
+            >
+              Keep on this device
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StorageStatus;
@@ -0,0 +1,62 @@
+import React, { useEffect, useRef } from 'react';
+import { TranscriptTurn } from '../types';
+import { formatOffset } from '../utils/transcripts';
+
+interface TranscriptLogProps {
+  turns: TranscriptTurn[];
+  sessionStartedAt: number;
+  isAssistantSpeaking?: boolean;
+  className?: string;
+  onSeek?: (turn: TranscriptTurn) => void; // Set when the session has a recording to play from each turn
+}
+
+const TranscriptLog: React.FC<TranscriptLogProps> = ({ turns, sessionStartedAt, isAssistantSpeaking, className = 'max-h-[300px]', onSeek }) => {
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Follow the conversation as new turns and fragments arrive.
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [turns]);
+
+  if (turns.length === 0) {
+    return <p className="text-center text-zinc-400 text-sm italic py-4">Start speaking — your conversation will appear here.</p>;
+  }
+
+  return (
+    <div className={`space-y-3 px-2 overflow-y-auto ${className}`}>
+      {turns.map((turn, index) => {
+        const isUser = turn.speaker === 'user';
+        const isLiveAssistantTurn = !isUser && !turn.isFinal && index === turns.length - 1;
+        return (
+          <div key={turn.id} className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
+            <div className="max-w-[85%] space-y-1">
+              <div className={`flex items-center gap-2 text-[9px] font-bold uppercase tracking-widest text-zinc-400 ${isUser ? 'justify-end' : ''}`}>
+                <span>{isUser ? 'You' : 'Assistant'}</span>
+                {onSeek ? (
+                  <button onClick={() => onSeek(turn)} title="Play from here" className="font-mono normal-case tracking-normal hover:text-yellow-600">
+                    ▶ {formatOffset(turn.startedAt - sessionStartedAt)}
+                  </button>
+                ) : (
+                  <span className="font-mono normal-case tracking-normal">{formatOffset(turn.startedAt - sessionStartedAt)}</span>
+                )}
+                {isLiveAssistantTurn && isAssistantSpeaking && (
+                  <span className="relative flex h-2 w-2">
+                    <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-blue-400 opacity-75"></span>
+                    <span className="relative inline-flex rounded-full h-2 w-2 bg-blue-500"></span>
+                  </span>
+                )}
+              </div>
+              <div className={`px-4 py-2.5 rounded-2xl text-sm break-words ${isUser ? 'bg-yellow-500 text-zinc-900 rounded-br-md' : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-200 rounded-bl-md'} ${turn.isFinal ? '' : 'opacity-80'}`}>
+                {turn.text}
+                {turn.interrupted && <span className="ml-1 text-[10px] italic text-zinc-400">(interrupted)</span>}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+      <div ref={bottomRef} />
+    </div>
+  );
+};
+
+export default TranscriptLog;
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { InterlinearWord, TranslationResult } from '../types';
+import { GUYANESE_LANGUAGES } from '../constants';
+import { vocabularyKey } from '../utils/deckTransfer';
+import { TranslationRequest, cleanGlossWord } from '../utils/translation';
+
+interface TranslatorProps {
+  savedKeys: Set<string>; // vocabularyKey of every card in the deck
+  onTranslate: (request: TranslationRequest) => Promise<TranslationResult>;
+  onSaveWord: (word: InterlinearWord, language: string) => void;
+}
+
+const confidenceLabel = (confidence: number): { label: string; color: string } => {
+  if (confidence >= 0.75) return { label: 'High', color: 'bg-emerald-500' };
+  if (confidence >= 0.4) return { label: 'Medium', color: 'bg-yellow-500' };
+  return { label: 'Low', color: 'bg-red-500' };
+};
+
+const Translator: React.FC<TranslatorProps> = ({ savedKeys, onTranslate, onSaveWord }) => {
+  const [sourceLanguage, setSourceLanguage] = useState<string>('English');
+  const [targetLanguage, setTargetLanguage] = useState<string>('Macushi');
+  const [text, setText] = useState<string>('');
+  const [result, setResult] = useState<TranslationResult | null>(null);
+  const [isTranslating, setIsTranslating] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleTranslate = async () => {
+    if (!text.trim() || isTranslating) return;
+    setIsTranslating(true);
+    setError(null);
+    try {
+      setResult(await onTranslate({ text: text.trim(), sourceLanguage, targetLanguage }));
+    } catch (e) {
+      setError(`Translation failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const handleSwap = () => {
+    setSourceLanguage(targetLanguage);
+    setTargetLanguage(sourceLanguage);
+    if (result) setText(result.targetText);
+    setResult(null);
+  };
+
+  const confidence = result ? confidenceLabel(result.confidence) : null;
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-3xl p-6 shadow-xl border border-zinc-200 dark:border-zinc-800 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-xl font-bold flex items-center gap-2 text-emerald-700 dark:text-emerald-400">
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129" /></svg>
+          Translator
+        </h2>
+        <div className="flex items-center gap-2">
+          <select
+            value={sourceLanguage}
+            onChange={e => setSourceLanguage(e.target.value)}
+            aria-label="Translate from"
+            className="bg-zinc-100 dark:bg-zinc-800 p-1.5 px-3 rounded-full text-xs font-bold border-none focus:ring-2 focus:ring-emerald-500 cursor-pointer"
+          >
+            {GUYANESE_LANGUAGES.map(l => <option key={l} value={l}>{l}</option>)}
+          </select>
+          <button
+            onClick={handleSwap}
+            className="p-1.5 text-zinc-400 hover:text-emerald-600 transition-colors"
+            title="Swap languages"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" /></svg>
+          </button>
+          <select
+            value={targetLanguage}
+            onChange={e => setTargetLanguage(e.target.value)}
+            aria-label="Translate to"
+            className="bg-zinc-100 dark:bg-zinc-800 p-1.5 px-3 rounded-full text-xs font-bold border-none focus:ring-2 focus:ring-emerald-500 cursor-pointer"
+          >
+            {GUYANESE_LANGUAGES.map(l => <option key={l} value={l}>{l}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="relative">
+        <textarea
+          value={text}
+          onChange={e => setText(e.target.value)}
+          placeholder={`Type ${sourceLanguage} text to translate...`}
+          className="w-full h-24 bg-zinc-50 dark:bg-zinc-800 p-4 pb-12 rounded-2xl border border-zinc-100 dark:border-zinc-700 focus:ring-2 focus:ring-emerald-500 transition-all resize-none text-sm placeholder:text-zinc-400"
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleTranslate();
+            }
+          }}
+        />
+        <button
+          onClick={handleTranslate}
+          disabled={!text.trim() || isTranslating || sourceLanguage === targetLanguage}
+          className="absolute bottom-3 right-3 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-30 text-white px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all shadow-lg shadow-emerald-600/20 active:scale-95"
+        >
+          {isTranslating ? 'Translating...' : 'Translate'}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-500 font-medium">{error}</p>}
+
+      {result && confidence && (
+        <div className="space-y-4 animate-in fade-in slide-in-from-bottom-2 duration-300">
+          <div className="p-5 bg-zinc-50 dark:bg-zinc-800/50 rounded-2xl border border-zinc-100 dark:border-zinc-800">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-[10px] font-black uppercase tracking-widest text-zinc-400">{result.targetLanguage}</span>
+              <span className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-zinc-400" title={`${Math.round(result.confidence * 100)}% confidence`}>
+                <span className="w-16 h-1.5 bg-zinc-200 dark:bg-zinc-700 rounded-full overflow-hidden">
+                  <span className={`block h-full ${confidence.color}`} style={{ width: `${result.confidence * 100}%` }} />
+                </span>
+                {confidence.label} confidence
+              </span>
+            </div>
+            <p className="text-lg font-semibold">{result.targetText}</p>
+          </div>
+
+          {result.words.length > 0 && (
+            <div>
+              <h3 className="text-[10px] font-black uppercase tracking-widest text-zinc-400 mb-2">Interlinear Gloss · {result.glossLanguage}</h3>
+              <div className="flex flex-wrap gap-3">
+                {result.words.map((word, index) => {
+                  const isSaved = savedKeys.has(vocabularyKey({ word: cleanGlossWord(word.word), wordLanguage: result.glossLanguage }));
+                  return (
+                    <div key={index} className="min-w-[5rem] p-3 bg-emerald-50/50 dark:bg-emerald-900/10 rounded-xl border border-emerald-100 dark:border-emerald-900/30 text-center space-y-0.5">
+                      <p className="font-bold text-emerald-800 dark:text-emerald-300">{word.word}</p>
+                      <p className="text-[11px] font-mono text-zinc-500">{word.gloss}</p>
+                      {word.pronunciation && <p className="text-[10px] font-mono text-zinc-400">{word.pronunciation}</p>}
+                      <button
+                        onClick={() => onSaveWord(word, result.glossLanguage)}
+                        disabled={isSaved}
+                        className="text-[9px] font-black uppercase tracking-widest text-emerald-600 hover:text-emerald-700 disabled:text-zinc-400 pt-1"
+                        title={isSaved ? 'Already in your deck' : `Save "${word.word}" (${word.translation}) as a card`}
+                      >
+                        {isSaved ? 'Saved' : '+ Card'}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {result.notes && <p className="text-xs text-zinc-500 italic leading-relaxed">{result.notes}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Translator;
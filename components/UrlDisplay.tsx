@@ -0,0 +1,24 @@
+import React from 'react';
+import { GroundingUrl } from '../types';
+
+interface UrlDisplayProps {
+  urls: GroundingUrl[];
+}
+
+const UrlDisplay: React.FC<UrlDisplayProps> = ({ urls }) => (
+  <div className="mt-4 p-4 bg-white/50 dark:bg-zinc-800/50 rounded-xl border border-emerald-100 dark:border-emerald-900/30">
+    <h3 className="font-bold text-sm mb-2 text-emerald-800 dark:text-emerald-400 uppercase tracking-wider">Web Sources</h3>
+    <ul className="space-y-1">
+      {urls.map((url, index) => (
+        <li key={index} className="text-xs text-emerald-600 hover:text-emerald-700 dark:text-emerald-400 dark:hover:text-emerald-300 transition-colors">
+          <a href={url.uri} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1">
+            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" /></svg>
+            {url.title || url.uri}
+          </a>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default UrlDisplay;
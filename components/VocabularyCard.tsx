@@ -0,0 +1,214 @@
+import React from 'react';
+import { PronunciationForm, VocabularyItem } from '../types';
+import { AVAILABLE_VOICES, DEFAULT_CARD_VOICE } from '../constants';
+import { PRONUNCIATION_FORM_LABELS, missingPronunciationForms, pronunciationFormValue } from '../utils/orthography';
+
+interface VocabularyCardProps {
+  item: VocabularyItem;
+  pronunciationForms: PronunciationForm[]; // The forms the learner chose to show, in order
+  isGeneratingImage: boolean;
+  isGeneratingTranscription: boolean;
+  isGeneratingAudio: boolean;
+  isPlayingAudio: boolean;
+  isOffline: boolean;
+  pendingCorrections: number;
+  onGenerateImage: (item: VocabularyItem) => void;
+  onGenerateTranscription: (item: VocabularyItem) => void;
+  onPlayAudio: (item: VocabularyItem) => void;
+  onVoiceChange: (item: VocabularyItem, voice: string) => void;
+  onPractice: (item: VocabularyItem) => void;
+  onSuggestCorrection: (item: VocabularyItem) => void;
+  onEdit: (item: VocabularyItem) => void;
+  onDelete: (item: VocabularyItem) => void;
+  isSelected?: boolean; // Set while the vocabulary is in selection mode
+  onToggleSelect?: (item: VocabularyItem) => void;
+  onTagClick?: (tag: string) => void;
+}
+
+const FORM_CLASSES: Record<PronunciationForm, string> = {
+  ipa: 'text-zinc-400 font-mono text-xs',
+  orthography: 'text-zinc-600 dark:text-zinc-300 font-bold text-xs',
+  respelling: 'text-emerald-700 dark:text-emerald-400 font-bold text-xs',
+  syllables: 'text-zinc-500 text-xs tracking-wide',
+};
+
+const VocabularyCard: React.FC<VocabularyCardProps> = ({
+  item,
+  pronunciationForms,
+  isGeneratingImage,
+  isGeneratingTranscription,
+  isGeneratingAudio,
+  isPlayingAudio,
+  isOffline,
+  pendingCorrections,
+  onGenerateImage,
+  onGenerateTranscription,
+  onPlayAudio,
+  onVoiceChange,
+  onPractice,
+  onSuggestCorrection,
+  onEdit,
+  onDelete,
+  isSelected,
+  onToggleSelect,
+  onTagClick,
+}) => {
+  const shownForms = pronunciationForms
+    .map(form => ({ form, value: pronunciationFormValue(item, form) }))
+    .filter((f): f is { form: PronunciationForm; value: string } => !!f.value);
+  const missingForms = missingPronunciationForms(item, pronunciationForms);
+
+  return (
+    <div className={`group bg-white dark:bg-zinc-900 rounded-[2.5rem] overflow-hidden shadow-md hover:shadow-2xl transition-all border flex ${isSelected ? 'border-emerald-500 ring-4 ring-emerald-500/20' : 'border-zinc-200 dark:border-zinc-800'} flex-col animate-in zoom-in-95 duration-300`}>
+      <div className="aspect-square relative bg-zinc-100 dark:bg-zinc-800 overflow-hidden">
+        {item.imageBase64 ? (
+          <img src={`data:image/jpeg;base64,${item.imageBase64}`} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-700" alt={item.word} />
+        ) : (
+          <div className="w-full h-full flex flex-col items-center justify-center p-6 text-center">
+            <div className="text-emerald-500/20 mb-2">
+              <svg className="w-20 h-20" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+            </div>
+            <button 
+              onClick={() => onGenerateImage(item)}
+              disabled={isGeneratingImage}
+              className="text-[10px] font-black uppercase tracking-widest text-emerald-600 bg-emerald-50 dark:bg-emerald-950 px-6 py-2.5 rounded-full border border-emerald-200 dark:border-emerald-800 hover:bg-emerald-100 transition-all shadow-sm"
+            >
+              {isGeneratingImage ? 'Thinking...' : 'Visualize'}
+            </button>
+          </div>
+        )}
+        {isSelected !== undefined && onToggleSelect && (
+          <label className="absolute top-4 left-4 p-2 bg-white/90 dark:bg-black/90 rounded-full shadow-lg cursor-pointer flex">
+            <input
+              type="checkbox"
+              checked={isSelected}
+              onChange={() => onToggleSelect(item)}
+              aria-label={`Select ${item.word}`}
+              className="w-4 h-4 accent-emerald-600 cursor-pointer"
+            />
+          </label>
+        )}
+        <div className="absolute top-4 right-4 flex gap-2">
+          <button
+            onClick={() => onEdit(item)}
+            title="Edit card"
+            className="p-2 bg-white/90 dark:bg-black/90 rounded-full text-zinc-600 dark:text-zinc-300 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-all shadow-lg hover:scale-110"
+          >
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" /></svg>
+          </button>
+          <button 
+            onClick={() => onDelete(item)}
+            title="Delete card"
+            className="p-2 bg-white/90 dark:bg-black/90 rounded-full text-red-500 opacity-0 group-hover:opacity-100 transition-all shadow-lg hover:scale-110"
+          >
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+          </button>
+        </div>
+        <div className="absolute bottom-4 left-4">
+          <span className="bg-emerald-600/90 text-white text-[9px] font-black uppercase tracking-tighter px-3 py-1 rounded-full shadow-lg backdrop-blur-sm">
+            {item.wordLanguage}
+          </span>
+        </div>
+      </div>
+      <div className="p-8 relative">
+        <div className="flex justify-between items-start mb-2">
+          <h3 className="text-3xl font-black text-emerald-800 dark:text-emerald-300 leading-none tracking-tight">{item.word}</h3>
+          <div className="flex items-center gap-2">
+            {!item.audioRecorded && (
+              <select
+                value={item.voice ?? DEFAULT_CARD_VOICE}
+                onChange={e => onVoiceChange(item, e.target.value)}
+                className="text-[10px] bg-zinc-100 dark:bg-zinc-800 border-none rounded-lg px-1.5 py-1 font-semibold cursor-pointer opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                title="Pronunciation voice"
+              >
+                {AVAILABLE_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+              </select>
+            )}
+            <button 
+              onClick={() => onPlayAudio(item)}
+              disabled={isGeneratingAudio || (isOffline && !item.audioBase64)}
+              className={`relative p-2 rounded-full transition-all active:scale-90 shadow-sm disabled:opacity-40 ${isPlayingAudio ? 'text-white bg-emerald-500' : 'text-emerald-500 hover:text-emerald-400 bg-emerald-50 dark:bg-emerald-900/40'}`}
+              title={item.audioRecorded ? 'Play your recording' : item.audioBase64 ? 'Play saved pronunciation' : isOffline ? 'Audio not downloaded yet' : 'Generate and save pronunciation'}
+            >
+              {isGeneratingAudio ? (
+                <div className="w-5 h-5 border-2 border-emerald-500 border-t-transparent rounded-full animate-spin" />
+              ) : (
+                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM14.657 2.929a1 1 0 011.414 0A9 9 0 0119 10a9 9 0 01-2.929 7.071 1 1 0 01-1.414-1.414A7 7 0 0017 10a7 7 0 00-2.343-5.657 1 1 0 010-1.414zm-2.829 2.828a1 1 0 011.415 0A5 5 0 0115 10a5 5 0 01-1.757 3.536 1 1 0 01-1.415-1.415A3 3 0 0013 10a3 3 0 00-1.172-2.475 1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+              )}
+              {item.audioBase64 && !isPlayingAudio && (
+                <span className="absolute -bottom-0.5 -right-0.5 w-2.5 h-2.5 bg-emerald-500 border-2 border-white dark:border-zinc-900 rounded-full" title="Available offline" />
+              )}
+            </button>
+          </div>
+        </div>
+        
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mb-6 min-h-6">
+          {isGeneratingTranscription ? (
+            <div className="flex gap-1">
+              {[1, 2, 3].map(i => <div key={i} className="w-1 h-1 bg-emerald-400 rounded-full animate-bounce" style={{ animationDelay: `${i * 100}ms` }} />)}
+            </div>
+          ) : shownForms.length > 0 ? (
+            <>
+              {shownForms.map(({ form, value }) => (
+                <p key={form} className={FORM_CLASSES[form]} title={PRONUNCIATION_FORM_LABELS[form]}>{value}</p>
+              ))}
+              {missingForms.length > 0 && (
+                <button
+                  onClick={() => onGenerateTranscription(item)}
+                  title={`Add ${missingForms.map(form => PRONUNCIATION_FORM_LABELS[form]).join(', ')}`}
+                  className="text-[10px] font-bold text-emerald-600 hover:text-emerald-700 uppercase tracking-widest"
+                >
+                  + Fill In
+                </button>
+              )}
+            </>
+          ) : (
+            <button 
+              onClick={() => onGenerateTranscription(item)}
+              className="text-[10px] font-bold text-emerald-600 bg-emerald-50 dark:bg-emerald-950 px-3 py-1 rounded-lg hover:bg-emerald-100 transition-all uppercase tracking-widest"
+            >
+              Add Pronunciation
+            </button>
+          )}
+        </div>
+
+        {item.tags && item.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mb-4">
+            {item.tags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => onTagClick?.(tag)}
+                className="text-[10px] font-bold text-zinc-500 bg-zinc-100 dark:bg-zinc-800 px-2 py-0.5 rounded-full hover:text-emerald-600 transition-all"
+                title={`Show cards tagged ${tag}`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="pt-6 border-t border-zinc-100 dark:border-zinc-800 flex items-end justify-between gap-3">
+          <p className="text-zinc-600 dark:text-zinc-400 font-semibold text-lg italic leading-tight">"{item.translation}"</p>
+          <div className="shrink-0 flex flex-col items-end gap-2">
+            <button
+              onClick={() => onSuggestCorrection(item)}
+              className={`text-[10px] font-bold uppercase tracking-widest transition-all ${pendingCorrections > 0 ? 'text-yellow-600' : 'text-zinc-400 hover:text-zinc-600 opacity-0 group-hover:opacity-100 focus:opacity-100'}`}
+              title={pendingCorrections > 0 ? `${pendingCorrections} correction${pendingCorrections === 1 ? '' : 's'} awaiting review` : 'Suggest a correction'}
+            >
+              {pendingCorrections > 0 ? 'In Review' : 'Correct'}
+            </button>
+            <button
+              onClick={() => onPractice(item)}
+              className="text-[10px] font-bold text-yellow-600 bg-yellow-50 dark:bg-yellow-950/40 px-3 py-1 rounded-lg hover:bg-yellow-100 transition-all uppercase tracking-widest"
+              title="Record yourself and compare"
+            >
+              Practice
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VocabularyCard;
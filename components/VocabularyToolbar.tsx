@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { Deck, PronunciationForm } from '../types';
+import { ALL, DEFAULT_DECK, VOCABULARY_SORT_LABELS, VocabularyFilter, VocabularySort, parseTags } from '../utils/decks';
+import { PRONUNCIATION_FORMS, PRONUNCIATION_FORM_LABELS } from '../utils/orthography';
+
+interface VocabularyToolbarProps {
+  decks: Deck[]; // Including the default deck
+  languages: string[];
+  tags: string[];
+  filter: VocabularyFilter;
+  shownCount: number;
+  totalCount: number;
+  selectedCount: number;
+  isSelecting: boolean;
+  onFilterChange: (filter: VocabularyFilter) => void;
+  onCreateDeck: (name: string) => void;
+  onDeleteDeck: (deck: Deck) => void;
+  onToggleSelecting: () => void;
+  onSelectAllShown: () => void;
+  onMoveSelected: (deckId: string) => void;
+  onCopySelected: (deckId: string) => void;
+  onTagSelected: (tags: string[]) => void;
+  pronunciationForms: PronunciationForm[];
+  onPronunciationFormsChange: (forms: PronunciationForm[]) => void;
+  missingFormsCount: number; // Cards without one of the shown forms
+  formsFillProgress: { done: number; total: number } | null; // Set while missing forms are being fetched
+  isOffline: boolean;
+  onFillMissingForms: () => void; // Starts fetching, or stops a fetch under way
+}
+
+const selectClass = 'bg-zinc-100 dark:bg-zinc-800 p-2 px-3 rounded-xl text-xs font-bold border-none focus:ring-2 focus:ring-emerald-500 cursor-pointer';
+
+const VocabularyToolbar: React.FC<VocabularyToolbarProps> = ({
+  decks,
+  languages,
+  tags,
+  filter,
+  shownCount,
+  totalCount,
+  selectedCount,
+  isSelecting,
+  onFilterChange,
+  onCreateDeck,
+  onDeleteDeck,
+  onToggleSelecting,
+  onSelectAllShown,
+  onMoveSelected,
+  onCopySelected,
+  onTagSelected,
+  pronunciationForms,
+  onPronunciationFormsChange,
+  missingFormsCount,
+  formsFillProgress,
+  isOffline,
+  onFillMissingForms,
+}) => {
+  const [newDeckName, setNewDeckName] = useState<string>('');
+  const [isCreatingDeck, setIsCreatingDeck] = useState<boolean>(false);
+  const [tagInput, setTagInput] = useState<string>('');
+
+  const update = (patch: Partial<VocabularyFilter>) => onFilterChange({ ...filter, ...patch });
+  const currentDeck = decks.find(d => d.id === filter.deckId);
+
+  const toggleForm = (form: PronunciationForm) => onPronunciationFormsChange(
+    PRONUNCIATION_FORMS.filter(f => f === form ? !pronunciationForms.includes(f) : pronunciationForms.includes(f)),
+  );
+
+  const handleCreateDeck = () => {
+    if (!newDeckName.trim()) return;
+    onCreateDeck(newDeckName);
+    setNewDeckName('');
+    setIsCreatingDeck(false);
+  };
+
+  return (
+    <div className="space-y-4 mb-8">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => update({ deckId: ALL })}
+          className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${filter.deckId === ALL ? 'bg-emerald-600 text-white' : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500 hover:text-zinc-700'}`}
+        >
+          All Decks
+        </button>
+        {decks.map(deck => (
+          <button
+            key={deck.id}
+            onClick={() => update({ deckId: deck.id })}
+            className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${filter.deckId === deck.id ? 'bg-emerald-600 text-white' : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500 hover:text-zinc-700'}`}
+          >
+            {deck.name}
+          </button>
+        ))}
+        {isCreatingDeck ? (
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              handleCreateDeck();
+            }}
+            className="flex items-center gap-2"
+          >
+            <input
+              autoFocus
+              value={newDeckName}
+              onChange={e => setNewDeckName(e.target.value)}
+              placeholder="e.g. Macushi – Food"
+              aria-label="Deck name"
+              className="bg-zinc-50 dark:bg-zinc-800 px-3 py-1.5 rounded-full border border-zinc-200 dark:border-zinc-700 text-xs font-bold focus:ring-2 focus:ring-emerald-500"
+            />
+            <button type="submit" disabled={!newDeckName.trim()} className="text-[10px] font-black uppercase tracking-widest text-emerald-600 disabled:opacity-40">Create</button>
+            <button type="button" onClick={() => setIsCreatingDeck(false)} className="text-[10px] font-black uppercase tracking-widest text-zinc-400">Cancel</button>
+          </form>
+        ) : (
+          <button
+            onClick={() => setIsCreatingDeck(true)}
+            className="px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest border border-dashed border-zinc-300 dark:border-zinc-700 text-zinc-400 hover:text-emerald-600 hover:border-emerald-400 transition-all"
+          >
+            + New Deck
+          </button>
+        )}
+        {currentDeck && currentDeck.id !== DEFAULT_DECK.id && (
+          <button
+            onClick={() => onDeleteDeck(currentDeck)}
+            className="ml-auto text-[10px] font-bold text-zinc-400 hover:text-red-500 uppercase tracking-widest"
+            title={`Cards in this deck move to ${DEFAULT_DECK.name}`}
+          >
+            Delete Deck
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={filter.query}
+          onChange={e => update({ query: e.target.value })}
+          placeholder="Search words, meanings, IPA or tags..."
+          aria-label="Search vocabulary"
+          className="flex-grow min-w-[12rem] bg-zinc-50 dark:bg-zinc-800 p-2 px-4 rounded-xl border border-zinc-100 dark:border-zinc-700 text-sm focus:ring-2 focus:ring-emerald-500"
+        />
+        <select value={filter.language} onChange={e => update({ language: e.target.value })} aria-label="Filter by language" className={selectClass}>
+          <option value={ALL}>All languages</option>
+          {languages.map(l => <option key={l} value={l}>{l}</option>)}
+        </select>
+        <select value={filter.tag} onChange={e => update({ tag: e.target.value })} aria-label="Filter by tag" className={selectClass}>
+          <option value={ALL}>All tags</option>
+          {tags.map(t => <option key={t} value={t}>#{t}</option>)}
+        </select>
+        <select value={filter.sort} onChange={e => update({ sort: e.target.value as VocabularySort })} aria-label="Sort" className={selectClass}>
+          {(Object.keys(VOCABULARY_SORT_LABELS) as VocabularySort[]).map(sort => <option key={sort} value={sort}>{VOCABULARY_SORT_LABELS[sort]}</option>)}
+        </select>
+        <button
+          onClick={onToggleSelecting}
+          className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${isSelecting ? 'bg-zinc-700 text-white' : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-500 hover:text-zinc-700'}`}
+        >
+          {isSelecting ? 'Done' : 'Select'}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[10px] font-bold uppercase tracking-widest text-zinc-400">
+        <span>{shownCount === totalCount ? `${totalCount} cards` : `Showing ${shownCount} of ${totalCount} cards`}</span>
+        <span className="flex items-center gap-1" role="group" aria-label="Pronunciation forms to show">
+          Show:
+          {PRONUNCIATION_FORMS.map(form => (
+            <button
+              key={form}
+              onClick={() => toggleForm(form)}
+              aria-pressed={pronunciationForms.includes(form)}
+              className={`px-2 py-0.5 rounded-full transition-all ${pronunciationForms.includes(form) ? 'bg-emerald-100 dark:bg-emerald-900 text-emerald-700 dark:text-emerald-300' : 'hover:text-zinc-600'}`}
+            >
+              {PRONUNCIATION_FORM_LABELS[form]}
+            </button>
+          ))}
+        </span>
+        {(formsFillProgress || missingFormsCount > 0) && (
+          <button
+            onClick={onFillMissingForms}
+            disabled={!formsFillProgress && isOffline}
+            title={formsFillProgress ? 'Stop filling in pronunciation forms' : 'Fetch the shown pronunciation forms for cards that lack them'}
+            className="text-emerald-600 hover:text-emerald-700 disabled:opacity-40"
+          >
+            {formsFillProgress
+              ? `Stop (${formsFillProgress.done}/${formsFillProgress.total})`
+              : `Fill In ${missingFormsCount} ${missingFormsCount === 1 ? 'Card' : 'Cards'}`}
+          </button>
+        )}
+        {isSelecting && (
+          <>
+            <span className="text-emerald-600">{selectedCount} selected</span>
+            <button onClick={onSelectAllShown} className="hover:text-emerald-600">Select All Shown</button>
+            <select
+              value=""
+              onChange={e => e.target.value && onMoveSelected(e.target.value)}
+              disabled={selectedCount === 0}
+              aria-label="Move selected to deck"
+              className={`${selectClass} disabled:opacity-40`}
+            >
+              <option value="">Move to…</option>
+              {decks.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+            </select>
+            <select
+              value=""
+              onChange={e => e.target.value && onCopySelected(e.target.value)}
+              disabled={selectedCount === 0}
+              aria-label="Copy selected to deck"
+              className={`${selectClass} disabled:opacity-40`}
+            >
+              <option value="">Copy to…</option>
+              {decks.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+            </select>
+            <form
+              onSubmit={e => {
+                e.preventDefault();
+                const parsed = parseTags(tagInput);
+                if (parsed.length === 0 || selectedCount === 0) return;
+                onTagSelected(parsed);
+                setTagInput('');
+              }}
+              className="flex items-center gap-2"
+            >
+              <input
+                value={tagInput}
+                onChange={e => setTagInput(e.target.value)}
+                placeholder="food, greetings"
+                aria-label="Tags to add"
+                className="bg-zinc-50 dark:bg-zinc-800 px-3 py-1.5 rounded-xl border border-zinc-200 dark:border-zinc-700 text-xs normal-case tracking-normal font-semibold"
+              />
+              <button type="submit" disabled={selectedCount === 0 || !tagInput.trim()} className="hover:text-emerald-600 disabled:opacity-40">Add Tags</button>
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VocabularyToolbar;
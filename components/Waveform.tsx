@@ -0,0 +1,38 @@
+import React, { useEffect, useRef } from 'react';
+import { computeWaveformPeaks } from '../utils/audioHelpers';
+
+interface WaveformProps {
+  samples: Float32Array | null;
+  color: string;
+  height?: number;
+}
+
+const BAR_COUNT = 80;
+
+const Waveform: React.FC<WaveformProps> = ({ samples, color, height = 64 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const width = canvas.clientWidth * window.devicePixelRatio;
+    const pixelHeight = height * window.devicePixelRatio;
+    canvas.width = width;
+    canvas.height = pixelHeight;
+    ctx.clearRect(0, 0, width, pixelHeight);
+    ctx.fillStyle = color;
+
+    const peaks = samples ? computeWaveformPeaks(samples, BAR_COUNT) : new Float32Array(BAR_COUNT);
+    const barWidth = width / BAR_COUNT;
+    peaks.forEach((peak, i) => {
+      // Keep a 2px floor so silence still reads as a baseline.
+      const barHeight = Math.max(2 * window.devicePixelRatio, peak * pixelHeight);
+      ctx.fillRect(i * barWidth + barWidth * 0.15, (pixelHeight - barHeight) / 2, barWidth * 0.7, barHeight);
+    });
+  }, [samples, color, height]);
+
+  return <canvas ref={canvasRef} className="w-full" style={{ height }} />;
+};
+
+export default Waveform;
@@ -1,2 +1,7 @@
 // constants.ts
 export const API_KEY_BILLING_URL = 'https://ai.google.dev/gemini-api/docs/billing';
+
+export const AVAILABLE_VOICES = ['Zephyr', 'Kore', 'Puck', 'Charon', 'Fenrir'];
+export const DEFAULT_CARD_VOICE = 'Kore';
+
+export const GUYANESE_LANGUAGES = ['English', 'Macushi', 'Patamona', 'Wapishana', 'Arekuna', 'Carib', 'Warrau', 'Wai-Wai', 'Akawaio'];
@@ -0,0 +1,34 @@
+// Checks the JSON crisis resource directory
+
+import { CrisisDirectory, CrisisRegion, CrisisResource } from '../types';
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+/**
+ * Validates a crisis directory loaded from JSON, so a mistake in a deployment's edit fails loudly
+ * instead of leaving a learner in crisis without a number to call.
+ * @param raw The parsed JSON file.
+ * @returns The directory.
+ * @throws If a required field is missing or has the wrong type, a region lists no helplines, or the default region is not listed.
+ */
+export function defineCrisisDirectory(raw: any): CrisisDirectory {
+  if (!Array.isArray(raw?.regions) || raw.regions.length === 0) throw new Error('Crisis directory has no regions.');
+  if (typeof raw.fallback !== 'string' || !raw.fallback) throw new Error('Crisis directory needs fallback advice.');
+
+  const regions: CrisisRegion[] = raw.regions.map((region: any, index: number) => {
+    const where = `Crisis region ${region?.id ?? index + 1}`;
+    if (typeof region?.id !== 'string' || typeof region.name !== 'string') throw new Error(`${where} needs an id and name.`);
+    if (typeof region.emergency !== 'string' || !region.emergency) throw new Error(`${where} needs an emergency number.`);
+    if (!Array.isArray(region.resources) || region.resources.length === 0) throw new Error(`${where} lists no helplines.`);
+    const resources: CrisisResource[] = region.resources.map((resource: any) => {
+      if (typeof resource?.name !== 'string' || !isStringList(resource.phones)) throw new Error(`${where} has a resource without a name and phone list.`);
+      if (resource.phones.length === 0 && typeof resource.url !== 'string') throw new Error(`${where} resource "${resource.name}" has no phone number or website.`);
+      return resource;
+    });
+    return { ...region, id: region.id.toUpperCase(), resources };
+  });
+
+  const defaultRegion = String(raw.defaultRegion ?? '').toUpperCase();
+  if (!regions.some(r => r.id === defaultRegion)) throw new Error(`Crisis directory's default region "${raw.defaultRegion}" is not listed.`);
+  return { version: Number(raw.version) || 1, updatedAt: String(raw.updatedAt ?? ''), defaultRegion, regions, fallback: raw.fallback };
+}
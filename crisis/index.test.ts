@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { CRISIS_DIRECTORY, getCrisisRegion } from '.';
+import { defineCrisisDirectory } from './defineCrisisDirectory';
+
+describe('crisis directory', () => {
+  it('defaults to Guyana and gives every region an emergency number', () => {
+    expect(CRISIS_DIRECTORY.defaultRegion).toBe('GY');
+    expect(CRISIS_DIRECTORY.regions.every(r => r.emergency)).toBe(true);
+    expect(getCrisisRegion('GY').resources.length).toBeGreaterThan(0);
+  });
+
+  it('lists a helpline for every region', () => {
+    expect(CRISIS_DIRECTORY.regions.every(r => r.resources.length > 0)).toBe(true);
+  });
+
+  it('falls back to the default region for unknown IDs', () => {
+    expect(getCrisisRegion('zz').id).toBe('GY');
+    expect(getCrisisRegion('br').id).toBe('BR');
+  });
+});
+
+describe('defineCrisisDirectory', () => {
+  const region = { id: 'gy', name: 'Guyana', emergency: '911', resources: [{ name: 'Helpline', phones: ['223-0001'] }] };
+
+  it('upper-cases region IDs', () => {
+    expect(defineCrisisDirectory({ defaultRegion: 'gy', fallback: 'Call for help.', regions: [region] }).regions[0].id).toBe('GY');
+  });
+
+  it('rejects a default region that is not listed', () => {
+    expect(() => defineCrisisDirectory({ defaultRegion: 'BR', fallback: 'Call for help.', regions: [region] })).toThrow('default region "BR" is not listed');
+  });
+
+  it('rejects a region without helplines', () => {
+    expect(() => defineCrisisDirectory({ defaultRegion: 'GY', fallback: 'Call for help.', regions: [{ ...region, resources: [] }] })).toThrow('Crisis region gy lists no helplines.');
+  });
+
+  it('rejects a resource with no way to reach it', () => {
+    const broken = { ...region, resources: [{ name: 'Helpline', phones: [] }] };
+    expect(() => defineCrisisDirectory({ defaultRegion: 'GY', fallback: 'Call for help.', regions: [broken] })).toThrow('has no phone number or website');
+  });
+});
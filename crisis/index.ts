@@ -0,0 +1,18 @@
+// Bundled crisis helplines, by region
+
+import { CrisisDirectory, CrisisRegion } from '../types';
+import { defineCrisisDirectory } from './defineCrisisDirectory';
+import resources from './resources.json';
+
+export const CRISIS_DIRECTORY: CrisisDirectory = defineCrisisDirectory(resources);
+
+/**
+ * Returns a region's helplines, falling back to the directory's default region.
+ * @param id A region ID such as 'GY'; case does not matter.
+ * @param directory The directory to look in.
+ * @returns The region.
+ */
+export function getCrisisRegion(id: string | null | undefined, directory: CrisisDirectory = CRISIS_DIRECTORY): CrisisRegion {
+  const wanted = id?.toUpperCase();
+  return directory.regions.find(r => r.id === wanted) ?? directory.regions.find(r => r.id === directory.defaultRegion)!;
+}
@@ -0,0 +1,10 @@
+// Globals injected by the AI Studio host page. Absent when the app runs standalone.
+
+interface AIStudio {
+  hasSelectedApiKey: () => Promise<boolean>;
+  openSelectKey: () => Promise<void>;
+}
+
+interface Window {
+  aistudio?: AIStudio;
+}
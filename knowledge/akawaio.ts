@@ -0,0 +1,30 @@
+import { defineKnowledgeBase } from './defineKnowledgeBase';
+import { MEIRA_FRANCHETTO_2005 } from './sharedSources';
+
+export default defineKnowledgeBase({
+  language: 'Akawaio',
+  version: 1,
+  updatedAt: '2026-10-19',
+  sources: [
+    MEIRA_FRANCHETTO_2005,
+    { id: 'community', citation: 'Community contribution, pending review.' },
+  ],
+  entries: [
+    {
+      id: 'akawaio.culture.overview',
+      kind: 'culture',
+      title: 'Akawaio (Kapon)',
+      text: 'Akawaio is a Cariban language of the upper Mazaruni district of Guyana. Speakers call themselves Kapon, a name shared with the closely related Patamona.',
+      keywords: ['akawaio', 'kapon', 'mazaruni', 'cariban', 'people', 'history'],
+      sourceIds: ['community'],
+    },
+    {
+      id: 'akawaio.lex.tuna',
+      kind: 'lexicon',
+      title: 'tuna',
+      text: 'water.',
+      keywords: ['water', 'drink', 'river'],
+      sourceIds: ['meira-franchetto-2005'],
+    },
+  ],
+});
@@ -0,0 +1,38 @@
+import { defineKnowledgeBase } from './defineKnowledgeBase';
+import { MEIRA_FRANCHETTO_2005 } from './sharedSources';
+
+export default defineKnowledgeBase({
+  language: 'Arekuna',
+  version: 1,
+  updatedAt: '2026-10-19',
+  sources: [
+    MEIRA_FRANCHETTO_2005,
+    { id: 'community', citation: 'Community contribution, pending review.' },
+  ],
+  entries: [
+    {
+      id: 'arekuna.culture.overview',
+      kind: 'culture',
+      title: 'Arekuna and the Pemon dialects',
+      text: 'Arekuna is one of the dialects of Pemon, a Cariban language spoken in the upper Mazaruni area of Guyana and the Gran Sabana of Venezuela. Taurepan and Kamarakoto are the other main dialects. Arekuna is closely related to Macushi.',
+      keywords: ['arekuna', 'pemon', 'taurepan', 'mazaruni', 'gran', 'sabana', 'cariban', 'people', 'history'],
+      sourceIds: ['community'],
+    },
+    {
+      id: 'arekuna.lex.tuna',
+      kind: 'lexicon',
+      title: 'tuna',
+      text: 'water.',
+      keywords: ['water', 'drink', 'river'],
+      sourceIds: ['meira-franchetto-2005'],
+    },
+    {
+      id: 'arekuna.lex.wei',
+      kind: 'lexicon',
+      title: 'wei',
+      text: 'sun; also day.',
+      keywords: ['sun', 'day', 'sky'],
+      sourceIds: ['community'],
+    },
+  ],
+});
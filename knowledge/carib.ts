@@ -0,0 +1,44 @@
+import { defineKnowledgeBase } from './defineKnowledgeBase';
+
+export default defineKnowledgeBase({
+  language: 'Carib',
+  version: 1,
+  updatedAt: '2026-10-19',
+  sources: [
+    { id: 'courtz-2008', citation: 'Courtz, Henk. 2008. A Carib Grammar and Dictionary. Magoria Books.' },
+  ],
+  entries: [
+    {
+      id: 'carib.culture.overview',
+      kind: 'culture',
+      title: 'Kari\'na (Carib)',
+      text: 'Carib, or Kari\'na, is a Cariban language spoken along the coast of the Guianas and in Venezuela. In Guyana, Kari\'na communities live mainly in the Pomeroon and Barima-Waini areas.',
+      keywords: ['carib', 'karina', 'kari\'na', 'kalina', 'coast', 'cariban', 'people', 'history'],
+      sourceIds: ['courtz-2008'],
+    },
+    {
+      id: 'carib.lex.tuna',
+      kind: 'lexicon',
+      title: 'tuna',
+      text: 'water.',
+      keywords: ['water', 'drink', 'river'],
+      sourceIds: ['courtz-2008'],
+    },
+    {
+      id: 'carib.lex.weju',
+      kind: 'lexicon',
+      title: 'wéju',
+      text: 'sun; also day.',
+      keywords: ['sun', 'day', 'sky'],
+      sourceIds: ['courtz-2008'],
+    },
+    {
+      id: 'carib.lex.wewe',
+      kind: 'lexicon',
+      title: 'wewe',
+      text: 'tree; wood.',
+      keywords: ['tree', 'wood', 'forest'],
+      sourceIds: ['courtz-2008'],
+    },
+  ],
+});
@@ -0,0 +1,28 @@
+// Helper for writing per-language knowledge base modules
+
+import { KnowledgeEntry, KnowledgeSource, LanguageKnowledgeBase } from '../types';
+
+type EntryInput = Omit<KnowledgeEntry, 'language' | 'status'> & Partial<Pick<KnowledgeEntry, 'status'>>;
+
+interface KnowledgeBaseInput {
+  language: string;
+  version: number;
+  updatedAt: string;
+  sources: KnowledgeSource[];
+  entries: EntryInput[];
+}
+
+/**
+ * Fills in each entry's language and marks entries unreviewed unless stated otherwise.
+ * @param input The language, version, sources and entries.
+ * @returns The knowledge base.
+ */
+export function defineKnowledgeBase({ language, version, updatedAt, sources, entries }: KnowledgeBaseInput): LanguageKnowledgeBase {
+  return {
+    language,
+    version,
+    updatedAt,
+    sources,
+    entries: entries.map(entry => ({ status: 'unreviewed', ...entry, language })),
+  };
+}
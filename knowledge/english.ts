@@ -0,0 +1,44 @@
+import { defineKnowledgeBase } from './defineKnowledgeBase';
+
+export default defineKnowledgeBase({
+  language: 'English',
+  version: 1,
+  updatedAt: '2026-10-19',
+  sources: [
+    { id: 'community', citation: 'Community contribution, pending review.' },
+  ],
+  entries: [
+    {
+      id: 'english.culture.official-language',
+      kind: 'culture',
+      title: 'English and Creolese in Guyana',
+      text: 'English is the official language of Guyana. Most Guyanese also speak Guyanese Creole ("Creolese"), an English-lexifier creole, in everyday life. Indigenous communities are often multilingual in English, Creolese and their own language.',
+      keywords: ['english', 'creole', 'creolese', 'official', 'language', 'guyana'],
+      sourceIds: ['community'],
+    },
+    {
+      id: 'english.lex.gyaff',
+      kind: 'lexicon',
+      title: 'gyaff',
+      text: 'Creolese: to chat or gossip casually; also a noun for a friendly chat.',
+      keywords: ['chat', 'talk', 'gossip', 'conversation', 'creolese'],
+      sourceIds: ['community'],
+    },
+    {
+      id: 'english.lex.pickney',
+      kind: 'lexicon',
+      title: 'pickney',
+      text: 'Creolese: child, children.',
+      keywords: ['child', 'children', 'kid', 'creolese'],
+      sourceIds: ['community'],
+    },
+    {
+      id: 'english.culture.kwe-kwe',
+      kind: 'culture',
+      title: 'Kwe-Kwe',
+      text: 'An Afro-Guyanese pre-wedding celebration held the night before a wedding, with call-and-response songs and dancing that offer the couple advice.',
+      keywords: ['kwe-kwe', 'wedding', 'dance', 'song', 'tradition', 'creolese'],
+      sourceIds: ['community'],
+    },
+  ],
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { GUYANESE_LANGUAGES } from '../constants';
+import { KNOWLEDGE_BASES, KNOWLEDGE_BASE_VERSION, getEntrySources, getKnowledgeBase, getKnowledgeEntry } from '.';
+
+describe('knowledge base', () => {
+  it('has a module for every selectable language', () => {
+    expect(KNOWLEDGE_BASES.map(kb => kb.language).sort()).toEqual([...GUYANESE_LANGUAGES].sort());
+  });
+
+  it('uses unique entry IDs prefixed by the module', () => {
+    const ids = KNOWLEDGE_BASES.flatMap(kb => kb.entries.map(e => e.id));
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const id of ids) expect(id).toMatch(/^[a-z0-9-]+\.[a-z]+\.[a-z0-9-]+$/);
+  });
+
+  it('resolves every cited source', () => {
+    for (const kb of KNOWLEDGE_BASES) {
+      for (const entry of kb.entries) {
+        expect(entry.language).toBe(kb.language);
+        expect(getEntrySources(entry)).toHaveLength(entry.sourceIds.length);
+      }
+    }
+  });
+
+  it('looks up entries and languages', () => {
+    expect(getKnowledgeEntry('warrau.lex.ho')?.title).toBe('ho');
+    expect(getKnowledgeEntry('missing.lex.none')).toBeUndefined();
+    expect(getKnowledgeBase('Wai-Wai')?.entries.length).toBeGreaterThan(0);
+    expect(KNOWLEDGE_BASE_VERSION).toContain('Macushi@');
+  });
+});
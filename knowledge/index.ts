@@ -0,0 +1,49 @@
+// Bundled, versioned knowledge base with one module per language in GUYANESE_LANGUAGES
+
+import { KnowledgeEntry, KnowledgeSource, LanguageKnowledgeBase } from '../types';
+import akawaio from './akawaio';
+import arekuna from './arekuna';
+import carib from './carib';
+import english from './english';
+import macushi from './macushi';
+import patamona from './patamona';
+import waiwai from './waiwai';
+import wapishana from './wapishana';
+import warrau from './warrau';
+
+export const KNOWLEDGE_BASES: LanguageKnowledgeBase[] = [english, macushi, patamona, wapishana, arekuna, carib, warrau, waiwai, akawaio];
+
+// Changes whenever any language's version does, e.g. "English@1,Macushi@1,...".
+export const KNOWLEDGE_BASE_VERSION = KNOWLEDGE_BASES.map(kb => `${kb.language}@${kb.version}`).join(',');
+
+/**
+ * Returns the knowledge base for a language.
+ * @param language A name from GUYANESE_LANGUAGES.
+ * @returns The knowledge base, or undefined if none is bundled.
+ */
+export function getKnowledgeBase(language: string): LanguageKnowledgeBase | undefined {
+  return KNOWLEDGE_BASES.find(kb => kb.language === language);
+}
+
+/**
+ * Looks up an entry by ID across all languages.
+ * @param id The entry ID.
+ * @returns The entry, or undefined if not found.
+ */
+export function getKnowledgeEntry(id: string): KnowledgeEntry | undefined {
+  for (const kb of KNOWLEDGE_BASES) {
+    const entry = kb.entries.find(e => e.id === id);
+    if (entry) return entry;
+  }
+  return undefined;
+}
+
+/**
+ * Resolves the sources an entry cites.
+ * @param entry The entry.
+ * @returns The cited sources that exist in the entry's language module.
+ */
+export function getEntrySources(entry: KnowledgeEntry): KnowledgeSource[] {
+  const sources = getKnowledgeBase(entry.language)?.sources ?? [];
+  return entry.sourceIds.map(id => sources.find(s => s.id === id)).filter((s): s is KnowledgeSource => !!s);
+}
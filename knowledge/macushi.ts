@@ -0,0 +1,55 @@
+import { defineKnowledgeBase } from './defineKnowledgeBase';
+import { HANDBOOK_AMAZONIAN_LANGUAGES, MEIRA_FRANCHETTO_2005 } from './sharedSources';
+
+export default defineKnowledgeBase({
+  language: 'Macushi',
+  version: 1,
+  updatedAt: '2026-10-19',
+  sources: [
+    { id: 'abbott-1991', citation: 'Abbott, Miriam. 1991. Macushi. In Handbook of Amazonian Languages, vol. 3. Mouton de Gruyter.' },
+    HANDBOOK_AMAZONIAN_LANGUAGES,
+    MEIRA_FRANCHETTO_2005,
+  ],
+  entries: [
+    {
+      id: 'macushi.culture.overview',
+      kind: 'culture',
+      title: 'Macushi language and people',
+      text: 'Macushi (Makushi) is a Cariban language of the Rupununi savannahs in Guyana and the neighbouring areas of Roraima, Brazil and Venezuela. It is closely related to Pemon (Arekuna) and the Kapon languages (Akawaio, Patamona).',
+      keywords: ['macushi', 'makushi', 'rupununi', 'savannah', 'cariban', 'history', 'people'],
+      sourceIds: ['abbott-1991'],
+    },
+    {
+      id: 'macushi.ortho.spelling',
+      kind: 'orthography',
+      title: 'Macushi spelling',
+      text: 'Macushi is written in the Latin alphabet. Guyanese and Brazilian materials use different conventions, notably for the high central vowel /ɨ/ (written y or ï). Match the spelling used by the learner\'s community materials and note alternatives.',
+      keywords: ['spelling', 'alphabet', 'write', 'orthography', 'vowel', 'pronunciation'],
+      sourceIds: ['abbott-1991'],
+    },
+    {
+      id: 'macushi.grammar.word-order',
+      kind: 'grammar',
+      title: 'Object before verb',
+      text: 'As in other Cariban languages, the object comes directly before the verb. Person is marked by prefixes on verbs and possessed nouns rather than by separate pronouns.',
+      keywords: ['grammar', 'word', 'order', 'verb', 'object', 'sentence', 'prefix'],
+      sourceIds: ['abbott-1991', 'hal'],
+    },
+    {
+      id: 'macushi.lex.tuna',
+      kind: 'lexicon',
+      title: 'tuna',
+      text: 'water. A Cariban root shared with Pemon, Kapon, Wai-Wai and Kari\'na.',
+      keywords: ['water', 'drink', 'river'],
+      sourceIds: ['meira-franchetto-2005'],
+    },
+    {
+      id: 'macushi.lex.wei',
+      kind: 'lexicon',
+      title: 'wei',
+      text: 'sun; also day.',
+      keywords: ['sun', 'day', 'sky'],
+      sourceIds: ['abbott-1991'],
+    },
+  ],
+});
@@ -0,0 +1,30 @@
+import { defineKnowledgeBase } from './defineKnowledgeBase';
+import { MEIRA_FRANCHETTO_2005 } from './sharedSources';
+
+export default defineKnowledgeBase({
+  language: 'Patamona',
+  version: 1,
+  updatedAt: '2026-10-19',
+  sources: [
+    MEIRA_FRANCHETTO_2005,
+    { id: 'community', citation: 'Community contribution, pending review.' },
+  ],
+  entries: [
+    {
+      id: 'patamona.culture.overview',
+      kind: 'culture',
+      title: 'Patamona (Kapon)',
+      text: 'Patamona is a Cariban language of the Pakaraima Mountains in Guyana\'s Potaro-Siparuni region, with Paramakatoi among its main villages. Like the Akawaio, Patamona people call themselves Kapon.',
+      keywords: ['patamona', 'kapon', 'pakaraima', 'paramakatoi', 'cariban', 'people', 'history'],
+      sourceIds: ['community'],
+    },
+    {
+      id: 'patamona.lex.tuna',
+      kind: 'lexicon',
+      title: 'tuna',
+      text: 'water.',
+      keywords: ['water', 'drink', 'river'],
+      sourceIds: ['meira-franchetto-2005'],
+    },
+  ],
+});
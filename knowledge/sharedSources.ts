@@ -0,0 +1,13 @@
+// Sources cited by more than one language module
+
+import { KnowledgeSource } from '../types';
+
+export const MEIRA_FRANCHETTO_2005: KnowledgeSource = {
+  id: 'meira-franchetto-2005',
+  citation: 'Meira, Sérgio & Bruna Franchetto. 2005. The southern Cariban languages and the Cariban family. International Journal of American Linguistics 71(2).',
+};
+
+export const HANDBOOK_AMAZONIAN_LANGUAGES: KnowledgeSource = {
+  id: 'hal',
+  citation: 'Derbyshire, Desmond C. & Geoffrey K. Pullum (eds.). 1986–1998. Handbook of Amazonian Languages, vols. 1–4. Mouton de Gruyter.',
+};
@@ -0,0 +1,54 @@
+import { defineKnowledgeBase } from './defineKnowledgeBase';
+import { MEIRA_FRANCHETTO_2005 } from './sharedSources';
+
+export default defineKnowledgeBase({
+  language: 'Wai-Wai',
+  version: 1,
+  updatedAt: '2026-10-19',
+  sources: [
+    { id: 'hawkins-1998', citation: 'Hawkins, Robert E. 1998. Wai Wai. In Handbook of Amazonian Languages, vol. 4. Mouton de Gruyter.' },
+    MEIRA_FRANCHETTO_2005,
+  ],
+  entries: [
+    {
+      id: 'waiwai.culture.overview',
+      kind: 'culture',
+      title: 'Wai-Wai language and people',
+      text: 'Wai-Wai is a Cariban language spoken in the far south of Guyana, around Masakenari village in the Konashen Indigenous District, and across the border in Brazil.',
+      keywords: ['wai-wai', 'waiwai', 'konashen', 'masakenari', 'cariban', 'people', 'history', 'tribe'],
+      sourceIds: ['hawkins-1998'],
+    },
+    {
+      id: 'waiwai.grammar.word-order',
+      kind: 'grammar',
+      title: 'Object before verb',
+      text: 'Wai-Wai, like its close relative Hixkaryana, places the object directly before the verb, and the subject often follows the verb.',
+      keywords: ['grammar', 'word', 'order', 'verb', 'object', 'sentence'],
+      sourceIds: ['hawkins-1998'],
+    },
+    {
+      id: 'waiwai.lex.tuna',
+      kind: 'lexicon',
+      title: 'tuna',
+      text: 'water.',
+      keywords: ['water', 'drink', 'river'],
+      sourceIds: ['meira-franchetto-2005'],
+    },
+    {
+      id: 'waiwai.lex.kamo',
+      kind: 'lexicon',
+      title: 'kamo',
+      text: 'sun.',
+      keywords: ['sun', 'day', 'sky'],
+      sourceIds: ['hawkins-1998'],
+    },
+    {
+      id: 'waiwai.lex.nuno',
+      kind: 'lexicon',
+      title: 'nuno',
+      text: 'moon.',
+      keywords: ['moon', 'night', 'sky', 'month'],
+      sourceIds: ['hawkins-1998'],
+    },
+  ],
+});
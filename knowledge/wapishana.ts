@@ -0,0 +1,29 @@
+import { defineKnowledgeBase } from './defineKnowledgeBase';
+
+export default defineKnowledgeBase({
+  language: 'Wapishana',
+  version: 1,
+  updatedAt: '2026-10-19',
+  sources: [
+    { id: 'dos-santos-2006', citation: 'dos Santos, Manoel Gomes. 2006. Uma gramática do Wapixana (Aruák). PhD thesis, Universidade Estadual de Campinas.' },
+    { id: 'community', citation: 'Community contribution, pending review.' },
+  ],
+  entries: [
+    {
+      id: 'wapishana.culture.overview',
+      kind: 'culture',
+      title: 'Wapishana language and people',
+      text: 'Wapishana (Wapixana) is an Arawakan language, unrelated to its Cariban neighbour Macushi. It is spoken in the south Rupununi savannahs of Guyana, around Lethem and Aishalton, and in Roraima, Brazil.',
+      keywords: ['wapishana', 'wapixana', 'arawakan', 'rupununi', 'lethem', 'aishalton', 'people', 'history'],
+      sourceIds: ['dos-santos-2006'],
+    },
+    {
+      id: 'wapishana.ortho.spelling',
+      kind: 'orthography',
+      title: 'Wapishana spelling',
+      text: 'Wapishana is written in the Latin alphabet. Guyanese and Brazilian materials differ, for example in how they write the high central vowel /ɨ/.',
+      keywords: ['spelling', 'alphabet', 'write', 'orthography', 'vowel', 'pronunciation'],
+      sourceIds: ['community'],
+    },
+  ],
+});
@@ -0,0 +1,44 @@
+import { defineKnowledgeBase } from './defineKnowledgeBase';
+
+export default defineKnowledgeBase({
+  language: 'Warrau',
+  version: 1,
+  updatedAt: '2026-10-19',
+  sources: [
+    { id: 'romero-figeroa-1997', citation: 'Romero-Figeroa, Andrés. 1997. A Reference Grammar of Warao. LINCOM Europa.' },
+  ],
+  entries: [
+    {
+      id: 'warrau.culture.overview',
+      kind: 'culture',
+      title: 'Warrau (Warao) language and people',
+      text: 'Warrau, or Warao, is a language isolate: it is not related to the Cariban or Arawakan languages around it. It is spoken in the Orinoco Delta of Venezuela and in Guyana\'s north-west, in the Barima-Waini region. The name is usually explained as "canoe people".',
+      keywords: ['warrau', 'warao', 'isolate', 'orinoco', 'delta', 'barima', 'waini', 'canoe', 'people', 'history'],
+      sourceIds: ['romero-figeroa-1997'],
+    },
+    {
+      id: 'warrau.grammar.word-order',
+      kind: 'grammar',
+      title: 'Verb-final sentences',
+      text: 'Warao sentences are typically verb-final, with the object before the verb (subject–object–verb).',
+      keywords: ['grammar', 'word', 'order', 'verb', 'object', 'sentence'],
+      sourceIds: ['romero-figeroa-1997'],
+    },
+    {
+      id: 'warrau.lex.ho',
+      kind: 'lexicon',
+      title: 'ho',
+      text: 'water.',
+      keywords: ['water', 'drink', 'river'],
+      sourceIds: ['romero-figeroa-1997'],
+    },
+    {
+      id: 'warrau.lex.hanoko',
+      kind: 'lexicon',
+      title: 'hanoko',
+      text: 'house; dwelling.',
+      keywords: ['house', 'home', 'dwelling', 'village'],
+      sourceIds: ['romero-figeroa-1997'],
+    },
+  ],
+});
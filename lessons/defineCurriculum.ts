@@ -0,0 +1,44 @@
+// Checks a JSON curriculum file and fills in each unit's language
+
+import { Curriculum, LessonTheme, LessonUnit } from '../types';
+
+export const LESSON_THEMES: LessonTheme[] = ['greetings', 'numbers', 'kinship', 'food', 'environment'];
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+/**
+ * Validates a curriculum loaded from JSON, so a mistake in a teacher's edit fails loudly instead of breaking a lesson.
+ * @param raw The parsed JSON file.
+ * @returns The curriculum, with every unit's language set.
+ * @throws If a required field is missing or has the wrong type.
+ */
+export function defineCurriculum(raw: any): Curriculum {
+  const language = raw?.language;
+  if (typeof language !== 'string' || !language) throw new Error('Curriculum is missing its language.');
+  if (!Array.isArray(raw.units)) throw new Error(`${language} curriculum has no units.`);
+
+  const units: LessonUnit[] = raw.units.map((unit: any, index: number) => {
+    const where = `${language} unit ${unit?.id ?? index + 1}`;
+    if (typeof unit?.id !== 'string' || typeof unit.title !== 'string' || typeof unit.summary !== 'string') {
+      throw new Error(`${where} needs an id, title and summary.`);
+    }
+    if (!LESSON_THEMES.includes(unit.theme)) throw new Error(`${where} has an unknown theme "${unit.theme}".`);
+    if (!isStringList(unit.objectives) || !isStringList(unit.meanings)) throw new Error(`${where} needs lists of objectives and meanings.`);
+    if (!Array.isArray(unit.vocabulary) || unit.vocabulary.some((v: any) => typeof v?.word !== 'string' || typeof v?.translation !== 'string')) {
+      throw new Error(`${where} has vocabulary without a word and translation.`);
+    }
+    if (!Array.isArray(unit.dialogue) || unit.dialogue.some((line: any) => !['tutor', 'learner'].includes(line?.speaker) || typeof line?.cue !== 'string')) {
+      throw new Error(`${where} has a dialogue line without a speaker and cue.`);
+    }
+    const { roleplay, quiz } = unit;
+    if (typeof roleplay?.setting !== 'string' || typeof roleplay.tutorRole !== 'string' || typeof roleplay.learnerRole !== 'string' || !isStringList(roleplay.goals)) {
+      throw new Error(`${where} needs a roleplay setting, roles and goals.`);
+    }
+    if (typeof quiz?.passingScore !== 'number' || quiz.passingScore < 0 || quiz.passingScore > 1) {
+      throw new Error(`${where} needs a quiz passingScore between 0 and 1.`);
+    }
+    return { ...unit, language };
+  });
+
+  return { language, version: Number(raw.version) || 1, updatedAt: String(raw.updatedAt ?? ''), units };
+}
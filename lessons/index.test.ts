@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { GUYANESE_LANGUAGES } from '../constants';
+import { getKnowledgeEntry } from '../knowledge';
+import { CURRICULA, getCurriculum, getLessonUnit } from '.';
+import { LESSON_THEMES, defineCurriculum } from './defineCurriculum';
+
+describe('curricula', () => {
+  it('has a curriculum for every tribal language, covering every theme in order', () => {
+    expect(CURRICULA.map(c => c.language).sort()).toEqual(GUYANESE_LANGUAGES.filter(l => l !== 'English').sort());
+    for (const curriculum of CURRICULA) {
+      expect(curriculum.units.map(u => u.theme)).toEqual(LESSON_THEMES);
+      expect(curriculum.units.every(u => u.language === curriculum.language)).toBe(true);
+    }
+  });
+
+  it('uses unique unit IDs', () => {
+    const ids = CURRICULA.flatMap(c => c.units.map(u => u.id));
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('only teaches words that come from the knowledge base', () => {
+    for (const unit of CURRICULA.flatMap(c => c.units)) {
+      for (const word of unit.vocabulary) {
+        const entry = getKnowledgeEntry(word.knowledgeId ?? '');
+        expect(entry?.language).toBe(unit.language);
+        expect(entry?.title).toBe(word.word);
+      }
+    }
+  });
+
+  it('looks up curricula and units', () => {
+    expect(getCurriculum('Wai-Wai')?.units).toHaveLength(5);
+    expect(getCurriculum('English')).toBeUndefined();
+    expect(getLessonUnit('warrau.environment')?.vocabulary.map(v => v.word)).toEqual(['ho', 'hanoko']);
+  });
+
+  it('rejects malformed curriculum files', () => {
+    const unit = getLessonUnit('macushi.greetings')!;
+    expect(() => defineCurriculum({ units: [] })).toThrow('missing its language');
+    expect(() => defineCurriculum({ language: 'Macushi', units: [{ ...unit, theme: 'weather' }] })).toThrow('unknown theme "weather"');
+    expect(() => defineCurriculum({ language: 'Macushi', units: [{ ...unit, quiz: { passingScore: 80 } }] })).toThrow('passingScore');
+  });
+});
@@ -0,0 +1,36 @@
+// Bundled lesson curricula, one JSON file per tribal language
+
+import { Curriculum, LessonUnit } from '../types';
+import { defineCurriculum } from './defineCurriculum';
+import akawaio from './akawaio.json';
+import arekuna from './arekuna.json';
+import carib from './carib.json';
+import macushi from './macushi.json';
+import patamona from './patamona.json';
+import waiwai from './waiwai.json';
+import wapishana from './wapishana.json';
+import warrau from './warrau.json';
+
+export const CURRICULA: Curriculum[] = [macushi, patamona, wapishana, arekuna, carib, warrau, waiwai, akawaio].map(defineCurriculum);
+
+/**
+ * Returns the curriculum for a language.
+ * @param language A name from GUYANESE_LANGUAGES.
+ * @returns The curriculum, or undefined if none is bundled.
+ */
+export function getCurriculum(language: string): Curriculum | undefined {
+  return CURRICULA.find(c => c.language === language);
+}
+
+/**
+ * Looks up a unit by ID across all languages.
+ * @param id The unit ID.
+ * @returns The unit, or undefined if not found.
+ */
+export function getLessonUnit(id: string): LessonUnit | undefined {
+  for (const curriculum of CURRICULA) {
+    const unit = curriculum.units.find(u => u.id === id);
+    if (unit) return unit;
+  }
+  return undefined;
+}
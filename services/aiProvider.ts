@@ -0,0 +1,66 @@
+// Provider-agnostic interface for every AI capability the app uses
+
+import { Content, LiveServerMessage, Part, Schema } from '@google/genai';
+import { GroundingUrl } from '../types';
+
+export interface TextStreamRequest {
+  contents: Content[];
+  systemInstruction: string;
+  useSearch?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface TextStreamChunk {
+  text: string;
+  groundingUrls?: GroundingUrl[];
+}
+
+export interface StructuredRequest {
+  /** A prompt string, or parts when the request includes media such as audio. */
+  contents: string | Part[];
+  schema: Schema;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  aspectRatio?: string;
+}
+
+// The subset of server messages the app reads, so mock providers can produce plain objects.
+export type LiveMessage = Pick<LiveServerMessage, 'serverContent' | 'sessionResumptionUpdate' | 'goAway'>;
+
+export interface LiveSessionCallbacks {
+  onopen: () => void;
+  onmessage: (message: LiveMessage) => void;
+  onerror: (error: ErrorEvent | Error) => void;
+  onclose: (event?: CloseEvent) => void;
+}
+
+export interface LiveSessionOptions {
+  voiceName: string;
+  systemInstruction: string;
+  callbacks: LiveSessionCallbacks;
+  /** Handle from a `sessionResumptionUpdate`, to continue a dropped session with its context. */
+  resumptionHandle?: string;
+}
+
+export interface LiveSession {
+  sendRealtimeInput: (input: { media: { data: string; mimeType: string } }) => void;
+  close: () => void;
+}
+
+export interface AIProvider {
+  readonly name: string;
+  /** Whether the provider needs a user-selected API key (AI Studio key picker). */
+  readonly requiresApiKey: boolean;
+  /** Streams a chat answer for the given conversation. */
+  streamText: (request: TextStreamRequest) => AsyncIterable<TextStreamChunk>;
+  /** Returns base64 16-bit PCM at OUTPUT_SAMPLE_RATE, or null if no audio was produced. */
+  synthesizeSpeech: (text: string, voiceName: string) => Promise<string | null>;
+  /** Returns a JSON value matching the request schema. */
+  generateJson: <T>(request: StructuredRequest) => Promise<T>;
+  /** Returns a base64 JPEG, or null if no image was produced. */
+  generateImage: (request: ImageRequest) => Promise<string | null>;
+  /** Opens a realtime audio session. */
+  connectLive: (options: LiveSessionOptions) => Promise<LiveSession>;
+}
@@ -0,0 +1,89 @@
+// AIProvider backed by the Gemini API
+
+import { GoogleGenAI, Modality } from '@google/genai';
+import { GroundingUrl } from '../types';
+import { AIProvider } from './aiProvider';
+import { MODELS } from './modelConfig';
+
+/**
+ * Creates the Gemini provider. A client is constructed per call so a key chosen through
+ * the AI Studio key picker mid-session is picked up.
+ * @param getApiKey Returns the API key to use for the next request.
+ * @returns The provider.
+ */
+export function createGeminiProvider(getApiKey: () => string | undefined = () => process.env.API_KEY): AIProvider {
+  const client = () => new GoogleGenAI({ apiKey: getApiKey() });
+
+  return {
+    name: 'gemini',
+    requiresApiKey: true,
+
+    async *streamText({ contents, systemInstruction, useSearch, signal }) {
+      const stream = await client().models.generateContentStream({
+        model: MODELS.text,
+        contents,
+        config: {
+          systemInstruction,
+          tools: useSearch ? [{ googleSearch: {} }] : undefined,
+          abortSignal: signal,
+        },
+      });
+      for await (const chunk of stream) {
+        const groundingChunks = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks;
+        const groundingUrls: GroundingUrl[] | undefined = groundingChunks
+          ?.map(c => ({ uri: c.web?.uri ?? '', title: c.web?.title ?? '' }))
+          .filter(u => u.uri);
+        yield { text: chunk.text ?? '', groundingUrls };
+      }
+    },
+
+    async synthesizeSpeech(text, voiceName) {
+      const response = await client().models.generateContent({
+        model: MODELS.tts,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+        },
+      });
+      return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data ?? null;
+    },
+
+    async generateJson({ contents, schema }) {
+      const response = await client().models.generateContent({
+        model: MODELS.structured,
+        contents: typeof contents === 'string' ? contents : [{ parts: contents }],
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: schema,
+        },
+      });
+      return JSON.parse(response.text ?? 'null');
+    },
+
+    async generateImage({ prompt, aspectRatio = '1:1' }) {
+      const response = await client().models.generateImages({
+        model: MODELS.image,
+        prompt,
+        config: { numberOfImages: 1, outputMimeType: 'image/jpeg', aspectRatio },
+      });
+      return response.generatedImages?.[0]?.image?.imageBytes ?? null;
+    },
+
+    async connectLive({ voiceName, systemInstruction, callbacks, resumptionHandle }) {
+      return client().live.connect({
+        model: MODELS.live,
+        callbacks,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+          systemInstruction,
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+          // Asks the server for resumption handles; with a handle it restores that session's context.
+          sessionResumption: { handle: resumptionHandle },
+        },
+      });
+    },
+  };
+}
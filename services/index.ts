@@ -0,0 +1,23 @@
+// Selects the AI provider for this build
+
+import { AIProvider } from './aiProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+
+export type { AIProvider } from './aiProvider';
+export { MODELS, OUTPUT_SAMPLE_RATE } from './modelConfig';
+export { createGeminiProvider } from './geminiProvider';
+export { createMockProvider } from './mockProvider';
+
+let defaultProvider: AIProvider | null = null;
+
+/**
+ * Returns the provider chosen at build time: the mock when `AI_PROVIDER=mock`, otherwise Gemini.
+ * @returns The shared provider instance.
+ */
+export function getAIProvider(): AIProvider {
+  if (!defaultProvider) {
+    defaultProvider = process.env.AI_PROVIDER === 'mock' ? createMockProvider() : createGeminiProvider();
+  }
+  return defaultProvider;
+}
@@ -0,0 +1,192 @@
+// Deterministic offline AIProvider for demos and development without an API key or network
+
+import { Schema, Type } from '@google/genai';
+import { encode, float32ToInt16 } from '../utils/audioHelpers';
+import { AIProvider, LiveMessage } from './aiProvider';
+import { OUTPUT_SAMPLE_RATE } from './modelConfig';
+
+const STREAM_DELAY_MS = 30;
+const LIVE_CONNECT_DELAY_MS = 300;
+// Input chunks (128 ms each) the mock live session listens to before "answering".
+const LIVE_CHUNKS_PER_TURN = 24;
+
+/**
+ * Stable 32-bit hash (FNV-1a) so the same input always produces the same mock output.
+ * @param text The text to hash.
+ * @returns An unsigned 32-bit integer.
+ */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+/**
+ * Synthesizes a short two-tone chime as base64 16-bit PCM, with a length that grows with the text.
+ * @param text The text being "spoken".
+ * @returns Base64 PCM at OUTPUT_SAMPLE_RATE.
+ */
+export function mockSpeechPcm(text: string): string {
+  const seconds = Math.min(3, 0.4 + text.length * 0.02);
+  const samples = new Float32Array(Math.round(seconds * OUTPUT_SAMPLE_RATE));
+  const base = 220 + (hashString(text) % 220);
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / OUTPUT_SAMPLE_RATE;
+    const envelope = Math.min(1, t * 20, (seconds - t) * 20);
+    samples[i] = 0.2 * envelope * (Math.sin(2 * Math.PI * base * t) + 0.5 * Math.sin(2 * Math.PI * base * 1.5 * t)) / 1.5;
+  }
+  const pcm = float32ToInt16(samples);
+  return encode(new Uint8Array(pcm.buffer));
+}
+
+/**
+ * Builds a value that satisfies a response schema, seeded from the prompt. A field with a
+ * `default` always gets it, so a mock safety check never interrupts a demo.
+ * @param schema The response schema.
+ * @param seed Hash of the request, so repeated requests return the same value.
+ * @param key Property name the value is for, used to label strings.
+ * @returns A JSON value shaped like the schema.
+ */
+export function mockValueForSchema(schema: Schema, seed: number, key: string = 'value'): unknown {
+  if (schema.default !== undefined) return schema.default;
+  if (schema.enum?.length) return schema.enum[seed % schema.enum.length];
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const result: Record<string, unknown> = {};
+      Object.entries(schema.properties ?? {}).forEach(([name, child], index) => {
+        result[name] = mockValueForSchema(child, hashString(`${seed}:${index}`), name);
+      });
+      return result;
+    }
+    case Type.ARRAY: {
+      const count = Math.max(Number(schema.minItems ?? 0), Math.min(Number(schema.maxItems ?? 3), 3));
+      return Array.from({ length: count }, (_, i) => schema.items ? mockValueForSchema(schema.items, hashString(`${seed}:${i}`), key) : null);
+    }
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      const min = schema.minimum ?? 0;
+      const max = schema.maximum ?? 100;
+      return Math.round(min + (seed % 1000) / 1000 * (max - min));
+    }
+    case Type.BOOLEAN:
+      return seed % 2 === 0;
+    default:
+      return `mock ${key} ${(seed % 1000).toString().padStart(3, '0')}`;
+  }
+}
+
+/**
+ * Draws a placeholder illustration: a gradient seeded from the prompt with the prompt's first words.
+ * @param prompt The image prompt.
+ * @returns Base64 JPEG, or null where canvas rendering is unavailable.
+ */
+function mockImage(prompt: string): string | null {
+  if (typeof document === 'undefined') return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = 256;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const hue = hashString(prompt) % 360;
+  const gradient = ctx.createLinearGradient(0, 0, 256, 256);
+  gradient.addColorStop(0, `hsl(${hue}, 60%, 45%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 60%, 25%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 256, 256);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.font = 'bold 18px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.fillText('MOCK IMAGE', 128, 120);
+  ctx.font = '12px sans-serif';
+  ctx.fillText(prompt.split(/\s+/).slice(0, 6).join(' '), 128, 144, 236);
+  return canvas.toDataURL('image/jpeg').split(',')[1] ?? null;
+}
+
+/**
+ * Creates the mock provider. Every response is derived from its input, so demos and tests are repeatable.
+ * @returns The provider.
+ */
+export function createMockProvider(): AIProvider {
+  return {
+    name: 'mock',
+    requiresApiKey: false,
+
+    async *streamText({ contents, useSearch, signal }) {
+      const lastTurn = contents[contents.length - 1];
+      const prompt = lastTurn?.parts?.map(p => p.text ?? '').join('') ?? '';
+      const answer = `This is a mock answer to "${prompt.trim()}". Connect a Gemini API key to get real responses about Guyanese languages and culture.`;
+      const words = answer.split(/(?<=\s)/);
+      for (let i = 0; i < words.length; i++) {
+        await delay(STREAM_DELAY_MS, signal);
+        const isLast = i === words.length - 1;
+        yield {
+          text: words[i],
+          groundingUrls: useSearch && isLast ? [{ uri: 'https://example.com/mock-source', title: 'Mock source' }] : undefined,
+        };
+      }
+    },
+
+    async synthesizeSpeech(text) {
+      return mockSpeechPcm(text);
+    },
+
+    async generateJson<T>({ contents, schema }) {
+      const seedText = typeof contents === 'string' ? contents : contents.map(p => p.text ?? '').join('');
+      return mockValueForSchema(schema, hashString(seedText)) as T;
+    },
+
+    async generateImage({ prompt }) {
+      return mockImage(prompt);
+    },
+
+    async connectLive({ callbacks }) {
+      let chunksReceived = 0;
+      let turn = 0;
+      let closed = false;
+      const emit = (message: LiveMessage) => {
+        if (!closed) callbacks.onmessage(message);
+      };
+      setTimeout(() => {
+        if (closed) return;
+        callbacks.onopen();
+        // Lets the app exercise session resumption; the mock keeps no context to resume.
+        emit({ sessionResumptionUpdate: { newHandle: `mock-session-${Date.now()}`, resumable: true } });
+      }, LIVE_CONNECT_DELAY_MS);
+
+      return {
+        sendRealtimeInput: () => {
+          if (closed) return;
+          chunksReceived++;
+          if (chunksReceived % LIVE_CHUNKS_PER_TURN !== 0) return;
+          turn++;
+          const reply = `Mock reply number ${turn}. I heard about three seconds of audio.`;
+          emit({ serverContent: { inputTranscription: { text: `(mock speech ${turn})` } } });
+          emit({ serverContent: { outputTranscription: { text: reply } } });
+          emit({ serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: mockSpeechPcm(reply) } }] } } });
+          emit({ serverContent: { turnComplete: true } });
+        },
+        close: () => {
+          if (closed) return;
+          closed = true;
+          callbacks.onclose();
+        },
+      };
+    },
+  };
+}
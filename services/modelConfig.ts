@@ -0,0 +1,14 @@
+// Model IDs used by each capability. Change models here, not in UI code.
+
+export const MODELS = {
+  text: 'gemini-3-flash-preview',
+  structured: 'gemini-3-flash-preview',
+  tts: 'gemini-2.5-flash-preview-tts',
+  image: 'imagen-4.0-generate-001',
+  live: 'gemini-2.5-flash-native-audio-preview-09-2025',
+} as const;
+
+export type ModelCapability = keyof typeof MODELS;
+
+// Sample rate of the 16-bit PCM returned by the TTS and Live models.
+export const OUTPUT_SAMPLE_RATE = 24000;
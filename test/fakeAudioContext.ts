@@ -0,0 +1,129 @@
+// Minimal Web Audio stand-ins for jsdom, which has no AudioContext
+
+export class FakeAudioBuffer {
+  readonly duration: number;
+  private readonly channels: Float32Array[];
+
+  constructor(readonly numberOfChannels: number, readonly length: number, readonly sampleRate: number) {
+    if (length < 1) throw new DOMException('Buffer length must be at least 1.', 'NotSupportedError');
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+    this.duration = length / sampleRate;
+  }
+
+  getChannelData(channel: number): Float32Array {
+    return this.channels[channel];
+  }
+
+  copyToChannel(source: Float32Array, channel: number): void {
+    this.channels[channel].set(source.subarray(0, this.length));
+  }
+}
+
+class FakeAudioNode extends EventTarget {
+  connect = () => this;
+  disconnect = () => {};
+}
+
+export class FakeBufferSource extends FakeAudioNode {
+  buffer: FakeAudioBuffer | null = null;
+  started = false;
+  start = () => { this.started = true; };
+  stop = () => { this.dispatchEvent(new Event('ended')); };
+}
+
+export class FakeScriptProcessor extends FakeAudioNode {
+  onaudioprocess: ((e: { inputBuffer: FakeAudioBuffer }) => void) | null = null;
+
+  /** Feeds samples through the node as if the microphone produced them. */
+  emit(samples: Float32Array): void {
+    const inputBuffer = new FakeAudioBuffer(1, samples.length, 48000);
+    inputBuffer.copyToChannel(samples, 0);
+    this.onaudioprocess?.({ inputBuffer });
+  }
+}
+
+export class FakeAnalyser extends FakeAudioNode {
+  fftSize = 2048;
+  /** Amplitude of the square wave the node reports hearing. */
+  level = 0;
+
+  constructor(readonly context: FakeAudioContext) {
+    super();
+  }
+
+  get frequencyBinCount(): number {
+    return this.fftSize / 2;
+  }
+
+  getFloatTimeDomainData(array: Float32Array): void {
+    for (let i = 0; i < array.length; i++) array[i] = i % 2 ? this.level : -this.level;
+  }
+
+  getByteFrequencyData(array: Uint8Array): void {
+    array.fill(Math.round(this.level * 255));
+  }
+}
+
+export class FakeAudioContext {
+  static instances: FakeAudioContext[] = [];
+  readonly sampleRate: number;
+  readonly destination = new FakeAudioNode();
+  currentTime = 0;
+  state: AudioContextState = 'running';
+  sources: FakeBufferSource[] = [];
+  processors: FakeScriptProcessor[] = [];
+  analysers: FakeAnalyser[] = [];
+
+  constructor(options?: AudioContextOptions) {
+    this.sampleRate = options?.sampleRate ?? 48000;
+    FakeAudioContext.instances.push(this);
+  }
+
+  createBuffer(channels: number, length: number, sampleRate: number) {
+    return new FakeAudioBuffer(channels, length, sampleRate);
+  }
+
+  createBufferSource() {
+    const source = new FakeBufferSource();
+    this.sources.push(source);
+    return source;
+  }
+
+  createGain() {
+    const gain = { value: 1, setValueAtTime: (value: number) => { gain.value = value; } };
+    return Object.assign(new FakeAudioNode(), { gain });
+  }
+
+  createAnalyser() {
+    const analyser = new FakeAnalyser(this);
+    this.analysers.push(analyser);
+    return analyser;
+  }
+
+  createMediaStreamSource() {
+    return new FakeAudioNode();
+  }
+
+  createScriptProcessor() {
+    const processor = new FakeScriptProcessor();
+    this.processors.push(processor);
+    return processor;
+  }
+
+  resume = async () => {};
+  close = async () => { this.state = 'closed'; };
+}
+
+/**
+ * Installs the fake AudioContext and a fake microphone on `window`.
+ */
+export function installFakeAudio(): void {
+  FakeAudioContext.instances = [];
+  Object.assign(window, { AudioContext: FakeAudioContext, webkitAudioContext: undefined });
+  Object.defineProperty(navigator, 'mediaDevices', {
+    configurable: true,
+    value: {
+      getUserMedia: async () => ({ getTracks: () => [{ stop: () => {} }] }),
+    },
+  });
+}
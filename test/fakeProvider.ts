@@ -0,0 +1,42 @@
+// AIProvider whose every method is a vi.fn, for driving components in tests
+
+import { vi } from 'vitest';
+import { AIProvider, LiveSessionCallbacks, TextStreamChunk } from '../services/aiProvider';
+
+export interface FakeLiveSession {
+  callbacks: LiveSessionCallbacks;
+  sendRealtimeInput: ReturnType<typeof vi.fn>;
+  close: ReturnType<typeof vi.fn>;
+}
+
+export type FakeProvider = AIProvider & {
+  [K in keyof AIProvider]: AIProvider[K] extends (...args: any[]) => any ? ReturnType<typeof vi.fn> & AIProvider[K] : AIProvider[K];
+} & {
+  liveSessions: FakeLiveSession[];
+};
+
+/**
+ * Creates a provider that streams `chunks` for every text request and records live sessions.
+ * @param chunks Text pieces each chat answer is streamed in.
+ * @returns The fake provider.
+ */
+export function createFakeProvider(chunks: TextStreamChunk[] = [{ text: 'Hello ' }, { text: 'learner.' }]): FakeProvider {
+  const liveSessions: FakeLiveSession[] = [];
+  const provider = {
+    name: 'fake',
+    requiresApiKey: false,
+    liveSessions,
+    streamText: vi.fn(async function* () {
+      for (const chunk of chunks) yield chunk;
+    }),
+    synthesizeSpeech: vi.fn(async () => null),
+    generateJson: vi.fn(async () => ({ transcription: '/fake/' })),
+    generateImage: vi.fn(async () => null),
+    connectLive: vi.fn(async ({ callbacks }) => {
+      const session = { callbacks, sendRealtimeInput: vi.fn(), close: vi.fn(() => callbacks.onclose()) };
+      liveSessions.push(session);
+      return session;
+    }),
+  };
+  return provider as unknown as FakeProvider;
+}
@@ -0,0 +1,34 @@
+// Builders for the records tests share
+
+import { TranscriptTurn, VocabularyItem } from '../types';
+
+/**
+ * Builds a Macushi card with an English translation, no audio and no transcription.
+ * @param word The card's word; also its id unless `fields` sets one.
+ * @param translation The card's translation.
+ * @param fields Fields to override.
+ * @returns The card.
+ */
+export function createCard(word: string = 'Maimy', translation: string = 'Water', fields: Partial<VocabularyItem> = {}): VocabularyItem {
+  return {
+    id: word,
+    word,
+    wordLanguage: 'Macushi',
+    translation,
+    translationLanguage: 'English',
+    phoneticTranscription: null,
+    audioBase64: null,
+    timestamp: 0,
+    ...fields,
+  };
+}
+
+/**
+ * Builds a finished transcript turn.
+ * @param speaker Who spoke.
+ * @param text What was said; also the turn's id.
+ * @returns The turn.
+ */
+export function createTurn(speaker: TranscriptTurn['speaker'], text: string): TranscriptTurn {
+  return { id: text, speaker, text, startedAt: 0, endedAt: 0, isFinal: true };
+}
@@ -0,0 +1,19 @@
+import '@testing-library/jest-dom/vitest';
+import 'fake-indexeddb/auto';
+import { cleanup } from '@testing-library/react';
+import { afterEach, beforeEach } from 'vitest';
+import { installFakeAudio } from './fakeAudioContext';
+
+// jsdom does not implement layout.
+Element.prototype.scrollIntoView = () => {};
+// Nor canvas drawing; without this it logs an error on every animation frame.
+HTMLCanvasElement.prototype.getContext = (() => null) as never;
+
+beforeEach(() => {
+  localStorage.clear();
+  installFakeAudio();
+});
+
+afterEach(() => {
+  cleanup();
+});
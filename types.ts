@@ -0,0 +1,394 @@
+// Shared data types used across the app.
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ReviewLogEntry {
+  timestamp: number;
+  grade: ReviewGrade;
+  interval: number; // Interval in days chosen after this review (0 = relearning)
+  ease: number;
+}
+
+export interface ReviewSchedule {
+  ease: number;
+  interval: number; // Current interval in days
+  repetitions: number; // Consecutive successful reviews
+  lapses: number;
+  dueDate: number; // Epoch millis
+  history: ReviewLogEntry[];
+}
+
+export interface QuizStats {
+  attempts: number;
+  correct: number;
+  streak: number; // Consecutive correct answers
+  lastAnsweredAt: number;
+}
+
+// A word's pronunciation written for learners who don't read IPA. Fields the model couldn't give are left out.
+export interface PronunciationForms {
+  orthography?: string; // Spelling in the language's practical orthography
+  respelling?: string; // English-friendly respelling, e.g. "MY-mee"
+  syllables?: string; // Syllable breakdown with the stressed syllable in capitals, e.g. "MAI·mi"
+}
+
+// The pronunciation forms a card can show; 'ipa' is phoneticTranscription.
+export type PronunciationForm = 'ipa' | keyof PronunciationForms;
+
+// How a language is written, taken from its knowledge base orthography entries.
+export interface OrthographyProfile {
+  language: string;
+  name: string;
+  guidance: string;
+  knowledgeIds: string[]; // Orthography entries the guidance comes from
+}
+
+export interface VocabularyItem {
+  id: string;
+  word: string;
+  wordLanguage: string;
+  translation: string;
+  translationLanguage: string;
+  phoneticTranscription: string | null; // IPA, in slashes
+  pronunciation?: PronunciationForms;
+  audioBase64: string | null;
+  audioRecorded?: boolean; // True when audioBase64 is the learner's own recording rather than TTS
+  imageBase64?: string | null;
+  voice?: string; // Prebuilt TTS voice used for this card's audio
+  timestamp: number;
+  review?: ReviewSchedule;
+  quiz?: QuizStats;
+  deckId?: string; // Unset for cards in the default deck
+  tags?: string[];
+}
+
+// The parts of a card the learner can edit by hand, plus the generated pronunciation forms that follow the word.
+export type CardFields = Pick<VocabularyItem,
+  'word' | 'wordLanguage' | 'translation' | 'translationLanguage' | 'phoneticTranscription' | 'pronunciation' | 'audioBase64' | 'audioRecorded' | 'imageBase64' | 'tags'>;
+
+export type CardField = keyof CardFields;
+
+export interface CardRevision {
+  id: string;
+  itemId: string;
+  timestamp: number;
+  previous: CardFields; // The card as it was before this change
+  changed: CardField[];
+  restoredFrom?: string; // Set when the change restored an earlier revision
+}
+
+export interface Deck {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface GroundingUrl {
+  uri: string;
+  title: string;
+}
+
+export type ChatRole = 'user' | 'model';
+
+export interface ChatMessage {
+  id: string;
+  role: ChatRole;
+  text: string;
+  timestamp: number;
+  groundingUrls?: GroundingUrl[];
+  citations?: string[]; // Knowledge base entry IDs the answer cited
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PhonemeFeedback {
+  expected: string;
+  heard: string;
+  isCorrect: boolean;
+  tip: string;
+}
+
+export interface PronunciationFeedback {
+  score: number; // 0-100
+  summary: string;
+  phonemes: PhonemeFeedback[];
+}
+
+// 'failed' is shown after reconnecting gives up, until the next session starts.
+export type LiveConnectionState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'failed';
+
+export type TranscriptSpeaker = 'user' | 'assistant';
+
+export interface TranscriptTurn {
+  id: string;
+  speaker: TranscriptSpeaker;
+  text: string;
+  startedAt: number; // Epoch millis
+  endedAt: number;
+  isFinal: boolean;
+  interrupted?: boolean;
+}
+
+export interface LiveSessionTranscript {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  inputLanguage: string;
+  outputLanguage: string;
+  voice: string;
+  turns: TranscriptTurn[];
+  scenario?: { id: string; title: string }; // Roleplay the session was in
+  debrief?: ScenarioDebrief;
+  recording?: LiveSessionRecording;
+}
+
+// A session's mixed audio, which is kept in its own store keyed by session id.
+export interface LiveSessionRecording {
+  sampleRate: number;
+  durationMs: number;
+}
+
+export type KnowledgeEntryKind = 'lexicon' | 'orthography' | 'grammar' | 'culture';
+
+// 'unreviewed' entries are seed material awaiting a community reviewer.
+export type KnowledgeReviewStatus = 'unreviewed' | 'reviewed';
+
+export interface KnowledgeSource {
+  id: string;
+  citation: string;
+  url?: string;
+}
+
+export interface KnowledgeEntry {
+  id: string; // Stable, e.g. 'macushi.lex.tuna'; cited by the model as [kb:<id>]
+  language: string;
+  kind: KnowledgeEntryKind;
+  title: string; // Headword for lexicon entries
+  text: string;
+  keywords: string[];
+  sourceIds: string[];
+  status: KnowledgeReviewStatus;
+}
+
+export interface LanguageKnowledgeBase {
+  language: string;
+  version: number; // Bump when entries change
+  updatedAt: string; // ISO date
+  entries: KnowledgeEntry[];
+  sources: KnowledgeSource[];
+}
+
+// What a correction applies to: a chat answer, or a card's transcription or translation.
+export type CorrectionTarget = 'response' | 'transcription' | 'translation';
+
+export type CorrectionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface Correction {
+  id: string;
+  target: CorrectionTarget;
+  language: string; // Language the corrected content is in
+  context: string; // What was asked, or the card's word, shown to reviewers
+  original: string;
+  proposed: string | null; // null when the content is only flagged as wrong
+  note: string;
+  submittedBy: string;
+  submittedAt: number;
+  status: CorrectionStatus;
+  reviewedBy?: string;
+  reviewedAt?: number;
+  reviewNote?: string;
+  vocabularyItemId?: string; // Card targets
+  threadId?: string; // Response targets
+  messageId?: string;
+}
+
+export interface InterlinearWord {
+  word: string; // As written in the glossed text
+  gloss: string; // Leipzig-style gloss, e.g. 'water-POSS'
+  translation: string; // Plain English meaning, used when saving as a card
+  pronunciation: string; // IPA, or '' if unknown
+}
+
+export interface TranslationResult {
+  sourceLanguage: string;
+  targetLanguage: string;
+  sourceText: string;
+  targetText: string;
+  glossLanguage: string; // Which side the interlinear gloss is for
+  words: InterlinearWord[];
+  confidence: number; // 0-1
+  notes: string;
+}
+
+// A tribal-language term found in a response or transcript, offered as a new card.
+export interface ExtractedTerm {
+  word: string;
+  language: string;
+  translation: string;
+  pronunciation: string; // IPA, or empty if unknown
+  isDuplicate: boolean; // Already in the deck
+}
+
+export type QuizQuestionType = 'word-to-translation' | 'translation-to-word' | 'listening' | 'picture' | 'typed';
+
+export interface QuizQuestion {
+  id: string;
+  type: QuizQuestionType;
+  item: VocabularyItem;
+  options: string[]; // Empty for typed answers
+  answer: string;
+}
+
+// Plausible wrong answers for a card, in both directions.
+export interface QuizDistractors {
+  words: string[];
+  translations: string[];
+}
+
+export type ActivityKind = 'word-added' | 'review' | 'quiz' | 'live' | 'question';
+
+// One entry in the learner's activity log.
+export interface ActivityEvent {
+  id: string;
+  kind: ActivityKind;
+  language: string;
+  timestamp: number;
+  itemId?: string; // Card the event is about (words, reviews and quiz answers)
+  grade?: ReviewGrade; // Reviews
+  correct?: boolean; // Quiz answers
+  durationMs?: number; // Live sessions
+}
+
+export type LessonTheme = 'greetings' | 'numbers' | 'kinship' | 'food' | 'environment';
+
+// A word taught by a unit; knowledgeId points at the lexicon entry it comes from.
+export interface LessonVocabulary {
+  word: string;
+  translation: string;
+  pronunciation?: string; // IPA
+  knowledgeId?: string;
+}
+
+// One line of a unit's model dialogue. `cue` says in English what the line does; `text` is the line itself once a teacher has written it.
+export interface LessonDialogueLine {
+  speaker: 'tutor' | 'learner';
+  cue: string;
+  text?: string;
+}
+
+// Seeds the Live Immersion system instruction for the unit's roleplay.
+export interface LessonRoleplay {
+  setting: string;
+  tutorRole: string;
+  learnerRole: string;
+  goals: string[];
+}
+
+export interface LessonUnit {
+  id: string; // e.g. 'macushi.greetings'
+  language: string;
+  theme: LessonTheme;
+  title: string;
+  summary: string;
+  objectives: string[];
+  meanings: string[]; // English meanings the unit teaches, asked of the tutor when not in `vocabulary`
+  vocabulary: LessonVocabulary[];
+  dialogue: LessonDialogueLine[];
+  roleplay: LessonRoleplay;
+  quiz: { passingScore: number }; // Fraction of quiz answers needed to complete the unit
+}
+
+export interface Curriculum {
+  language: string;
+  version: number;
+  updatedAt: string; // ISO date
+  units: LessonUnit[]; // In the order they unlock
+}
+
+export type LessonStep = 'objectives' | 'vocabulary' | 'dialogue' | 'roleplay' | 'quiz';
+
+export interface LessonUnitProgress {
+  unitId: string;
+  step: LessonStep; // Where the learner resumes
+  startedAt: number;
+  updatedAt: number;
+  completedAt?: number; // Set once the closing quiz is passed
+  bestScore?: number; // Best closing quiz score, 0-1
+}
+
+export type ScenarioDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+// Something the learner should say during a roleplay. `word` is set only when the tribal-language form is known.
+export interface ScenarioTarget {
+  meaning: string;
+  word?: string;
+}
+
+// A Live Immersion roleplay: who the tutor plays, where, and what the learner should practise.
+export interface RoleplayScenario {
+  id: string;
+  title: string;
+  language: string;
+  persona: string; // Who the tutor plays
+  learnerRole: string;
+  setting: string;
+  goals: string[];
+  targets: ScenarioTarget[];
+  difficulty: ScenarioDifficulty;
+  isCustom?: boolean; // Defined by the user rather than bundled
+}
+
+export interface ScenarioTargetUsage extends ScenarioTarget {
+  used: boolean; // The learner said it during the session
+}
+
+// End-of-session summary of a roleplay.
+export interface ScenarioDebrief {
+  summary: string;
+  practised: string[];
+  targets: ScenarioTargetUsage[];
+  nextSteps: string[];
+  isOffline?: boolean; // Built on the device without the model, from literal word matches only
+}
+
+export type CrisisRisk = 'none' | 'possible' | 'high';
+
+export type CrisisCheck = 'rules' | 'classifier' | 'model';
+
+// The outcome of screening one message for suicide or self-harm risk.
+export interface CrisisAssessment {
+  risk: CrisisRisk;
+  signals: string[]; // Names of the rules that matched, for tests and debugging; never shown or stored
+  checkedBy: CrisisCheck[];
+}
+
+// A helpline or service listed in the crisis panel.
+export interface CrisisResource {
+  name: string;
+  phones: string[];
+  sms?: string;
+  url?: string;
+  hours?: string;
+  note?: string;
+}
+
+export interface CrisisRegion {
+  id: string; // ISO 3166 country code, e.g. 'GY'
+  name: string;
+  emergency: string; // Number for police, ambulance or fire
+  resources: CrisisResource[];
+}
+
+export interface CrisisDirectory {
+  version: number;
+  updatedAt: string; // ISO date
+  defaultRegion: string;
+  regions: CrisisRegion[];
+  fallback: string; // Advice for learners outside every listed region
+}
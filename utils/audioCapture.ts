@@ -0,0 +1,261 @@
+// Microphone capture on the audio rendering thread (AudioWorklet), resampled to a fixed rate and chunked
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+export const DEFAULT_CHUNK_SIZE = 2048; // 128 ms at 16 kHz
+
+const PROCESSOR_NAME = 'pcm-capture-processor';
+// Frames the worklet collects before posting to the main thread (~43 ms at 48 kHz).
+const WORKLET_BATCH_SIZE = 2048;
+const FALLBACK_BUFFER_SIZE = 4096;
+
+// Runs in the AudioWorkletGlobalScope, so it is plain JavaScript loaded from a Blob URL.
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.batchSize = options.processorOptions.batchSize;
+    this.buffer = new Float32Array(this.batchSize);
+    this.offset = 0;
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      let i = 0;
+      while (i < channel.length) {
+        const n = Math.min(channel.length - i, this.batchSize - this.offset);
+        this.buffer.set(channel.subarray(i, i + n), this.offset);
+        this.offset += n;
+        i += n;
+        if (this.offset === this.batchSize) {
+          this.port.postMessage(this.buffer, [this.buffer.buffer]);
+          this.buffer = new Float32Array(this.batchSize);
+          this.offset = 0;
+        }
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+/**
+ * Streaming sample-rate converter. Downsampling applies a windowed-sinc low-pass filter first
+ * to avoid aliasing; resampling then uses linear interpolation. State carries across calls so
+ * consecutive chunks join without clicks.
+ */
+export class StreamResampler {
+  private readonly ratio: number;
+  private readonly taps: Float32Array | null;
+  private history: Float32Array;
+  private position = 0;
+  private lastSample = 0;
+
+  constructor(inputRate: number, outputRate: number, filterLength: number = 31) {
+    this.ratio = inputRate / outputRate;
+    this.taps = this.ratio > 1 ? StreamResampler.designLowPass(filterLength, 0.9 / (2 * this.ratio)) : null;
+    this.history = new Float32Array(this.taps ? this.taps.length - 1 : 0);
+  }
+
+  /** How many input samples the low-pass filter delays the audio by; 0 when upsampling, which needs no filter. */
+  get delay(): number {
+    return this.taps ? Math.floor((this.taps.length - 1) / 2) : 0;
+  }
+
+  /**
+   * Drops the next input samples from the output, e.g. to take out the filter delay before the first block.
+   * @param count Number of input samples to skip.
+   */
+  skipInput(count: number): void {
+    this.position += count;
+  }
+
+  // Blackman-windowed sinc low-pass with cutoff given as a fraction of the input rate.
+  private static designLowPass(length: number, cutoff: number): Float32Array {
+    const taps = new Float32Array(length);
+    const middle = (length - 1) / 2;
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      const x = i - middle;
+      const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+      const window = 0.42 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1)) + 0.08 * Math.cos((4 * Math.PI * i) / (length - 1));
+      taps[i] = sinc * window;
+      sum += taps[i];
+    }
+    for (let i = 0; i < length; i++) taps[i] /= sum;
+    return taps;
+  }
+
+  private filter(input: Float32Array): Float32Array {
+    if (!this.taps) return input;
+    const taps = this.taps;
+    const padded = new Float32Array(this.history.length + input.length);
+    padded.set(this.history);
+    padded.set(input, this.history.length);
+    const output = new Float32Array(input.length);
+    for (let n = 0; n < input.length; n++) {
+      let acc = 0;
+      for (let k = 0; k < taps.length; k++) acc += taps[k] * padded[n + k];
+      output[n] = acc;
+    }
+    this.history = padded.slice(padded.length - this.history.length);
+    return output;
+  }
+
+  /**
+   * Converts the next block of input samples.
+   * @param input Samples at the input rate.
+   * @returns Samples at the output rate (length varies slightly from call to call).
+   */
+  process(input: Float32Array): Float32Array {
+    if (input.length === 0) return new Float32Array(0);
+    if (this.ratio === 1) return input.slice();
+    const filtered = this.filter(input);
+    const output: number[] = [];
+    // `pos` is measured in input samples; -1 refers to the last sample of the previous block.
+    let pos = this.position;
+    while (pos <= filtered.length - 1) {
+      const i = Math.floor(pos);
+      const frac = pos - i;
+      const a = i < 0 ? this.lastSample : filtered[i];
+      const b = i + 1 < filtered.length ? filtered[i + 1] : a;
+      output.push(a + (b - a) * frac);
+      pos += this.ratio;
+    }
+    this.position = pos - filtered.length;
+    this.lastSample = filtered[filtered.length - 1];
+    return Float32Array.from(output);
+  }
+}
+
+/**
+ * Regroups a stream of variable-length sample blocks into fixed-size chunks.
+ */
+export class SampleChunker {
+  private buffer: Float32Array;
+  private offset = 0;
+
+  constructor(private readonly chunkSize: number, private readonly onChunk: (chunk: Float32Array) => void) {
+    this.buffer = new Float32Array(chunkSize);
+  }
+
+  /**
+   * Adds samples, emitting every chunk that becomes full.
+   * @param samples The samples to add.
+   */
+  push(samples: Float32Array): void {
+    let i = 0;
+    while (i < samples.length) {
+      const n = Math.min(samples.length - i, this.chunkSize - this.offset);
+      this.buffer.set(samples.subarray(i, i + n), this.offset);
+      this.offset += n;
+      i += n;
+      if (this.offset === this.chunkSize) {
+        this.onChunk(this.buffer);
+        this.buffer = new Float32Array(this.chunkSize);
+        this.offset = 0;
+      }
+    }
+  }
+
+  /**
+   * Emits any buffered samples as a final, shorter chunk.
+   */
+  flush(): void {
+    if (this.offset === 0) return;
+    this.onChunk(this.buffer.slice(0, this.offset));
+    this.buffer = new Float32Array(this.chunkSize);
+    this.offset = 0;
+  }
+}
+
+export interface AudioCaptureOptions {
+  onChunk: (samples: Float32Array) => void;
+  targetSampleRate?: number;
+  chunkSize?: number;
+}
+
+export interface AudioCapture {
+  context: AudioContext;
+  source: MediaStreamAudioSourceNode;
+  usingWorklet: boolean;
+  /** Disconnects the graph, emits any partial chunk and closes the AudioContext. Does not stop the stream's tracks. */
+  stop: () => void;
+}
+
+async function createWorkletNode(context: AudioContext): Promise<AudioWorkletNode | null> {
+  if (!context.audioWorklet || typeof AudioWorkletNode === 'undefined') return null;
+  const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await context.audioWorklet.addModule(url);
+    return new AudioWorkletNode(context, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      processorOptions: { batchSize: WORKLET_BATCH_SIZE },
+    });
+  } catch (e) {
+    console.warn('AudioWorklet unavailable, falling back to ScriptProcessorNode:', e);
+    return null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Starts capturing a media stream as mono samples at `targetSampleRate`, delivered in chunks of
+ * `chunkSize` samples. The AudioContext runs at the device's native rate and audio is resampled,
+ * so capture works on browsers that ignore a requested sample rate. Uses an AudioWorklet where
+ * available and a ScriptProcessorNode otherwise.
+ * @param stream The microphone stream from getUserMedia.
+ * @param options Chunk callback, target rate and chunk size.
+ * @returns A Promise that resolves with the running capture.
+ */
+export async function startAudioCapture(stream: MediaStream, options: AudioCaptureOptions): Promise<AudioCapture> {
+  const { onChunk, targetSampleRate = CAPTURE_SAMPLE_RATE, chunkSize = DEFAULT_CHUNK_SIZE } = options;
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  const resampler = new StreamResampler(context.sampleRate, targetSampleRate);
+  const chunker = new SampleChunker(chunkSize, onChunk);
+  const handleSamples = (samples: Float32Array) => chunker.push(resampler.process(samples));
+
+  let source: MediaStreamAudioSourceNode;
+  let workletNode: AudioWorkletNode | null;
+  let processor: AudioNode;
+  try {
+    await context.resume();
+    source = context.createMediaStreamSource(stream);
+    workletNode = await createWorkletNode(context);
+    if (workletNode) {
+      workletNode.port.onmessage = (e: MessageEvent<Float32Array>) => handleSamples(e.data);
+      processor = workletNode;
+    } else {
+      const scriptNode = context.createScriptProcessor(FALLBACK_BUFFER_SIZE, 1, 1);
+      scriptNode.onaudioprocess = (e) => handleSamples(new Float32Array(e.inputBuffer.getChannelData(0)));
+      processor = scriptNode;
+    }
+    source.connect(processor);
+    // Nodes only process while connected to the destination; both variants output silence.
+    processor.connect(context.destination);
+  } catch (e) {
+    // Browsers cap the number of open contexts, so don't leak one when setup fails.
+    context.close().catch(() => {});
+    throw e;
+  }
+
+  let stopped = false;
+  return {
+    context,
+    source,
+    usingWorklet: !!workletNode,
+    stop: () => {
+      if (stopped) return;
+      stopped = true;
+      if (workletNode) workletNode.port.onmessage = null;
+      source.disconnect();
+      processor.disconnect();
+      chunker.flush();
+      context.close();
+    },
+  };
+}
@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import { createBlob, decode, decodeAudioData, decodeAudioFile, decodeWav, encode, encodeWav, float32ToInt16, normalizeLoudness, resampleAudio, trimSilence } from './audioHelpers';
+import { FakeAudioContext } from '../test/fakeAudioContext';
+
+const context = () => new FakeAudioContext() as unknown as AudioContext;
+
+function pcmBytes(values: number[]): Uint8Array {
+  return new Uint8Array(Int16Array.from(values).buffer);
+}
+
+describe('encode / decode', () => {
+  it('round-trips every byte value', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(decode(encode(bytes))).toEqual(bytes);
+  });
+
+  it('round-trips an empty array', () => {
+    expect(encode(new Uint8Array(0))).toBe('');
+    expect(decode('')).toEqual(new Uint8Array(0));
+  });
+
+  it('produces standard base64', () => {
+    expect(encode(new TextEncoder().encode('Maimy'))).toBe('TWFpbXk=');
+  });
+});
+
+describe('decodeAudioData', () => {
+  it('converts mono Int16 PCM to floats', async () => {
+    const buffer = await decodeAudioData(pcmBytes([0, 16384, -32768]), context(), 24000, 1);
+    expect(buffer.length).toBe(3);
+    expect(buffer.sampleRate).toBe(24000);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0, 0.5, -1]);
+  });
+
+  it('de-interleaves stereo PCM', async () => {
+    const buffer = await decodeAudioData(pcmBytes([100, -100, 200, -200]), context(), 24000, 2);
+    expect(buffer.length).toBe(2);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([100 / 32768, 200 / 32768]);
+    expect(Array.from(buffer.getChannelData(1))).toEqual([-100 / 32768, -200 / 32768]);
+  });
+
+  it('ignores a trailing odd byte', async () => {
+    const bytes = new Uint8Array([...pcmBytes([16384, 8192]), 0x7f]);
+    const buffer = await decodeAudioData(bytes, context(), 24000, 1);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, 0.25]);
+  });
+
+  it('drops an incomplete multi-channel frame', async () => {
+    const buffer = await decodeAudioData(pcmBytes([1, 2, 3]), context(), 24000, 2);
+    expect(buffer.length).toBe(1);
+    expect(buffer.getChannelData(1)[0]).toBe(2 / 32768);
+  });
+
+  it('reads a subarray view at its own offset', async () => {
+    const whole = pcmBytes([32767, 16384]);
+    const buffer = await decodeAudioData(whole.subarray(2), context(), 24000, 1);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5]);
+  });
+});
+
+describe('createBlob', () => {
+  it('labels the data with the sample rate', () => {
+    expect(createBlob(new Float32Array(4)).mimeType).toBe('audio/pcm;rate=16000');
+    expect(createBlob(new Float32Array(4), 24000).mimeType).toBe('audio/pcm;rate=24000');
+  });
+
+  it('clips samples outside [-1, 1] instead of wrapping', () => {
+    const blob = createBlob(Float32Array.from([1, 1.5, -1, -3, 0]));
+    const pcm = new Int16Array(decode(blob.data).buffer);
+    expect(Array.from(pcm)).toEqual([32767, 32767, -32768, -32768, 0]);
+  });
+
+  it('matches float32ToInt16 for in-range samples', () => {
+    const samples = Float32Array.from([0.25, -0.25, 0.999]);
+    expect(new Int16Array(decode(createBlob(samples).data).buffer)).toEqual(float32ToInt16(samples));
+  });
+});
+
+// A WAV file with a hand-written header, for formats encodeWav doesn't produce.
+function wavBytes(format: number, channels: number, sampleRate: number, bitsPerSample: number, data: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(44 + data.length);
+  const view = new DataView(bytes.buffer);
+  const writeString = (offset: number, text: string) => [...text].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + data.length, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, format, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * (bitsPerSample / 8), true);
+  view.setUint16(32, channels * (bitsPerSample / 8), true);
+  view.setUint16(34, bitsPerSample, true);
+  writeString(36, 'data');
+  view.setUint32(40, data.length, true);
+  bytes.set(data, 44);
+  return bytes;
+}
+
+describe('decodeWav', () => {
+  it('reads back what encodeWav writes', () => {
+    const { samples, sampleRate } = decodeWav(encodeWav(Float32Array.from([0, 0.5, -1]), 16000));
+    expect(sampleRate).toBe(16000);
+    expect(Array.from(samples)).toEqual([0, 16383 / 32768, -1]);
+  });
+
+  it('mixes 8-bit stereo down to mono', () => {
+    const { samples } = decodeWav(wavBytes(1, 2, 8000, 8, Uint8Array.from([255, 128, 0, 128])));
+    expect(Array.from(samples)).toEqual([127 / 256, -0.5]);
+  });
+
+  it('reads 32-bit float', () => {
+    const { samples } = decodeWav(wavBytes(3, 1, 48000, 32, new Uint8Array(Float32Array.from([0.25, -0.75]).buffer)));
+    expect(Array.from(samples)).toEqual([0.25, -0.75]);
+  });
+
+  it('rejects other files and encodings', () => {
+    expect(() => decodeWav(new TextEncoder().encode('OggS not a wav file'))).toThrow('Not a WAV file.');
+    expect(() => decodeWav(wavBytes(6, 1, 8000, 8, new Uint8Array(4)))).toThrow('Unsupported WAV encoding (format 6, 8-bit).');
+    expect(() => decodeWav(wavBytes(1, 0, 8000, 16, new Uint8Array(4)))).toThrow('Invalid WAV format (0 channels at 8000 Hz).');
+    expect(() => decodeWav(wavBytes(1, 1, 0, 16, new Uint8Array(4)))).toThrow('Invalid WAV format (1 channels at 0 Hz).');
+  });
+});
+
+describe('resampleAudio', () => {
+  it('converts between the input and output rates', () => {
+    const up = resampleAudio(new Float32Array(1600).fill(0.5), 16000, 24000);
+    expect(up.length).toBe(2400);
+    expect(up[1000]).toBeCloseTo(0.5);
+    expect(up[2399]).toBeCloseTo(0.5);
+    expect(resampleAudio(up, 24000, 16000).length).toBe(1600);
+  });
+
+  it('keeps a downsampled signal in line with the input, without the filter delay', () => {
+    const tone = (rate: number, length: number) => Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * 100 * i) / rate));
+    const down = resampleAudio(tone(48000, 4800), 48000, 16000);
+    expect(down.length).toBe(1600);
+    const expected = tone(16000, 1600);
+    // The first and last few samples see the filter's edges.
+    for (let i = 10; i < 1590; i += 7) expect(Math.abs(down[i] - expected[i])).toBeLessThan(0.01);
+  });
+});
+
+describe('normalizeLoudness', () => {
+  it('brings quiet audio up to the target level', () => {
+    const quiet = Float32Array.from({ length: 100 }, (_, i) => (i % 2 ? 0.01 : -0.01));
+    expect(normalizeLoudness(quiet, -20)[0]).toBeCloseTo(-0.1);
+  });
+
+  it('keeps peaks under the ceiling', () => {
+    const spiky = new Float32Array(100).fill(0.01);
+    spiky[50] = 0.5;
+    const result = normalizeLoudness(spiky, -6, -6);
+    expect(Math.max(...result)).toBeCloseTo(10 ** (-6 / 20));
+  });
+
+  it('leaves silence alone', () => {
+    expect(Array.from(normalizeLoudness(new Float32Array(3)))).toEqual([0, 0, 0]);
+  });
+});
+
+describe('trimSilence', () => {
+  it('cuts the silence around the sound but keeps some padding', () => {
+    const samples = new Float32Array(1000);
+    samples.fill(0.5, 400, 500);
+    // 10 ms of padding at 1 kHz is 10 samples either side.
+    const trimmed = trimSilence(samples, 1000, -45, 10);
+    expect(trimmed).toHaveLength(120);
+    expect(trimmed[10]).toBe(0.5);
+  });
+
+  it('returns nothing for a silent recording', () => {
+    expect(trimSilence(new Float32Array(100).fill(0.001), 16000)).toHaveLength(0);
+  });
+});
+
+describe('decodeAudioFile', () => {
+  it('decodes a WAV file and converts it to the wanted rate', async () => {
+    const wav = encodeWav(new Float32Array(1600).fill(0.5), 16000);
+    const samples = await decodeAudioFile(wav.buffer as ArrayBuffer, 24000);
+    expect(samples.length).toBeCloseTo(2400, -1);
+    expect(samples[1000]).toBeCloseTo(0.5, 3);
+  });
+});
@@ -1,5 +1,7 @@
 // Utility functions for audio encoding/decoding and blob creation
 
+import { StreamResampler } from './audioCapture';
+
 /**
  * Decodes a base64 string into a Uint8Array.
  * @param base64 The base64 encoded string.
@@ -44,15 +46,16 @@ export async function decodeAudioData(
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+  // Read through a DataView so subarrays and odd byte lengths work; a trailing partial frame is dropped.
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const frameCount = Math.floor(data.byteLength / 2 / numChannels);
+  const buffer = ctx.createBuffer(numChannels, Math.max(frameCount, 1), sampleRate);
 
   for (let channel = 0; channel < numChannels; channel++) {
     const channelData = buffer.getChannelData(channel);
     for (let i = 0; i < frameCount; i++) {
       // Convert Int16 PCM to Float32 range [-1, 1]
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+      channelData[i] = view.getInt16((i * numChannels + channel) * 2, true) / 32768.0;
     }
   }
   return buffer;
@@ -61,18 +64,306 @@ export async function decodeAudioData(
 /**
  * Creates a Blob object containing base64 encoded PCM audio data.
  * @param data The Float32Array containing audio samples from the microphone.
+ * @param sampleRate The sample rate of the samples (the Live API expects 16kHz).
  * @returns An object with base64 encoded data and mimeType.
  */
-export function createBlob(data: Float32Array): { data: string; mimeType: string } {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    // Convert Float32 (-1 to 1) to Int16 (-32768 to 32767)
-    int16[i] = data[i] * 32768;
-  }
+export function createBlob(data: Float32Array, sampleRate: number = 16000): { data: string; mimeType: string } {
+  // Convert Float32 (-1 to 1) to Int16 (-32768 to 32767), clamping so +1.0 doesn't wrap around
+  const int16 = float32ToInt16(data);
   return {
     data: encode(new Uint8Array(int16.buffer)),
     // The supported audio MIME type is 'audio/pcm'. Do not use other types.
-    mimeType: 'audio/pcm;rate=16000', // Live API expects 16kHz audio
+    mimeType: `audio/pcm;rate=${sampleRate}`,
+  };
+}
+
+/**
+ * Converts raw 16-bit PCM bytes into Float32 samples in the range [-1, 1].
+ * @param data The Uint8Array containing little-endian Int16 PCM data.
+ * @returns A Float32Array with one sample per Int16 value.
+ */
+export function pcm16ToFloat32(data: Uint8Array): Float32Array {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const samples = new Float32Array(Math.floor(data.byteLength / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true) / 32768.0;
+  }
+  return samples;
+}
+
+/**
+ * Converts Float32 samples into 16-bit PCM, clamping values outside [-1, 1].
+ * @param samples The Float32Array of audio samples.
+ * @returns An Int16Array of PCM samples.
+ */
+export function float32ToInt16(samples: Float32Array): Int16Array {
+  const int16 = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    int16[i] = s < 0 ? s * 32768 : s * 32767;
+  }
+  return int16;
+}
+
+/**
+ * Wraps mono Float32 samples in a 16-bit PCM WAV file.
+ * @param samples The Float32Array of audio samples.
+ * @param sampleRate The sample rate of the samples.
+ * @returns A Uint8Array containing the complete WAV file.
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Uint8Array {
+  const pcm = float32ToInt16(samples);
+  const buffer = new ArrayBuffer(44 + pcm.byteLength);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
   };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+  new Int16Array(buffer, 44).set(pcm);
+  return new Uint8Array(buffer);
+}
+
+/**
+ * Reads a WAV file. Integer PCM of 8 to 32 bits and 32-bit float are supported; channels are mixed down to mono.
+ * @param bytes The complete WAV file.
+ * @returns The mono samples and their sample rate.
+ * @throws If the data is not a WAV file, uses another encoding or declares no channels or sample rate.
+ */
+export function decodeWav(bytes: Uint8Array): { samples: Float32Array; sampleRate: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const readString = (offset: number, length: number) => String.fromCharCode(...bytes.subarray(offset, offset + length));
+  if (bytes.byteLength < 12 || readString(0, 4) !== 'RIFF' || readString(8, 4) !== 'WAVE') throw new Error('Not a WAV file.');
+
+  let format: { code: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const id = readString(offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      const code = view.getUint16(body, true);
+      format = {
+        // WAVE_FORMAT_EXTENSIBLE keeps the real format code at the start of its sub-format GUID.
+        code: code === 0xfffe && size >= 26 ? view.getUint16(body + 24, true) : code,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (id === 'data') {
+      if (!format) throw new Error('WAV file has no format chunk.');
+      const { code, channels, sampleRate, bitsPerSample } = format;
+      const isFloat = code === 3 && bitsPerSample === 32;
+      if (!isFloat && (code !== 1 || ![8, 16, 24, 32].includes(bitsPerSample))) {
+        throw new Error(`Unsupported WAV encoding (format ${code}, ${bitsPerSample}-bit).`);
+      }
+      if (channels < 1 || sampleRate === 0) throw new Error(`Invalid WAV format (${channels} channels at ${sampleRate} Hz).`);
+      const bytesPerSample = bitsPerSample / 8;
+      const frames = Math.floor(Math.min(size, bytes.byteLength - body) / (bytesPerSample * channels));
+      const read = (at: number) => {
+        switch (bitsPerSample) {
+          case 8: return (view.getUint8(at) - 128) / 128;
+          case 16: return view.getInt16(at, true) / 32768;
+          case 24: return ((view.getUint8(at + 2) << 24) | (view.getUint8(at + 1) << 16) | (view.getUint8(at) << 8)) / 2147483648;
+          default: return isFloat ? view.getFloat32(at, true) : view.getInt32(at, true) / 2147483648;
+        }
+      };
+      const samples = new Float32Array(frames);
+      for (let i = 0; i < frames; i++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++) sum += read(body + (i * channels + c) * bytesPerSample);
+        samples[i] = sum / channels;
+      }
+      return { samples, sampleRate };
+    }
+    offset = body + size + (size % 2); // Chunks are padded to an even length
+  }
+  throw new Error('WAV file has no audio data.');
+}
+
+/**
+ * Converts a whole recording to another sample rate, e.g. between the 16 kHz microphone rate and the
+ * 24 kHz output rate. Unlike streaming through StreamResampler, the filter is flushed and its delay
+ * taken out, so the result lines up with the input and is exactly as long.
+ * @param samples The samples.
+ * @param inputRate Their sample rate.
+ * @param outputRate The wanted sample rate.
+ * @returns The resampled samples: `samples.length * outputRate / inputRate` of them, rounded.
+ */
+export function resampleAudio(samples: Float32Array, inputRate: number, outputRate: number): Float32Array {
+  if (inputRate === outputRate) return samples.slice();
+  const resampler = new StreamResampler(inputRate, outputRate);
+  const { delay } = resampler;
+  // Trailing silence pushes the last real samples out through the filter.
+  const flushed = new Float32Array(samples.length + delay);
+  flushed.set(samples);
+  resampler.skipInput(delay);
+  const converted = resampler.process(flushed);
+  const output = new Float32Array(Math.round((samples.length * outputRate) / inputRate));
+  output.set(converted.subarray(0, output.length));
+  // Past the last input sample, hold it rather than fall to silence.
+  if (converted.length > 0) output.fill(converted[converted.length - 1], Math.min(converted.length, output.length));
+  return output;
+}
+
+const toDb = (amplitude: number) => 20 * Math.log10(Math.max(amplitude, 1e-10));
+const fromDb = (db: number) => 10 ** (db / 20);
+
+/**
+ * Scales audio to a target loudness, measured as RMS level, without letting peaks go above a ceiling.
+ * @param samples The samples.
+ * @param targetDb The wanted RMS level in dBFS.
+ * @param ceilingDb The highest peak allowed in dBFS.
+ * @returns The scaled samples; silence is returned unchanged.
+ */
+export function normalizeLoudness(samples: Float32Array, targetDb: number = -20, ceilingDb: number = -1): Float32Array {
+  let sumSquares = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i];
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  if (peak === 0) return samples.slice();
+  const rms = Math.sqrt(sumSquares / samples.length);
+  const gain = Math.min(fromDb(targetDb - toDb(rms)), fromDb(ceilingDb) / peak);
+  return samples.map(s => s * gain);
+}
+
+/**
+ * Cuts leading and trailing silence, keeping a little padding so words aren't clipped.
+ * @param samples The samples.
+ * @param sampleRate Their sample rate.
+ * @param thresholdDb Level below which audio counts as silence, in dBFS.
+ * @param paddingMs Audio kept either side of the sound.
+ * @returns The trimmed samples, or an empty array if everything is silent.
+ */
+export function trimSilence(samples: Float32Array, sampleRate: number, thresholdDb: number = -45, paddingMs: number = 100): Float32Array {
+  const threshold = fromDb(thresholdDb);
+  let first = 0;
+  while (first < samples.length && Math.abs(samples[first]) < threshold) first++;
+  if (first === samples.length) return new Float32Array(0);
+  let last = samples.length - 1;
+  while (Math.abs(samples[last]) < threshold) last--;
+  const padding = Math.round((paddingMs / 1000) * sampleRate);
+  return samples.slice(Math.max(0, first - padding), Math.min(samples.length, last + 1 + padding));
+}
+
+/**
+ * Tidies a microphone recording before it is saved: trims the silence around it and evens out its level.
+ * @param samples The recorded samples.
+ * @param sampleRate Their sample rate.
+ * @returns The cleaned-up samples; an all-silent recording comes back empty.
+ */
+export function cleanUpRecording(samples: Float32Array, sampleRate: number): Float32Array {
+  return normalizeLoudness(trimSilence(samples, sampleRate));
+}
+
+// Preferred first; browsers differ in which containers their MediaRecorder can write.
+const OPUS_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus'];
+
+/**
+ * Finds the Opus format this browser can record, if any.
+ * @returns The MIME type, or null if Opus encoding is unavailable.
+ */
+export function getOpusMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return OPUS_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+/**
+ * Compresses audio to Opus with the browser's MediaRecorder. The audio is played into the
+ * recorder silently, so encoding takes as long as the audio lasts.
+ * @param samples The samples.
+ * @param sampleRate Their sample rate.
+ * @returns A Promise that resolves with the Opus file (WebM or Ogg).
+ * @throws If the browser cannot encode Opus.
+ */
+export async function encodeOpus(samples: Float32Array, sampleRate: number): Promise<Blob> {
+  const mimeType = getOpusMimeType();
+  if (!mimeType || samples.length === 0) throw new Error('This browser cannot encode Opus audio.');
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate });
+  try {
+    const buffer = context.createBuffer(1, samples.length, sampleRate);
+    buffer.copyToChannel(samples, 0);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    const destination = context.createMediaStreamDestination();
+    source.connect(destination);
+    const recorder = new MediaRecorder(destination.stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    const finished = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+    source.addEventListener('ended', () => recorder.stop());
+    recorder.start();
+    source.start();
+    await finished;
+    return new Blob(chunks, { type: mimeType.split(';')[0] });
+  } finally {
+    context.close();
+  }
+}
+
+/**
+ * Decodes an audio file: WAV is read directly, and any other format the browser can play
+ * (e.g. Opus, MP3, M4A) through the Web Audio API.
+ * @param data The file contents.
+ * @param outputRate The sample rate to convert to.
+ * @returns Mono samples at outputRate.
+ * @throws If the file cannot be decoded.
+ */
+export async function decodeAudioFile(data: ArrayBuffer, outputRate: number): Promise<Float32Array> {
+  const bytes = new Uint8Array(data);
+  if (String.fromCharCode(...bytes.subarray(0, 4)) === 'RIFF') {
+    const { samples, sampleRate } = decodeWav(bytes);
+    return sampleRate === outputRate ? samples : resampleAudio(samples, sampleRate, outputRate);
+  }
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    // decodeAudioData detaches the buffer it is given.
+    const buffer = await context.decodeAudioData(data.slice(0));
+    const mono = new Float32Array(buffer.length);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      const channel = buffer.getChannelData(c);
+      for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+    }
+    return buffer.sampleRate === outputRate ? mono : resampleAudio(mono, buffer.sampleRate, outputRate);
+  } catch (e) {
+    throw new Error(`The file could not be read as audio: ${e instanceof Error ? e.message : String(e)}`);
+  } finally {
+    context.close();
+  }
+}
+
+/**
+ * Reduces audio samples to per-bucket peak amplitudes for drawing a waveform.
+ * @param samples The Float32Array of audio samples.
+ * @param buckets The number of bars to produce.
+ * @returns A Float32Array of peak absolute amplitudes in [0, 1].
+ */
+export function computeWaveformPeaks(samples: Float32Array, buckets: number): Float32Array {
+  const peaks = new Float32Array(buckets);
+  if (samples.length === 0) return peaks;
+  const size = samples.length / buckets;
+  for (let b = 0; b < buckets; b++) {
+    const start = Math.floor(b * size);
+    const end = Math.max(start + 1, Math.floor((b + 1) * size));
+    let peak = 0;
+    for (let i = start; i < end && i < samples.length; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    peaks[b] = Math.min(1, peak);
+  }
+  return peaks;
 }
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { InputLevelMonitor, computeSpectrumBars, levelToMeterFraction, measureLevel } from './audioLevels';
+
+const tone = (amplitude: number) => Float32Array.from({ length: 256 }, (_, i) => (i % 2 ? amplitude : -amplitude));
+
+describe('measureLevel', () => {
+  it('gives the RMS level in dBFS and the peak', () => {
+    const { db, peak } = measureLevel(tone(0.1));
+    expect(db).toBeCloseTo(-20);
+    expect(peak).toBeCloseTo(0.1);
+    expect(measureLevel(new Float32Array(4)).db).toBe(-Infinity);
+  });
+
+  it('places levels on the meter scale', () => {
+    expect(levelToMeterFraction(-Infinity)).toBe(0);
+    expect(levelToMeterFraction(-30)).toBe(0.5);
+    expect(levelToMeterFraction(3)).toBe(1);
+  });
+});
+
+describe('InputLevelMonitor', () => {
+  it('holds the clipping warning for a moment', () => {
+    const monitor = new InputLevelMonitor();
+    expect(monitor.update(tone(1), 0).isClipping).toBe(true);
+    expect(monitor.update(tone(0.1), 500).isClipping).toBe(true);
+    expect(monitor.update(tone(0.1), 1000).isClipping).toBe(false);
+  });
+
+  it('warns after several seconds with nothing louder than a murmur', () => {
+    const monitor = new InputLevelMonitor();
+    monitor.update(tone(0.001), 0);
+    expect(monitor.update(tone(0.001), 4999).isTooQuiet).toBe(false);
+    expect(monitor.update(tone(0.001), 5000).isTooQuiet).toBe(true);
+    expect(monitor.update(tone(0.1), 5100).isTooQuiet).toBe(false);
+  });
+
+  it('does not count time the assistant spends talking', () => {
+    const monitor = new InputLevelMonitor();
+    monitor.update(tone(0.001), 0);
+    monitor.update(tone(0.001), 4000, false);
+    expect(monitor.update(tone(0.001), 6000).isTooQuiet).toBe(false);
+  });
+});
+
+describe('computeSpectrumBars', () => {
+  it('averages the bins up to the highest frequency shown', () => {
+    // 16 bins of 1 kHz each at 32 kHz; 8 kHz spans the first 8 bins.
+    const data = Uint8Array.from({ length: 16 }, (_, i) => (i < 4 ? 255 : i < 8 ? 51 : 255));
+    const [low, high] = computeSpectrumBars(data, 32000, 2);
+    expect(low).toBe(1);
+    expect(high).toBeCloseTo(0.2);
+  });
+});
@@ -0,0 +1,88 @@
+// Level metering for the live visualizer: loudness, clipping, a too-quiet warning and spectrum bars
+
+const CLIPPING_LEVEL = 0.99;
+const CLIPPING_HOLD_MS = 1000; // Keeps a brief clip visible long enough to notice
+const TOO_QUIET_DB = -50; // Peak level normal speech comfortably clears
+const TOO_QUIET_WINDOW_MS = 5000;
+export const METER_FLOOR_DB = -60; // Bottom of the level meter's scale
+
+export interface InputLevel {
+  db: number; // RMS level in dBFS
+  isClipping: boolean;
+  isTooQuiet: boolean;
+}
+
+/**
+ * Measures a block of samples.
+ * @param samples The samples.
+ * @returns The RMS level in dBFS (-Infinity for silence) and the absolute peak.
+ */
+export function measureLevel(samples: Float32Array): { db: number; peak: number } {
+  let sumSquares = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i];
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  const rms = samples.length ? Math.sqrt(sumSquares / samples.length) : 0;
+  return { db: 20 * Math.log10(rms), peak };
+}
+
+/**
+ * Tracks the microphone level from frame to frame. Clipping is held for a moment after it happens,
+ * and the input counts as too quiet when nothing louder than a murmur has arrived for several
+ * seconds while the learner was expected to speak.
+ */
+export class InputLevelMonitor {
+  private lastClippedAt = -Infinity;
+  private lastHeardAt: number | null = null;
+
+  /**
+   * Adds a frame of microphone samples.
+   * @param samples The latest time-domain samples.
+   * @param now The current time in millis.
+   * @param isListening False while the assistant speaks, when the learner is expected to be quiet.
+   * @returns The level to show.
+   */
+  update(samples: Float32Array, now: number, isListening: boolean = true): InputLevel {
+    const { db, peak } = measureLevel(samples);
+    if (peak >= CLIPPING_LEVEL) this.lastClippedAt = now;
+    if (this.lastHeardAt === null || !isListening || 20 * Math.log10(peak) >= TOO_QUIET_DB) this.lastHeardAt = now;
+    return {
+      db,
+      isClipping: now - this.lastClippedAt < CLIPPING_HOLD_MS,
+      isTooQuiet: now - this.lastHeardAt >= TOO_QUIET_WINDOW_MS,
+    };
+  }
+}
+
+/**
+ * Converts a level to a position on the level meter.
+ * @param db The level in dBFS.
+ * @returns 0 at METER_FLOOR_DB or below, up to 1 at full scale.
+ */
+export function levelToMeterFraction(db: number): number {
+  return Math.min(1, Math.max(0, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+}
+
+/**
+ * Groups an analyser's frequency bins into bars covering the speech range.
+ * @param frequencyData Byte magnitudes from AnalyserNode.getByteFrequencyData.
+ * @param sampleRate The analyser's context rate.
+ * @param bars The number of bars.
+ * @param maxHz The highest frequency shown.
+ * @returns Bar heights from 0 to 1.
+ */
+export function computeSpectrumBars(frequencyData: Uint8Array, sampleRate: number, bars: number, maxHz: number = 8000): Float32Array {
+  const binHz = sampleRate / 2 / frequencyData.length;
+  const usedBins = Math.max(bars, Math.min(frequencyData.length, Math.ceil(maxHz / binHz)));
+  const result = new Float32Array(bars);
+  for (let bar = 0; bar < bars; bar++) {
+    const start = Math.floor((bar * usedBins) / bars);
+    const end = Math.max(start + 1, Math.floor(((bar + 1) * usedBins) / bars));
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += frequencyData[i] ?? 0;
+    result[bar] = sum / (end - start) / 255;
+  }
+  return result;
+}
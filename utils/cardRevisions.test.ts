@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { cardFields, changedCardFields, describeRevision, editCard, normalizeCardFields, restoreCardRevision } from './cardRevisions';
+import { createCard } from '../test/fixtures';
+
+const item = createCard('Maimy', 'Water', {
+  id: 'c1',
+  phoneticTranscription: '/ˈmaɪ.mi/',
+  audioBase64: 'AAAA',
+  imageBase64: null,
+  timestamp: 1,
+  review: { ease: 2.5, interval: 3, repetitions: 1, lapses: 0, dueDate: 5, history: [] },
+});
+
+describe('normalizeCardFields', () => {
+  it('trims text, blanks an empty IPA and de-duplicates tags', () => {
+    const fields = normalizeCardFields({ ...cardFields(item), word: ' Maimy ', phoneticTranscription: '  ', tags: ['food', 'Food', ' '] });
+    expect(fields).toMatchObject({ word: 'Maimy', phoneticTranscription: null, tags: ['food'] });
+    expect(normalizeCardFields({ ...cardFields(item), tags: [] }).tags).toBeUndefined();
+  });
+
+  it('only marks audio as recorded while there is audio', () => {
+    expect(normalizeCardFields({ ...cardFields(item), audioBase64: null, audioRecorded: true }).audioRecorded).toBeUndefined();
+  });
+});
+
+describe('editCard', () => {
+  it('applies the edit and keeps the previous version as a revision', () => {
+    const result = editCard(item, { ...cardFields(item), phoneticTranscription: '/ˈmaɪ.mɨ/' }, 10);
+    expect(result?.item).toMatchObject({ phoneticTranscription: '/ˈmaɪ.mɨ/', review: item.review, audioBase64: 'AAAA' });
+    expect(result?.revision).toMatchObject({ itemId: 'c1', timestamp: 10, changed: ['phoneticTranscription'] });
+    expect(result?.revision.previous.phoneticTranscription).toBe('/ˈmaɪ.mi/');
+    expect(describeRevision(result!.revision)).toBe('IPA');
+  });
+
+  it('returns null when nothing changed', () => {
+    expect(editCard(item, { ...cardFields(item), word: 'Maimy ' })).toBeNull();
+    expect(changedCardFields(cardFields(item), { ...cardFields(item), tags: [] })).toEqual([]);
+  });
+
+  it('drops generated audio when the word changes but keeps a recording', () => {
+    expect(editCard(item, { ...cardFields(item), word: 'Maimi' })?.item.audioBase64).toBeNull();
+    const recorded = { ...item, audioRecorded: true };
+    expect(editCard(recorded, { ...cardFields(recorded), word: 'Maimi' })?.item.audioBase64).toBe('AAAA');
+  });
+
+  it('drops pronunciation forms of the old spelling when the word or language changes', () => {
+    const withForms = { ...item, pronunciation: { respelling: 'MY-mee' } };
+    const renamed = editCard(withForms, { ...cardFields(withForms), wordLanguage: 'Patamona' })!;
+    expect(renamed.item.pronunciation).toBeUndefined();
+    expect(renamed.revision.changed).toContain('pronunciation');
+    expect(editCard(withForms, { ...cardFields(withForms), translation: 'Rain' })?.item.pronunciation).toEqual({ respelling: 'MY-mee' });
+
+    const restored = restoreCardRevision(renamed.item, renamed.revision)!;
+    expect(restored.item).toMatchObject({ wordLanguage: 'Macushi', pronunciation: { respelling: 'MY-mee' } });
+  });
+
+  it('records a new recording replacing generated audio', () => {
+    const result = editCard(item, { ...cardFields(item), audioBase64: 'BBBB', audioRecorded: true });
+    expect(result?.item).toMatchObject({ audioBase64: 'BBBB', audioRecorded: true });
+    expect(describeRevision(result!.revision)).toBe('Audio');
+  });
+});
+
+describe('restoreCardRevision', () => {
+  it('puts the earlier version back and records the restore so it can be undone', () => {
+    const edit = editCard(item, { ...cardFields(item), translation: 'Rain', imageBase64: 'IMG' }, 10)!;
+    const restore = restoreCardRevision(edit.item, edit.revision, 20)!;
+    expect(cardFields(restore.item)).toEqual(cardFields(item));
+    expect(restore.revision).toMatchObject({ restoredFrom: edit.revision.id, changed: ['translation', 'imageBase64'] });
+    expect(restore.revision.previous).toMatchObject({ translation: 'Rain', imageBase64: 'IMG' });
+    expect(describeRevision(restore.revision)).toBe('Restored earlier version (Translation, Image)');
+
+    const redo = restoreCardRevision(restore.item, restore.revision, 30)!;
+    expect(redo.item).toMatchObject({ translation: 'Rain', imageBase64: 'IMG' });
+  });
+});
@@ -0,0 +1,140 @@
+// Hand edits to vocabulary cards, with every earlier version kept as a revision for undo
+
+import { CardField, CardFields, CardRevision, PronunciationForms, VocabularyItem } from '../types';
+import { createId } from './ids';
+import { mergeTags } from './decks';
+
+export const CARD_FIELDS: CardField[] = [
+  'word',
+  'wordLanguage',
+  'translation',
+  'translationLanguage',
+  'phoneticTranscription',
+  'pronunciation',
+  'audioBase64',
+  'audioRecorded',
+  'imageBase64',
+  'tags',
+];
+
+export const CARD_FIELD_LABELS: Record<CardField, string> = {
+  word: 'Word',
+  wordLanguage: 'Language',
+  translation: 'Translation',
+  translationLanguage: 'Translation language',
+  phoneticTranscription: 'IPA',
+  pronunciation: 'Pronunciation',
+  audioBase64: 'Audio',
+  audioRecorded: 'Audio',
+  imageBase64: 'Image',
+  tags: 'Tags',
+};
+
+const PRONUNCIATION_KEYS: (keyof PronunciationForms)[] = ['orthography', 'respelling', 'syllables'];
+
+// Symbols offered next to the IPA field, since most keyboards can't type them.
+export const IPA_SYMBOLS = ['ə', 'ɛ', 'ɔ', 'ɪ', 'ʊ', 'æ', 'ɑ', 'ɨ', 'ɯ', '̃', 'ŋ', 'ɲ', 'ʃ', 'ʒ', 'tʃ', 'ʔ', 'ɾ', 'ː', 'ˈ', 'ˌ'];
+
+/**
+ * Copies the editable fields of a card.
+ * @param item The card.
+ * @returns The field values.
+ */
+export function cardFields(item: VocabularyItem): CardFields {
+  return {
+    word: item.word,
+    wordLanguage: item.wordLanguage,
+    translation: item.translation,
+    translationLanguage: item.translationLanguage,
+    phoneticTranscription: item.phoneticTranscription,
+    pronunciation: item.pronunciation,
+    audioBase64: item.audioBase64,
+    audioRecorded: item.audioRecorded,
+    imageBase64: item.imageBase64 ?? null,
+    tags: item.tags,
+  };
+}
+
+/**
+ * Tidies edited fields: trims text, turns a blank IPA into null and de-duplicates tags.
+ * @param fields The fields as entered.
+ * @returns The cleaned fields.
+ */
+export function normalizeCardFields(fields: CardFields): CardFields {
+  const tags = mergeTags([], fields.tags ?? []);
+  return {
+    ...fields,
+    word: fields.word.trim(),
+    wordLanguage: fields.wordLanguage.trim(),
+    translation: fields.translation.trim(),
+    translationLanguage: fields.translationLanguage.trim(),
+    phoneticTranscription: fields.phoneticTranscription?.trim() || null,
+    audioBase64: fields.audioBase64 || null,
+    audioRecorded: fields.audioBase64 && fields.audioRecorded ? true : undefined,
+    imageBase64: fields.imageBase64 || null,
+    tags: tags.length ? tags : undefined,
+  };
+}
+
+/**
+ * Lists the fields that differ between two versions of a card.
+ * @param before The earlier fields.
+ * @param after The later fields.
+ * @returns The changed field names, in CARD_FIELDS order.
+ */
+export function changedCardFields(before: CardFields, after: CardFields): CardField[] {
+  const same = (a: unknown, b: unknown) => (a ?? null) === (b ?? null);
+  return CARD_FIELDS.filter(field => {
+    if (field === 'tags') return (before.tags ?? []).join('\n') !== (after.tags ?? []).join('\n');
+    if (field === 'pronunciation') return PRONUNCIATION_KEYS.some(key => !same(before.pronunciation?.[key], after.pronunciation?.[key]));
+    return !same(before[field], after[field]);
+  });
+}
+
+/**
+ * Applies an edit to a card and records the card's previous state as a revision.
+ * @param item The card before the edit.
+ * @param fields The edited fields.
+ * @param now When the edit was made.
+ * @returns The updated card and its revision, or null if nothing changed.
+ */
+export function editCard(item: VocabularyItem, fields: CardFields, now: number = Date.now()): { item: VocabularyItem; revision: CardRevision } | null {
+  const previous = cardFields(item);
+  let next = normalizeCardFields(fields);
+  // Generated audio and pronunciation forms of the old spelling are dropped so the card regenerates them;
+  // a recording is kept.
+  if (next.word !== previous.word || next.wordLanguage !== previous.wordLanguage) {
+    if (next.audioBase64 === previous.audioBase64 && !next.audioRecorded) next = { ...next, audioBase64: null };
+    if (next.pronunciation === previous.pronunciation) next = { ...next, pronunciation: undefined };
+  }
+  const changed = changedCardFields(previous, next);
+  if (changed.length === 0) return null;
+  return {
+    item: { ...item, ...next },
+    revision: { id: createId(), itemId: item.id, timestamp: now, previous, changed },
+  };
+}
+
+/**
+ * Puts a card back the way it was before a revision. The restore is itself recorded, so it can be undone too.
+ * @param item The card as it is now.
+ * @param revision The revision to go back to.
+ * @param now When the restore was made.
+ * @returns The restored card and the new revision, or null if the card already matches.
+ */
+export function restoreCardRevision(item: VocabularyItem, revision: CardRevision, now: number = Date.now()): { item: VocabularyItem; revision: CardRevision } | null {
+  // Revisions saved before pronunciation forms were recorded leave the card's forms alone.
+  const previous = 'pronunciation' in revision.previous ? revision.previous : { ...revision.previous, pronunciation: item.pronunciation };
+  const result = editCard(item, previous, now);
+  return result && { ...result, revision: { ...result.revision, restoredFrom: revision.id } };
+}
+
+/**
+ * Describes what a revision changed, for the history list.
+ * @param revision The revision.
+ * @returns E.g. "IPA, Image" or "Restored earlier version (IPA)".
+ */
+export function describeRevision(revision: CardRevision): string {
+  const labels = [...new Set(revision.changed.map(field => CARD_FIELD_LABELS[field]))].join(', ');
+  return revision.restoredFrom ? `Restored earlier version (${labels})` : labels;
+}
@@ -0,0 +1,76 @@
+// Helpers for multi-turn Text Learning Assistant threads and their persistence
+
+import { ChatMessage, ChatRole, ChatThread } from '../types';
+import { createId } from './ids';
+
+const THREADS_STORAGE_KEY = 'guyanese_threads_v1';
+const MAX_TITLE_LENGTH = 48;
+
+/**
+ * Creates a chat message.
+ * @param role Who sent the message.
+ * @param text The message text.
+ * @returns A new ChatMessage.
+ */
+export function createChatMessage(role: ChatRole, text: string): ChatMessage {
+  return { id: createId(), role, text, timestamp: Date.now() };
+}
+
+/**
+ * Creates an empty thread.
+ * @param title Optional title; replaced by the first prompt when left empty.
+ * @returns A new ChatThread.
+ */
+export function createChatThread(title: string = ''): ChatThread {
+  const now = Date.now();
+  return { id: createId(), title, messages: [], createdAt: now, updatedAt: now };
+}
+
+/**
+ * Derives a short thread title from the learner's first prompt.
+ * @param prompt The prompt text.
+ * @returns A single-line title of at most MAX_TITLE_LENGTH characters.
+ */
+export function deriveThreadTitle(prompt: string): string {
+  const singleLine = prompt.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_TITLE_LENGTH ? `${singleLine.substring(0, MAX_TITLE_LENGTH - 1)}…` : singleLine;
+}
+
+/**
+ * Converts a thread's messages into the `contents` array expected by generateContent.
+ * Empty messages (e.g. an aborted answer that never streamed) are dropped.
+ * @param messages The conversation so far, oldest first.
+ * @returns Gemini Content objects with user/model roles.
+ */
+export function toGeminiContents(messages: ChatMessage[]): { role: ChatRole; parts: { text: string }[] }[] {
+  return messages
+    .filter(m => m.text.trim())
+    .map(m => ({ role: m.role, parts: [{ text: m.text }] }));
+}
+
+/**
+ * Loads saved threads from localStorage, newest first.
+ * @returns The saved threads, or an empty list if none are stored or the data is unreadable.
+ */
+export function loadChatThreads(): ChatThread[] {
+  try {
+    const stored = localStorage.getItem(THREADS_STORAGE_KEY);
+    const threads: ChatThread[] = stored ? JSON.parse(stored) : [];
+    return threads.sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.error('Failed to load chat threads:', error);
+    return [];
+  }
+}
+
+/**
+ * Saves threads to localStorage. Threads without messages are not persisted.
+ * @param threads The threads to save.
+ */
+export function saveChatThreads(threads: ChatThread[]): void {
+  try {
+    localStorage.setItem(THREADS_STORAGE_KEY, JSON.stringify(threads.filter(t => t.messages.length > 0)));
+  } catch (error) {
+    console.error('Failed to save chat threads:', error);
+  }
+}
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { applyCorrectionToVocabulary, createCorrection, formatCorrectionsContext, getPromptCorrections, loadReviewerName, reviewCorrection, saveReviewerName } from './corrections';
+import { createCard } from '../test/fixtures';
+
+const card = createCard('tuna', 'River', { id: 'card-1', phoneticTranscription: '/tuna/' });
+
+const cardCorrection = (target: 'translation' | 'transcription', proposed: string | null) => createCorrection({
+  target,
+  language: 'Macushi',
+  context: 'tuna',
+  original: target === 'translation' ? 'River' : '/tuna/',
+  proposed,
+  note: '  ',
+  submittedBy: ' Ana ',
+  vocabularyItemId: 'card-1',
+}, 1000);
+
+describe('createCorrection', () => {
+  it('starts pending with trimmed fields', () => {
+    const correction = cardCorrection('translation', '  Water ');
+    expect(correction).toMatchObject({ status: 'pending', proposed: 'Water', note: '', submittedBy: 'Ana', submittedAt: 1000 });
+    expect(correction.id).toBeTruthy();
+  });
+
+  it('treats an empty proposal as a flag', () => {
+    expect(cardCorrection('translation', '   ').proposed).toBeNull();
+  });
+});
+
+describe('reviewCorrection', () => {
+  it('records the reviewer and lets them adjust the final text', () => {
+    const reviewed = reviewCorrection(cardCorrection('translation', 'Water'), 'approved', 'Elder Joseph', { finalText: 'Water (drinking)', reviewNote: ' ok ' }, 2000);
+    expect(reviewed).toMatchObject({ status: 'approved', proposed: 'Water (drinking)', reviewedBy: 'Elder Joseph', reviewedAt: 2000, reviewNote: 'ok' });
+  });
+
+  it('keeps the proposal when rejecting', () => {
+    const reviewed = reviewCorrection(cardCorrection('translation', 'Water'), 'rejected', 'Elder Joseph', { finalText: 'ignored' });
+    expect(reviewed.proposed).toBe('Water');
+  });
+});
+
+describe('applyCorrectionToVocabulary', () => {
+  it('updates the corrected field of an approved card correction', () => {
+    const translation = reviewCorrection(cardCorrection('translation', 'Water'), 'approved', 'R');
+    const transcription = reviewCorrection(cardCorrection('transcription', '/ˈtu.na/'), 'approved', 'R');
+    const deck = applyCorrectionToVocabulary(applyCorrectionToVocabulary([card], translation), transcription);
+    expect(deck[0]).toMatchObject({ translation: 'Water', phoneticTranscription: '/ˈtu.na/' });
+  });
+
+  it('ignores pending, rejected and flag-only corrections', () => {
+    const deck = [card];
+    expect(applyCorrectionToVocabulary(deck, cardCorrection('translation', 'Water'))).toBe(deck);
+    expect(applyCorrectionToVocabulary(deck, reviewCorrection(cardCorrection('translation', 'Water'), 'rejected', 'R'))).toBe(deck);
+    expect(applyCorrectionToVocabulary(deck, reviewCorrection(cardCorrection('translation', null), 'approved', 'R'))).toBe(deck);
+  });
+});
+
+describe('prompt corrections', () => {
+  it('selects approved corrections for the conversation languages, newest first', () => {
+    const older = reviewCorrection(cardCorrection('translation', 'Water'), 'approved', 'R', {}, 1);
+    const newer = reviewCorrection(cardCorrection('transcription', '/ˈtu.na/'), 'approved', 'R', {}, 2);
+    const pending = cardCorrection('translation', 'Lake');
+    const otherLanguage = { ...newer, id: 'x', language: 'Warrau' };
+    expect(getPromptCorrections([older, newer, pending, otherLanguage], ['English', 'Macushi']).map(c => c.id)).toEqual([newer.id, older.id]);
+  });
+
+  it('formats corrections and flags', () => {
+    const fixed = reviewCorrection(cardCorrection('translation', 'Water'), 'approved', 'R', { reviewNote: 'River is a different word' });
+    const flagged = reviewCorrection(cardCorrection('transcription', null), 'approved', 'R');
+    expect(formatCorrectionsContext([fixed, flagged])).toBe([
+      '- Macushi card translation for "tuna": "Water", not "River" (River is a different word)',
+      '- Macushi phonetic transcription for "tuna": "/tuna/" is wrong',
+    ].join('\n'));
+  });
+});
+
+describe('reviewer name', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('is remembered on this device', () => {
+    expect(loadReviewerName()).toBe('');
+    saveReviewerName(' Ana ');
+    expect(loadReviewerName()).toBe('Ana');
+  });
+});
@@ -0,0 +1,127 @@
+// Community corrections: submitting, reviewing and applying fixes to AI-generated content
+
+import { Correction, CorrectionStatus, CorrectionTarget, VocabularyItem } from '../types';
+import { createId } from './ids';
+
+const REVIEWER_NAME_KEY = 'guyanese_reviewer_name';
+export const PROMPT_CORRECTION_LIMIT = 20;
+const PROMPT_EXCERPT_LENGTH = 200;
+
+export const CORRECTION_TARGET_LABELS: Record<CorrectionTarget, string> = {
+  response: 'Assistant answer',
+  transcription: 'Phonetic transcription',
+  translation: 'Card translation',
+};
+
+export type CorrectionInput = Omit<Correction, 'id' | 'status' | 'submittedAt' | 'reviewedBy' | 'reviewedAt' | 'reviewNote'>;
+
+/**
+ * Creates a pending correction.
+ * @param input What is being corrected, by whom, and the proposed fix (null to only flag it).
+ * @param now Submission time.
+ * @returns The new correction.
+ */
+export function createCorrection(input: CorrectionInput, now: number = Date.now()): Correction {
+  const proposed = input.proposed?.trim() || null;
+  return {
+    ...input,
+    proposed,
+    note: input.note.trim(),
+    submittedBy: input.submittedBy.trim(),
+    id: createId(),
+    status: 'pending',
+    submittedAt: now,
+  };
+}
+
+/**
+ * Records a reviewer's decision. Approving may replace the proposed text with the reviewer's final wording.
+ * @param correction The pending correction.
+ * @param decision 'approved' or 'rejected'.
+ * @param reviewer The reviewer's name.
+ * @param options An optional final text and review note.
+ * @param now Review time.
+ * @returns The reviewed correction.
+ */
+export function reviewCorrection(
+  correction: Correction,
+  decision: Exclude<CorrectionStatus, 'pending'>,
+  reviewer: string,
+  options: { finalText?: string; reviewNote?: string } = {},
+  now: number = Date.now(),
+): Correction {
+  const finalText = options.finalText?.trim();
+  return {
+    ...correction,
+    status: decision,
+    proposed: decision === 'approved' && finalText ? finalText : correction.proposed,
+    reviewedBy: reviewer.trim(),
+    reviewedAt: now,
+    reviewNote: options.reviewNote?.trim() || undefined,
+  };
+}
+
+/**
+ * Applies an approved card correction to the deck. Other corrections leave the deck unchanged.
+ * @param items The deck.
+ * @param correction The correction.
+ * @returns The updated deck.
+ */
+export function applyCorrectionToVocabulary(items: VocabularyItem[], correction: Correction): VocabularyItem[] {
+  if (correction.status !== 'approved' || !correction.proposed || !correction.vocabularyItemId) return items;
+  const field = correction.target === 'transcription' ? 'phoneticTranscription' : correction.target === 'translation' ? 'translation' : null;
+  if (!field) return items;
+  return items.map(item => item.id === correction.vocabularyItemId ? { ...item, [field]: correction.proposed } : item);
+}
+
+/**
+ * Selects approved corrections relevant to a conversation, newest first.
+ * @param corrections All corrections.
+ * @param languages The conversation's languages.
+ * @param limit Maximum number to include.
+ * @returns The corrections to pass to the model.
+ */
+export function getPromptCorrections(corrections: Correction[], languages: string[], limit: number = PROMPT_CORRECTION_LIMIT): Correction[] {
+  return corrections
+    .filter(c => c.status === 'approved' && languages.includes(c.language))
+    .sort((a, b) => (b.reviewedAt ?? 0) - (a.reviewedAt ?? 0))
+    .slice(0, limit);
+}
+
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > PROMPT_EXCERPT_LENGTH ? `${flat.slice(0, PROMPT_EXCERPT_LENGTH)}…` : flat;
+}
+
+/**
+ * Formats approved corrections for inclusion in a system instruction.
+ * @param corrections Approved corrections.
+ * @returns One line per correction.
+ */
+export function formatCorrectionsContext(corrections: Correction[]): string {
+  return corrections
+    .map(c => {
+      const fix = c.proposed
+        ? `"${excerpt(c.proposed)}", not "${excerpt(c.original)}"`
+        : `"${excerpt(c.original)}" is wrong`;
+      const note = c.reviewNote || c.note;
+      return `- ${c.language} ${CORRECTION_TARGET_LABELS[c.target].toLowerCase()} for "${excerpt(c.context)}": ${fix}${note ? ` (${excerpt(note)})` : ''}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Reads the reviewer name remembered on this device.
+ * @returns The name, or an empty string.
+ */
+export function loadReviewerName(): string {
+  return localStorage.getItem(REVIEWER_NAME_KEY) ?? '';
+}
+
+/**
+ * Remembers the reviewer name on this device.
+ * @param name The name to remember.
+ */
+export function saveReviewerName(name: string): void {
+  localStorage.setItem(REVIEWER_NAME_KEY, name.trim());
+}
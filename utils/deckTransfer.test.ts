@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { applyDeckImport, detectDeckFormat, exportDeckAnkiTsv, exportDeckCsv, exportDeckJson, parseCsv, parseDeckFile, planDeckImport } from './deckTransfer';
+import { createCard } from '../test/fixtures';
+
+const deck = [
+  createCard('Maimy', 'Water', { id: '1', timestamp: 1, phoneticTranscription: '/ˈmaɪ.mi/', tags: ['nature', 'first words'] }),
+  createCard('kamo', 'Sun, "the day"\nand its light', {
+    id: '2',
+    timestamp: 2,
+    wordLanguage: 'Wai-Wai',
+    audioBase64: 'AAAA',
+    review: { ease: 2.6, interval: 4, repetitions: 2, lapses: 1, dueDate: 50, history: [{ timestamp: 10, grade: 'good', interval: 4, ease: 2.6 }] },
+    quiz: { attempts: 3, correct: 2, streak: 1, lastAnsweredAt: 20 },
+  }),
+];
+
+describe('JSON bundles', () => {
+  it('round-trips cards with their review schedule and quiz record', () => {
+    const imported = parseDeckFile('deck.json', exportDeckJson(deck));
+    expect(imported).toEqual(deck.map(item => ({ ...item, imageBase64: null, pronunciation: undefined, audioRecorded: undefined })));
+
+    const plan = planDeckImport([], imported);
+    expect(applyDeckImport([], plan, 'skip', { keepProgress: true })[1]).toMatchObject({ review: deck[1].review, quiz: deck[1].quiz });
+  });
+
+  it('starts imported cards fresh unless asked to keep their progress', () => {
+    const [, shared] = applyDeckImport([], planDeckImport([], parseDeckFile('deck.json', exportDeckJson(deck))), 'skip');
+    expect(shared).toMatchObject({ word: 'kamo', review: undefined, quiz: undefined });
+  });
+
+  it('skips malformed items instead of rejecting the file', () => {
+    const text = JSON.stringify([
+      { word: 'tuna', translation: 'River', wordLanguage: 42, translationLanguage: { name: 'English' }, phoneticTranscription: 7, review: { ease: 'high' }, quiz: [] },
+      { word: 12, translation: 'Sun' },
+      null,
+    ]);
+    const [item, ...rest] = parseDeckFile('deck.json', text);
+    expect(rest).toEqual([]);
+    expect(item).toMatchObject({ word: 'tuna', wordLanguage: 'English', translationLanguage: 'English', phoneticTranscription: null, review: undefined, quiz: undefined });
+  });
+
+  it('rejects bundles from a newer version', () => {
+    const text = JSON.stringify({ format: 'guyanese-lingua-deck', version: 99, items: [] });
+    expect(() => parseDeckFile('deck.json', text)).toThrow('newer than this app supports');
+  });
+});
+
+describe('CSV', () => {
+  it('quotes fields with commas, quotes and newlines', () => {
+    expect(parseCsv('a,"b, ""c""\nd",e\r\n1,2,3')).toEqual([['a', 'b, "c"\nd', 'e'], ['1', '2', '3']]);
+  });
+
+  it('round-trips cards and tags', () => {
+    const imported = parseDeckFile('deck.csv', exportDeckCsv(deck));
+    expect(imported.map(i => [i.word, i.wordLanguage, i.translation, i.tags])).toEqual([
+      ['Maimy', 'Macushi', 'Water', ['nature', 'first words']],
+      ['kamo', 'Wai-Wai', 'Sun, "the day"\nand its light', undefined],
+    ]);
+    expect(imported[1]).toMatchObject({ id: '2', audioBase64: 'AAAA', timestamp: 2, review: undefined });
+  });
+});
+
+describe('Anki TSV', () => {
+  it('maps language tags back to the language, including hyphenated names', () => {
+    const text = exportDeckAnkiTsv(deck);
+    expect(detectDeckFormat('deck.txt', text)).toBe('anki');
+    expect(text).toContain('\tWai_Wai');
+
+    const imported = parseDeckFile('deck.txt', text);
+    expect(imported.map(i => [i.word, i.wordLanguage, i.translation, i.phoneticTranscription, i.tags])).toEqual([
+      ['Maimy', 'Macushi', 'Water', '/ˈmaɪ.mi/', ['nature', 'first words']],
+      ['kamo', 'Wai-Wai', 'Sun, "the day" and its light', null, undefined],
+    ]);
+  });
+});
+
+describe('duplicates', () => {
+  it('merges missing fields into an existing card and keeps its progress', () => {
+    const existing = [createCard('kamo', 'Sun', { id: 'mine', wordLanguage: 'Wai-Wai', quiz: { attempts: 1, correct: 1, streak: 1, lastAnsweredAt: 5 } })];
+    const plan = planDeckImport(existing, [deck[1]]);
+    expect(plan.newItems).toEqual([]);
+
+    const [merged] = applyDeckImport(existing, plan, 'merge');
+    expect(merged).toMatchObject({ id: 'mine', translation: 'Sun', audioBase64: 'AAAA', quiz: existing[0].quiz });
+  });
+});
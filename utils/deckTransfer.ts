@@ -0,0 +1,383 @@
+// Import and export of the vocabulary deck as a JSON bundle, CSV or Anki TSV
+
+import { QuizStats, ReviewGrade, ReviewLogEntry, ReviewSchedule, VocabularyItem } from '../types';
+import { GUYANESE_LANGUAGES } from '../constants';
+import { createId } from './ids';
+import { mergeTags } from './decks';
+import { normalizePronunciationForms } from './orthography';
+import { REVIEW_GRADES } from './srs';
+
+export type DeckFormat = 'json' | 'csv' | 'anki';
+export type DuplicateStrategy = 'skip' | 'merge' | 'replace';
+
+export const DECK_BUNDLE_FORMAT = 'guyanese-lingua-deck';
+export const DECK_BUNDLE_VERSION = 1;
+
+export interface DeckBundle {
+  format: typeof DECK_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  items: VocabularyItem[];
+}
+
+export interface DeckImportPlan {
+  newItems: VocabularyItem[];
+  duplicates: { existing: VocabularyItem; incoming: VocabularyItem }[];
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'word',
+  'wordLanguage',
+  'translation',
+  'translationLanguage',
+  'phoneticTranscription',
+  'audioBase64',
+  'imageBase64',
+  'timestamp',
+  'tags',
+] as const;
+
+// Separates tags inside the single CSV "tags" field.
+const CSV_TAG_SEPARATOR = ';';
+
+/**
+ * Builds the key used to detect duplicate cards: the same word in the same language.
+ * @param item The vocabulary item (only word and wordLanguage are read).
+ * @returns A normalized comparison key.
+ */
+export function vocabularyKey(item: Pick<VocabularyItem, 'word' | 'wordLanguage'>): string {
+  const normalize = (value: string) => value.normalize('NFC').trim().toLowerCase();
+  return `${normalize(item.word)}|${normalize(item.wordLanguage)}`;
+}
+
+/**
+ * Serializes the deck as a versioned JSON bundle. Review schedules and quiz records are included
+ * and are kept on import only when the learner asks for it.
+ * @param items The vocabulary items to export.
+ * @returns The JSON text.
+ */
+export function exportDeckJson(items: VocabularyItem[]): string {
+  const bundle: DeckBundle = {
+    format: DECK_BUNDLE_FORMAT,
+    version: DECK_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    items,
+  };
+  return JSON.stringify(bundle, null, 2);
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serializes the deck as RFC 4180 CSV with a header row. Media is stored as base64 columns.
+ * @param items The vocabulary items to export.
+ * @returns The CSV text.
+ */
+export function exportDeckCsv(items: VocabularyItem[]): string {
+  const rows = items.map(item => CSV_COLUMNS.map(column => escapeCsvField(
+    column === 'tags' ? (item.tags ?? []).join(CSV_TAG_SEPARATOR) : String(item[column] ?? ''),
+  )).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
+
+// Anki tags cannot contain spaces, so anything that isn't a letter or digit becomes an underscore.
+function toAnkiTag(value: string): string {
+  return value.replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_+|_+$/g, '');
+}
+
+// Maps a language tag back to the language it was made from, e.g. 'Wai_Wai' to 'Wai-Wai'.
+function languageFromAnkiTag(tag: string): string {
+  return GUYANESE_LANGUAGES.find(language => toAnkiTag(language).toLowerCase() === tag.toLowerCase()) ?? tag.replace(/_/g, ' ');
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Serializes the deck in Anki's plain-text import format (File > Import, tab separated, HTML enabled).
+ * Images are embedded as data URIs on the back of the card. Anki's text import cannot carry audio,
+ * so cached audio is only included in the JSON and CSV exports.
+ * @param items The vocabulary items to export.
+ * @returns The TSV text including Anki's header directives.
+ */
+export function exportDeckAnkiTsv(items: VocabularyItem[]): string {
+  const clean = (value: string) => value.replace(/[\t\r\n]+/g, ' ');
+  const lines = items.map(item => {
+    const back = [
+      escapeHtml(item.translation),
+      item.phoneticTranscription ? `<i>${escapeHtml(item.phoneticTranscription)}</i>` : '',
+      item.imageBase64 ? `<img src="data:image/jpeg;base64,${item.imageBase64}">` : '',
+    ].filter(Boolean).join('<br>');
+    // The language is always the first tag; the learner's own tags follow it.
+    const tags = [item.wordLanguage, ...(item.tags ?? [])].map(toAnkiTag).filter(Boolean).join(' ');
+    return [clean(escapeHtml(item.word)), clean(back), tags].join('\t');
+  });
+  return ['#separator:tab', '#html:true', '#columns:Front\tBack\tTags', '#tags column:3', ...lines].join('\n');
+}
+
+/**
+ * Parses CSV text into rows of fields, handling quoted fields with embedded commas, quotes and newlines.
+ * @param text The CSV text.
+ * @returns The rows, each an array of field values.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(f => f.trim()));
+}
+
+function normalizeImportedTags(raw: unknown): string[] | undefined {
+  const tags = Array.isArray(raw)
+    ? mergeTags([], raw.filter((t): t is string => typeof t === 'string'))
+    : typeof raw === 'string' ? mergeTags([], raw.split(CSV_TAG_SEPARATOR)) : [];
+  return tags.length ? tags : undefined;
+}
+
+// Imported files are untrusted, so fields of the wrong type are treated as missing.
+function importedString(raw: unknown): string {
+  return typeof raw === 'string' ? raw.trim() : '';
+}
+
+function isRecord(raw: unknown): raw is Record<string, unknown> {
+  return !!raw && typeof raw === 'object' && !Array.isArray(raw);
+}
+
+function isFiniteNumber(raw: unknown): raw is number {
+  return typeof raw === 'number' && Number.isFinite(raw);
+}
+
+function normalizeImportedReviewEntry(raw: unknown): ReviewLogEntry | null {
+  if (!isRecord(raw) || !REVIEW_GRADES.includes(raw.grade as ReviewGrade)) return null;
+  const { timestamp, interval, ease } = raw;
+  if (!isFiniteNumber(timestamp) || !isFiniteNumber(interval) || !isFiniteNumber(ease)) return null;
+  return { timestamp, grade: raw.grade as ReviewGrade, interval, ease };
+}
+
+function normalizeImportedReview(raw: unknown): ReviewSchedule | undefined {
+  if (!isRecord(raw)) return undefined;
+  const { ease, interval, repetitions, lapses, dueDate } = raw;
+  if (!isFiniteNumber(ease) || !isFiniteNumber(interval) || !isFiniteNumber(repetitions) || !isFiniteNumber(lapses) || !isFiniteNumber(dueDate)) return undefined;
+  const history = (Array.isArray(raw.history) ? raw.history : [])
+    .map(normalizeImportedReviewEntry)
+    .filter((entry): entry is ReviewLogEntry => entry !== null);
+  return { ease, interval, repetitions, lapses, dueDate, history };
+}
+
+function normalizeImportedQuiz(raw: unknown): QuizStats | undefined {
+  if (!isRecord(raw)) return undefined;
+  const { attempts, correct, streak, lastAnsweredAt } = raw;
+  if (!isFiniteNumber(attempts) || !isFiniteNumber(correct) || !isFiniteNumber(streak) || !isFiniteNumber(lastAnsweredAt)) return undefined;
+  return { attempts, correct, streak, lastAnsweredAt };
+}
+
+// Decks are local to this device, so imported cards never keep a deckId.
+function normalizeImportedItem(raw: Partial<VocabularyItem>): VocabularyItem | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const word = importedString(raw.word);
+  const translation = importedString(raw.translation);
+  if (!word || !translation) return null;
+  const timestamp = Number(raw.timestamp);
+  const audioBase64 = importedString(raw.audioBase64) || null;
+  return {
+    id: importedString(raw.id) || createId(),
+    word,
+    wordLanguage: importedString(raw.wordLanguage) || 'English',
+    translation,
+    translationLanguage: importedString(raw.translationLanguage) || 'English',
+    phoneticTranscription: importedString(raw.phoneticTranscription) || null,
+    pronunciation: normalizePronunciationForms(raw.pronunciation),
+    audioBase64,
+    audioRecorded: audioBase64 && raw.audioRecorded === true ? true : undefined,
+    imageBase64: importedString(raw.imageBase64) || null,
+    timestamp: Number.isFinite(timestamp) && timestamp > 0 ? timestamp : Date.now(),
+    review: normalizeImportedReview(raw.review),
+    quiz: normalizeImportedQuiz(raw.quiz),
+    tags: normalizeImportedTags(raw.tags),
+  };
+}
+
+function parseJsonBundle(text: string): Partial<VocabularyItem>[] {
+  const data = JSON.parse(text);
+  // A bare array is accepted too, which is what the app kept in localStorage.
+  if (Array.isArray(data)) return data;
+  if (data?.format !== DECK_BUNDLE_FORMAT || !Array.isArray(data.items)) {
+    throw new Error('This JSON file is not a Guyanese Tribal Lingua deck.');
+  }
+  if (typeof data.version !== 'number' || data.version > DECK_BUNDLE_VERSION) {
+    throw new Error(`Deck bundle version ${data.version} is newer than this app supports (${DECK_BUNDLE_VERSION}).`);
+  }
+  return data.items;
+}
+
+function parseCsvDeck(text: string): Partial<VocabularyItem>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || !header.includes('word') || !header.includes('translation')) {
+    throw new Error('CSV files need a header row with at least "word" and "translation" columns.');
+  }
+  return rows.map(row => {
+    const record: Record<string, string> = {};
+    header.forEach((column, index) => { record[column.trim()] = row[index] ?? ''; });
+    return record as unknown as Partial<VocabularyItem>;
+  });
+}
+
+function htmlToText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return doc.body.textContent?.trim() ?? '';
+}
+
+function parseAnkiTsv(text: string, defaultLanguage: string): Partial<VocabularyItem>[] {
+  return text
+    .split(/\r?\n/)
+    .filter(line => line.trim() && !line.startsWith('#'))
+    .map(line => {
+      const [front = '', back = '', tags = ''] = line.split('\t');
+      const segments = back.split(/<br\s*\/?>/i);
+      const image = back.match(/<img[^>]+src="data:image\/[a-z]+;base64,([^"]+)"/i)?.[1] ?? null;
+      const transcription = segments.map(htmlToText).find(s => /^\/.*\/$|^\[.*\]$/.test(s)) ?? null;
+      const [language, ...extraTags] = tags.trim().split(/\s+/).filter(Boolean);
+      return {
+        word: htmlToText(front),
+        translation: htmlToText(segments[0] ?? ''),
+        wordLanguage: language ? languageFromAnkiTag(language) : defaultLanguage,
+        phoneticTranscription: transcription,
+        imageBase64: image,
+        tags: extraTags.map(t => t.replace(/_/g, ' ')),
+      };
+    });
+}
+
+/**
+ * Detects the format of an imported file from its name and contents.
+ * @param filename The file name.
+ * @param text The file contents.
+ * @returns The detected format.
+ */
+export function detectDeckFormat(filename: string, text: string): DeckFormat {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith('.json') || /^\s*[[{]/.test(text)) return 'json';
+  if (lower.endsWith('.tsv') || lower.endsWith('.txt') || text.startsWith('#separator:tab')) return 'anki';
+  return 'csv';
+}
+
+/**
+ * Parses an imported deck file into vocabulary items. Rows without a word or translation are dropped.
+ * @param filename The file name, used for format detection.
+ * @param text The file contents.
+ * @param defaultLanguage Language used for Anki rows that carry no language tag.
+ * @returns The parsed items.
+ * @throws Error if the file is not a recognizable deck.
+ */
+export function parseDeckFile(filename: string, text: string, defaultLanguage: string = 'English'): VocabularyItem[] {
+  const format = detectDeckFormat(filename, text);
+  const raw = format === 'json' ? parseJsonBundle(text) : format === 'csv' ? parseCsvDeck(text) : parseAnkiTsv(text, defaultLanguage);
+  const items = raw.map(normalizeImportedItem).filter((item): item is VocabularyItem => item !== null);
+  if (items.length === 0) throw new Error('No cards with both a word and a translation were found in this file.');
+  return items;
+}
+
+/**
+ * Splits imported items into brand-new cards and duplicates of cards already in the deck.
+ * Duplicates within the imported file itself are collapsed to the first occurrence.
+ * @param existing The current deck.
+ * @param incoming The parsed imported items.
+ * @returns The import plan.
+ */
+export function planDeckImport(existing: VocabularyItem[], incoming: VocabularyItem[]): DeckImportPlan {
+  const existingByKey = new Map(existing.map(item => [vocabularyKey(item), item]));
+  const existingIds = new Set(existing.map(item => item.id));
+  const seen = new Set<string>();
+  const plan: DeckImportPlan = { newItems: [], duplicates: [] };
+
+  for (const item of incoming) {
+    const key = vocabularyKey(item);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const match = existingByKey.get(key);
+    if (match) {
+      plan.duplicates.push({ existing: match, incoming: item });
+    } else {
+      // Review schedules and quiz records from a JSON bundle stay on the plan; applyDeckImport decides whether to keep them.
+      plan.newItems.push({ ...item, id: existingIds.has(item.id) ? createId() : item.id });
+    }
+  }
+  return plan;
+}
+
+/**
+ * Merges an imported duplicate into an existing card, filling in fields the existing card lacks.
+ * The learner's own review schedule and quiz record are always kept.
+ * @param existing The card already in the deck.
+ * @param incoming The imported duplicate.
+ * @returns The merged card.
+ */
+export function mergeVocabularyItems(existing: VocabularyItem, incoming: VocabularyItem): VocabularyItem {
+  return {
+    ...existing,
+    translation: existing.translation || incoming.translation,
+    phoneticTranscription: existing.phoneticTranscription || incoming.phoneticTranscription,
+    pronunciation: existing.pronunciation ?? incoming.pronunciation,
+    audioBase64: existing.audioBase64 || incoming.audioBase64,
+    imageBase64: existing.imageBase64 || incoming.imageBase64,
+    tags: incoming.tags ? mergeTags(existing.tags ?? [], incoming.tags) : existing.tags,
+  };
+}
+
+/**
+ * Applies an import plan to the deck. New cards start with a fresh review schedule and quiz record
+ * for this learner, so a teacher's shared deck doesn't bring the teacher's due dates with it.
+ * @param existing The current deck.
+ * @param plan The plan from planDeckImport.
+ * @param strategy How to handle duplicates: keep the existing card, merge missing fields, or overwrite.
+ * @param options `keepProgress` keeps the file's review schedules and quiz records on new cards, for restoring one's own backup.
+ * @returns The new deck with imported cards first.
+ */
+export function applyDeckImport(existing: VocabularyItem[], plan: DeckImportPlan, strategy: DuplicateStrategy, options: { keepProgress?: boolean } = {}): VocabularyItem[] {
+  const newItems = options.keepProgress ? plan.newItems : plan.newItems.map(item => ({ ...item, review: undefined, quiz: undefined }));
+  const updates = new Map<string, VocabularyItem>();
+  if (strategy !== 'skip') {
+    for (const { existing: current, incoming } of plan.duplicates) {
+      updates.set(current.id, strategy === 'merge'
+        ? mergeVocabularyItems(current, incoming)
+        : { ...incoming, id: current.id, deckId: current.deckId, review: current.review, quiz: current.quiz });
+    }
+  }
+  return [...newItems, ...existing.map(item => updates.get(item.id) ?? item)];
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { VocabularyItem } from '../types';
+import { ALL, DEFAULT_DECK, DEFAULT_VOCABULARY_FILTER, collectTags, copyCardsToDeck, filterVocabulary, matchesSearch, moveCardsToDeck, parseTags, tagCards } from './decks';
+import { createCard } from '../test/fixtures';
+
+const vocabulary = [
+  createCard('Maimy', 'Water', { id: '1', timestamp: 1, tags: ['nature'] }),
+  createCard('Kwé', 'Hello', { id: '2', timestamp: 2, wordLanguage: 'Wapishana', deckId: 'greetings', tags: ['Greetings'] }),
+  createCard('Tuna', 'River', { id: '3', timestamp: 3, phoneticTranscription: '/tuna/', tags: ['nature', 'food'] }),
+];
+
+const words = (items: VocabularyItem[]) => items.map(i => i.word);
+
+describe('tags', () => {
+  it('parses comma-separated input without blanks or duplicates', () => {
+    expect(parseTags(' food, Greetings ,,food, GREETINGS ')).toEqual(['food', 'Greetings']);
+    expect(parseTags('  ')).toEqual([]);
+  });
+
+  it('collects the distinct tags alphabetically', () => {
+    expect(collectTags(vocabulary)).toEqual(['food', 'Greetings', 'nature']);
+  });
+
+  it('adds tags to selected cards only', () => {
+    const result = tagCards(vocabulary, new Set(['1', '2']), ['greetings']);
+    expect(result[0].tags).toEqual(['nature', 'greetings']);
+    // "greetings" is already there, so the card is unchanged.
+    expect(result[1]).toBe(vocabulary[1]);
+    expect(result[2]).toBe(vocabulary[2]);
+  });
+});
+
+describe('search and filter', () => {
+  it('matches every search word against word, meaning, IPA and tags, ignoring accents', () => {
+    expect(matchesSearch(vocabulary[1], 'kwe')).toBe(true);
+    expect(matchesSearch(vocabulary[2], 'river tuna')).toBe(true);
+    expect(matchesSearch(vocabulary[2], '/tuna/')).toBe(true);
+    expect(matchesSearch(vocabulary[2], 'food')).toBe(true);
+    expect(matchesSearch(vocabulary[2], 'river water')).toBe(false);
+  });
+
+  it('filters by deck, language and tag', () => {
+    expect(words(filterVocabulary(vocabulary, { ...DEFAULT_VOCABULARY_FILTER, deckId: DEFAULT_DECK.id }))).toEqual(['Tuna', 'Maimy']);
+    expect(words(filterVocabulary(vocabulary, { ...DEFAULT_VOCABULARY_FILTER, deckId: 'greetings' }))).toEqual(['Kwé']);
+    expect(words(filterVocabulary(vocabulary, { ...DEFAULT_VOCABULARY_FILTER, language: 'Wapishana' }))).toEqual(['Kwé']);
+    expect(words(filterVocabulary(vocabulary, { ...DEFAULT_VOCABULARY_FILTER, tag: 'NATURE' }))).toEqual(['Tuna', 'Maimy']);
+    expect(words(filterVocabulary(vocabulary, { ...DEFAULT_VOCABULARY_FILTER, tag: ALL, query: 'water' }))).toEqual(['Maimy']);
+  });
+
+  it('sorts by date or alphabetically', () => {
+    const sorted = (sort: typeof DEFAULT_VOCABULARY_FILTER.sort) => words(filterVocabulary(vocabulary, { ...DEFAULT_VOCABULARY_FILTER, sort }));
+    expect(sorted('newest')).toEqual(['Tuna', 'Kwé', 'Maimy']);
+    expect(sorted('oldest')).toEqual(['Maimy', 'Kwé', 'Tuna']);
+    expect(sorted('a-z')).toEqual(['Kwé', 'Maimy', 'Tuna']);
+    expect(sorted('z-a')).toEqual(['Tuna', 'Maimy', 'Kwé']);
+  });
+});
+
+describe('moving and copying cards', () => {
+  it('moves cards, clearing deckId for the default deck', () => {
+    const moved = moveCardsToDeck(vocabulary, new Set(['1']), 'greetings');
+    expect(moved[0].deckId).toBe('greetings');
+    expect(moved[2]).toBe(vocabulary[2]);
+    const back = moveCardsToDeck(moved, new Set(['1', '2']), DEFAULT_DECK.id);
+    expect(back[0].deckId).toBeUndefined();
+    expect(back[1].deckId).toBeUndefined();
+  });
+
+  it('copies cards with new ids and a fresh review and quiz record', () => {
+    const reviewed = createCard('Maimy', 'Water', {
+      id: '1',
+      review: { ease: 2.5, interval: 5, repetitions: 2, lapses: 0, dueDate: 0, history: [] },
+      quiz: { attempts: 1, correct: 1, streak: 1, lastAnsweredAt: 1 },
+    });
+    const [copy] = copyCardsToDeck([reviewed, vocabulary[1]], new Set(['1']), 'greetings', 99);
+    expect(copy).toMatchObject({ word: 'Maimy', deckId: 'greetings', timestamp: 99, review: undefined, quiz: undefined });
+    expect(copy.id).not.toBe('1');
+  });
+});
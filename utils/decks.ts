@@ -0,0 +1,171 @@
+// Named decks, tags, and searching, filtering and sorting the vocabulary
+
+import { Deck, VocabularyItem } from '../types';
+import { createId } from './ids';
+
+// Cards without a deckId live here. It always exists and can't be renamed or deleted.
+export const DEFAULT_DECK: Deck = { id: 'default', name: 'My Vocabulary', createdAt: 0 };
+
+export const ALL = 'all';
+
+export type VocabularySort = 'newest' | 'oldest' | 'a-z' | 'z-a';
+
+export const VOCABULARY_SORT_LABELS: Record<VocabularySort, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  'a-z': 'A → Z',
+  'z-a': 'Z → A',
+};
+
+export interface VocabularyFilter {
+  deckId: string; // A deck id or ALL
+  language: string; // A wordLanguage or ALL
+  tag: string; // A tag or ALL
+  query: string;
+  sort: VocabularySort;
+}
+
+export const DEFAULT_VOCABULARY_FILTER: VocabularyFilter = { deckId: ALL, language: ALL, tag: ALL, query: '', sort: 'newest' };
+
+/**
+ * Creates a named deck.
+ * @param name The deck name.
+ * @param now Creation time.
+ * @returns The deck.
+ */
+export function createDeck(name: string, now: number = Date.now()): Deck {
+  return { id: createId(), name: name.trim(), createdAt: now };
+}
+
+/**
+ * Returns the deck a card belongs to.
+ * @param item The card.
+ * @returns The deck id.
+ */
+export function deckIdOf(item: VocabularyItem): string {
+  return item.deckId ?? DEFAULT_DECK.id;
+}
+
+/**
+ * Parses free-form tag input. Tags are separated by commas, trimmed and de-duplicated ignoring case.
+ * @param input The text the learner typed, e.g. "food, Greetings ,food".
+ * @returns The tags in the order given.
+ */
+export function parseTags(input: string): string[] {
+  return mergeTags([], input.split(','));
+}
+
+/**
+ * Adds tags to a list, skipping blanks and ones already present (ignoring case).
+ * @param existing The current tags.
+ * @param added Tags to add.
+ * @returns The combined list.
+ */
+export function mergeTags(existing: string[], added: string[]): string[] {
+  const result = [...existing];
+  for (const raw of added) {
+    const tag = raw.trim();
+    if (tag && !result.some(t => t.toLowerCase() === tag.toLowerCase())) result.push(tag);
+  }
+  return result;
+}
+
+/**
+ * Lowercases text and strips accents so searches match "kwe" against "Kwé".
+ * @param text The text to fold.
+ * @returns The folded text.
+ */
+function foldText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Checks a card against a search query. Every word of the query must appear in the card's word,
+ * translation, transcription or tags.
+ * @param item The card.
+ * @param query The search text.
+ * @returns True if the card matches.
+ */
+export function matchesSearch(item: VocabularyItem, query: string): boolean {
+  const terms = foldText(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = foldText([item.word, item.translation, item.phoneticTranscription ?? '', ...(item.tags ?? [])].join(' '));
+  return terms.every(term => haystack.includes(term));
+}
+
+/**
+ * Applies the deck, language, tag and search filters and sorts the result.
+ * @param items The full vocabulary list.
+ * @param filter The filter settings.
+ * @returns The matching cards in display order.
+ */
+export function filterVocabulary(items: VocabularyItem[], filter: VocabularyFilter): VocabularyItem[] {
+  const tag = filter.tag.toLowerCase();
+  const matching = items.filter(item =>
+    (filter.deckId === ALL || deckIdOf(item) === filter.deckId)
+    && (filter.language === ALL || item.wordLanguage === filter.language)
+    && (filter.tag === ALL || (item.tags ?? []).some(t => t.toLowerCase() === tag))
+    && matchesSearch(item, filter.query));
+  const byWord = (a: VocabularyItem, b: VocabularyItem) => a.word.localeCompare(b.word, undefined, { sensitivity: 'base' });
+  switch (filter.sort) {
+    case 'oldest':
+      return matching.sort((a, b) => a.timestamp - b.timestamp);
+    case 'a-z':
+      return matching.sort(byWord);
+    case 'z-a':
+      return matching.sort((a, b) => byWord(b, a));
+    default:
+      return matching.sort((a, b) => b.timestamp - a.timestamp);
+  }
+}
+
+/**
+ * Lists the distinct tags used in the deck.
+ * @param items The vocabulary list.
+ * @returns The tags, alphabetically.
+ */
+export function collectTags(items: VocabularyItem[]): string[] {
+  return mergeTags([], items.flatMap(i => i.tags ?? [])).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Moves cards to another deck.
+ * @param items The vocabulary list.
+ * @param ids The cards to move.
+ * @param deckId The destination deck.
+ * @returns The updated list; untouched cards keep their identity.
+ */
+export function moveCardsToDeck(items: VocabularyItem[], ids: Set<string>, deckId: string): VocabularyItem[] {
+  const target = deckId === DEFAULT_DECK.id ? undefined : deckId;
+  return items.map(item => ids.has(item.id) && item.deckId !== target ? { ...item, deckId: target } : item);
+}
+
+/**
+ * Copies cards into another deck. Copies start with a fresh review schedule and quiz record.
+ * @param items The vocabulary list.
+ * @param ids The cards to copy.
+ * @param deckId The destination deck.
+ * @param now Creation time of the copies.
+ * @returns The new cards.
+ */
+export function copyCardsToDeck(items: VocabularyItem[], ids: Set<string>, deckId: string, now: number = Date.now()): VocabularyItem[] {
+  const target = deckId === DEFAULT_DECK.id ? undefined : deckId;
+  return items
+    .filter(item => ids.has(item.id))
+    .map(item => ({ ...item, id: createId(), deckId: target, timestamp: now, review: undefined, quiz: undefined }));
+}
+
+/**
+ * Adds tags to the given cards.
+ * @param items The vocabulary list.
+ * @param ids The cards to tag.
+ * @param tags The tags to add.
+ * @returns The updated list; untouched cards keep their identity.
+ */
+export function tagCards(items: VocabularyItem[], ids: Set<string>, tags: string[]): VocabularyItem[] {
+  return items.map(item => {
+    if (!ids.has(item.id)) return item;
+    const merged = mergeTags(item.tags ?? [], tags);
+    return merged.length === (item.tags ?? []).length ? item : { ...item, tags: merged };
+  });
+}
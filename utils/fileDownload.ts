@@ -0,0 +1,30 @@
+// Utility for saving generated content to the user's device
+
+/**
+ * Triggers a browser download for in-memory data.
+ * @param filename The suggested file name.
+ * @param data The file contents.
+ * @param mimeType The MIME type of the contents.
+ */
+export function downloadFile(filename: string, data: BlobPart, mimeType: string): void {
+  const blob = new Blob([data], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking the URL.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Builds a filesystem-friendly timestamp for export file names, e.g. "2024-05-01-1430".
+ * @param date The date to format.
+ * @returns The formatted timestamp.
+ */
+export function fileTimestamp(date: Date = new Date()): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+}
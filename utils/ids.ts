@@ -0,0 +1,9 @@
+// Id generation shared by the app's stored records
+
+/**
+ * Generates an id that stays unique for items created within the same millisecond.
+ * @returns A unique string id.
+ */
+export function createId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
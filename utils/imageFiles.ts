@@ -0,0 +1,33 @@
+// Turning uploaded photos into the JPEG base64 images cards store
+
+const MAX_IMAGE_SIZE = 1024;
+const JPEG_QUALITY = 0.85;
+
+/**
+ * Reads an image file, scales it down to fit within a square of maxSize pixels and re-encodes it as JPEG.
+ * @param file The uploaded file.
+ * @param maxSize The longest side of the result, in pixels.
+ * @returns Base64 JPEG data without the data URI prefix.
+ */
+export async function imageFileToJpegBase64(file: File, maxSize: number = MAX_IMAGE_SIZE): Promise<string> {
+  if (!file.type.startsWith('image/')) throw new Error(`${file.name} is not an image.`);
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error(`${file.name} could not be read as an image.`));
+      img.src = url;
+    });
+    const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('This browser cannot process images.');
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', JPEG_QUALITY).split(',')[1] ?? '';
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { detectMentionedLanguages, extractCitations, formatKnowledgeContext, getLanguageDigest, retrieveKnowledge, stripCitations, tokenize } from './knowledge';
+
+describe('tokenize', () => {
+  it('lowercases, strips accents and drops stopwords', () => {
+    expect(tokenize('How do I say Wéju in Kari\'na?')).toEqual(['weju', 'kari\'na']);
+  });
+});
+
+describe('detectMentionedLanguages', () => {
+  it('finds multi-word and hyphenated names', () => {
+    expect(detectMentionedLanguages('Tell me about the Wai-Wai and Macushi')).toEqual(['Macushi', 'Wai-Wai']);
+  });
+
+  it('ignores English', () => {
+    expect(detectMentionedLanguages('Say it in English')).toEqual([]);
+  });
+});
+
+describe('retrieveKnowledge', () => {
+  it('finds lexicon entries by English meaning in the selected language', () => {
+    const ids = retrieveKnowledge('What is the word for water?', ['English', 'Warrau']).map(e => e.id);
+    expect(ids[0]).toBe('warrau.lex.ho');
+    expect(ids.every(id => id.startsWith('warrau.') || id.startsWith('english.'))).toBe(true);
+  });
+
+  it('searches languages named in the question', () => {
+    const ids = retrieveKnowledge('Tell me about the history of the Wai-Wai tribe.', ['English', 'English']).map(e => e.id);
+    expect(ids).toContain('waiwai.culture.overview');
+  });
+
+  it('returns nothing for empty or unrelated queries', () => {
+    expect(retrieveKnowledge('', ['Macushi'])).toEqual([]);
+    expect(retrieveKnowledge('quantum chromodynamics', ['Macushi'])).toEqual([]);
+  });
+
+  it('respects the limit', () => {
+    expect(retrieveKnowledge('water sun tree', ['Carib'], 2)).toHaveLength(2);
+  });
+});
+
+describe('getLanguageDigest', () => {
+  it('puts overview notes before vocabulary and tribal languages before English', () => {
+    const digest = getLanguageDigest(['English', 'Wai-Wai']);
+    expect(digest[0].id).toBe('waiwai.culture.overview');
+    expect(digest.findIndex(e => e.kind === 'lexicon')).toBeGreaterThan(digest.findIndex(e => e.kind === 'grammar'));
+    expect(digest.findIndex(e => e.language === 'English')).toBeGreaterThan(digest.findIndex(e => e.language === 'Wai-Wai'));
+  });
+});
+
+describe('citations', () => {
+  const answer = 'Water is ho [kb:warrau.lex.ho], a house is hanoko [kb:warrau.lex.hanoko] [kb:warrau.lex.ho] [kb:made.up.entry].';
+
+  it('extracts known cited entries once each', () => {
+    expect(extractCitations(answer)).toEqual(['warrau.lex.ho', 'warrau.lex.hanoko']);
+  });
+
+  it('strips tags for speech', () => {
+    expect(stripCitations(answer)).toBe('Water is ho, a house is hanoko.');
+  });
+
+  it('formats entries with their tag and review status', () => {
+    const [entry] = retrieveKnowledge('water', ['Warrau'], 1);
+    expect(formatKnowledgeContext([entry])).toBe('[kb:warrau.lex.ho] (Warrau, lexicon, unreviewed) ho: water.');
+  });
+});
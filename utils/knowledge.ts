@@ -0,0 +1,118 @@
+// Local retrieval over the bundled knowledge base, and citation handling for answers that use it
+
+import { GUYANESE_LANGUAGES } from '../constants';
+import { KNOWLEDGE_BASES, getKnowledgeEntry } from '../knowledge';
+import { KnowledgeEntry, KnowledgeEntryKind } from '../types';
+
+export const DEFAULT_RETRIEVAL_LIMIT = 6;
+export const LIVE_DIGEST_LIMIT = 12;
+
+const CITATION_PATTERN = /\[kb:([\w.-]+)\]/g;
+const STOPWORDS = new Set(['a', 'an', 'and', 'are', 'do', 'does', 'for', 'how', 'i', 'in', 'is', 'it', 'me', 'of', 'on', 'say', 'some', 'tell', 'the', 'to', 'what', 'word', 'you']);
+// Overview-style entries come first in a digest, vocabulary last.
+const DIGEST_ORDER: KnowledgeEntryKind[] = ['culture', 'orthography', 'grammar', 'lexicon'];
+
+/**
+ * Splits text into lowercase, accent-free search terms.
+ * @param text The text to tokenize.
+ * @returns The terms, without stopwords.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9'-]+/)
+    .map(t => t.replace(/^['-]+|['-]+$/g, ''))
+    .filter(t => t.length > 1 && !STOPWORDS.has(t));
+}
+
+/**
+ * Finds languages named in a message, so asking about "the Wai-Wai" in English still searches Wai-Wai.
+ * @param text The message.
+ * @returns Names from GUYANESE_LANGUAGES mentioned in the text.
+ */
+export function detectMentionedLanguages(text: string): string[] {
+  const terms = new Set(tokenize(text));
+  return GUYANESE_LANGUAGES.filter(language => language !== 'English' && tokenize(language).every(t => terms.has(t)));
+}
+
+function scoreEntry(entry: KnowledgeEntry, terms: string[]): number {
+  const titleTerms = new Set(tokenize(entry.title));
+  const keywordTerms = new Set(entry.keywords.flatMap(tokenize));
+  const textTerms = new Set(tokenize(entry.text));
+  return terms.reduce((score, term) => {
+    if (titleTerms.has(term)) return score + 3;
+    if (keywordTerms.has(term)) return score + 2;
+    if (textTerms.has(term)) return score + 1;
+    return score;
+  }, 0);
+}
+
+/**
+ * Returns the entries most relevant to a query from the given languages and any language the query names.
+ * @param query The learner's message (and any recent context).
+ * @param languages The conversation's input and output languages.
+ * @param limit Maximum number of entries.
+ * @returns Matching entries, best first.
+ */
+export function retrieveKnowledge(query: string, languages: string[], limit: number = DEFAULT_RETRIEVAL_LIMIT): KnowledgeEntry[] {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+  const searched = new Set([...languages, ...detectMentionedLanguages(query)]);
+  return KNOWLEDGE_BASES
+    .filter(kb => searched.has(kb.language))
+    .flatMap(kb => kb.entries)
+    .map(entry => ({ entry, score: scoreEntry(entry, terms) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Picks a fixed set of entries for a live session, whose instructions are set once at connect time.
+ * @param languages The session's input and output languages.
+ * @param limit Maximum number of entries.
+ * @returns Overview, orthography and grammar notes first, then vocabulary.
+ */
+export function getLanguageDigest(languages: string[], limit: number = LIVE_DIGEST_LIMIT): KnowledgeEntry[] {
+  // Tribal languages first: English entries only help when nothing else is selected.
+  const ordered = [...new Set(languages)].sort((a, b) => Number(a === 'English') - Number(b === 'English'));
+  return ordered
+    .flatMap(language => KNOWLEDGE_BASES.find(kb => kb.language === language)?.entries ?? [])
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => DIGEST_ORDER.indexOf(a.entry.kind) - DIGEST_ORDER.indexOf(b.entry.kind) || a.index - b.index)
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Formats entries for inclusion in a system instruction.
+ * @param entries The entries to include.
+ * @returns One line per entry, tagged with its citation ID.
+ */
+export function formatKnowledgeContext(entries: KnowledgeEntry[]): string {
+  return entries
+    .map(e => `[kb:${e.id}] (${e.language}, ${e.kind}${e.status === 'unreviewed' ? ', unreviewed' : ''}) ${e.title}: ${e.text}`)
+    .join('\n');
+}
+
+/**
+ * Collects the knowledge base entries an answer cites with [kb:<id>] tags.
+ * @param text The model's answer.
+ * @returns IDs of cited entries that exist, in order of first citation.
+ */
+export function extractCitations(text: string): string[] {
+  const ids = Array.from(text.matchAll(CITATION_PATTERN), m => m[1]);
+  return [...new Set(ids)].filter(id => getKnowledgeEntry(id));
+}
+
+/**
+ * Removes [kb:<id>] tags, e.g. before reading an answer aloud.
+ * @param text The model's answer.
+ * @returns The text without citation tags.
+ */
+export function stripCitations(text: string): string {
+  return text.replace(CITATION_PATTERN, '').replace(/ +([.,;:!?])/g, '$1').replace(/ {2,}/g, ' ');
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { getCurriculum, getLessonUnit } from '../lessons';
+import { LessonProgress, addLessonWords, isUnitUnlocked, lessonDeck, lessonScenario, recordLessonQuiz, resumeUnit, setLessonStep } from './lessons';
+import { createCard } from '../test/fixtures';
+
+const curriculum = getCurriculum('Macushi')!;
+const [greetings, numbers, kinship] = curriculum.units;
+const environment = getLessonUnit('macushi.environment')!;
+
+describe('unlocking and resuming', () => {
+  it('unlocks units in order as each closing quiz is passed', () => {
+    let progress: LessonProgress = {};
+    expect(isUnitUnlocked(curriculum, greetings.id, progress)).toBe(true);
+    expect(isUnitUnlocked(curriculum, numbers.id, progress)).toBe(false);
+
+    progress = recordLessonQuiz(progress, greetings, 3, 5, 10);
+    expect(progress[greetings.id]).toMatchObject({ bestScore: 0.6, completedAt: undefined });
+    expect(isUnitUnlocked(curriculum, numbers.id, progress)).toBe(false);
+
+    progress = recordLessonQuiz(progress, greetings, 5, 5, 20);
+    progress = recordLessonQuiz(progress, greetings, 1, 5, 30);
+    expect(progress[greetings.id]).toMatchObject({ bestScore: 1, completedAt: 20 });
+    expect(isUnitUnlocked(curriculum, numbers.id, progress)).toBe(true);
+    expect(isUnitUnlocked(curriculum, kinship.id, progress)).toBe(false);
+  });
+
+  it('resumes the most recently used unfinished unit at its step', () => {
+    expect(resumeUnit(curriculum, {})).toBe(greetings);
+    let progress = recordLessonQuiz({}, greetings, 5, 5, 10);
+    expect(resumeUnit(curriculum, progress)).toBe(numbers);
+
+    progress = setLessonStep(progress, numbers.id, 'dialogue', 20);
+    progress = setLessonStep(progress, greetings.id, 'vocabulary', 30);
+    expect(resumeUnit(curriculum, progress)).toBe(numbers);
+    expect(progress[numbers.id]).toMatchObject({ step: 'dialogue', startedAt: 20, updatedAt: 20 });
+  });
+});
+
+describe('lesson cards', () => {
+  it('adds the unit words tagged with the unit, tagging words already in the deck', () => {
+    const existing = createCard('tuna', 'Water', { tags: ['river'] });
+    const { items, added } = addLessonWords([existing], environment, undefined, 5);
+    expect(added.map(i => i.word)).toEqual(['wei']);
+    expect(added[0]).toMatchObject({ translation: 'sun', tags: ['lesson-environment'], timestamp: 5 });
+    expect(items.find(i => i.id === 'tuna')?.tags).toEqual(['river', 'lesson-environment']);
+  });
+
+  it('quizzes tagged cards and cards translating one of the unit meanings', () => {
+    const deck = [
+      createCard('a', 'Thank you!'),
+      createCard('b', 'river', { tags: ['lesson-greetings'] }),
+      createCard('c', 'river'),
+      createCard('d', 'hello', { wordLanguage: 'Wapishana' }),
+    ];
+    expect(lessonDeck(greetings, deck).map(i => i.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('lessonScenario', () => {
+  it('plays the unit roleplay with its words and remaining meanings as targets', () => {
+    const scenario = lessonScenario(environment);
+    expect(scenario).toMatchObject({ language: 'Macushi', persona: 'a guide pointing out the land around you', difficulty: 'beginner' });
+    expect(scenario.targets.slice(0, 3)).toEqual([{ meaning: 'water', word: 'tuna' }, { meaning: 'sun', word: 'wei' }, { meaning: 'moon' }]);
+    expect(scenario.targets).toHaveLength(environment.meanings.length);
+  });
+});
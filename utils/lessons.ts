@@ -0,0 +1,215 @@
+// Progress through lesson units, and the prompts and cards each unit step produces
+
+import { Curriculum, LessonStep, LessonUnit, LessonUnitProgress, LessonVocabulary, RoleplayScenario, VocabularyItem } from '../types';
+import { createId } from './ids';
+import { mergeTags } from './decks';
+import { vocabularyKey } from './deckTransfer';
+import { normalizeAnswer } from './quiz';
+
+const LESSON_PROGRESS_STORAGE_KEY = 'guyanese_lessons_v1';
+
+export const LESSON_STEPS: LessonStep[] = ['objectives', 'vocabulary', 'dialogue', 'roleplay', 'quiz'];
+
+export const LESSON_STEP_LABELS: Record<LessonStep, string> = {
+  objectives: 'Objectives',
+  vocabulary: 'Vocabulary',
+  dialogue: 'Dialogue',
+  roleplay: 'Roleplay',
+  quiz: 'Quiz',
+};
+
+// Keyed by unit ID.
+export type LessonProgress = Record<string, LessonUnitProgress>;
+
+/**
+ * The tag put on cards saved from a unit.
+ * @param unit The unit.
+ * @returns E.g. "lesson-greetings".
+ */
+export function lessonTag(unit: LessonUnit): string {
+  return `lesson-${unit.theme}`;
+}
+
+/**
+ * Whether the learner has passed a unit's closing quiz.
+ * @param progress The learner's progress.
+ * @param unitId The unit ID.
+ * @returns True once the unit is complete.
+ */
+export function isUnitComplete(progress: LessonProgress, unitId: string): boolean {
+  return !!progress[unitId]?.completedAt;
+}
+
+/**
+ * Units unlock in order: the first is always open, and each later one opens when the one before it is complete.
+ * @param curriculum The unit's curriculum.
+ * @param unitId The unit ID.
+ * @param progress The learner's progress.
+ * @returns True if the learner may open the unit.
+ */
+export function isUnitUnlocked(curriculum: Curriculum, unitId: string, progress: LessonProgress): boolean {
+  const index = curriculum.units.findIndex(u => u.id === unitId);
+  if (index <= 0) return index === 0;
+  return isUnitComplete(progress, curriculum.units[index - 1].id);
+}
+
+/**
+ * Picks the unit to resume: the most recently used unfinished one, otherwise the first unfinished unit.
+ * @param curriculum The curriculum.
+ * @param progress The learner's progress.
+ * @returns The unit, or null once every unit is complete.
+ */
+export function resumeUnit(curriculum: Curriculum, progress: LessonProgress): LessonUnit | null {
+  const unfinished = curriculum.units.filter(u => !isUnitComplete(progress, u.id) && isUnitUnlocked(curriculum, u.id, progress));
+  const started = unfinished.filter(u => progress[u.id]).sort((a, b) => progress[b.id].updatedAt - progress[a.id].updatedAt);
+  return started[0] ?? unfinished[0] ?? null;
+}
+
+/**
+ * Records the step the learner is on, so the unit resumes there.
+ * @param progress The learner's progress.
+ * @param unitId The unit ID.
+ * @param step The step.
+ * @param now The current time.
+ * @returns The updated progress.
+ */
+export function setLessonStep(progress: LessonProgress, unitId: string, step: LessonStep, now: number = Date.now()): LessonProgress {
+  const current = progress[unitId];
+  return { ...progress, [unitId]: { ...current, unitId, step, startedAt: current?.startedAt ?? now, updatedAt: now } };
+}
+
+/**
+ * Records a closing quiz result. The unit is completed the first time the score reaches its passing score.
+ * @param progress The learner's progress.
+ * @param unit The unit.
+ * @param correct Correct answers.
+ * @param total Questions asked.
+ * @param now The current time.
+ * @returns The updated progress.
+ */
+export function recordLessonQuiz(progress: LessonProgress, unit: LessonUnit, correct: number, total: number, now: number = Date.now()): LessonProgress {
+  const score = total > 0 ? correct / total : 0;
+  const next = setLessonStep(progress, unit.id, 'quiz', now)[unit.id];
+  return {
+    ...progress,
+    [unit.id]: {
+      ...next,
+      bestScore: Math.max(next.bestScore ?? 0, score),
+      completedAt: next.completedAt ?? (total > 0 && score >= unit.quiz.passingScore ? now : undefined),
+    },
+  };
+}
+
+/**
+ * Finds the learner's cards that belong to a unit: those tagged with it, and those translating one of its meanings.
+ * @param unit The unit.
+ * @param items The learner's cards.
+ * @returns The cards the unit's quiz is drawn from.
+ */
+export function lessonDeck(unit: LessonUnit, items: VocabularyItem[]): VocabularyItem[] {
+  const tag = lessonTag(unit);
+  const meanings = new Set([...unit.meanings, ...unit.vocabulary.map(v => v.translation)].map(normalizeAnswer));
+  return items.filter(i => i.wordLanguage === unit.language && (i.tags?.includes(tag) || meanings.has(normalizeAnswer(i.translation))));
+}
+
+/**
+ * Saves a unit's vocabulary as cards. Words already in the deck are tagged with the unit instead of duplicated.
+ * @param items The learner's cards.
+ * @param unit The unit.
+ * @param deckId The deck new cards go into, if not the default.
+ * @param now The current time.
+ * @returns The updated cards and the ones that were added.
+ */
+export function addLessonWords(items: VocabularyItem[], unit: LessonUnit, deckId?: string, now: number = Date.now()): { items: VocabularyItem[]; added: VocabularyItem[] } {
+  const tags = [lessonTag(unit)];
+  const wanted = new Set(unit.vocabulary.map(v => vocabularyKey({ word: v.word, wordLanguage: unit.language })));
+  const existing = new Set(items.map(vocabularyKey));
+  const added = unit.vocabulary
+    .filter(v => !existing.has(vocabularyKey({ word: v.word, wordLanguage: unit.language })))
+    .map(v => lessonWordToVocabularyItem(v, unit, deckId, now));
+  const tagged = items.map(i => wanted.has(vocabularyKey(i)) ? { ...i, tags: mergeTags(i.tags ?? [], tags) } : i);
+  return { items: [...added, ...tagged], added };
+}
+
+function lessonWordToVocabularyItem(word: LessonVocabulary, unit: LessonUnit, deckId: string | undefined, now: number): VocabularyItem {
+  return {
+    id: createId(),
+    word: word.word,
+    wordLanguage: unit.language,
+    translation: word.translation,
+    translationLanguage: 'English',
+    phoneticTranscription: word.pronunciation || null,
+    audioBase64: null,
+    timestamp: now,
+    tags: [lessonTag(unit)],
+    ...(deckId ? { deckId } : {}),
+  };
+}
+
+/**
+ * Builds the question sent to the Text Learning Assistant for the meanings a unit teaches.
+ * @param unit The unit.
+ * @returns The prompt.
+ */
+export function buildMeaningsPrompt(unit: LessonUnit): string {
+  return `For my ${unit.language} lesson "${unit.title}", how do I say: ${unit.meanings.join('; ')}? Give each one with its pronunciation, and tell me if you are unsure of any.`;
+}
+
+/**
+ * Builds the request for the tutor to write out a unit's model dialogue.
+ * @param unit The unit.
+ * @returns The prompt.
+ */
+export function buildDialoguePrompt(unit: LessonUnit): string {
+  const lines = unit.dialogue.map(line => `${line.speaker === 'tutor' ? 'Tutor' : 'Learner'}: ${line.text ?? line.cue}`).join('\n');
+  return `Write this short dialogue for my ${unit.language} lesson "${unit.title}" in ${unit.language}, with an English translation and pronunciation for each line:\n${lines}`;
+}
+
+/**
+ * Turns a unit's roleplay into a Live Immersion scenario, with the unit's words and meanings as targets.
+ * @param unit The unit.
+ * @returns The scenario.
+ */
+export function lessonScenario(unit: LessonUnit): RoleplayScenario {
+  const taught = new Set(unit.vocabulary.map(v => normalizeAnswer(v.translation)));
+  return {
+    id: `lesson.${unit.id}`,
+    title: unit.title,
+    language: unit.language,
+    persona: unit.roleplay.tutorRole,
+    learnerRole: unit.roleplay.learnerRole,
+    setting: unit.roleplay.setting,
+    goals: unit.roleplay.goals,
+    targets: [
+      ...unit.vocabulary.map(v => ({ meaning: v.translation, word: v.word })),
+      ...unit.meanings.filter(m => !taught.has(normalizeAnswer(m))).map(meaning => ({ meaning })),
+    ],
+    difficulty: 'beginner',
+  };
+}
+
+/**
+ * Loads lesson progress from localStorage.
+ * @returns The saved progress, or none if nothing is stored or the data is unreadable.
+ */
+export function loadLessonProgress(): LessonProgress {
+  try {
+    const stored = localStorage.getItem(LESSON_PROGRESS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Failed to load lesson progress:', error);
+    return {};
+  }
+}
+
+/**
+ * Saves lesson progress to localStorage.
+ * @param progress The progress to save.
+ */
+export function saveLessonProgress(progress: LessonProgress): void {
+  try {
+    localStorage.setItem(LESSON_PROGRESS_STORAGE_KEY, JSON.stringify(progress));
+  } catch (error) {
+    console.error('Failed to save lesson progress:', error);
+  }
+}
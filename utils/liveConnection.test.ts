@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { buildResumeContext, isLiveSessionActive, reconnectDelay } from './liveConnection';
+import { createTurn } from '../test/fixtures';
+
+describe('reconnectDelay', () => {
+  it('doubles from half a second up to a cap, give or take a quarter', () => {
+    expect(reconnectDelay(0, 0.5)).toBe(500);
+    expect(reconnectDelay(3, 0.5)).toBe(4000);
+    expect(reconnectDelay(10, 0.5)).toBe(15000);
+    expect(reconnectDelay(0, 0)).toBe(375);
+    expect(reconnectDelay(0, 0.999)).toBeLessThanOrEqual(625);
+  });
+});
+
+describe('isLiveSessionActive', () => {
+  it('counts a session that is reconnecting as still under way', () => {
+    expect(isLiveSessionActive('open')).toBe(true);
+    expect(isLiveSessionActive('reconnecting')).toBe(true);
+    expect(isLiveSessionActive('connecting')).toBe(false);
+    expect(isLiveSessionActive('failed')).toBe(false);
+  });
+});
+
+describe('buildResumeContext', () => {
+  it('lists the recent turns so the tutor can carry on', () => {
+    const context = buildResumeContext([createTurn('user', 'How do I say river?'), createTurn('assistant', ' Wapishana has a word for it. '), createTurn('user', ' ')]);
+    expect(context).toContain('without greeting the learner again');
+    expect(context).toMatch(/Learner: How do I say river\?\nTutor: Wapishana has a word for it\.$/);
+  });
+
+  it('has nothing to add before anything is said', () => {
+    expect(buildResumeContext([])).toBeUndefined();
+  });
+});
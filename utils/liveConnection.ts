@@ -0,0 +1,50 @@
+// Connection states, reconnect backoff and context carry-over for Live Immersion sessions
+
+import { LiveConnectionState, TranscriptTurn } from '../types';
+
+export const MAX_RECONNECT_ATTEMPTS = 6;
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 15000;
+const RESUME_CONTEXT_TURNS = 12; // Recent turns replayed when the server can't resume the session itself
+
+export const LIVE_CONNECTION_LABELS: Record<LiveConnectionState, string> = {
+  idle: 'Offline',
+  connecting: 'Connecting',
+  open: 'Live',
+  reconnecting: 'Reconnecting',
+  failed: 'Connection Failed',
+};
+
+/**
+ * Whether a session is under way, including while it reconnects after a drop.
+ * @param state The connection state.
+ * @returns True if the microphone is in use and the session can be closed.
+ */
+export function isLiveSessionActive(state: LiveConnectionState): boolean {
+  return state === 'open' || state === 'reconnecting';
+}
+
+/**
+ * How long to wait before a reconnect attempt. Delays double from half a second up to a cap,
+ * with jitter so clients that dropped together don't all retry at once.
+ * @param attempt The attempt number, starting at 0.
+ * @param random A number in [0, 1), for tests.
+ * @returns The delay in millis.
+ */
+export function reconnectDelay(attempt: number, random: number = Math.random()): number {
+  const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(delay * (0.75 + random * 0.5));
+}
+
+/**
+ * Builds the note added to the tutor's instructions when a dropped session can't be resumed by
+ * the server, so the new session carries on the conversation rather than starting over.
+ * @param turns The transcript so far.
+ * @returns The note, or undefined if nothing has been said yet.
+ */
+export function buildResumeContext(turns: TranscriptTurn[]): string | undefined {
+  const recent = turns.filter(t => t.text.trim()).slice(-RESUME_CONTEXT_TURNS);
+  if (recent.length === 0) return undefined;
+  const lines = recent.map(t => `${t.speaker === 'user' ? 'Learner' : 'Tutor'}: ${t.text.trim()}`);
+  return `The connection dropped during this conversation and has just been restored. Carry on from where it left off without greeting the learner again. The conversation so far:\n${lines.join('\n')}`;
+}
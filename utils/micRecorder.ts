@@ -0,0 +1,64 @@
+// Short microphone recordings captured as 16 kHz mono samples
+
+import { AudioCapture, CAPTURE_SAMPLE_RATE, startAudioCapture } from './audioCapture';
+import { encode, float32ToInt16, resampleAudio } from './audioHelpers';
+
+export const RECORDING_SAMPLE_RATE = CAPTURE_SAMPLE_RATE;
+
+export interface MicRecording {
+  /** Stops capture, releases the microphone and resolves with the recorded samples. */
+  stop: () => Promise<Float32Array>;
+  /** Stops capture and discards the recording. */
+  cancel: () => void;
+}
+
+/**
+ * Starts recording from the default microphone.
+ * @returns A Promise that resolves with a handle used to stop the recording.
+ */
+export async function startMicRecording(): Promise<MicRecording> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const chunks: Float32Array[] = [];
+  let capture: AudioCapture;
+  try {
+    capture = await startAudioCapture(stream, {
+      targetSampleRate: RECORDING_SAMPLE_RATE,
+      onChunk: chunk => chunks.push(chunk),
+    });
+  } catch (e) {
+    stream.getTracks().forEach(t => t.stop());
+    throw e;
+  }
+
+  const release = () => {
+    capture.stop();
+    stream.getTracks().forEach(t => t.stop());
+  };
+
+  return {
+    stop: async () => {
+      release();
+      const length = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+      const samples = new Float32Array(length);
+      let offset = 0;
+      for (const chunk of chunks) {
+        samples.set(chunk, offset);
+        offset += chunk.length;
+      }
+      return samples;
+    },
+    cancel: release,
+  };
+}
+
+/**
+ * Converts a recording into the base64 16-bit PCM format cards store their audio in.
+ * @param samples The recorded samples.
+ * @param outputRate The sample rate card audio is played back at.
+ * @param inputRate The sample rate of the recording.
+ * @returns Base64 little-endian 16-bit PCM at outputRate.
+ */
+export function encodeRecordingAsPcm(samples: Float32Array, outputRate: number, inputRate: number = RECORDING_SAMPLE_RATE): string {
+  const pcm = float32ToInt16(resampleAudio(samples, inputRate, outputRate));
+  return encode(new Uint8Array(pcm.buffer));
+}
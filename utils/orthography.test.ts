@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { applyTranscription, buildTranscriptionPrompt, getOrthographyProfile, loadPronunciationForms, missingPronunciationForms, normalizeTranscription, pronunciationFormValue, savePronunciationForms } from './orthography';
+import { createCard } from '../test/fixtures';
+
+describe('getOrthographyProfile', () => {
+  it('takes its guidance from the knowledge base orthography entries', () => {
+    const profile = getOrthographyProfile('Macushi');
+    expect(profile.knowledgeIds).toEqual(['macushi.ortho.spelling']);
+    expect(profile.guidance).toContain('written y or ï');
+    expect(buildTranscriptionPrompt(createCard('Tuna'), profile)).toContain('in Macushi practical spelling. Macushi is written in the Latin alphabet.');
+  });
+
+  it('falls back to general guidance for languages without orthography entries', () => {
+    const profile = getOrthographyProfile('Carib');
+    expect(profile.knowledgeIds).toEqual([]);
+    expect(profile.guidance).toContain('leave it empty');
+  });
+});
+
+describe('normalizeTranscription', () => {
+  it('wraps bare IPA in slashes and drops empty forms', () => {
+    expect(normalizeTranscription({ transcription: ' ˈtu.na ', orthography: 'tuna', respelling: 'TOO-nah', syllables: ' ' })).toEqual({
+      phoneticTranscription: '/ˈtu.na/',
+      pronunciation: { orthography: 'tuna', respelling: 'TOO-nah' },
+    });
+    expect(normalizeTranscription({ transcription: '[tuna]' }).phoneticTranscription).toBe('[tuna]');
+    expect(normalizeTranscription(null)).toEqual({ phoneticTranscription: null, pronunciation: {} });
+  });
+
+  it('only fills in forms the card is missing', () => {
+    const result = normalizeTranscription({ transcription: '/tuna/', respelling: 'TOO-nah', syllables: 'TU·na' });
+    const updated = applyTranscription(createCard('Tuna', 'Water', { phoneticTranscription: '/ˈtu.na/', pronunciation: { respelling: 'TOO-na' } }), result);
+    expect(updated.phoneticTranscription).toBe('/ˈtu.na/');
+    expect(updated.pronunciation).toEqual({ respelling: 'TOO-na', syllables: 'TU·na' });
+  });
+});
+
+describe('pronunciation forms', () => {
+  it('leaves out a spelling that is just the headword', () => {
+    const item = createCard('Tuna', 'Water', { phoneticTranscription: '/ˈtu.na/', pronunciation: { orthography: 'tuna', respelling: 'TOO-nah' } });
+    expect(pronunciationFormValue(item, 'ipa')).toBe('/ˈtu.na/');
+    expect(pronunciationFormValue(item, 'orthography')).toBeUndefined();
+    expect(pronunciationFormValue(item, 'respelling')).toBe('TOO-nah');
+    expect(pronunciationFormValue(item, 'syllables')).toBeUndefined();
+  });
+
+  it('lists the shown forms a card has no value for', () => {
+    const item = createCard('Tuna', 'Water', { phoneticTranscription: '/ˈtu.na/', pronunciation: { orthography: 'tuna' } });
+    expect(missingPronunciationForms(item, ['ipa', 'orthography', 'respelling', 'syllables'])).toEqual(['respelling', 'syllables']);
+    expect(missingPronunciationForms(createCard('Tuna'), ['ipa'])).toEqual(['ipa']);
+  });
+
+  it('saves the chosen forms and keeps them in display order', () => {
+    expect(loadPronunciationForms()).toEqual(['ipa', 'respelling']);
+    savePronunciationForms(['syllables', 'orthography', 'nonsense' as never]);
+    expect(loadPronunciationForms()).toEqual(['orthography', 'syllables']);
+  });
+});
@@ -0,0 +1,159 @@
+// Orthography profiles per language, and the multi-form pronunciation shown on vocabulary cards
+
+import { Schema, Type } from '@google/genai';
+import { OrthographyProfile, PronunciationForm, PronunciationForms, VocabularyItem } from '../types';
+import { getKnowledgeBase } from '../knowledge';
+
+const PRONUNCIATION_FORMS_STORAGE_KEY = 'guyanese_pronunciation_forms_v1';
+
+export const PRONUNCIATION_FORMS: PronunciationForm[] = ['ipa', 'orthography', 'respelling', 'syllables'];
+
+export const PRONUNCIATION_FORM_LABELS: Record<PronunciationForm, string> = {
+  ipa: 'IPA',
+  orthography: 'Spelling',
+  respelling: 'Sounds Like',
+  syllables: 'Syllables',
+};
+
+export const DEFAULT_PRONUNCIATION_FORMS: PronunciationForm[] = ['ipa', 'respelling'];
+
+// Used where the knowledge base has no orthography entry for the language.
+const DEFAULT_GUIDANCE = 'Use the Latin-alphabet spelling found in the community\'s own materials. If there is no settled spelling, leave it empty.';
+const ENGLISH_GUIDANCE = 'Give the word as it is normally spelled.';
+
+/**
+ * Builds the orthography profile for a language from its knowledge base.
+ * @param language A name from GUYANESE_LANGUAGES.
+ * @returns The profile; languages without orthography entries get general guidance.
+ */
+export function getOrthographyProfile(language: string): OrthographyProfile {
+  const entries = getKnowledgeBase(language)?.entries.filter(e => e.kind === 'orthography') ?? [];
+  const isEnglish = language === 'English';
+  return {
+    language,
+    name: isEnglish ? 'standard English spelling' : `${language} practical spelling`,
+    guidance: entries.length > 0 ? entries.map(e => e.text).join(' ') : isEnglish ? ENGLISH_GUIDANCE : DEFAULT_GUIDANCE,
+    knowledgeIds: entries.map(e => e.id),
+  };
+}
+
+export const TRANSCRIPTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    transcription: { type: Type.STRING, description: 'The IPA phonetic transcription inside slashes, with the stress mark.' },
+    orthography: { type: Type.STRING, description: 'The word in the practical orthography, or empty if unsure.' },
+    respelling: { type: Type.STRING, description: 'An English-friendly respelling with the stressed syllable in capitals, or empty if unsure.' },
+    syllables: { type: Type.STRING, description: 'The spelling split into syllables with middle dots, stressed syllable in capitals, or empty if unsure.' },
+  },
+  required: ['transcription'],
+};
+
+/**
+ * Builds the request for a word's pronunciation in every form.
+ * @param item The card.
+ * @param profile The orthography profile of the card's language.
+ * @returns The prompt text.
+ */
+export function buildTranscriptionPrompt(item: Pick<VocabularyItem, 'word' | 'wordLanguage' | 'translation'>, profile: OrthographyProfile): string {
+  return `Give the pronunciation of the ${item.wordLanguage} word "${item.word}" (meaning "${item.translation}") in these forms:
+- transcription: the IPA (International Phonetic Alphabet) inside slashes, with ˈ before the stressed syllable, e.g. /ˈwaɪ.ə/.
+- orthography: the word in ${profile.name}. ${profile.guidance}
+- respelling: an English-friendly respelling a learner who can't read IPA could sound out, with hyphens between syllables and the stressed syllable in capitals, e.g. MY-mee.
+- syllables: the orthography split into syllables with middle dots and the stressed syllable in capitals, e.g. MAI·mi.
+Leave orthography, respelling or syllables empty rather than guess.`;
+}
+
+/**
+ * Validates a transcription response.
+ * @param raw The parsed JSON response.
+ * @returns The IPA, wrapped in slashes if the model left them off, and the other forms it gave.
+ */
+export function normalizeTranscription(raw: any): { phoneticTranscription: string | null; pronunciation: PronunciationForms } {
+  const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  const ipa = text(raw?.transcription);
+  return {
+    phoneticTranscription: ipa ? (/^[/[]/.test(ipa) ? ipa : `/${ipa}/`) : null,
+    pronunciation: normalizePronunciationForms(raw) ?? {},
+  };
+}
+
+/**
+ * Reads pronunciation forms from untrusted data, such as an imported deck.
+ * @param raw The value.
+ * @returns The non-empty forms, or undefined if there are none.
+ */
+export function normalizePronunciationForms(raw: any): PronunciationForms | undefined {
+  const forms: PronunciationForms = {};
+  (['orthography', 'respelling', 'syllables'] as const).forEach(key => {
+    if (typeof raw?.[key] === 'string' && raw[key].trim()) forms[key] = raw[key].trim();
+  });
+  return Object.keys(forms).length > 0 ? forms : undefined;
+}
+
+/**
+ * Fills in the forms a card is missing from a transcription response. Forms already on the card,
+ * which the learner may have corrected, are kept.
+ * @param item The card.
+ * @param result The normalized response.
+ * @returns The updated card.
+ */
+export function applyTranscription(item: VocabularyItem, result: ReturnType<typeof normalizeTranscription>): VocabularyItem {
+  const pronunciation = { ...result.pronunciation, ...item.pronunciation };
+  return {
+    ...item,
+    phoneticTranscription: item.phoneticTranscription || result.phoneticTranscription,
+    ...(Object.keys(pronunciation).length > 0 ? { pronunciation } : {}),
+  };
+}
+
+/**
+ * Reads one pronunciation form off a card.
+ * @param item The card.
+ * @param form The form.
+ * @returns The text, or undefined if the card doesn't have it. The spelling is omitted when it is just the headword.
+ */
+export function pronunciationFormValue(item: VocabularyItem, form: PronunciationForm): string | undefined {
+  if (form === 'ipa') return item.phoneticTranscription || undefined;
+  const value = item.pronunciation?.[form];
+  if (form === 'orthography' && value?.toLowerCase() === item.word.trim().toLowerCase()) return undefined;
+  return value;
+}
+
+/**
+ * Lists the chosen forms a card has no value for, so they can be fetched.
+ * A spelling that is just the headword counts as present even though it isn't shown.
+ * @param item The card.
+ * @param forms The forms the learner chose to show.
+ * @returns The missing forms, in the order given.
+ */
+export function missingPronunciationForms(item: VocabularyItem, forms: PronunciationForm[]): PronunciationForm[] {
+  return forms.filter(form => !(form === 'ipa' ? item.phoneticTranscription : item.pronunciation?.[form]));
+}
+
+/**
+ * Loads the pronunciation forms the learner chose to show from localStorage.
+ * @returns The saved forms in display order, or the defaults if nothing is stored or the data is unreadable.
+ */
+export function loadPronunciationForms(): PronunciationForm[] {
+  try {
+    const stored = localStorage.getItem(PRONUNCIATION_FORMS_STORAGE_KEY);
+    if (!stored) return DEFAULT_PRONUNCIATION_FORMS;
+    const forms = JSON.parse(stored);
+    return Array.isArray(forms) ? PRONUNCIATION_FORMS.filter(f => forms.includes(f)) : DEFAULT_PRONUNCIATION_FORMS;
+  } catch (error) {
+    console.error('Failed to load pronunciation forms:', error);
+    return DEFAULT_PRONUNCIATION_FORMS;
+  }
+}
+
+/**
+ * Saves the pronunciation forms to show to localStorage.
+ * @param forms The forms.
+ */
+export function savePronunciationForms(forms: PronunciationForm[]): void {
+  try {
+    localStorage.setItem(PRONUNCIATION_FORMS_STORAGE_KEY, JSON.stringify(forms));
+  } catch (error) {
+    console.error('Failed to save pronunciation forms:', error);
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { VocabularyItem } from '../types';
+import { GUYANESE_LANGUAGES } from '../constants';
+import { gradeVocabularyItem } from './srs';
+import { recordQuizAnswer } from './quiz';
+import { ACTIVITY_EXPORT_FORMAT, computeStreak, createActivityEvent, dailyActivity, dayKey, exportActivityJson, masteryLevel, summarizeProgress } from './progress';
+import { createCard } from '../test/fixtures';
+
+// Local noon on 10 March 2025, and n days before it.
+const now = new Date(2025, 2, 10, 12).getTime();
+const daysAgo = (n: number) => {
+  const date = new Date(now);
+  date.setDate(date.getDate() - n);
+  return date.getTime();
+};
+
+describe('masteryLevel', () => {
+  it('moves from new through learning to familiar and mastered', () => {
+    const fresh = createCard('maimy', 'maimy', { wordLanguage: 'Macushi' });
+    expect(masteryLevel(fresh)).toBe('new');
+    expect(masteryLevel(gradeVocabularyItem(fresh, 'good'))).toBe('learning');
+    expect(masteryLevel(recordQuizAnswer(fresh, false))).toBe('learning');
+    const streaky = [1, 2, 3].reduce(item => recordQuizAnswer(item, true), fresh);
+    expect(masteryLevel(streaky)).toBe('familiar');
+    expect(masteryLevel({ ...fresh, review: { ease: 2.5, interval: 30, repetitions: 4, lapses: 0, dueDate: 0, history: [] } })).toBe('mastered');
+  });
+});
+
+describe('summarizeProgress', () => {
+  it('lists every Guyanese language and totals the deck and log', () => {
+    const summary = summarizeProgress([
+      createActivityEvent('word-added', 'Macushi', {}, now),
+      createActivityEvent('review', 'Macushi', { grade: 'good' }, now),
+      createActivityEvent('quiz', 'Macushi', { correct: true }, now),
+      createActivityEvent('quiz', 'Macushi', { correct: false }, now),
+      createActivityEvent('live', 'Warrau', { durationMs: 90000 }, now),
+      createActivityEvent('question', 'Warrau', {}, now),
+    ], [createCard('maimy', 'maimy', { wordLanguage: 'Macushi' }), createCard('kwe-kwe', 'kwe-kwe', { wordLanguage: 'English (Creolese Context)' })]);
+
+    expect(summary.map(l => l.language)).toEqual([...GUYANESE_LANGUAGES, 'English (Creolese Context)']);
+    expect(summary.find(l => l.language === 'Macushi')).toMatchObject({
+      words: 1,
+      mastery: { new: 1, learning: 0, familiar: 0, mastered: 0 },
+      wordsAdded: 1,
+      reviews: 1,
+      quizAnswers: 2,
+      quizCorrect: 1,
+    });
+    expect(summary.find(l => l.language === 'Warrau')).toMatchObject({ liveMinutes: 1.5, questions: 1 });
+  });
+});
+
+describe('computeStreak', () => {
+  const at = (...days: number[]) => days.map(d => createActivityEvent('review', 'Macushi', {}, daysAgo(d)));
+
+  it('counts consecutive days ending today', () => {
+    expect(computeStreak(at(0, 1, 2, 5, 6), now)).toEqual({ current: 3, longest: 3, activeToday: true });
+  });
+
+  it('keeps yesterday’s streak alive until today ends', () => {
+    expect(computeStreak(at(1, 2), now)).toEqual({ current: 2, longest: 2, activeToday: false });
+    expect(computeStreak(at(2, 3, 4, 5), now)).toEqual({ current: 0, longest: 4, activeToday: false });
+  });
+
+  it('handles an empty log', () => {
+    expect(computeStreak([], now)).toEqual({ current: 0, longest: 0, activeToday: false });
+  });
+});
+
+describe('dailyActivity', () => {
+  it('returns one zero-filled entry per day ending today', () => {
+    const series = dailyActivity([
+      createActivityEvent('review', 'Macushi', {}, daysAgo(0)),
+      createActivityEvent('review', 'Macushi', {}, daysAgo(0)),
+      createActivityEvent('live', 'Macushi', { durationMs: 120000 }, daysAgo(2)),
+      createActivityEvent('question', 'Macushi', {}, daysAgo(30)),
+    ], 3, now);
+    expect(series.map(d => d.date)).toEqual([dayKey(daysAgo(2)), dayKey(daysAgo(1)), dayKey(now)]);
+    expect(series[2].reviews).toBe(2);
+    expect(series[0].liveMinutes).toBe(2);
+    expect(series.every(d => d.questions === 0)).toBe(true);
+  });
+});
+
+describe('exportActivityJson', () => {
+  it('includes the summary, streak and raw events', () => {
+    const events = [createActivityEvent('review', 'Macushi', {}, now)];
+    const data = JSON.parse(exportActivityJson(events, [], now));
+    expect(data.format).toBe(ACTIVITY_EXPORT_FORMAT);
+    expect(data.streak.current).toBe(1);
+    expect(data.languages.find((l: { language: string }) => l.language === 'Macushi').reviews).toBe(1);
+    expect(data.events).toEqual(events);
+  });
+});
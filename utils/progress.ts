@@ -0,0 +1,224 @@
+// Learner progress: the activity log, mastery levels, streaks and per-day totals
+
+import { ActivityEvent, ActivityKind, VocabularyItem } from '../types';
+import { GUYANESE_LANGUAGES } from '../constants';
+import { createId } from './ids';
+
+export const ACTIVITY_EXPORT_FORMAT = 'guyanese-lingua-activity';
+export const ACTIVITY_EXPORT_VERSION = 1;
+
+export type MasteryLevel = 'new' | 'learning' | 'familiar' | 'mastered';
+
+export const MASTERY_LEVELS: MasteryLevel[] = ['new', 'learning', 'familiar', 'mastered'];
+
+// Review intervals (days) at which a card counts as familiar or mastered.
+const FAMILIAR_INTERVAL = 7;
+const MASTERED_INTERVAL = 21;
+const FAMILIAR_QUIZ_STREAK = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LanguageProgress {
+  language: string;
+  words: number;
+  mastery: Record<MasteryLevel, number>;
+  wordsAdded: number;
+  reviews: number;
+  quizAnswers: number;
+  quizCorrect: number;
+  liveMinutes: number;
+  questions: number;
+}
+
+export interface StreakSummary {
+  current: number; // Consecutive active days ending today (or yesterday, if today has no activity yet)
+  longest: number;
+  activeToday: boolean;
+}
+
+export interface DailyActivity {
+  date: string; // Local YYYY-MM-DD
+  wordsAdded: number;
+  reviews: number;
+  quizAnswers: number;
+  liveMinutes: number;
+  questions: number;
+}
+
+/**
+ * Creates an activity log entry.
+ * @param kind What happened.
+ * @param language The language it happened in.
+ * @param details Kind-specific fields.
+ * @param now When it happened.
+ * @returns The event.
+ */
+export function createActivityEvent(
+  kind: ActivityKind,
+  language: string,
+  details: Pick<ActivityEvent, 'itemId' | 'grade' | 'correct' | 'durationMs'> = {},
+  now: number = Date.now(),
+): ActivityEvent {
+  return { id: createId(), kind, language, timestamp: now, ...details };
+}
+
+/**
+ * Rates how well a card is known, from its review schedule and quiz record.
+ * @param item The card.
+ * @returns The mastery level.
+ */
+export function masteryLevel(item: VocabularyItem): MasteryLevel {
+  const interval = item.review?.interval ?? 0;
+  if (interval >= MASTERED_INTERVAL) return 'mastered';
+  if (interval >= FAMILIAR_INTERVAL || (item.quiz?.streak ?? 0) >= FAMILIAR_QUIZ_STREAK) return 'familiar';
+  if (item.review?.history.length || item.quiz?.attempts) return 'learning';
+  return 'new';
+}
+
+/**
+ * Formats a time as a local calendar date key.
+ * @param timestamp Epoch millis.
+ * @returns The date as YYYY-MM-DD.
+ */
+export function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Totals the deck and activity log per language. Every Guyanese language is listed, followed by
+ * any other language that appears in the deck or log.
+ * @param events The activity log.
+ * @param vocabulary The deck.
+ * @returns One entry per language.
+ */
+export function summarizeProgress(events: ActivityEvent[], vocabulary: VocabularyItem[]): LanguageProgress[] {
+  const byLanguage = new Map<string, LanguageProgress>();
+  const entry = (language: string) => {
+    let progress = byLanguage.get(language);
+    if (!progress) {
+      progress = {
+        language,
+        words: 0,
+        mastery: { new: 0, learning: 0, familiar: 0, mastered: 0 },
+        wordsAdded: 0,
+        reviews: 0,
+        quizAnswers: 0,
+        quizCorrect: 0,
+        liveMinutes: 0,
+        questions: 0,
+      };
+      byLanguage.set(language, progress);
+    }
+    return progress;
+  };
+  GUYANESE_LANGUAGES.forEach(entry);
+
+  for (const item of vocabulary) {
+    const progress = entry(item.wordLanguage);
+    progress.words++;
+    progress.mastery[masteryLevel(item)]++;
+  }
+  for (const event of events) {
+    const progress = entry(event.language);
+    switch (event.kind) {
+      case 'word-added':
+        progress.wordsAdded++;
+        break;
+      case 'review':
+        progress.reviews++;
+        break;
+      case 'quiz':
+        progress.quizAnswers++;
+        if (event.correct) progress.quizCorrect++;
+        break;
+      case 'live':
+        progress.liveMinutes += (event.durationMs ?? 0) / 60000;
+        break;
+      case 'question':
+        progress.questions++;
+        break;
+    }
+  }
+  return [...byLanguage.values()];
+}
+
+/**
+ * Counts consecutive days with any activity.
+ * @param events The activity log.
+ * @param now The current time.
+ * @returns The current and longest streaks.
+ */
+export function computeStreak(events: ActivityEvent[], now: number = Date.now()): StreakSummary {
+  const days = new Set(events.map(e => dayKey(e.timestamp)));
+  const activeToday = days.has(dayKey(now));
+
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  for (const key of [...days].sort()) {
+    // Noon avoids off-by-one errors on days with a daylight-saving change.
+    const time = new Date(`${key}T12:00:00`).getTime();
+    run = previous !== null && Math.round((time - previous) / DAY_MS) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = time;
+  }
+
+  let current = 0;
+  const cursor = new Date(now);
+  cursor.setHours(12, 0, 0, 0);
+  if (!activeToday) cursor.setDate(cursor.getDate() - 1);
+  while (days.has(dayKey(cursor.getTime()))) {
+    current++;
+    cursor.setDate(cursor.getDate() - 1);
+  }
+  return { current, longest, activeToday };
+}
+
+/**
+ * Totals the activity log per day for charting.
+ * @param events The activity log.
+ * @param days How many days to include, ending today.
+ * @param now The current time.
+ * @returns One entry per day, oldest first, including days without activity.
+ */
+export function dailyActivity(events: ActivityEvent[], days: number, now: number = Date.now()): DailyActivity[] {
+  const series: DailyActivity[] = [];
+  const cursor = new Date(now);
+  cursor.setHours(12, 0, 0, 0);
+  cursor.setDate(cursor.getDate() - (days - 1));
+  for (let i = 0; i < days; i++) {
+    series.push({ date: dayKey(cursor.getTime()), wordsAdded: 0, reviews: 0, quizAnswers: 0, liveMinutes: 0, questions: 0 });
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  const byDate = new Map(series.map(d => [d.date, d]));
+  for (const event of events) {
+    const day = byDate.get(dayKey(event.timestamp));
+    if (!day) continue;
+    if (event.kind === 'word-added') day.wordsAdded++;
+    else if (event.kind === 'review') day.reviews++;
+    else if (event.kind === 'quiz') day.quizAnswers++;
+    else if (event.kind === 'live') day.liveMinutes += (event.durationMs ?? 0) / 60000;
+    else if (event.kind === 'question') day.questions++;
+  }
+  return series;
+}
+
+/**
+ * Serializes the activity log with a per-language summary, for program coordinators.
+ * @param events The activity log.
+ * @param vocabulary The deck.
+ * @param now The export time.
+ * @returns The JSON text.
+ */
+export function exportActivityJson(events: ActivityEvent[], vocabulary: VocabularyItem[], now: number = Date.now()): string {
+  return JSON.stringify({
+    format: ACTIVITY_EXPORT_FORMAT,
+    version: ACTIVITY_EXPORT_VERSION,
+    exportedAt: new Date(now).toISOString(),
+    streak: computeStreak(events, now),
+    languages: summarizeProgress(events, vocabulary),
+    events,
+  }, null, 2);
+}
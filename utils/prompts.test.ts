@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { getSystemInstruction } from './prompts';
+import { getKnowledgeEntry } from '../knowledge';
+import { KnowledgeEntry } from '../types';
+
+describe('getSystemInstruction', () => {
+  it('keeps the whole conversation in one language when both sides match', () => {
+    const instruction = getSystemInstruction('English', 'English');
+    expect(instruction).toContain('converse with the user entirely in English');
+    expect(instruction).not.toContain('translate or interpret');
+  });
+
+  it('asks for translation into a tribal language with an English gloss', () => {
+    const instruction = getSystemInstruction('English', 'Macushi');
+    expect(instruction).toContain('The user will communicate in English');
+    expect(instruction).toContain('respond in Macushi');
+    expect(instruction).toContain('always provide an English translation');
+  });
+
+  it('omits the English gloss when answering in English', () => {
+    const instruction = getSystemInstruction('Wapishana', 'English');
+    expect(instruction).toContain('The user will communicate in Wapishana');
+    expect(instruction).toContain('respond in English');
+    expect(instruction).not.toContain('always provide an English translation');
+  });
+
+  it('always includes the cultural guidance', () => {
+    for (const [input, output] of [['English', 'English'], ['Akawaio', 'Wai-Wai']]) {
+      expect(getSystemInstruction(input, output)).toContain('Share cultural context');
+    }
+  });
+
+  it('adds no reference section without knowledge', () => {
+    expect(getSystemInstruction('English', 'Macushi')).not.toContain('Reference material');
+  });
+
+  it('includes retrieved entries and asks for inline citations', () => {
+    const entry = getKnowledgeEntry('macushi.lex.tuna') as KnowledgeEntry;
+    const instruction = getSystemInstruction('English', 'Macushi', { knowledge: [entry] });
+    expect(instruction).toContain('[kb:macushi.lex.tuna] (Macushi, lexicon, unreviewed) tuna: water.');
+    expect(instruction).toContain('cite it inline by its tag');
+  });
+
+  it('tells the live model not to read tags aloud', () => {
+    const entry = getKnowledgeEntry('macushi.lex.tuna') as KnowledgeEntry;
+    expect(getSystemInstruction('English', 'Macushi', { knowledge: [entry], mode: 'spoken' })).toContain('Never read the bracketed tags aloud');
+  });
+
+  it('ends with the roleplay scenario when one is set', () => {
+    const instruction = getSystemInstruction('English', 'Macushi', { mode: 'spoken', scenario: 'You play a village elder.' });
+    expect(instruction.endsWith('You play a village elder.')).toBe(true);
+  });
+});
@@ -0,0 +1,72 @@
+// System instructions sent to the model
+
+import { Correction, KnowledgeEntry } from '../types';
+import { formatCorrectionsContext } from './corrections';
+import { formatKnowledgeContext } from './knowledge';
+
+// 'spoken' is for the Live API, where citation tags would be read aloud.
+export type InstructionMode = 'text' | 'spoken';
+
+export interface InstructionGrounding {
+  knowledge?: KnowledgeEntry[]; // Knowledge base entries to ground the answer in
+  corrections?: Correction[]; // Approved community corrections
+  mode?: InstructionMode;
+  scenario?: string; // A roleplay to stay in, such as a lesson's
+}
+
+/**
+ * Builds the tutor system instruction for a conversation.
+ * @param inputLang The language the learner writes or speaks in.
+ * @param outputLang The language the assistant should answer in.
+ * @param grounding Knowledge base entries, approved corrections, whether answers are read or heard, and any roleplay scenario.
+ * @returns The system instruction text.
+ */
+export const getSystemInstruction = (inputLang: string, outputLang: string, grounding: InstructionGrounding = {}): string => {
+  const { knowledge = [], corrections = [], mode = 'text', scenario } = grounding;
+  let instruction = `You are a helpful, knowledgeable, and engaging teacher specializing in Guyanese tribal languages, culture, and history. Your primary goal is to educate English speakers about these fascinating topics. You have deep expertise in the nine indigenous tribes of Guyana: Wai-Wai, Macushi, Patamona, Lokono, Kalina, Wapishana, Arekuna, Akawaio, and Warrau.`;
+
+  if (inputLang !== outputLang) {
+    instruction += ` The user will communicate in ${inputLang}. You must translate or interpret their input and respond in ${outputLang}.`;
+    if (outputLang !== 'English') {
+      instruction += ` When responding in ${outputLang}, always provide an English translation for clarity.`;
+    }
+  } else {
+    instruction += ` You will converse with the user entirely in ${inputLang}.`;
+  }
+
+  instruction += `
+
+When providing information:
+*   Share cultural context: customs, traditional music, and storytelling.
+*   Give phonetic approximations for tribal words to help the learner pronounce them.
+*   Discuss the environment of the tribes, from the Amazonian interior to the Rupununi savannahs.
+*   Be respectful and fostering of curiosity.
+*   Keep formatting clean with bullet points where appropriate.`;
+
+  if (knowledge.length > 0) {
+    const citeInstruction = mode === 'text'
+      ? 'When you use an entry, cite it inline by its tag, for example [kb:macushi.lex.tuna].'
+      : 'When you use an entry, say that it comes from the app\'s reference notes. Never read the bracketed tags aloud.';
+    instruction += `
+
+Reference material from the app's curated knowledge base follows. Prefer it over general knowledge for vocabulary, spelling and grammar, and do not invent words in these languages: if the material does not cover something, say you are not certain. ${citeInstruction} Entries marked "unreviewed" have not yet been checked by community reviewers; mention that when you rely on one.
+
+${formatKnowledgeContext(knowledge)}`;
+  }
+
+  if (corrections.length > 0) {
+    instruction += `
+
+Community reviewers have approved these corrections to earlier answers and cards. They override any other source; never repeat a corrected mistake.
+
+${formatCorrectionsContext(corrections)}`;
+  }
+
+  if (scenario) {
+    instruction += `
+
+${scenario}`;
+  }
+
+  return instruction;
+};
@@ -0,0 +1,11 @@
+import { describe, expect, it } from 'vitest';
+import { buildPronunciationFeedbackPrompt } from './pronunciationFeedback';
+import { createCard } from '../test/fixtures';
+
+describe('buildPronunciationFeedbackPrompt', () => {
+  it('names the word and gives the reference transcription when the card has one', () => {
+    const prompt = buildPronunciationFeedbackPrompt(createCard('Maimy', 'Water', { phoneticTranscription: '/ˈmaɪ.mi/' }));
+    expect(prompt).toContain('the Macushi word "Maimy" (meaning "Water"), whose reference transcription is /ˈmaɪ.mi/.');
+    expect(buildPronunciationFeedbackPrompt(createCard())).not.toContain('reference transcription');
+  });
+});
@@ -0,0 +1,35 @@
+// Model feedback on a learner's recorded attempt at a card's word
+
+import { Schema, Type } from '@google/genai';
+import { VocabularyItem } from '../types';
+
+export const PRONUNCIATION_FEEDBACK_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    score: { type: Type.NUMBER, description: 'Overall pronunciation score from 0 to 100.' },
+    summary: { type: Type.STRING, description: 'Short, encouraging overall feedback.' },
+    phonemes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          expected: { type: Type.STRING, description: 'The reference phoneme in IPA.' },
+          heard: { type: Type.STRING, description: 'What the learner produced, in IPA.' },
+          isCorrect: { type: Type.BOOLEAN },
+          tip: { type: Type.STRING, description: 'How to fix it, or empty if correct.' },
+        },
+        required: ['expected', 'heard', 'isCorrect', 'tip'],
+      },
+    },
+  },
+  required: ['score', 'summary', 'phonemes'],
+};
+
+/**
+ * Builds the prompt sent alongside the learner's recording.
+ * @param item The card being practised.
+ * @returns The prompt text.
+ */
+export function buildPronunciationFeedbackPrompt(item: Pick<VocabularyItem, 'word' | 'wordLanguage' | 'translation' | 'phoneticTranscription'>): string {
+  return `The attached recording is a learner trying to pronounce the ${item.wordLanguage} word "${item.word}" (meaning "${item.translation}")${item.phoneticTranscription ? `, whose reference transcription is ${item.phoneticTranscription}` : ''}. Compare what you hear with the reference pronunciation segment by segment. Score the attempt from 0 to 100, summarise in one or two encouraging sentences, and list each phoneme of the reference with what the learner actually produced and a short, practical tip for any that were off. If the recording is silent or not an attempt at the word, give a score of 0 and say so in the summary.`;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { buildQuizQuestions, isAnswerCorrect, normalizeAnswer, normalizeDistractors, pickQuizItems, quizWeight, recordQuizAnswer } from './quiz';
+import { createCard } from '../test/fixtures';
+
+const deck = [createCard('Maimy', 'Water', { id: '1' }), createCard('Tuna', 'River', { id: '2' }), createCard('Wei', 'Sun', { id: '3' }), createCard('Kapoi', 'Moon', { id: '4' })];
+
+describe('answer matching', () => {
+  it('ignores accents, case, punctuation and spacing', () => {
+    expect(normalizeAnswer('  Kwé-Kwé! ')).toBe('kwekwe');
+    expect(isAnswerCorrect('kwe kwe', 'Kwé kwé')).toBe(true);
+    expect(isAnswerCorrect('MAIMY', 'Maimy')).toBe(true);
+    expect(isAnswerCorrect('maim', 'Maimy')).toBe(false);
+    expect(isAnswerCorrect('  ', 'Maimy')).toBe(false);
+  });
+
+  it('accepts any listed alternative', () => {
+    expect(isAnswerCorrect('day', 'sun / day')).toBe(true);
+    expect(isAnswerCorrect('sun / day', 'sun / day')).toBe(true);
+  });
+});
+
+describe('recordQuizAnswer and quizWeight', () => {
+  it('counts attempts and streaks', () => {
+    let item = recordQuizAnswer(deck[0], true, 10);
+    item = recordQuizAnswer(item, true, 20);
+    expect(item.quiz).toEqual({ attempts: 2, correct: 2, streak: 2, lastAnsweredAt: 20 });
+    item = recordQuizAnswer(item, false, 30);
+    expect(item.quiz).toEqual({ attempts: 3, correct: 2, streak: 0, lastAnsweredAt: 30 });
+  });
+
+  it('weighs missed cards above new ones and known ones below', () => {
+    const missed = recordQuizAnswer(recordQuizAnswer(deck[0], false), false);
+    const known = recordQuizAnswer(recordQuizAnswer(deck[0], true), true);
+    expect(quizWeight(missed)).toBeGreaterThan(quizWeight(deck[0]));
+    expect(quizWeight(known)).toBeLessThan(quizWeight(deck[0]));
+  });
+});
+
+describe('pickQuizItems', () => {
+  it('samples without replacement and prefers weak cards', () => {
+    const weak = recordQuizAnswer(recordQuizAnswer(deck[3], false), false);
+    const items = [...deck.slice(0, 3).map(i => recordQuizAnswer(recordQuizAnswer(i, true), true)), weak];
+    const picked = pickQuizItems(items, 1, () => 0.9);
+    expect(picked).toEqual([weak]);
+    expect(new Set(pickQuizItems(deck, 10, () => 0.5).map(i => i.id)).size).toBe(4);
+  });
+});
+
+describe('normalizeDistractors', () => {
+  it('keys distractors by card and drops correct answers and unknown ids', () => {
+    const result = normalizeDistractors({
+      cards: [
+        { id: '1', words: ['Tuna', 'maimy', ''], translations: ['Rain', 'WATER'] },
+        { id: 'nope', words: ['x'], translations: ['y'] },
+      ],
+    }, deck);
+    expect(result).toEqual({ '1': { words: ['Tuna'], translations: ['Rain'] } });
+    expect(normalizeDistractors(null, deck)).toEqual({});
+  });
+});
+
+describe('buildQuizQuestions', () => {
+  const random = () => 0;
+
+  it('rotates types and builds four options including the answer', () => {
+    const questions = buildQuizQuestions(deck.slice(0, 3), deck, ['word-to-translation', 'translation-to-word', 'typed'], {
+      '1': { words: [], translations: ['Rain', 'Fire', 'Stone'] },
+    }, random);
+    expect(questions.map(q => q.type)).toEqual(['word-to-translation', 'translation-to-word', 'typed']);
+    expect(questions[0].answer).toBe('Water');
+    expect([...questions[0].options].sort()).toEqual(['Fire', 'Rain', 'Stone', 'Water']);
+    expect(questions[1].answer).toBe('Tuna');
+    expect(questions[1].options).toContain('Tuna');
+    expect(questions[1].options).toHaveLength(4);
+    expect(questions[2].options).toEqual([]);
+  });
+
+  it('only asks picture questions about cards with images', () => {
+    const withImage = createCard('Ye', 'Tree', { id: '5', imageBase64: 'abc' });
+    const questions = buildQuizQuestions([deck[0], withImage], [...deck, withImage], ['picture', 'listening'], {}, random);
+    expect(questions.map(q => q.type)).toEqual(['listening', 'listening']);
+    expect(buildQuizQuestions([withImage], [withImage], ['picture'], {}, random)[0].type).toBe('picture');
+  });
+
+  it('falls back to deck answers in the same language when nothing was generated', () => {
+    const other = createCard('Wiwi', 'Bird', { id: '6', wordLanguage: 'Wapishana' });
+    const [question] = buildQuizQuestions([deck[0]], [...deck, other], ['listening'], {}, random);
+    expect(question.options).toHaveLength(4);
+    expect(question.options).not.toContain('Wiwi');
+  });
+});
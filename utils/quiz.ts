@@ -0,0 +1,208 @@
+// Self-test quizzes built from the vocabulary deck, weighted towards weak words
+
+import { Schema, Type } from '@google/genai';
+import { QuizDistractors, QuizQuestion, QuizQuestionType, QuizStats, VocabularyItem } from '../types';
+import { createId } from './ids';
+
+export const QUIZ_QUESTION_TYPES: QuizQuestionType[] = ['word-to-translation', 'translation-to-word', 'listening', 'picture', 'typed'];
+
+export const QUIZ_TYPE_LABELS: Record<QuizQuestionType, string> = {
+  'word-to-translation': 'Word → Meaning',
+  'translation-to-word': 'Meaning → Word',
+  listening: 'Listening',
+  picture: 'Picture',
+  typed: 'Typed Answer',
+};
+
+const OPTION_COUNT = 4;
+
+export const DISTRACTOR_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    cards: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: 'The card id from the list.' },
+          words: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Three real words in the same language that could be confused with the card word.' },
+          translations: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Three English meanings that could be confused with the card meaning.' },
+        },
+        required: ['id', 'words', 'translations'],
+      },
+    },
+  },
+  required: ['cards'],
+};
+
+/**
+ * Builds the prompt asking for plausible wrong answers for each card.
+ * @param items The cards in the quiz.
+ * @returns The prompt text.
+ */
+export function buildDistractorPrompt(items: VocabularyItem[]): string {
+  const list = items.map(i => `- id ${i.id}: ${i.wordLanguage} "${i.word}" = "${i.translation}"`).join('\n');
+  return `These vocabulary cards are used in a multiple-choice quiz for learners of Guyanese indigenous languages. For each card give three wrong but plausible alternatives for the word (real words from the same language, similar in sound or topic) and three wrong but plausible English meanings. Never repeat the correct answer.\n\n${list}`;
+}
+
+/**
+ * Validates the distractor response, dropping anything that matches a card's correct answer.
+ * @param raw The parsed JSON response.
+ * @param items The cards in the quiz.
+ * @returns Distractors keyed by card id.
+ */
+export function normalizeDistractors(raw: any, items: VocabularyItem[]): Record<string, QuizDistractors> {
+  const byId = new Map(items.map(i => [i.id, i]));
+  const result: Record<string, QuizDistractors> = {};
+  for (const entry of Array.isArray(raw?.cards) ? raw.cards : []) {
+    const item = byId.get(String(entry?.id ?? ''));
+    if (!item) continue;
+    const clean = (values: unknown, correct: string) => Array.isArray(values)
+      ? values.map(v => String(v ?? '').trim()).filter(v => v && !isAnswerCorrect(v, correct))
+      : [];
+    result[item.id] = { words: clean(entry.words, item.word), translations: clean(entry.translations, item.translation) };
+  }
+  return result;
+}
+
+/**
+ * Normalizes an answer for comparison: accents, case, punctuation and spacing are ignored.
+ * @param text The answer.
+ * @returns The comparable form.
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Checks a typed answer. Cards with alternatives ("sun / day") accept any one of them.
+ * @param given What the learner typed.
+ * @param expected The card's answer.
+ * @returns True if the answer matches.
+ */
+export function isAnswerCorrect(given: string, expected: string): boolean {
+  const answer = normalizeAnswer(given);
+  if (!answer) return false;
+  return [expected, ...expected.split(/[/;]/)].some(candidate => normalizeAnswer(candidate) === answer);
+}
+
+/**
+ * Records a quiz answer on a card.
+ * @param item The card that was asked.
+ * @param correct Whether the answer was right.
+ * @param now The time of the answer.
+ * @returns A copy of the card with its quiz stats updated.
+ */
+export function recordQuizAnswer(item: VocabularyItem, correct: boolean, now: number = Date.now()): VocabularyItem {
+  const stats: QuizStats = item.quiz ?? { attempts: 0, correct: 0, streak: 0, lastAnsweredAt: 0 };
+  return {
+    ...item,
+    quiz: {
+      attempts: stats.attempts + 1,
+      correct: stats.correct + (correct ? 1 : 0),
+      streak: correct ? stats.streak + 1 : 0,
+      lastAnsweredAt: now,
+    },
+  };
+}
+
+/**
+ * How strongly a card should be preferred when picking quiz questions. Cards missed often or
+ * recently weigh more; cards never quizzed sit in the middle.
+ * @param item The card.
+ * @returns A positive weight.
+ */
+export function quizWeight(item: VocabularyItem): number {
+  const stats = item.quiz;
+  if (!stats) return 2;
+  // Laplace-smoothed error rate, so one lucky answer doesn't bury a card.
+  const errorRate = 1 - (stats.correct + 1) / (stats.attempts + 2);
+  return 0.5 + errorRate * 4 + (stats.streak === 0 ? 1 : 0);
+}
+
+/**
+ * Picks cards for a quiz by weighted sampling without replacement.
+ * @param items The deck.
+ * @param count How many cards to pick.
+ * @param random Source of randomness in [0, 1).
+ * @returns The picked cards.
+ */
+export function pickQuizItems(items: VocabularyItem[], count: number, random: () => number = Math.random): VocabularyItem[] {
+  const pool = items.map(item => ({ item, weight: quizWeight(item) }));
+  const picked: VocabularyItem[] = [];
+  while (picked.length < count && pool.length > 0) {
+    const total = pool.reduce((sum, p) => sum + p.weight, 0);
+    let target = random() * total;
+    let index = pool.findIndex(p => (target -= p.weight) < 0);
+    if (index === -1) index = pool.length - 1;
+    picked.push(pool[index].item);
+    pool.splice(index, 1);
+  }
+  return picked;
+}
+
+function shuffle<T>(values: T[], random: () => number): T[] {
+  const result = [...values];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Builds multiple-choice options: the answer, generated distractors, then other cards' answers as a fallback.
+ * @param answer The correct option.
+ * @param generated Distractors generated for this card.
+ * @param fromDeck The same field on the other cards in the deck.
+ * @param random Source of randomness in [0, 1).
+ * @returns Up to four shuffled options including the answer.
+ */
+function buildOptions(answer: string, generated: string[], fromDeck: string[], random: () => number): string[] {
+  const options = [answer];
+  for (const candidate of [...generated, ...shuffle(fromDeck, random)]) {
+    if (options.length >= OPTION_COUNT) break;
+    if (!options.some(o => normalizeAnswer(o) === normalizeAnswer(candidate))) options.push(candidate);
+  }
+  return shuffle(options, random);
+}
+
+/**
+ * Builds one question per card, rotating through the chosen types. Picture questions are only
+ * asked for cards with an image.
+ * @param items The cards to ask about, in order.
+ * @param deck The whole deck, used for fallback distractors.
+ * @param types The question types to include.
+ * @param distractors Generated distractors keyed by card id.
+ * @param random Source of randomness in [0, 1).
+ * @returns The questions.
+ */
+export function buildQuizQuestions(
+  items: VocabularyItem[],
+  deck: VocabularyItem[],
+  types: QuizQuestionType[],
+  distractors: Record<string, QuizDistractors> = {},
+  random: () => number = Math.random,
+): QuizQuestion[] {
+  if (types.length === 0) return [];
+  return items.map((item, index) => {
+    const usable = types.filter(t => t !== 'picture' || item.imageBase64);
+    const type = usable.length > 0 ? usable[index % usable.length] : 'word-to-translation';
+    const others = deck.filter(d => d.id !== item.id);
+    const generated = distractors[item.id] ?? { words: [], translations: [] };
+    const asksForWord = type !== 'word-to-translation';
+    const answer = asksForWord ? item.word : item.translation;
+    const options = type === 'typed'
+      ? []
+      : asksForWord
+        ? buildOptions(item.word, generated.words, others.filter(o => o.wordLanguage === item.wordLanguage).map(o => o.word), random)
+        : buildOptions(item.translation, generated.translations, others.map(o => o.translation), random);
+    return { id: createId(), type, item, options, answer };
+  });
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CRISIS_SCREEN_SCHEMA, assessCrisisRisk, buildCrisisMessage, createLexiconClassifier, isConfidentlyEnglish, loadCrisisRegion, normalizeForScreening, saveCrisisRegion, screenWithRules } from './safety';
+import { getCrisisRegion } from '../crisis';
+import { createFakeProvider } from '../test/fakeProvider';
+
+describe('screenWithRules', () => {
+  it.each([
+    'I feel suicidal',
+    'Sometimes I want to die',
+    'I am going to KILL MYSELF',
+    'thinking about ending it all',
+    "I don't want to live anymore",
+    'Everyone would be better off without me',
+    'gonna take all my pills tonight',
+    'me gon drink de gramoxone',
+    'ah nah wan live no more',
+    'Me wan dead',
+    'ya no quiero vivir',
+    'Eu quero morrer',
+    'não quero mais viver',
+  ])('flags "%s" as high risk', text => {
+    expect(screenWithRules(text).risk).toBe('high');
+  });
+
+  it.each([
+    'Tell me about suicide rates in Guyana',
+    "I can't take this anymore",
+    "I'm tired of living like this",
+    'Sometimes I cut myself',
+  ])('flags "%s" as possible risk', text => {
+    expect(screenWithRules(text).risk).toBe('possible');
+  });
+
+  it.each([
+    'How do I say water in Macushi?',
+    'Tell me about Wai-Wai funeral customs',
+    "I don't want to live in Georgetown",
+    'I take my pills every morning',
+    'That joke had me kmsl',
+    'How do you say "dead tree" in Wapishana?',
+    '',
+  ])('does not flag "%s"', text => {
+    expect(screenWithRules(text).risk).toBe('none');
+  });
+
+  it('names the rules that matched', () => {
+    expect(screenWithRules('I want to die, I feel suicidal').signals).toEqual(['suicidal', 'want-to-die']);
+  });
+});
+
+describe('normalizeForScreening', () => {
+  it('drops accents, apostrophes and punctuation', () => {
+    expect(normalizeForScreening("  Não, I DON’T… want-to!  ")).toBe('nao i dont want to');
+  });
+});
+
+describe('isConfidentlyEnglish', () => {
+  it.each([
+    'How do I say water in Macushi?',
+    'Tell me about the history of the Wai-Wai tribe.',
+    'Hi',
+  ])('confirms "%s"', text => {
+    expect(isConfidentlyEnglish(text)).toBe(true);
+  });
+
+  it.each([
+    'Ah feel like ah want go way from everybody fuh good',
+    'Uurî ma’ne kaimaaru pe',
+    'Estoy muy cansada de todo',
+    '',
+  ])('cannot confirm "%s"', text => {
+    expect(isConfidentlyEnglish(text)).toBe(false);
+  });
+});
+
+describe('createLexiconClassifier', () => {
+  const classifier = createLexiconClassifier();
+
+  it('scores paraphrases the rules miss', async () => {
+    const text = "I'm so alone and worthless, nobody cares, I just want to disappear forever";
+    expect(screenWithRules(text).risk).toBe('none');
+    expect(await classifier.score(text)).toBeGreaterThanOrEqual(0.6);
+  });
+
+  it('ignores vocabulary questions and text without a first person', async () => {
+    expect(await classifier.score('How do I say "alone" and "dead" in Carib?')).toBe(0);
+    expect(await classifier.score('The old tree is dead and the river is empty')).toBe(0);
+  });
+});
+
+describe('assessCrisisRisk', () => {
+  const provider = (risk: unknown) => {
+    const fake = createFakeProvider();
+    fake.generateJson.mockResolvedValue({ risk, reason: '' });
+    return fake;
+  };
+
+  it('never asks the model about an explicit statement', async () => {
+    const model = provider('none');
+    expect((await assessCrisisRisk('I want to kill myself', { provider: model })).risk).toBe('high');
+    expect(model.generateJson).not.toHaveBeenCalled();
+  });
+
+  it('skips the model for English with no signal', async () => {
+    const model = provider('high');
+    expect((await assessCrisisRisk('What is the Macushi word for fish?', { provider: model })).risk).toBe('none');
+    expect(model.generateJson).not.toHaveBeenCalled();
+  });
+
+  it('lets the model decide possible risk found by the rules or the classifier', async () => {
+    const model = provider('none');
+    const result = await assessCrisisRisk("I'm so alone and worthless, nobody cares, I just want to disappear forever", { classifier: createLexiconClassifier(), provider: model });
+    expect(result).toEqual({ risk: 'none', signals: ['lexicon'], checkedBy: ['rules', 'classifier', 'model'] });
+    expect(model.generateJson.mock.calls[0][0].schema).toBe(CRISIS_SCREEN_SCHEMA);
+  });
+
+  it('asks the model about a message in another language even when English was chosen', async () => {
+    const model = provider('high');
+    const result = await assessCrisisRisk('Ah feel like ah want go way from everybody fuh good', { language: 'English', classifier: createLexiconClassifier(), provider: model });
+    expect(result).toEqual({ risk: 'high', signals: [], checkedBy: ['rules', 'classifier', 'model'] });
+  });
+
+  it('always asks the model about languages the rules do not cover', async () => {
+    const model = provider('possible');
+    const result = await assessCrisisRisk('Uurî ma’ne', { language: 'Macushi', provider: model });
+    expect(result.risk).toBe('possible');
+    expect(model.generateJson.mock.calls[0][0].contents).toContain('The learner chose Macushi');
+  });
+
+  it('keeps the local result when the model fails or answers nonsense', async () => {
+    const failing = createFakeProvider();
+    failing.generateJson.mockRejectedValue(new Error('offline'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect((await assessCrisisRisk("I can't go on", { provider: failing })).risk).toBe('possible');
+    expect((await assessCrisisRisk("I can't go on", { provider: provider('maybe') })).risk).toBe('possible');
+  });
+});
+
+describe('crisis region', () => {
+  it('defaults to Guyana whatever the browser locale, and remembers a choice', () => {
+    vi.spyOn(navigator, 'language', 'get').mockReturnValue('en-US');
+    expect(loadCrisisRegion()).toBe('GY');
+    saveCrisisRegion('GB');
+    expect(loadCrisisRegion()).toBe('GB');
+  });
+
+  it('names the region helpline and emergency number in the chat reply', () => {
+    const message = buildCrisisMessage(getCrisisRegion('GY'));
+    expect(message).toContain('223-0001');
+    expect(message).toContain('call 911');
+  });
+});
@@ -0,0 +1,278 @@
+// Screens learner messages and live transcripts for suicide and self-harm risk
+
+import { Schema, Type } from '@google/genai';
+import { AIProvider } from '../services/aiProvider';
+import { CrisisAssessment, CrisisCheck, CrisisRegion, CrisisRisk } from '../types';
+import { CRISIS_DIRECTORY } from '../crisis';
+import { GUYANESE_LANGUAGES } from '../constants';
+
+const CRISIS_REGION_STORAGE_KEY = 'guyanese_crisis_region_v1';
+
+// Input languages the phrase rules and the local classifier are written for. Anything else,
+// including every tribal language, always gets the model's second pass, and so does a message in
+// one of these that isConfidentlyEnglish can't confirm.
+export const LOCALLY_SCREENED_LANGUAGES = ['English'];
+
+export const CLASSIFIER_THRESHOLD = 0.6;
+
+const RISK_ORDER: CrisisRisk[] = ['none', 'possible', 'high'];
+
+/**
+ * An optional on-device check that scores how likely a message is to express suicidal thoughts.
+ * The bundled one is a weighted lexicon; a deployment can swap in a small local model.
+ */
+export interface CrisisClassifier {
+  name: string;
+  /** Returns a score from 0 to 1; at or above CLASSIFIER_THRESHOLD the message is treated as possible risk. */
+  score: (text: string) => Promise<number>;
+}
+
+interface CrisisRule {
+  name: string;
+  risk: Exclude<CrisisRisk, 'none'>;
+  pattern: RegExp;
+}
+
+const SELF = '(?:my ?self|me ?self|mi ?self|meh ?self)';
+const WANT = '(?:want|wanna|wan|waan|wish|ready|plan|planning|decided)';
+const NOT = '(?:dont|do not|no longer|never|nah|na|nuh|doan|don|dun)';
+
+// Written against normalizeForScreening's output: lower case, no accents or apostrophes, single spaces.
+// English, Guyanese Creolese, and the Spanish, Portuguese and Dutch spoken across Guyana's borders.
+const CRISIS_RULES: CrisisRule[] = [
+  { name: 'harm-self', risk: 'high', pattern: new RegExp(`\\b(?:kill|killin|killing|hang|hanging|shoot|shooting|poison|poisoning|drown|drowning|off|offing|unalive|unaliving) ${SELF}\\b`) },
+  { name: 'suicidal', risk: 'high', pattern: /\bsuicidal\b/ },
+  { name: 'want-to-die', risk: 'high', pattern: new RegExp(`\\b${WANT} (?:to |fuh |fi )?(?:die|be dead|dead|ded|end it all|end my life)\\b`) },
+  { name: 'end-life', risk: 'high', pattern: /\b(?:end|ending|take|taking|tek|tekkin|tekking) (?:my|me|mi) (?:own )?life\b|\bend(?:ing)? it all\b/ },
+  { name: 'not-live', risk: 'high', pattern: new RegExp(`\\b${NOT} (?:want|wanna|wan|waan) (?:to |fuh |fi )?(?:(?:live|liv)(?! (?:in|at|with|there|here|near|by|on|so)\\b)|be alive|exist|wake up)\\b`) },
+  { name: 'overdose-plan', risk: 'high', pattern: /\b(?:take|took|taking|tek|tekkin|tekking|swallow|swallowed|swallowing) (?:all (?:of )?(?:my |the |these |those |dem )?|a (?:whole )?bottle of |a bunch of |a lot of )(?:pills|tablets|meds|medicine)\b/ },
+  { name: 'drink-poison', risk: 'high', pattern: /\b(?:drink|drank|drinking|drinkin|tek|take|took|swallow|swallowed) (?:de |di |the |some |a |dat |that )?(?:poison|gramoxone|gramaxone|grammaxone|paraquat|weedicide|weed ?killer|rat ?poison|rat ?bait|pesticide|bush ?killer|malathion|bleach)\b/ },
+  { name: 'better-off-dead', risk: 'high', pattern: /\b(?:better off|be better) (?:dead|without me)\b/ },
+  { name: 'wish-dead', risk: 'high', pattern: /\bwish(?:ed)? (?:i|me|mi|ah) (?:was|were|woulda|could) (?:dead|die)\b/ },
+  { name: 'kms', risk: 'high', pattern: /\bkms\b/ },
+  { name: 'es-want-die', risk: 'high', pattern: /\b(?:quiero|queria|voy a|me voy a|deseo|quisiera) (?:morir|morirme|matarme|suicidarme)\b|\bme quiero (?:morir|matar|suicidar)\b/ },
+  { name: 'es-not-live', risk: 'high', pattern: /\bno quiero (?:seguir )?(?:vivir|viviendo|existir)\b|\b(?:quitarme|acabar con) (?:la|mi) (?:propia )?vida\b/ },
+  { name: 'pt-want-die', risk: 'high', pattern: /\b(?:quero|queria|vou) (?:morrer|me matar|me suicidar|suicidar)\b/ },
+  { name: 'pt-not-live', risk: 'high', pattern: /\bnao quero (?:mais )?(?:viver|existir)\b|\b(?:tirar|acabar com) (?:a )?minha (?:propria )?vida\b/ },
+  { name: 'nl-want-die', risk: 'high', pattern: /\bik wil (?:dood|sterven|niet meer leven)\b/ },
+  { name: 'self-harm', risk: 'possible', pattern: new RegExp(`\\b(?:cut|cutting|burn|burning|hurt|hurting|harm|harming) ${SELF}\\b|\\bself ?harm`) },
+  { name: 'suicide-mention', risk: 'possible', pattern: /\b(?:suicide|suicidio|suicida|zelfmoord)\b/ },
+  { name: 'going-to-die', risk: 'possible', pattern: /\b(?:going to|gonna|gon|go|gwine|ga) (?:die|dead)\b/ },
+  { name: 'overdose', risk: 'possible', pattern: /\boverdos(?:e|ed|ing)\b/ },
+  { name: 'cant-go-on', risk: 'possible', pattern: /\b(?:cant|cannot|cyah|cyaan) (?:go on|take (?:it|this|dis) (?:any ?more|no more)|do this any ?more|live like this)\b/ },
+  { name: 'no-reason-to-live', risk: 'possible', pattern: /\bno (?:reason|point) (?:to|in|fuh) (?:live|living|go on|going on|be alive)\b/ },
+  { name: 'nobody-would-care', risk: 'possible', pattern: /\b(?:nobody|no one|noone|nobady) (?:would|will|gon|go|woulda) (?:care|miss me|notice)\b/ },
+  { name: 'never-wake-up', risk: 'possible', pattern: /\bsleep and (?:never|not) wake up\b|\bwish (?:i|me|mi|ah) (?:was|were) never born\b/ },
+  { name: 'tired-of-living', risk: 'possible', pattern: /\btired (?:of |fuh |a |fi |to )?(?:living|live|life|being alive)\b/ },
+];
+
+// Vocabulary and translation questions quote words rather than express feelings.
+const LEARNING_QUESTION = /\b(?:how (?:do|would|can) (?:i|you|we) say|translate|translation|what is the word for|whats the word for|meaning of|mean in)\b/;
+
+// Common English words. A message made mostly of these, with no Creolese markers, is confirmed as
+// English; anything else may be Creolese or an Indigenous language the rules can't read.
+const ENGLISH_WORDS = new Set(`
+  a about after again all also am an and any are as ask at be because been before being but by can could
+  day did do does doing dont down each even every feel feeling for from get go going good got had has have
+  he her here him his how i if im in into is it its just know last let like little look make many me mean
+  meaning more most much my need never new no not now of off ok okay on one only or other our out over
+  people please really right said same say see she should so some still tell than thank thanks that the
+  their them then there these they thing things think this those time to today too up us very want was way
+  we well were what when where which who why will with word words would yes you your
+  answer call called come culture english family food fish girl grammar hello hi history home house
+  language learn learning lesson listen morning name night number numbers phrase practise practice river
+  school sentence sound speak spell spelling story sun teach teacher tribal tribe translate translation
+  village water write
+`.trim().split(/\s+/));
+const LANGUAGE_NAMES = new Set(GUYANESE_LANGUAGES.flatMap(l => normalizeForScreening(l).split(' ')));
+const CREOLESE_MARKERS = new Set(['nah', 'wan', 'waan', 'deh', 'dem', 'fuh', 'cyah', 'cyaan', 'yuh', 'wha', 'wuh', 'seh', 'dat', 'dis', 'meh', 'mih', 'ah', 'gon', 'gwine', 'doan', 'tek', 'abee', 'allyuh', 'bai']);
+const ENGLISH_SHARE = 0.6;
+
+const FIRST_PERSON = new Set(['i', 'im', 'ive', 'me', 'my', 'mi', 'myself', 'meself', 'ah', 'meh', 'mih', 'yo', 'eu', 'ik']);
+const DEATH_WORDS = new Set(['die', 'dying', 'dead', 'ded', 'death', 'kill', 'killing', 'suicide', 'hang', 'rope', 'poison', 'gramoxone', 'paraquat', 'pills', 'overdose', 'bleed', 'cutting', 'jump', 'drown', 'gun', 'disappear', 'gone', 'morir', 'muerte', 'morrer', 'morte', 'dood']);
+const HOPELESS_WORDS = new Set(['hopeless', 'worthless', 'useless', 'burden', 'alone', 'lonely', 'empty', 'numb', 'trapped', 'pointless', 'tired', 'exhausted', 'nobody', 'noone', 'nothing', 'hate', 'failure', 'goodbye', 'forgive', 'sorry']);
+const FINALITY_WORDS = new Set(['anymore', 'forever', 'never', 'again']);
+
+export const CRISIS_SCREEN_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    risk: {
+      type: Type.STRING,
+      enum: RISK_ORDER,
+      default: 'none',
+      description: "'high' for intent, a plan or a method to end one's life or self-harm; 'possible' for wishing to be dead, hopelessness or thoughts of self-harm without clear intent; otherwise 'none'.",
+    },
+    reason: { type: Type.STRING, description: 'One short sentence explaining the rating.' },
+  },
+  required: ['risk', 'reason'],
+};
+
+/**
+ * Reduces text to the form the phrase rules are written for: lower case, accents and apostrophes
+ * removed, everything but letters and digits collapsed to single spaces.
+ * @param text Any text.
+ * @returns The normalized text.
+ */
+export function normalizeForScreening(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’‘`]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Whether a message can be confirmed as English, so the local passes are enough when they find nothing.
+ * Language names don't count either way; any Creolese marker rules it out.
+ * @param text The learner's message.
+ * @returns True if most words are common English words and none is a Creolese marker.
+ */
+export function isConfidentlyEnglish(text: string): boolean {
+  const words = normalizeForScreening(text).split(' ').filter(w => w && !LANGUAGE_NAMES.has(w));
+  if (words.length === 0 || words.some(w => CREOLESE_MARKERS.has(w))) return false;
+  return words.filter(w => ENGLISH_WORDS.has(w)).length / words.length >= ENGLISH_SHARE;
+}
+
+/**
+ * Runs the phrase rules. Synchronous and cheap, so it can run on every live transcript fragment.
+ * @param text The learner's message or transcript so far.
+ * @returns The highest risk any rule found, with the names of the matching rules.
+ */
+export function screenWithRules(text: string): CrisisAssessment {
+  const normalized = normalizeForScreening(text);
+  const matches = normalized ? CRISIS_RULES.filter(rule => rule.pattern.test(normalized)) : [];
+  const risk = matches.reduce<CrisisRisk>((highest, rule) => maxRisk(highest, rule.risk), 'none');
+  return { risk, signals: matches.map(rule => rule.name), checkedBy: ['rules'] };
+}
+
+/**
+ * Creates the bundled on-device classifier, which weighs first-person language against words about
+ * death and hopelessness. It catches paraphrases the phrase rules miss, such as
+ * "I'm so alone and worthless, I just want to disappear forever".
+ * @returns The classifier.
+ */
+export function createLexiconClassifier(): CrisisClassifier {
+  return {
+    name: 'lexicon',
+    async score(text) {
+      const normalized = normalizeForScreening(text);
+      if (LEARNING_QUESTION.test(normalized)) return 0;
+      const words = normalized.split(' ');
+      if (!words.some(w => FIRST_PERSON.has(w))) return 0;
+      const death = words.filter(w => DEATH_WORDS.has(w)).length;
+      const hopeless = words.filter(w => HOPELESS_WORDS.has(w)).length;
+      const final = words.some(w => FINALITY_WORDS.has(w)) || /\bno more\b/.test(normalized);
+      return Math.min(1, Math.min(death, 2) * 0.35 + Math.min(hopeless, 3) * 0.2 + (final ? 0.15 : 0));
+    },
+  };
+}
+
+/**
+ * Builds the prompt for the model's second pass.
+ * @param text The learner's message.
+ * @param language The language the learner chose to write or speak in.
+ * @returns The prompt text.
+ */
+export function buildCrisisScreenPrompt(text: string, language: string): string {
+  return `You are the safety check for a language-learning app used by young people in Guyana, many in remote Indigenous communities. Rate the risk that the message below expresses suicidal thoughts or self-harm. The learner chose ${language}, but the message may be in English, Guyanese Creolese, an Indigenous language of Guyana (such as Macushi, Wapishana, Patamona or Arawak), Spanish, Portuguese or a mix, and may be a live speech transcript with recognition errors. Judge meaning, not keywords: catch paraphrases and indirect statements, such as talk of drinking gramoxone or saying goodbye for good. Questions about vocabulary, history or culture, quoted or translated phrases, and obvious jokes are 'none'.\n\nMessage:\n"""${text}"""`;
+}
+
+/**
+ * Reads the model's rating.
+ * @param raw The parsed JSON the model returned.
+ * @returns The risk, or null if the response has none.
+ */
+export function normalizeCrisisRisk(raw: unknown): CrisisRisk | null {
+  const risk = (raw as { risk?: unknown } | null)?.risk;
+  return typeof risk === 'string' && (RISK_ORDER as string[]).includes(risk) ? risk as CrisisRisk : null;
+}
+
+/**
+ * Screens a message in up to three passes: the phrase rules, then the classifier if one is given,
+ * then the model when either local pass found possible risk or the message can't be confirmed as
+ * English: the learner chose another language, or it reads as Creolese or an Indigenous language. The model decides possible-risk cases; explicit statements found by the
+ * rules are never overruled. If the model fails, the local result stands, so a possible risk is
+ * still shown the crisis panel.
+ * @param text The learner's message.
+ * @param options `language` the learner chose; an optional on-device `classifier`; the `provider` for the model pass, or null to stay offline.
+ * @returns The assessment.
+ */
+export async function assessCrisisRisk(
+  text: string,
+  options: { language?: string; classifier?: CrisisClassifier | null; provider?: Pick<AIProvider, 'generateJson'> | null } = {},
+): Promise<CrisisAssessment> {
+  const { language = 'English', classifier = null, provider = null } = options;
+  const local = screenWithRules(text);
+  if (local.risk === 'high' || !text.trim()) return local;
+
+  const checkedBy: CrisisCheck[] = [...local.checkedBy];
+  const signals = [...local.signals];
+  let risk: CrisisRisk = local.risk;
+  if (classifier) {
+    try {
+      const score = await classifier.score(text);
+      checkedBy.push('classifier');
+      if (score >= CLASSIFIER_THRESHOLD) {
+        risk = maxRisk(risk, 'possible');
+        signals.push(classifier.name);
+      }
+    } catch (error) {
+      console.error('Crisis classifier failed:', error);
+    }
+  }
+
+  const isLocallyScreened = LOCALLY_SCREENED_LANGUAGES.includes(language) && isConfidentlyEnglish(text);
+  if (!provider || (risk === 'none' && isLocallyScreened)) return { risk, signals, checkedBy };
+  try {
+    const raw = await provider.generateJson<unknown>({ contents: buildCrisisScreenPrompt(text, language), schema: CRISIS_SCREEN_SCHEMA });
+    const modelRisk = normalizeCrisisRisk(raw);
+    if (modelRisk) return { risk: modelRisk, signals, checkedBy: [...checkedBy, 'model'] };
+  } catch (error) {
+    console.error('Crisis screening failed:', error);
+  }
+  return { risk, signals, checkedBy };
+}
+
+function maxRisk(a: CrisisRisk, b: CrisisRisk): CrisisRisk {
+  return RISK_ORDER.indexOf(a) >= RISK_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * Builds the reply shown in the chat in place of an answer, naming the region's first helpline.
+ * @param region The learner's region.
+ * @returns The message text.
+ */
+export function buildCrisisMessage(region: CrisisRegion): string {
+  const helpline = region.resources.find(r => r.phones.length > 0);
+  const call = helpline ? `call ${helpline.name} on ${helpline.phones[0]}, or ` : '';
+  return `It sounds like you may be going through something really painful, and you don't have to face it alone. Please ${call}call ${region.emergency} if you are in danger right now. Talking to someone you trust — a family member, teacher, health worker or your village's toshao — can help too.`;
+}
+
+/**
+ * The region whose helplines the crisis panel shows.
+ * @returns The learner's saved choice, or the directory's default region (Guyana). The UI locale is
+ * not used: most devices in Guyana report en-US.
+ */
+export function loadCrisisRegion(): string {
+  try {
+    const saved = localStorage.getItem(CRISIS_REGION_STORAGE_KEY);
+    if (saved && CRISIS_DIRECTORY.regions.some(r => r.id === saved)) return saved;
+  } catch (error) {
+    console.error('Failed to load crisis region:', error);
+  }
+  return CRISIS_DIRECTORY.defaultRegion;
+}
+
+/**
+ * Saves the region whose helplines the crisis panel shows.
+ * @param id The region's ID.
+ */
+export function saveCrisisRegion(id: string): void {
+  try {
+    localStorage.setItem(CRISIS_REGION_STORAGE_KEY, id);
+  } catch (error) {
+    console.error('Failed to save crisis region:', error);
+  }
+}
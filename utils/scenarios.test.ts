@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { RoleplayScenario } from '../types';
+import { SCENARIO_PRESETS, buildScenarioInstruction, createScenario, findUsedTargets, normalizeDebrief, offlineDebrief, parseScenarioTargets } from './scenarios';
+import { createTurn } from '../test/fixtures';
+
+const storytelling = SCENARIO_PRESETS.find(s => s.id === 'preset.storytelling-circle') as RoleplayScenario;
+
+describe('buildScenarioInstruction', () => {
+  it('describes the persona, difficulty, goals and targets', () => {
+    const instruction = buildScenarioInstruction(storytelling);
+    expect(instruction).toContain('You play an elder telling a traditional story');
+    expect(instruction).toContain('speak mostly Wai-Wai');
+    expect(instruction).toContain('keep English to a minimum');
+    expect(instruction).toContain('kamo (sun), nuno (moon)');
+    expect(instruction).toContain('Retell one part of the story');
+  });
+});
+
+describe('custom scenarios', () => {
+  it('parses target lines with and without a known word', () => {
+    expect(parseScenarioTargets('tuna = water\n\n  thank you ')).toEqual([{ meaning: 'water', word: 'tuna' }, { meaning: 'thank you' }]);
+  });
+
+  it('trims fields, drops empty goals and requires a title, persona and setting', () => {
+    const fields = { title: ' River trip ', language: 'Carib', persona: 'a boat captain', learnerRole: '', setting: 'On the river.', goals: ['Ask the fare', ''], targets: [], difficulty: 'beginner' as const };
+    expect(createScenario(fields)).toMatchObject({ title: 'River trip', learnerRole: 'a learner', goals: ['Ask the fare'], isCustom: true });
+    expect(() => createScenario({ ...fields, persona: ' ' })).toThrow('a persona');
+  });
+});
+
+describe('debrief', () => {
+  const turns = [createTurn('assistant', 'Kamo and nuno were brothers.'), createTurn('user', 'Kamo? Tell me more about tuna.'), createTurn('assistant', 'Nuno...')];
+
+  it('counts known words only when the learner says them', () => {
+    expect([...findUsedTargets(storytelling.targets, turns)]).toEqual(['sun', 'water']);
+  });
+
+  it('combines the model answer with literal matches and keeps only listed targets', () => {
+    const debrief = normalizeDebrief({ summary: ' Well done. ', practised: ['Asking questions', ''], usedTargets: ['Long ago', 'fish'], nextSteps: ['a', 'b', 'c', 'd'] }, storytelling, turns);
+    expect(debrief.summary).toBe('Well done.');
+    expect(debrief.practised).toEqual(['Asking questions']);
+    expect(debrief.targets.filter(t => t.used).map(t => t.meaning)).toEqual(['sun', 'water', 'long ago']);
+    expect(debrief.nextSteps).toHaveLength(3);
+  });
+
+  it('builds an offline debrief from the transcript', () => {
+    const debrief = offlineDebrief(storytelling, turns);
+    expect(debrief).toMatchObject({ summary: 'You spoke 1 time in "Storytelling Circle".', isOffline: true });
+    expect(debrief.targets.filter(t => t.used)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,223 @@
+// Live Immersion roleplay scenarios: bundled presets, user-defined ones, and the end-of-session debrief
+
+import { Schema, Type } from '@google/genai';
+import { RoleplayScenario, ScenarioDebrief, ScenarioDifficulty, ScenarioTarget, TranscriptTurn } from '../types';
+import { createId } from './ids';
+import { normalizeAnswer } from './quiz';
+
+const SCENARIOS_STORAGE_KEY = 'guyanese_scenarios_v1';
+
+export const SCENARIO_DIFFICULTIES: ScenarioDifficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+export const SCENARIO_DIFFICULTY_LABELS: Record<ScenarioDifficulty, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+};
+
+const DIFFICULTY_GUIDANCE: Record<ScenarioDifficulty, string> = {
+  beginner: 'The learner is a beginner: use very short sentences, repeat key words, and give English help freely.',
+  intermediate: 'The learner knows the basics: use everyday sentences and give English help only when they are stuck.',
+  advanced: 'The learner is advanced: speak naturally and keep English to a minimum.',
+};
+
+// Tribal-language target words are only given where the knowledge base has them.
+export const SCENARIO_PRESETS: RoleplayScenario[] = [
+  {
+    id: 'preset.market-lethem',
+    title: 'Market Trading in Lethem',
+    language: 'Wapishana',
+    persona: 'a stallholder at the Lethem market selling cassava bread, farine and fruit',
+    learnerRole: 'a shopper buying food for the family',
+    setting: 'A busy Saturday morning at the market in Lethem, the Rupununi town on the border with Brazil.',
+    goals: ['Greet the stallholder', 'Ask what things cost', 'Bargain politely and agree on a price', 'Thank them and say goodbye'],
+    targets: [{ meaning: 'hello' }, { meaning: 'how much?' }, { meaning: 'cassava bread' }, { meaning: 'too expensive' }, { meaning: 'thank you' }],
+    difficulty: 'intermediate',
+  },
+  {
+    id: 'preset.greeting-elders',
+    title: 'Greeting Elders in a Macushi Village',
+    language: 'Macushi',
+    persona: 'a respected grandmother of the village',
+    learnerRole: 'a young visitor arriving in the village',
+    setting: 'Arriving in a Macushi village in the North Rupununi and paying your respects to an elder.',
+    goals: ['Greet the elder respectfully', 'Introduce yourself and your family', 'Ask how she is', 'Thank her and take your leave'],
+    targets: [{ meaning: 'hello' }, { meaning: 'grandmother' }, { meaning: 'my name is' }, { meaning: 'how are you?' }, { meaning: 'thank you' }, { meaning: 'goodbye' }],
+    difficulty: 'beginner',
+  },
+  {
+    id: 'preset.directions-rupununi',
+    title: 'Asking for Directions in the Rupununi',
+    language: 'Macushi',
+    persona: 'a vaquero (cattle rancher) riding across the savannah',
+    learnerRole: 'a traveller looking for the way to the river',
+    setting: 'Midday on the open Rupununi savannah, far from the nearest village.',
+    goals: ['Stop the rider politely', 'Ask the way to the river', 'Check whether it is near or far', 'Repeat the directions back'],
+    targets: [{ meaning: 'where is...?' }, { meaning: 'river' }, { meaning: 'water', word: 'tuna' }, { meaning: 'sun', word: 'wei' }, { meaning: 'near' }, { meaning: 'far' }],
+    difficulty: 'intermediate',
+  },
+  {
+    id: 'preset.storytelling-circle',
+    title: 'Storytelling Circle',
+    language: 'Wai-Wai',
+    persona: 'an elder telling a traditional story around the fire in the evening',
+    learnerRole: 'a listener who asks questions and retells part of the story',
+    setting: 'Evening in the village, with families gathered to hear a story about the sun and the moon.',
+    goals: ['Follow the story', 'Ask what happens next', 'Retell one part of the story in your own words'],
+    targets: [{ meaning: 'sun', word: 'kamo' }, { meaning: 'moon', word: 'nuno' }, { meaning: 'water', word: 'tuna' }, { meaning: 'long ago' }, { meaning: 'what happened next?' }],
+    difficulty: 'advanced',
+  },
+];
+
+const describeTarget = (target: ScenarioTarget) => target.word ? `${target.word} (${target.meaning})` : target.meaning;
+
+/**
+ * Describes a scenario for the Live Immersion system instruction.
+ * @param scenario The scenario.
+ * @returns The scenario text.
+ */
+export function buildScenarioInstruction(scenario: RoleplayScenario): string {
+  let instruction = `This conversation is a roleplay: "${scenario.title}". Setting: ${scenario.setting} You play ${scenario.persona}; the learner is ${scenario.learnerRole}. Stay in character and speak mostly ${scenario.language}. ${DIFFICULTY_GUIDANCE[scenario.difficulty]}`;
+  if (scenario.goals.length > 0) instruction += ` Steer the conversation so the learner can: ${scenario.goals.join('; ')}.`;
+  if (scenario.targets.length > 0) instruction += ` Encourage the learner to use: ${scenario.targets.map(describeTarget).join(', ')}.`;
+  instruction += ' Once the goals are met, step out of character and briefly tell the learner what they did well and what to practise next.';
+  return instruction;
+}
+
+/**
+ * Parses target vocabulary typed one per line, as "word = meaning" or just a meaning.
+ * @param input The text.
+ * @returns The targets, blank lines dropped.
+ */
+export function parseScenarioTargets(input: string): ScenarioTarget[] {
+  return input.split('\n').map(line => line.trim()).filter(Boolean).map(line => {
+    const [word, meaning] = line.split('=').map(part => part.trim());
+    return meaning ? { meaning, word } : { meaning: word };
+  });
+}
+
+/**
+ * Creates a user-defined scenario from the editor fields.
+ * @param fields The scenario without its ID.
+ * @returns The scenario, with text trimmed and empty goals dropped.
+ * @throws If the title, persona or setting is blank.
+ */
+export function createScenario(fields: Omit<RoleplayScenario, 'id' | 'isCustom'>): RoleplayScenario {
+  const scenario: RoleplayScenario = {
+    ...fields,
+    id: createId(),
+    title: fields.title.trim(),
+    persona: fields.persona.trim(),
+    learnerRole: fields.learnerRole.trim() || 'a learner',
+    setting: fields.setting.trim(),
+    goals: fields.goals.map(g => g.trim()).filter(Boolean),
+    isCustom: true,
+  };
+  if (!scenario.title || !scenario.persona || !scenario.setting) throw new Error('Give the scenario a title, a persona and a setting.');
+  return scenario;
+}
+
+/**
+ * Finds the targets the learner said, by matching known tribal-language words in the learner's turns.
+ * @param targets The scenario's targets.
+ * @param turns The session transcript.
+ * @returns The meanings of the targets used.
+ */
+export function findUsedTargets(targets: ScenarioTarget[], turns: TranscriptTurn[]): Set<string> {
+  const spoken = ` ${normalizeAnswer(turns.filter(t => t.speaker === 'user').map(t => t.text).join(' '))} `;
+  return new Set(targets.filter(t => t.word && spoken.includes(` ${normalizeAnswer(t.word)} `)).map(t => t.meaning));
+}
+
+export const DEBRIEF_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: 'Two or three sentences on how the roleplay went, addressed to the learner.' },
+    practised: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Skills or phrases the learner practised.' },
+    usedTargets: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Meanings of the target items the learner said in the target language, exactly as listed.' },
+    nextSteps: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Up to three things to practise next.' },
+  },
+  required: ['summary', 'practised', 'usedTargets', 'nextSteps'],
+};
+
+/**
+ * Builds the request for an end-of-session debrief.
+ * @param scenario The scenario that was played.
+ * @param turns The session transcript.
+ * @returns The prompt text.
+ */
+export function buildDebriefPrompt(scenario: RoleplayScenario, turns: TranscriptTurn[]): string {
+  const targets = scenario.targets.map(t => `- ${t.meaning}${t.word ? ` (${t.word})` : ''}`).join('\n');
+  const transcript = turns.map(t => `${t.speaker === 'user' ? 'Learner' : 'Tutor'}: ${t.text}`).join('\n');
+  return `A learner just finished the ${scenario.language} roleplay "${scenario.title}" (${SCENARIO_DIFFICULTY_LABELS[scenario.difficulty].toLowerCase()}), playing ${scenario.learnerRole}. Their goals were: ${scenario.goals.join('; ')}.
+
+Debrief them: summarise how it went, list what they practised, say which target items they said themselves in ${scenario.language} (not just heard from the tutor), and suggest what to practise next. Judge only from the transcript, which comes from speech recognition and may misspell words.
+
+Targets:
+${targets}
+
+Transcript:
+${transcript}`;
+}
+
+/**
+ * Validates a debrief response against the scenario's targets.
+ * @param raw The parsed JSON response.
+ * @param scenario The scenario that was played.
+ * @param turns The session transcript; known target words found in it count as used even if the model missed them.
+ * @returns The debrief.
+ */
+export function normalizeDebrief(raw: any, scenario: RoleplayScenario, turns: TranscriptTurn[]): ScenarioDebrief {
+  const strings = (value: unknown) => Array.isArray(value) ? value.map(v => String(v).trim()).filter(Boolean) : [];
+  const used = new Set(strings(raw?.usedTargets).map(normalizeAnswer));
+  const matched = findUsedTargets(scenario.targets, turns);
+  return {
+    summary: String(raw?.summary ?? '').trim(),
+    practised: strings(raw?.practised),
+    targets: scenario.targets.map(t => ({ ...t, used: used.has(normalizeAnswer(t.meaning)) || matched.has(t.meaning) })),
+    nextSteps: strings(raw?.nextSteps).slice(0, 3),
+  };
+}
+
+/**
+ * Builds a debrief on the device when the model is unavailable, from literal word matches only.
+ * @param scenario The scenario that was played.
+ * @param turns The session transcript.
+ * @returns The debrief.
+ */
+export function offlineDebrief(scenario: RoleplayScenario, turns: TranscriptTurn[]): ScenarioDebrief {
+  const matched = findUsedTargets(scenario.targets, turns);
+  const learnerTurns = turns.filter(t => t.speaker === 'user' && t.text.trim()).length;
+  return {
+    summary: `You spoke ${learnerTurns} ${learnerTurns === 1 ? 'time' : 'times'} in "${scenario.title}".`,
+    practised: scenario.goals,
+    targets: scenario.targets.map(t => ({ ...t, used: matched.has(t.meaning) })),
+    nextSteps: [],
+    isOffline: true,
+  };
+}
+
+/**
+ * Loads the user's own scenarios from localStorage.
+ * @returns The saved scenarios, or none if nothing is stored or the data is unreadable.
+ */
+export function loadCustomScenarios(): RoleplayScenario[] {
+  try {
+    const stored = localStorage.getItem(SCENARIOS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to load scenarios:', error);
+    return [];
+  }
+}
+
+/**
+ * Saves the user's own scenarios to localStorage.
+ * @param scenarios The scenarios to save.
+ */
+export function saveCustomScenarios(scenarios: RoleplayScenario[]): void {
+  try {
+    localStorage.setItem(SCENARIOS_STORAGE_KEY, JSON.stringify(scenarios));
+  } catch (error) {
+    console.error('Failed to save scenarios:', error);
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { SessionRecorder, loadRecordingEnabled, saveRecordingEnabled } from './sessionRecording';
+
+// 1 kHz in, 2 kHz out keeps the sample counts small and easy to follow.
+const recorder = () => new SessionRecorder(10000, 1000, 2000);
+
+describe('SessionRecorder', () => {
+  it('places assistant audio at the time it was scheduled to play', () => {
+    const r = recorder();
+    r.addOutput(new Float32Array([0.5, 0.5]), 10500);
+    const mixed = r.mix();
+    expect(mixed).toHaveLength(1002);
+    expect(mixed[999]).toBe(0);
+    expect(Array.from(mixed.subarray(1000))).toEqual([0.5, 0.5]);
+  });
+
+  it('places the microphone track by when its first chunk arrived and mixes the two', () => {
+    const r = recorder();
+    // 100 samples at 1 kHz arriving at 10.1 s started at the session start.
+    r.addInput(new Float32Array(100).fill(0.25), 10100);
+    r.addInput(new Float32Array(100).fill(0.25), 10200);
+    r.addOutput(new Float32Array([0.5]), 10050);
+    const mixed = r.mix();
+    expect(mixed.length).toBeGreaterThanOrEqual(398);
+    expect(mixed[100]).toBeCloseTo(0.75);
+    expect(mixed[200]).toBeCloseTo(0.25);
+  });
+
+  it('drops assistant audio cut off by an interruption', () => {
+    const r = recorder();
+    r.addOutput(new Float32Array(1000).fill(0.5), 10000);
+    r.addOutput(new Float32Array(1000).fill(0.5), 10500);
+    r.cutOutput(10250);
+    expect(r.mix()).toHaveLength(500);
+  });
+
+  it('has no audio until something is added', () => {
+    const r = recorder();
+    expect(r.hasAudio).toBe(false);
+    r.addInput(new Float32Array(10), 10010);
+    expect(r.hasAudio).toBe(true);
+  });
+});
+
+describe('recording setting', () => {
+  it('is off by default and remembers the choice', () => {
+    expect(loadRecordingEnabled()).toBe(false);
+    saveRecordingEnabled(true);
+    expect(loadRecordingEnabled()).toBe(true);
+  });
+});
@@ -0,0 +1,119 @@
+// Records both sides of a Live Immersion session and mixes them into one track aligned with the transcript
+
+import { resampleAudio } from './audioHelpers';
+
+const RECORDING_ENABLED_STORAGE_KEY = 'guyanese_live_recording_v1';
+
+interface ScheduledAudio {
+  startMs: number; // Offset from the session start
+  samples: Float32Array;
+}
+
+/**
+ * Collects the learner's microphone audio and the assistant's audio during a live session.
+ * Times are kept as offsets from the session start, the same clock the transcript turns use,
+ * so a turn's `startedAt` can be used to seek the mixed recording.
+ */
+export class SessionRecorder {
+  private readonly inputChunks: Float32Array[] = [];
+  private inputStartMs: number | null = null;
+  private output: ScheduledAudio[] = [];
+
+  constructor(
+    private readonly startedAt: number,
+    private readonly inputRate: number,
+    readonly sampleRate: number, // The assistant's rate, which the mix is made at
+  ) {}
+
+  /**
+   * Adds a chunk of microphone audio. The microphone is captured continuously, so only the first
+   * chunk's arrival time is used to place the learner's track.
+   * @param samples Samples at the input rate.
+   * @param now When the chunk arrived in epoch millis.
+   */
+  addInput(samples: Float32Array, now: number = Date.now()): void {
+    if (this.inputStartMs === null) this.inputStartMs = Math.max(0, now - this.startedAt - (samples.length / this.inputRate) * 1000);
+    this.inputChunks.push(samples.slice());
+  }
+
+  /**
+   * Adds a chunk of assistant audio at the time it is scheduled to play.
+   * @param samples Samples at the output rate.
+   * @param startsAt When playback of the chunk starts in epoch millis.
+   */
+  addOutput(samples: Float32Array, startsAt: number): void {
+    this.output.push({ startMs: Math.max(0, startsAt - this.startedAt), samples: samples.slice() });
+  }
+
+  /**
+   * Drops assistant audio that was scheduled but never heard, as when the learner interrupts.
+   * @param at When playback stopped in epoch millis.
+   */
+  cutOutput(at: number = Date.now()): void {
+    const cutMs = at - this.startedAt;
+    this.output = this.output
+      .filter(chunk => chunk.startMs < cutMs)
+      .map(chunk => {
+        const keep = Math.round(((cutMs - chunk.startMs) / 1000) * this.sampleRate);
+        return keep < chunk.samples.length ? { ...chunk, samples: chunk.samples.slice(0, keep) } : chunk;
+      });
+  }
+
+  get hasAudio(): boolean {
+    return this.inputChunks.length > 0 || this.output.length > 0;
+  }
+
+  /**
+   * Mixes both tracks into one mono track at the assistant's rate.
+   * @returns The mixed samples; values may exceed [-1, 1] where both speakers overlap.
+   */
+  mix(): Float32Array {
+    const toIndex = (ms: number) => Math.round((ms / 1000) * this.sampleRate);
+    const input = this.resampledInput();
+    const inputStart = toIndex(this.inputStartMs ?? 0);
+    const length = this.output.reduce((end, chunk) => Math.max(end, toIndex(chunk.startMs) + chunk.samples.length), inputStart + input.length);
+    const mixed = new Float32Array(length);
+    mixed.set(input, inputStart);
+    for (const chunk of this.output) {
+      const start = toIndex(chunk.startMs);
+      for (let i = 0; i < chunk.samples.length; i++) mixed[start + i] += chunk.samples[i];
+    }
+    return mixed;
+  }
+
+  private resampledInput(): Float32Array {
+    const total = this.inputChunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const joined = new Float32Array(total);
+    let offset = 0;
+    for (const chunk of this.inputChunks) {
+      joined.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return resampleAudio(joined, this.inputRate, this.sampleRate);
+  }
+}
+
+/**
+ * Whether the learner has turned on recording for live sessions.
+ * @returns The saved choice; recording is off unless turned on.
+ */
+export function loadRecordingEnabled(): boolean {
+  try {
+    return localStorage.getItem(RECORDING_ENABLED_STORAGE_KEY) === 'true';
+  } catch (error) {
+    console.error('Failed to load recording setting:', error);
+    return false;
+  }
+}
+
+/**
+ * Saves whether live sessions are recorded.
+ * @param enabled The choice.
+ */
+export function saveRecordingEnabled(enabled: boolean): void {
+  try {
+    localStorage.setItem(RECORDING_ENABLED_STORAGE_KEY, String(enabled));
+  } catch (error) {
+    console.error('Failed to save recording setting:', error);
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { createReviewSchedule, endOfDay, formatNextInterval, getDueItems, gradeVocabularyItem, isDueToday, nextReviewSchedule } from './srs';
+import { ReviewSchedule } from '../types';
+import { createCard } from '../test/fixtures';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date(2026, 0, 15, 9, 30).getTime();
+
+const reviewed = (fields: Partial<ReviewSchedule> = {}): ReviewSchedule => ({ ...createReviewSchedule(0), interval: 10, repetitions: 3, ...fields });
+
+describe('nextReviewSchedule', () => {
+  it('starts new cards at a day, or four days when easy', () => {
+    expect(nextReviewSchedule(undefined, 'good', now)).toMatchObject({ interval: 1, repetitions: 1, ease: 2.5, dueDate: now + DAY_MS });
+    expect(nextReviewSchedule(undefined, 'hard', now)).toMatchObject({ interval: 1, ease: 2.36 });
+    expect(nextReviewSchedule(undefined, 'easy', now)).toMatchObject({ interval: 4, ease: 2.6, dueDate: now + 4 * DAY_MS });
+  });
+
+  it('uses fixed steps for the second review', () => {
+    const once = nextReviewSchedule(undefined, 'good', now);
+    expect(nextReviewSchedule(once, 'hard', now).interval).toBe(3);
+    expect(nextReviewSchedule(once, 'good', now).interval).toBe(6);
+    expect(nextReviewSchedule(once, 'easy', now).interval).toBe(8);
+  });
+
+  it('grows later intervals by the ease, damped when hard and boosted when easy', () => {
+    expect(nextReviewSchedule(reviewed(), 'good', now)).toMatchObject({ interval: 25, repetitions: 4 });
+    expect(nextReviewSchedule(reviewed(), 'hard', now).interval).toBe(12);
+    expect(nextReviewSchedule(reviewed(), 'easy', now).interval).toBe(34);
+  });
+
+  it('brings a card back in ten minutes after "Again" and counts a lapse once it had been learned', () => {
+    const lapsed = nextReviewSchedule(reviewed({ lapses: 1 }), 'again', now);
+    expect(lapsed).toMatchObject({ interval: 0, repetitions: 0, lapses: 2, dueDate: now + 10 * 60 * 1000 });
+    expect(nextReviewSchedule(undefined, 'again', now).lapses).toBe(0);
+    expect(nextReviewSchedule(lapsed, 'again', now).lapses).toBe(2);
+    // Relearning starts over from the first step.
+    expect(nextReviewSchedule(lapsed, 'good', now).interval).toBe(1);
+  });
+
+  it('never lets the ease fall below 1.3', () => {
+    let schedule = reviewed();
+    for (let i = 0; i < 10; i++) schedule = nextReviewSchedule(schedule, 'again', now);
+    expect(schedule.ease).toBe(1.3);
+    expect(nextReviewSchedule(reviewed({ ease: 1.3 }), 'hard', now).ease).toBe(1.3);
+  });
+
+  it('records each review, keeps the last 50 and leaves the input alone', () => {
+    const schedule = reviewed();
+    const next = nextReviewSchedule(schedule, 'good', now);
+    expect(schedule.history).toEqual([]);
+    expect(next.history).toEqual([{ timestamp: now, grade: 'good', interval: 25, ease: 2.5 }]);
+
+    const long = reviewed({ history: Array.from({ length: 50 }, (_, i) => ({ timestamp: i, grade: 'good' as const, interval: 1, ease: 2.5 })) });
+    const history = nextReviewSchedule(long, 'hard', now).history;
+    expect(history).toHaveLength(50);
+    expect(history[0].timestamp).toBe(1);
+    expect(history[49].grade).toBe('hard');
+  });
+
+  it('grades a card without touching its other fields', () => {
+    const card = createCard('Maimy', 'Water', { review: reviewed() });
+    expect(gradeVocabularyItem(card, 'good', now)).toEqual({ ...card, review: nextReviewSchedule(card.review, 'good', now) });
+  });
+});
+
+describe('due dates', () => {
+  it('treats cards due any time today as due, up to the last millisecond', () => {
+    const lastMoment = new Date(2026, 0, 15, 23, 59, 59, 999).getTime();
+    expect(endOfDay(now)).toBe(lastMoment);
+    expect(isDueToday(createCard('Maimy', 'Water', { review: reviewed({ dueDate: lastMoment }) }), now)).toBe(true);
+    expect(isDueToday(createCard('Maimy', 'Water', { review: reviewed({ dueDate: lastMoment + 1 }) }), now)).toBe(false);
+    expect(isDueToday(createCard(), now)).toBe(true);
+  });
+
+  it('orders due cards most overdue first with new cards last', () => {
+    const fresh = createCard('Tuna', 'River');
+    const today = createCard('Wei', 'Sun', { review: reviewed({ dueDate: now }) });
+    const overdue = createCard('Kapoi', 'Moon', { review: reviewed({ dueDate: now - 3 * DAY_MS }) });
+    const tomorrow = createCard('Maimy', 'Water', { review: reviewed({ dueDate: now + DAY_MS }) });
+    expect(getDueItems([fresh, today, tomorrow, overdue], now)).toEqual([overdue, today, fresh]);
+  });
+});
+
+describe('formatNextInterval', () => {
+  it('labels minutes, days, months and years', () => {
+    expect(formatNextInterval(reviewed(), 'again', now)).toBe('10m');
+    expect(formatNextInterval(undefined, 'good', now)).toBe('1d');
+    expect(formatNextInterval(reviewed({ interval: 40 }), 'good', now)).toBe('3mo');
+    expect(formatNextInterval(reviewed({ interval: 200 }), 'good', now)).toBe('1.4y');
+  });
+});
@@ -0,0 +1,135 @@
+// Spaced-repetition scheduling for vocabulary cards (SM-2 variant with four grades)
+
+import { ReviewGrade, ReviewSchedule, VocabularyItem } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+const MAX_HISTORY = 50;
+
+// SM-2 quality score (0-5) for each grade button.
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+/**
+ * Creates the schedule for a card that has never been reviewed.
+ * @param now The current time in epoch millis.
+ * @returns A fresh ReviewSchedule that is due immediately.
+ */
+export function createReviewSchedule(now: number = Date.now()): ReviewSchedule {
+  return { ease: DEFAULT_EASE, interval: 0, repetitions: 0, lapses: 0, dueDate: now, history: [] };
+}
+
+/**
+ * Computes the next schedule for a card after it has been graded.
+ * @param schedule The card's current schedule, or undefined for a new card.
+ * @param grade The grade the learner chose.
+ * @param now The time of the review in epoch millis.
+ * @returns The updated ReviewSchedule (the input is not mutated).
+ */
+export function nextReviewSchedule(
+  schedule: ReviewSchedule | undefined,
+  grade: ReviewGrade,
+  now: number = Date.now(),
+): ReviewSchedule {
+  const current = schedule ?? createReviewSchedule(now);
+  const quality = GRADE_QUALITY[grade];
+  const ease = Math.max(MIN_EASE, current.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  let interval: number;
+  let repetitions: number;
+  let lapses = current.lapses;
+  let dueDate: number;
+
+  if (grade === 'again') {
+    interval = 0;
+    repetitions = 0;
+    lapses += current.repetitions > 0 ? 1 : 0;
+    dueDate = now + RELEARN_DELAY_MS;
+  } else {
+    if (current.repetitions === 0) {
+      interval = grade === 'easy' ? 4 : 1;
+    } else if (current.repetitions === 1) {
+      interval = grade === 'hard' ? 3 : grade === 'easy' ? 8 : 6;
+    } else if (grade === 'hard') {
+      interval = current.interval * 1.2;
+    } else if (grade === 'easy') {
+      interval = current.interval * ease * 1.3;
+    } else {
+      interval = current.interval * ease;
+    }
+    interval = Math.max(1, Math.round(interval));
+    repetitions = current.repetitions + 1;
+    dueDate = now + interval * DAY_MS;
+  }
+
+  const history = [...current.history, { timestamp: now, grade, interval, ease }].slice(-MAX_HISTORY);
+  return { ease, interval, repetitions, lapses, dueDate, history };
+}
+
+/**
+ * Applies a review grade to a vocabulary item.
+ * @param item The item being reviewed.
+ * @param grade The grade the learner chose.
+ * @param now The time of the review in epoch millis.
+ * @returns A copy of the item with its review schedule updated.
+ */
+export function gradeVocabularyItem(item: VocabularyItem, grade: ReviewGrade, now: number = Date.now()): VocabularyItem {
+  return { ...item, review: nextReviewSchedule(item.review, grade, now) };
+}
+
+/**
+ * Returns the end of the local calendar day containing the given time.
+ * @param now A time in epoch millis.
+ * @returns Epoch millis of the last millisecond of that day.
+ */
+export function endOfDay(now: number = Date.now()): number {
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+}
+
+/**
+ * Checks whether a card should be studied today. Cards without a schedule are new and always due.
+ * @param item The vocabulary item.
+ * @param now The current time in epoch millis.
+ * @returns True if the card is due on or before the end of today.
+ */
+export function isDueToday(item: VocabularyItem, now: number = Date.now()): boolean {
+  return !item.review || item.review.dueDate <= endOfDay(now);
+}
+
+/**
+ * Collects the cards due today, most overdue first and new cards last.
+ * @param items The full vocabulary list.
+ * @param now The current time in epoch millis.
+ * @returns The due items in study order.
+ */
+export function getDueItems(items: VocabularyItem[], now: number = Date.now()): VocabularyItem[] {
+  return items
+    .filter(item => isDueToday(item, now))
+    .sort((a, b) => (a.review?.dueDate ?? Infinity) - (b.review?.dueDate ?? Infinity));
+}
+
+/**
+ * Formats the interval a grade would produce, for display on the grade buttons.
+ * @param schedule The card's current schedule.
+ * @param grade The grade to preview.
+ * @param now The current time in epoch millis.
+ * @returns A short label such as "10m", "1d" or "3mo".
+ */
+export function formatNextInterval(schedule: ReviewSchedule | undefined, grade: ReviewGrade, now: number = Date.now()): string {
+  const next = nextReviewSchedule(schedule, grade, now);
+  const minutes = Math.round((next.dueDate - now) / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  if (next.interval < 30) return `${next.interval}d`;
+  if (next.interval < 365) return `${Math.round(next.interval / 30)}mo`;
+  return `${(next.interval / 365).toFixed(1)}y`;
+}
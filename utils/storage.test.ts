@@ -0,0 +1,139 @@
+import { Blob as NodeBlob } from 'node:buffer';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  AUDIO_STORE, DB_NAME, DB_VERSION, IMAGE_STORE, LEGACY_VOCAB_BACKUP_KEY, LEGACY_VOCAB_KEY, MIGRATIONS, META_STORE, VOCABULARY_STORE,
+  loadCardRevisions, loadVocabulary, openDatabase, requestToPromise, saveCardRevision, saveVocabularyChanges,
+} from './storage';
+import { createCard } from '../test/fixtures';
+
+const ALL_STORES = ['activity', 'audio', 'cardRevisions', 'corrections', 'decks', 'images', 'liveRecordings', 'liveSessions', 'meta', 'vocabulary'];
+
+// Recreates the database as an older release left it, by running only the migrations that release shipped with.
+function openAtVersion(version: number): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, version);
+    request.onupgradeneeded = (event) => {
+      for (const migration of MIGRATIONS) {
+        if (migration.version > event.oldVersion && migration.version <= version) migration.migrate(request.result, request.transaction!);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function deleteDatabase(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function countRecords(db: IDBDatabase, store: string): Promise<number> {
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).count());
+}
+
+const legacyDeck = [
+  createCard('Maimy', 'Water', { id: 'a', timestamp: 2, audioBase64: 'AAAA', imageBase64: 'AQID' }),
+  createCard('Tuna', 'River', { id: 'b', timestamp: 1, review: { ease: 2.5, interval: 1, repetitions: 1, lapses: 0, dueDate: 9, history: [] } }),
+];
+
+beforeEach(async () => {
+  // jsdom's Blob loses its methods when fake-indexeddb clones it; Node's survives the round trip.
+  vi.stubGlobal('Blob', NodeBlob);
+  // Closes the app's shared connection too, through its versionchange handler.
+  await deleteDatabase();
+});
+
+describe('migrations', () => {
+  it('numbers migrations consecutively from 1', () => {
+    expect(MIGRATIONS.map(m => m.version)).toEqual(MIGRATIONS.map((_, i) => i + 1));
+    expect(DB_VERSION).toBe(MIGRATIONS.length);
+  });
+
+  it('creates every store on a first run and reports a deck that was never saved', async () => {
+    const db = await openDatabase();
+    expect(db.version).toBe(DB_VERSION);
+    expect(Array.from(db.objectStoreNames).sort()).toEqual(ALL_STORES);
+    expect(await loadVocabulary()).toBeNull();
+  });
+
+  it('moves the localStorage deck into IndexedDB, media included, and then drops the old copy', async () => {
+    localStorage.setItem(LEGACY_VOCAB_KEY, JSON.stringify(legacyDeck));
+    const db = await openDatabase();
+
+    expect(await countRecords(db, IMAGE_STORE)).toBe(1);
+    expect(await countRecords(db, AUDIO_STORE)).toBe(1);
+    expect(await loadVocabulary()).toEqual(legacyDeck.map(item => ({ ...item, imageBase64: item.imageBase64 ?? null })));
+    expect(localStorage.getItem(LEGACY_VOCAB_KEY)).toBeNull();
+  });
+
+  it.each(['{"broken', '{"id": "a"}'])('opens the database when the localStorage deck is unreadable (%s), keeping a copy', async (stored) => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem(LEGACY_VOCAB_KEY, stored);
+    const db = await openDatabase();
+
+    expect(db.version).toBe(DB_VERSION);
+    expect(await loadVocabulary()).toBeNull();
+    expect(localStorage.getItem(LEGACY_VOCAB_KEY)).toBeNull();
+    expect(localStorage.getItem(LEGACY_VOCAB_BACKUP_KEY)).toBe(stored);
+  });
+
+  it('skips legacy entries without an id', async () => {
+    localStorage.setItem(LEGACY_VOCAB_KEY, JSON.stringify([null, { word: 'x' }, legacyDeck[1]]));
+    expect((await loadVocabulary())?.map(item => item.id)).toEqual(['b']);
+  });
+
+  it('moves the localStorage deck when upgrading from version 1', async () => {
+    (await openAtVersion(1)).close();
+    localStorage.setItem(LEGACY_VOCAB_KEY, JSON.stringify(legacyDeck));
+
+    expect((await loadVocabulary())?.map(item => item.id)).toEqual(['a', 'b']);
+    expect(localStorage.getItem(LEGACY_VOCAB_KEY)).toBeNull();
+  });
+
+  it.each(MIGRATIONS.slice(1, -1).map(m => m.version))('upgrades from version %i keeping the saved deck', async (version) => {
+    const old = await openAtVersion(version);
+    const tx = old.transaction([VOCABULARY_STORE, META_STORE], 'readwrite');
+    const { audioBase64: _audio, imageBase64: _image, ...record } = legacyDeck[1];
+    tx.objectStore(VOCABULARY_STORE).put(record);
+    tx.objectStore(META_STORE).put(true, 'vocabularyInitialized');
+    await new Promise(resolve => { tx.oncomplete = resolve; });
+    old.close();
+    // A copy left behind by an interrupted migration must not be imported twice.
+    localStorage.setItem(LEGACY_VOCAB_KEY, JSON.stringify(legacyDeck));
+
+    const db = await openDatabase();
+    expect(db.version).toBe(DB_VERSION);
+    expect(Array.from(db.objectStoreNames).sort()).toEqual(ALL_STORES);
+    const indexes = (store: string) => Array.from(db.transaction(store, 'readonly').objectStore(store).indexNames);
+    expect(indexes('vocabulary')).toEqual(['timestamp']);
+    expect(indexes('liveSessions')).toEqual(['startedAt']);
+    expect(indexes('corrections')).toEqual(['status']);
+    expect(indexes('activity')).toEqual(['timestamp']);
+    expect(indexes('cardRevisions')).toEqual(['itemId']);
+    expect(await loadVocabulary()).toEqual([{ ...legacyDeck[1], imageBase64: null }]);
+  });
+});
+
+describe('saveVocabularyChanges', () => {
+  it('writes added and edited cards, clears removed media and deletes removed cards with their history', async () => {
+    await saveVocabularyChanges([], legacyDeck);
+    await saveCardRevision({ id: 'r1', itemId: 'b', timestamp: 1, previous: { ...legacyDeck[1], tags: [] }, changed: ['translation'] });
+
+    const edited = { ...legacyDeck[0], translation: 'Fresh water', audioBase64: null };
+    await saveVocabularyChanges(legacyDeck, [edited]);
+
+    expect(await loadVocabulary()).toEqual([edited]);
+    const db = await openDatabase();
+    expect(await countRecords(db, AUDIO_STORE)).toBe(0);
+    expect(await countRecords(db, IMAGE_STORE)).toBe(1);
+    expect(await loadCardRevisions('b')).toEqual([]);
+  });
+
+  it('saves an emptied deck so the starter cards are not brought back', async () => {
+    await saveVocabularyChanges(legacyDeck, []);
+    expect(await loadVocabulary()).toEqual([]);
+  });
+});
@@ -0,0 +1,513 @@
+// IndexedDB persistence for the vocabulary deck, with media kept as Blobs in separate stores
+
+import { ActivityEvent, CardFields, CardRevision, Correction, Deck, LiveSessionTranscript, VocabularyItem } from '../types';
+import { decode, encode, float32ToInt16, pcm16ToFloat32 } from './audioHelpers';
+
+export const DB_NAME = 'guyanese_lingua';
+export const LEGACY_VOCAB_KEY = 'guyanese_vocab_v2';
+export const LEGACY_VOCAB_BACKUP_KEY = 'guyanese_vocab_v2_unreadable'; // Where a legacy deck that can't be parsed is kept
+
+export const VOCABULARY_STORE = 'vocabulary';
+export const IMAGE_STORE = 'images';
+export const AUDIO_STORE = 'audio';
+export const META_STORE = 'meta';
+export const LIVE_SESSION_STORE = 'liveSessions';
+export const CORRECTION_STORE = 'corrections';
+export const ACTIVITY_STORE = 'activity';
+export const DECK_STORE = 'decks';
+export const REVISION_STORE = 'cardRevisions';
+export const RECORDING_STORE = 'liveRecordings';
+
+const IMAGE_MIME_TYPE = 'image/jpeg';
+const AUDIO_MIME_TYPE = 'audio/pcm;rate=24000';
+const INITIALIZED_KEY = 'vocabularyInitialized';
+
+// Card fields kept in the vocabulary store; media lives in the image and audio stores keyed by card id.
+type StoredVocabularyItem = Omit<VocabularyItem, 'audioBase64' | 'imageBase64'>;
+
+// Revisions keep their media inline as Blobs, since each revision may hold a different image or recording.
+type StoredCardRevision = Omit<CardRevision, 'previous'> & {
+  previous: Omit<CardFields, 'audioBase64' | 'imageBase64'> & { audio: Blob | null; image: Blob | null };
+};
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+}
+
+function splitVocabularyItem(item: VocabularyItem): { record: StoredVocabularyItem; image: Blob | null; audio: Blob | null } {
+  const { audioBase64, imageBase64, ...record } = item;
+  return {
+    record,
+    image: imageBase64 ? new Blob([decode(imageBase64)], { type: IMAGE_MIME_TYPE }) : null,
+    audio: audioBase64 ? new Blob([decode(audioBase64)], { type: AUDIO_MIME_TYPE }) : null,
+  };
+}
+
+async function blobToBase64(blob: Blob | undefined): Promise<string | null> {
+  return blob ? encode(new Uint8Array(await blob.arrayBuffer())) : null;
+}
+
+function toStoredRevision(revision: CardRevision): StoredCardRevision {
+  const { audioBase64, imageBase64, ...fields } = revision.previous;
+  return {
+    ...revision,
+    previous: {
+      ...fields,
+      image: imageBase64 ? new Blob([decode(imageBase64)], { type: IMAGE_MIME_TYPE }) : null,
+      audio: audioBase64 ? new Blob([decode(audioBase64)], { type: AUDIO_MIME_TYPE }) : null,
+    },
+  };
+}
+
+async function fromStoredRevision(stored: StoredCardRevision): Promise<CardRevision> {
+  const { audio, image, ...fields } = stored.previous;
+  return {
+    ...stored,
+    previous: { ...fields, audioBase64: await blobToBase64(audio ?? undefined), imageBase64: await blobToBase64(image ?? undefined) },
+  };
+}
+
+// Ordered schema migrations. Append new entries; never edit one that has shipped.
+// Reads the deck the app kept in localStorage, skipping entries without an id; null if it isn't a list.
+function parseLegacyVocabulary(stored: string): VocabularyItem[] | null {
+  try {
+    const items: unknown = JSON.parse(stored);
+    if (!Array.isArray(items)) return null;
+    return items.filter((item): item is VocabularyItem => !!item && typeof item === 'object' && typeof item.id === 'string');
+  } catch {
+    return null;
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create vocabulary, media and meta stores',
+    migrate: (db) => {
+      const vocabulary = db.createObjectStore(VOCABULARY_STORE, { keyPath: 'id' });
+      vocabulary.createIndex('timestamp', 'timestamp');
+      db.createObjectStore(IMAGE_STORE);
+      db.createObjectStore(AUDIO_STORE);
+      db.createObjectStore(META_STORE);
+    },
+  },
+  {
+    version: 2,
+    description: `Move the deck out of the "${LEGACY_VOCAB_KEY}" localStorage key`,
+    migrate: (_db, transaction) => {
+      const stored = localStorage.getItem(LEGACY_VOCAB_KEY);
+      if (!stored) return;
+      const items = parseLegacyVocabulary(stored);
+      if (!items) {
+        // Throwing here would abort the upgrade and lock the learner out of the database for good,
+        // so the unreadable copy is set aside for recovery and the app starts without it.
+        console.error(`Could not read the deck in "${LEGACY_VOCAB_KEY}"; it was kept in "${LEGACY_VOCAB_BACKUP_KEY}".`);
+        localStorage.setItem(LEGACY_VOCAB_BACKUP_KEY, stored);
+        localStorage.removeItem(LEGACY_VOCAB_KEY);
+        return;
+      }
+      for (const item of items) {
+        const { record, image, audio } = splitVocabularyItem(item);
+        transaction.objectStore(VOCABULARY_STORE).put(record);
+        if (image) transaction.objectStore(IMAGE_STORE).put(image, item.id);
+        if (audio) transaction.objectStore(AUDIO_STORE).put(audio, item.id);
+      }
+      transaction.objectStore(META_STORE).put(true, INITIALIZED_KEY);
+      // Only drop the legacy copy once the migrated data is committed.
+      transaction.addEventListener('complete', () => localStorage.removeItem(LEGACY_VOCAB_KEY));
+    },
+  },
+  {
+    version: 3,
+    description: 'Add Live Immersion session transcripts',
+    migrate: (db) => {
+      const sessions = db.createObjectStore(LIVE_SESSION_STORE, { keyPath: 'id' });
+      sessions.createIndex('startedAt', 'startedAt');
+    },
+  },
+  {
+    version: 4,
+    description: 'Add community corrections',
+    migrate: (db) => {
+      const corrections = db.createObjectStore(CORRECTION_STORE, { keyPath: 'id' });
+      corrections.createIndex('status', 'status');
+    },
+  },
+  {
+    version: 5,
+    description: 'Add the learner activity log',
+    migrate: (db) => {
+      const activity = db.createObjectStore(ACTIVITY_STORE, { keyPath: 'id' });
+      activity.createIndex('timestamp', 'timestamp');
+    },
+  },
+  {
+    version: 6,
+    description: 'Add named decks',
+    migrate: (db) => {
+      db.createObjectStore(DECK_STORE, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 7,
+    description: 'Add card revision history',
+    migrate: (db) => {
+      const revisions = db.createObjectStore(REVISION_STORE, { keyPath: 'id' });
+      revisions.createIndex('itemId', 'itemId');
+    },
+  },
+  {
+    version: 8,
+    description: 'Add Live Immersion session recordings',
+    migrate: (db) => {
+      db.createObjectStore(RECORDING_STORE);
+    },
+  },
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Wraps an IDBRequest in a Promise.
+ * @param request The request to await.
+ * @returns A Promise that resolves with the request result.
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves when a transaction commits and rejects if it errors or aborts (e.g. on QuotaExceededError).
+ * @param transaction The transaction to await.
+ * @returns A Promise that settles with the transaction.
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Storage transaction was aborted.'));
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the app database, running any pending schema migrations in order.
+ * @returns A Promise that resolves with the shared database connection.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!window.indexedDB) {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const transaction = request.transaction!;
+        for (const migration of MIGRATIONS) {
+          if (migration.version > event.oldVersion) migration.migrate(db, transaction);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer tab upgrade the schema instead of blocking it.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+      request.onblocked = () => console.warn('Database upgrade is waiting for other tabs to close.');
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Loads the full deck, re-attaching images and audio as base64.
+ * @returns The saved items sorted newest first, or null if the deck has never been saved (first run).
+ */
+export async function loadVocabulary(): Promise<VocabularyItem[] | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction([VOCABULARY_STORE, IMAGE_STORE, AUDIO_STORE, META_STORE], 'readonly');
+  const [initialized, records, imageKeys, images, audioKeys, audio] = await Promise.all([
+    requestToPromise(transaction.objectStore(META_STORE).get(INITIALIZED_KEY)),
+    requestToPromise(transaction.objectStore(VOCABULARY_STORE).getAll() as IDBRequest<StoredVocabularyItem[]>),
+    requestToPromise(transaction.objectStore(IMAGE_STORE).getAllKeys()),
+    requestToPromise(transaction.objectStore(IMAGE_STORE).getAll() as IDBRequest<Blob[]>),
+    requestToPromise(transaction.objectStore(AUDIO_STORE).getAllKeys()),
+    requestToPromise(transaction.objectStore(AUDIO_STORE).getAll() as IDBRequest<Blob[]>),
+  ]);
+  if (!initialized) return null;
+
+  const imagesById = new Map(imageKeys.map((key, i) => [String(key), images[i]]));
+  const audioById = new Map(audioKeys.map((key, i) => [String(key), audio[i]]));
+  const items = await Promise.all(records.map(async (record): Promise<VocabularyItem> => ({
+    ...record,
+    imageBase64: await blobToBase64(imagesById.get(record.id)),
+    audioBase64: await blobToBase64(audioById.get(record.id)),
+  })));
+  return items.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Persists the difference between two versions of the deck in a single transaction.
+ * Items are compared by reference, so only cards that were replaced (edited) are rewritten.
+ * Deleting a card also deletes its revision history.
+ * @param previous The deck as it was last successfully saved.
+ * @param next The current deck.
+ * @returns A Promise that resolves once the changes are committed; on failure nothing is written.
+ */
+export async function saveVocabularyChanges(previous: VocabularyItem[], next: VocabularyItem[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([VOCABULARY_STORE, IMAGE_STORE, AUDIO_STORE, META_STORE, REVISION_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  const previousById = new Map(previous.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+
+  for (const item of next) {
+    const before = previousById.get(item.id);
+    if (before === item) continue;
+    const { record, image, audio } = splitVocabularyItem(item);
+    transaction.objectStore(VOCABULARY_STORE).put(record);
+    if (!before || before.imageBase64 !== item.imageBase64) {
+      if (image) transaction.objectStore(IMAGE_STORE).put(image, item.id);
+      else transaction.objectStore(IMAGE_STORE).delete(item.id);
+    }
+    if (!before || before.audioBase64 !== item.audioBase64) {
+      if (audio) transaction.objectStore(AUDIO_STORE).put(audio, item.id);
+      else transaction.objectStore(AUDIO_STORE).delete(item.id);
+    }
+  }
+  for (const item of previous) {
+    if (nextIds.has(item.id)) continue;
+    transaction.objectStore(VOCABULARY_STORE).delete(item.id);
+    transaction.objectStore(IMAGE_STORE).delete(item.id);
+    transaction.objectStore(AUDIO_STORE).delete(item.id);
+    const revisions = transaction.objectStore(REVISION_STORE);
+    const revisionKeys = revisions.index('itemId').getAllKeys(item.id);
+    revisionKeys.onsuccess = () => revisionKeys.result.forEach(key => revisions.delete(key));
+  }
+  transaction.objectStore(META_STORE).put(true, INITIALIZED_KEY);
+  return done;
+}
+
+/**
+ * Saves (or overwrites) a Live Immersion session transcript.
+ * @param session The session to save.
+ */
+export async function saveLiveSession(session: LiveSessionTranscript): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(LIVE_SESSION_STORE, 'readwrite');
+  transaction.objectStore(LIVE_SESSION_STORE).put(session);
+  return transactionDone(transaction);
+}
+
+/**
+ * Loads all saved Live Immersion sessions.
+ * @returns The sessions, newest first.
+ */
+export async function loadLiveSessions(): Promise<LiveSessionTranscript[]> {
+  const db = await openDatabase();
+  const sessions = await requestToPromise(
+    db.transaction(LIVE_SESSION_STORE, 'readonly').objectStore(LIVE_SESSION_STORE).getAll() as IDBRequest<LiveSessionTranscript[]>,
+  );
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/**
+ * Deletes a saved Live Immersion session and its recording.
+ * @param id The session id.
+ */
+export async function deleteLiveSession(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([LIVE_SESSION_STORE, RECORDING_STORE], 'readwrite');
+  transaction.objectStore(LIVE_SESSION_STORE).delete(id);
+  transaction.objectStore(RECORDING_STORE).delete(id);
+  return transactionDone(transaction);
+}
+
+/**
+ * Saves a session's mixed recording as raw 16-bit PCM. Its sample rate is kept on the session.
+ * @param sessionId The session id.
+ * @param samples The mixed samples.
+ */
+export async function saveSessionRecording(sessionId: string, samples: Float32Array): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(RECORDING_STORE, 'readwrite');
+  transaction.objectStore(RECORDING_STORE).put(float32ToInt16(samples).buffer, sessionId);
+  return transactionDone(transaction);
+}
+
+/**
+ * Loads a session's recording.
+ * @param sessionId The session id.
+ * @returns The samples, or null if the session wasn't recorded.
+ */
+export async function loadSessionRecording(sessionId: string): Promise<Float32Array | null> {
+  const db = await openDatabase();
+  const pcm = await requestToPromise(
+    db.transaction(RECORDING_STORE, 'readonly').objectStore(RECORDING_STORE).get(sessionId) as IDBRequest<ArrayBuffer | undefined>,
+  );
+  return pcm ? pcm16ToFloat32(new Uint8Array(pcm)) : null;
+}
+
+/**
+ * Saves (or overwrites) a community correction.
+ * @param correction The correction to save.
+ */
+export async function saveCorrection(correction: Correction): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(CORRECTION_STORE, 'readwrite');
+  transaction.objectStore(CORRECTION_STORE).put(correction);
+  return transactionDone(transaction);
+}
+
+/**
+ * Loads all community corrections.
+ * @returns The corrections, newest first.
+ */
+export async function loadCorrections(): Promise<Correction[]> {
+  const db = await openDatabase();
+  const corrections = await requestToPromise(
+    db.transaction(CORRECTION_STORE, 'readonly').objectStore(CORRECTION_STORE).getAll() as IDBRequest<Correction[]>,
+  );
+  return corrections.sort((a, b) => b.submittedAt - a.submittedAt);
+}
+
+/**
+ * Saves (or renames) a deck.
+ * @param deck The deck to save.
+ */
+export async function saveDeck(deck: Deck): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(DECK_STORE, 'readwrite');
+  transaction.objectStore(DECK_STORE).put(deck);
+  return transactionDone(transaction);
+}
+
+/**
+ * Deletes a deck. Its cards are not touched; callers move them first.
+ * @param id The deck id.
+ */
+export async function deleteDeck(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(DECK_STORE, 'readwrite');
+  transaction.objectStore(DECK_STORE).delete(id);
+  return transactionDone(transaction);
+}
+
+/**
+ * Loads all named decks.
+ * @returns The decks, oldest first.
+ */
+export async function loadDecks(): Promise<Deck[]> {
+  const db = await openDatabase();
+  const decks = await requestToPromise(
+    db.transaction(DECK_STORE, 'readonly').objectStore(DECK_STORE).getAll() as IDBRequest<Deck[]>,
+  );
+  return decks.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Saves a card revision.
+ * @param revision The revision to save.
+ */
+export async function saveCardRevision(revision: CardRevision): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(REVISION_STORE, 'readwrite');
+  transaction.objectStore(REVISION_STORE).put(toStoredRevision(revision));
+  return transactionDone(transaction);
+}
+
+/**
+ * Loads a card's revision history.
+ * @param itemId The card id.
+ * @returns The revisions, newest first.
+ */
+export async function loadCardRevisions(itemId: string): Promise<CardRevision[]> {
+  const db = await openDatabase();
+  const stored = await requestToPromise(
+    db.transaction(REVISION_STORE, 'readonly').objectStore(REVISION_STORE).index('itemId').getAll(itemId) as IDBRequest<StoredCardRevision[]>,
+  );
+  const revisions = await Promise.all(stored.map(fromStoredRevision));
+  return revisions.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Appends events to the activity log.
+ * @param events The events to save.
+ */
+export async function saveActivityEvents(events: ActivityEvent[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(ACTIVITY_STORE, 'readwrite');
+  events.forEach(event => transaction.objectStore(ACTIVITY_STORE).put(event));
+  return transactionDone(transaction);
+}
+
+/**
+ * Loads the whole activity log.
+ * @returns The events, oldest first.
+ */
+export async function loadActivityLog(): Promise<ActivityEvent[]> {
+  const db = await openDatabase();
+  const events = await requestToPromise(
+    db.transaction(ACTIVITY_STORE, 'readonly').objectStore(ACTIVITY_STORE).getAll() as IDBRequest<ActivityEvent[]>,
+  );
+  return events.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Reads how much of the browser's storage quota this origin is using.
+ * @returns The usage estimate, or null if the Storage API is unavailable.
+ */
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null;
+  const [estimate, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+  ]);
+  return { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0, persisted };
+}
+
+/**
+ * Asks the browser not to evict this origin's data under storage pressure.
+ * @returns True if storage is (now) persistent.
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  return navigator.storage?.persist ? navigator.storage.persist() : false;
+}
+
+/**
+ * Formats a byte count for display.
+ * @param bytes The number of bytes.
+ * @returns A human-readable size such as "3.2 MB".
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
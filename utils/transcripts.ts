@@ -0,0 +1,106 @@
+// Turn-segmented Live Immersion transcripts and their text/SRT export
+
+import { LiveSessionTranscript, TranscriptSpeaker, TranscriptTurn } from '../types';
+import { createId } from './ids';
+
+/**
+ * Adds a streamed transcription fragment to the transcript. Fragments join the speaker's
+ * open turn; once a turn is final the next fragment starts a new one.
+ * @param turns The current turns.
+ * @param speaker Who the fragment belongs to.
+ * @param text The fragment text.
+ * @param now The time the fragment arrived in epoch millis.
+ * @returns The updated turns (the input is not mutated).
+ */
+export function appendTranscriptFragment(
+  turns: TranscriptTurn[],
+  speaker: TranscriptSpeaker,
+  text: string,
+  now: number = Date.now(),
+): TranscriptTurn[] {
+  if (!text) return turns;
+  let openIndex = -1;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    if (turns[i].speaker === speaker && !turns[i].isFinal) {
+      openIndex = i;
+      break;
+    }
+  }
+  if (openIndex === -1) {
+    return [...turns, { id: createId(), speaker, text, startedAt: now, endedAt: now, isFinal: false }];
+  }
+  return turns.map((turn, i) => (i === openIndex ? { ...turn, text: turn.text + text, endedAt: now } : turn));
+}
+
+/**
+ * Closes every open turn, as happens on a `turnComplete` or `interrupted` server event.
+ * @param turns The current turns.
+ * @param interrupted Whether the assistant was cut off by the learner.
+ * @returns The updated turns.
+ */
+export function completeOpenTurns(turns: TranscriptTurn[], interrupted: boolean = false): TranscriptTurn[] {
+  if (turns.every(turn => turn.isFinal)) return turns;
+  return turns.map(turn => {
+    if (turn.isFinal) return turn;
+    return { ...turn, isFinal: true, interrupted: interrupted && turn.speaker === 'assistant' ? true : turn.interrupted };
+  });
+}
+
+const SPEAKER_LABELS: Record<TranscriptSpeaker, string> = { user: 'You', assistant: 'Assistant' };
+
+/**
+ * Formats an offset for an SRT cue, e.g. "00:01:02,500".
+ * @param ms The offset from the start of the session in milliseconds.
+ * @returns The SRT timestamp.
+ */
+export function formatSrtTimestamp(ms: number): string {
+  const clamped = Math.max(0, Math.round(ms));
+  const pad = (n: number, width: number = 2) => n.toString().padStart(width, '0');
+  const hours = Math.floor(clamped / 3600000);
+  const minutes = Math.floor((clamped % 3600000) / 60000);
+  const seconds = Math.floor((clamped % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)},${pad(clamped % 1000, 3)}`;
+}
+
+/**
+ * Formats an offset as a short clock, e.g. "1:02".
+ * @param ms The offset in milliseconds.
+ * @returns The formatted offset.
+ */
+export function formatOffset(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Renders a session as a readable plain-text transcript.
+ * @param session The saved session.
+ * @returns The transcript text.
+ */
+export function transcriptToText(session: LiveSessionTranscript): string {
+  const header = [
+    `Live Immersion session — ${new Date(session.startedAt).toLocaleString()}`,
+    `${session.inputLanguage} → ${session.outputLanguage} • ${session.voice} voice`,
+    '',
+  ];
+  const lines = session.turns.map(turn =>
+    `[${formatOffset(turn.startedAt - session.startedAt)}] ${SPEAKER_LABELS[turn.speaker]}: ${turn.text.trim()}${turn.interrupted ? ' (interrupted)' : ''}`,
+  );
+  return [...header, ...lines].join('\n');
+}
+
+/**
+ * Renders a session as SRT subtitles, one cue per turn, timed from the session start.
+ * Cues are given at least one second so very short turns remain readable.
+ * @param session The saved session.
+ * @returns The SRT text.
+ */
+export function transcriptToSrt(session: LiveSessionTranscript): string {
+  return session.turns
+    .map((turn, index) => {
+      const start = turn.startedAt - session.startedAt;
+      const end = Math.max(turn.endedAt - session.startedAt, start + 1000);
+      return `${index + 1}\n${formatSrtTimestamp(start)} --> ${formatSrtTimestamp(end)}\n${SPEAKER_LABELS[turn.speaker]}: ${turn.text.trim()}\n`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { createCorrection } from './corrections';
+import { getKnowledgeEntry } from '../knowledge';
+import { buildTranslationPrompt, cleanGlossWord, getGlossLanguage, glossWordToVocabularyItem, normalizeTranslationResult } from './translation';
+
+const request = { text: 'The water is cold.', sourceLanguage: 'English', targetLanguage: 'Warrau' };
+
+describe('getGlossLanguage', () => {
+  it('glosses the tribal-language side of a pair', () => {
+    expect(getGlossLanguage('English', 'Warrau')).toBe('Warrau');
+    expect(getGlossLanguage('Warrau', 'English')).toBe('Warrau');
+    expect(getGlossLanguage('Macushi', 'Wapishana')).toBe('Wapishana');
+  });
+});
+
+describe('buildTranslationPrompt', () => {
+  it('names the pair, the glossed side and ends with the text', () => {
+    const prompt = buildTranslationPrompt(request);
+    expect(prompt).toContain('Translate the following English text into Warrau');
+    expect(prompt).toContain('interlinear gloss of the translation (the Warrau side)');
+    expect(prompt.endsWith('English text:\nThe water is cold.')).toBe(true);
+    expect(prompt).not.toContain('reference material');
+  });
+
+  it('includes knowledge entries and approved corrections', () => {
+    const correction = { ...createCorrection({ target: 'translation', language: 'Warrau', context: 'ho', original: 'River', proposed: 'Water', note: '', submittedBy: 'Ana' }), status: 'approved' as const };
+    const prompt = buildTranslationPrompt(request, [getKnowledgeEntry('warrau.lex.ho')!], [correction]);
+    expect(prompt).toContain('[kb:warrau.lex.ho]');
+    expect(prompt).toContain('"Water", not "River"');
+  });
+});
+
+describe('normalizeTranslationResult', () => {
+  it('fills in the request and drops empty words', () => {
+    const result = normalizeTranslationResult({
+      targetText: ' Ho ... ',
+      words: [{ word: 'Ho', gloss: 'water', translation: 'water', pronunciation: '/ho/' }, { word: ' ', gloss: '' }],
+      confidence: 0.4,
+      notes: 'Tentative.',
+    }, request);
+    expect(result).toEqual({
+      sourceLanguage: 'English',
+      targetLanguage: 'Warrau',
+      sourceText: 'The water is cold.',
+      targetText: 'Ho ...',
+      glossLanguage: 'Warrau',
+      words: [{ word: 'Ho', gloss: 'water', translation: 'water', pronunciation: '/ho/' }],
+      confidence: 0.4,
+      notes: 'Tentative.',
+    });
+  });
+
+  it('rescales percentages and clamps confidence', () => {
+    expect(normalizeTranslationResult({ confidence: 85 }, request).confidence).toBeCloseTo(0.85);
+    expect(normalizeTranslationResult({ confidence: -1 }, request).confidence).toBe(0);
+    expect(normalizeTranslationResult({ confidence: 'high' }, request).confidence).toBe(0);
+  });
+
+  it('tolerates a missing response', () => {
+    expect(normalizeTranslationResult(null, request)).toMatchObject({ targetText: '', words: [], notes: '' });
+  });
+});
+
+describe('glossWordToVocabularyItem', () => {
+  it('strips punctuation and keeps the pronunciation', () => {
+    expect(cleanGlossWord('"ho,"')).toBe('ho');
+    const item = glossWordToVocabularyItem({ word: 'ho.', gloss: 'water', translation: 'water', pronunciation: '/ho/' }, 'Warrau', 5);
+    expect(item).toMatchObject({ word: 'ho', wordLanguage: 'Warrau', translation: 'water', translationLanguage: 'English', phoneticTranscription: '/ho/', timestamp: 5 });
+  });
+
+  it('falls back to the gloss and leaves an unknown pronunciation empty', () => {
+    const item = glossWordToVocabularyItem({ word: 'ho', gloss: 'water', translation: '', pronunciation: '' }, 'Warrau');
+    expect(item.translation).toBe('water');
+    expect(item.phoneticTranscription).toBeNull();
+  });
+});
@@ -0,0 +1,129 @@
+// Structured translation with interlinear glossing
+
+import { Schema, Type } from '@google/genai';
+import { Correction, InterlinearWord, KnowledgeEntry, TranslationResult, VocabularyItem } from '../types';
+import { formatCorrectionsContext } from './corrections';
+import { formatKnowledgeContext } from './knowledge';
+import { createId } from './ids';
+
+export const TRANSLATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    targetText: { type: Type.STRING, description: 'The translation.' },
+    words: {
+      type: Type.ARRAY,
+      description: 'One entry per word of the glossed text, in order.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          word: { type: Type.STRING, description: 'The word exactly as written in the glossed text.' },
+          gloss: { type: Type.STRING, description: 'Interlinear gloss using Leipzig conventions, e.g. "water-POSS".' },
+          translation: { type: Type.STRING, description: 'Plain English meaning of the word on its own.' },
+          pronunciation: { type: Type.STRING, description: 'IPA transcription inside slashes, or empty if unknown.' },
+        },
+        required: ['word', 'gloss', 'translation', 'pronunciation'],
+      },
+    },
+    confidence: { type: Type.NUMBER, description: 'Confidence in the translation from 0 to 1.' },
+    notes: { type: Type.STRING, description: 'Caveats, dialect differences, or words that could not be translated.' },
+  },
+  required: ['targetText', 'words', 'confidence', 'notes'],
+};
+
+export interface TranslationRequest {
+  text: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+/**
+ * Picks which side of a translation to gloss: the tribal-language text, or the target if both are tribal languages.
+ * @param sourceLanguage The language being translated from.
+ * @param targetLanguage The language being translated to.
+ * @returns The language whose text gets an interlinear gloss.
+ */
+export function getGlossLanguage(sourceLanguage: string, targetLanguage: string): string {
+  return targetLanguage === 'English' && sourceLanguage !== 'English' ? sourceLanguage : targetLanguage;
+}
+
+/**
+ * Builds the translation prompt, grounded in knowledge base entries and approved corrections.
+ * @param request The text and language pair.
+ * @param knowledge Relevant knowledge base entries.
+ * @param corrections Approved community corrections for these languages.
+ * @returns The prompt text.
+ */
+export function buildTranslationPrompt(request: TranslationRequest, knowledge: KnowledgeEntry[] = [], corrections: Correction[] = []): string {
+  const { text, sourceLanguage, targetLanguage } = request;
+  const glossLanguage = getGlossLanguage(sourceLanguage, targetLanguage);
+  const glossedSide = glossLanguage === sourceLanguage ? 'source text' : 'translation';
+  let prompt = `Translate the following ${sourceLanguage} text into ${targetLanguage}. Then give an interlinear gloss of the ${glossedSide} (the ${glossLanguage} side), one entry per word, with a plain English meaning and IPA for each word. Rate your confidence from 0 to 1; be honest that data for Guyanese indigenous languages is scarce, and explain any doubtful words in the notes. Never invent words: if you do not know a word, keep it in English, say so in the notes and lower your confidence.`;
+  if (knowledge.length > 0) {
+    prompt += `\n\nUse this vetted reference material where it applies:\n${formatKnowledgeContext(knowledge)}`;
+  }
+  if (corrections.length > 0) {
+    prompt += `\n\nCommunity reviewers approved these corrections; they override other sources:\n${formatCorrectionsContext(corrections)}`;
+  }
+  return `${prompt}\n\n${sourceLanguage} text:\n${text}`;
+}
+
+/**
+ * Validates a model response and completes it with the request details.
+ * @param raw The parsed JSON response.
+ * @param request The original request.
+ * @returns The translation result.
+ */
+export function normalizeTranslationResult(raw: any, request: TranslationRequest): TranslationResult {
+  const confidence = Number(raw?.confidence);
+  // Some responses use a 0-100 scale despite the schema.
+  const scaled = confidence > 1 ? confidence / 100 : confidence;
+  const words: InterlinearWord[] = Array.isArray(raw?.words)
+    ? raw.words
+      .map((w: any) => ({
+        word: String(w?.word ?? '').trim(),
+        gloss: String(w?.gloss ?? '').trim(),
+        translation: String(w?.translation ?? '').trim(),
+        pronunciation: String(w?.pronunciation ?? '').trim(),
+      }))
+      .filter((w: InterlinearWord) => w.word)
+    : [];
+  return {
+    sourceLanguage: request.sourceLanguage,
+    targetLanguage: request.targetLanguage,
+    sourceText: request.text,
+    targetText: String(raw?.targetText ?? '').trim(),
+    glossLanguage: getGlossLanguage(request.sourceLanguage, request.targetLanguage),
+    words,
+    confidence: Number.isFinite(scaled) ? Math.min(1, Math.max(0, scaled)) : 0,
+    notes: String(raw?.notes ?? '').trim(),
+  };
+}
+
+/**
+ * Strips punctuation attached to a glossed word.
+ * @param word The word as it appears in the text.
+ * @returns The bare word.
+ */
+export function cleanGlossWord(word: string): string {
+  return word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+}
+
+/**
+ * Turns a glossed word into a new vocabulary card.
+ * @param word The glossed word.
+ * @param language The language of the glossed text.
+ * @param now Creation time.
+ * @returns The card.
+ */
+export function glossWordToVocabularyItem(word: InterlinearWord, language: string, now: number = Date.now()): VocabularyItem {
+  return {
+    id: createId(),
+    word: cleanGlossWord(word.word),
+    wordLanguage: language,
+    translation: word.translation || word.gloss,
+    translationLanguage: 'English',
+    phoneticTranscription: word.pronunciation || null,
+    audioBase64: null,
+    timestamp: now,
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { buildExtractionPrompt, extractedTermToVocabularyItem, normalizeExtractedTerms } from './vocabularyExtraction';
+
+describe('buildExtractionPrompt', () => {
+  it('lists the tribal languages and ends with the text', () => {
+    const prompt = buildExtractionPrompt('Water is maimy.', 'Macushi');
+    expect(prompt).toContain('mostly about Macushi');
+    expect(prompt).toContain('Wapishana');
+    expect(prompt).not.toMatch(/languages: English/);
+    expect(prompt.endsWith('Text:\nWater is maimy.')).toBe(true);
+  });
+});
+
+describe('normalizeExtractedTerms', () => {
+  const existing = new Set(['maimy|macushi']);
+
+  it('cleans terms, drops repeats and marks ones already in the deck', () => {
+    const terms = normalizeExtractedTerms({
+      terms: [
+        { word: '"Maimy,"', language: 'Macushi', translation: 'water', pronunciation: '/maɪmi/' },
+        { word: 'tuna', language: 'macushi', translation: 'river', pronunciation: '' },
+        { word: 'Tuna', language: 'Macushi', translation: 'river', pronunciation: '' },
+        { word: 'wei', language: 'Macushi', translation: ' sun ', pronunciation: '/wei/' },
+      ],
+    }, existing);
+    expect(terms).toEqual([
+      { word: 'Maimy', language: 'Macushi', translation: 'water', pronunciation: '/maɪmi/', isDuplicate: true },
+      { word: 'tuna', language: 'Macushi', translation: 'river', pronunciation: '', isDuplicate: false },
+      { word: 'wei', language: 'Macushi', translation: 'sun', pronunciation: '/wei/', isDuplicate: false },
+    ]);
+  });
+
+  it('skips English, unknown languages and terms without a translation', () => {
+    const terms = normalizeExtractedTerms({
+      terms: [
+        { word: 'water', language: 'English', translation: 'water' },
+        { word: 'agua', language: 'Spanish', translation: 'water' },
+        { word: 'ho', language: 'Warrau', translation: '' },
+      ],
+    }, existing);
+    expect(terms).toEqual([]);
+    expect(normalizeExtractedTerms(null, existing)).toEqual([]);
+  });
+});
+
+describe('extractedTermToVocabularyItem', () => {
+  it('creates an English-translated card and leaves an unknown pronunciation empty', () => {
+    const item = extractedTermToVocabularyItem({ word: 'tuna', language: 'Macushi', translation: 'river', pronunciation: '', isDuplicate: false }, 7);
+    expect(item).toMatchObject({ word: 'tuna', wordLanguage: 'Macushi', translation: 'river', translationLanguage: 'English', phoneticTranscription: null, timestamp: 7 });
+  });
+});
@@ -0,0 +1,81 @@
+// Extraction of vocabulary cards from assistant responses and live transcripts
+
+import { Schema, Type } from '@google/genai';
+import { ExtractedTerm, VocabularyItem } from '../types';
+import { GUYANESE_LANGUAGES } from '../constants';
+import { vocabularyKey } from './deckTransfer';
+import { cleanGlossWord } from './translation';
+import { createId } from './ids';
+
+const TRIBAL_LANGUAGES = GUYANESE_LANGUAGES.filter(l => l !== 'English');
+
+export const EXTRACTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    terms: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          word: { type: Type.STRING, description: 'The term exactly as written, without surrounding punctuation.' },
+          language: { type: Type.STRING, enum: TRIBAL_LANGUAGES, description: 'The language the term belongs to.' },
+          translation: { type: Type.STRING, description: 'Its English meaning.' },
+          pronunciation: { type: Type.STRING, description: 'IPA transcription inside slashes, or empty if unknown.' },
+        },
+        required: ['word', 'language', 'translation', 'pronunciation'],
+      },
+    },
+  },
+  required: ['terms'],
+};
+
+/**
+ * Builds the prompt asking the model to list every tribal-language term in a text.
+ * @param text The response or transcript to scan.
+ * @param languageHint The language the text is expected to teach.
+ * @returns The prompt text.
+ */
+export function buildExtractionPrompt(text: string, languageHint: string): string {
+  return `The text below comes from a lesson about Guyanese indigenous languages, mostly about ${languageHint}. List every word or short phrase in it that is in one of these languages: ${TRIBAL_LANGUAGES.join(', ')}. For each one give the language, its English meaning as stated or implied by the text, and its IPA pronunciation if you know it. Only list terms that actually appear in the text, each once; leave out English words and anything you are unsure is a real term.\n\nText:\n${text}`;
+}
+
+/**
+ * Cleans the model's term list, drops repeats and marks terms already in the deck.
+ * @param raw The parsed JSON response.
+ * @param existingKeys vocabularyKey of every card in the deck.
+ * @returns The terms in the order they were found.
+ */
+export function normalizeExtractedTerms(raw: any, existingKeys: Set<string>): ExtractedTerm[] {
+  const seen = new Set<string>();
+  const terms: ExtractedTerm[] = [];
+  for (const t of Array.isArray(raw?.terms) ? raw.terms : []) {
+    const word = cleanGlossWord(String(t?.word ?? '').trim());
+    const language = TRIBAL_LANGUAGES.find(l => l.toLowerCase() === String(t?.language ?? '').trim().toLowerCase());
+    const translation = String(t?.translation ?? '').trim();
+    if (!word || !language || !translation) continue;
+    const key = vocabularyKey({ word, wordLanguage: language });
+    if (seen.has(key)) continue;
+    seen.add(key);
+    terms.push({ word, language, translation, pronunciation: String(t?.pronunciation ?? '').trim(), isDuplicate: existingKeys.has(key) });
+  }
+  return terms;
+}
+
+/**
+ * Turns an extracted term into a new vocabulary card.
+ * @param term The term.
+ * @param now Creation time.
+ * @returns The card.
+ */
+export function extractedTermToVocabularyItem(term: ExtractedTerm, now: number = Date.now()): VocabularyItem {
+  return {
+    id: createId(),
+    word: term.word,
+    wordLanguage: term.language,
+    translation: term.translation,
+    translationLanguage: 'English',
+    phoneticTranscription: term.pronunciation || null,
+    audioBase64: null,
+    timestamp: now,
+  };
+}